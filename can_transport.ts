@@ -8,15 +8,26 @@ import type {
   AdapterStats,
   RxMeta,
   Unsubscribe,
-  SimulatorConfig,
   CanFilter,
+  MessageBus,
 } from '@commwatch/proto-core';
+import { encodeCanFrame, decodeCanFrame, decodeIsoTpMessage, canFrameMeta, CanBusStatistics, CAN_FRAME_EFF } from '@commwatch/proto-core';
+import { decodeCanErrorFrame, CAN_ERR_MASK } from './can-errors';
+import { listCanInterfaces, readCanInterface, canInterfaceDevice, bringUpCanInterface } from './can-link';
+import type { CanInterfaceInfo, CanLinkEnvironment } from './can-link';
 import { CANSimulator } from './can-simulator';
+import type { CANSimulatorConfig } from './can-simulator';
+import { IsoTpHandle } from './isotp';
+import { J1939Handle } from './j1939';
 
 export interface CANMessage {
   id: number;
   ext: boolean;
   rtr: boolean;
+  canfd?: boolean;
+  brs?: boolean;
+  esi?: boolean;
+  err?: boolean; // Error frame: the ID holds the error class, the data its details
   data: Buffer;
 }
 
@@ -25,32 +36,18 @@ export class CANAdapter implements TransportAdapter {
   name = 'CAN Bus';
   type = 'can' as const;
 
+  constructor(private bus?: MessageBus, private link: CanLinkEnvironment = {}) {}
+
   async listDevices(): Promise<DeviceInfo[]> {
-    // On Linux, scan for CAN interfaces
+    // On Linux, list SocketCAN interfaces with their state and bit timing in metadata
     if (process.platform === 'linux') {
-      try {
-        const { execSync } = require('child_process');
-        const output = execSync('ip link show type can', { encoding: 'utf8' });
-        const interfaces = output.match(/\d+: (\w+):/g)?.map((m: string) => m.split(': ')[1].replace(':', '')) || [];
-        
-        return interfaces.map((iface: string) => ({
-          id: `can:${iface}`,
-          name: `CAN Interface ${iface}`,
-          type: 'can' as const,
-          path: iface,
-        }));
-      } catch {
-        // If command fails, return virtual interface
-        return [{
-          id: 'can:vcan0',
-          name: 'Virtual CAN Interface (vcan0)',
-          type: 'can' as const,
-          path: 'vcan0',
-        }];
-      }
-    }
-
-    // On other platforms, return simulator
+      const interfaces = await listCanInterfaces(this.link);
+      if (interfaces.length > 0) {
+        return interfaces.map(canInterfaceDevice);
+      }
+    }
+
+    // Without SocketCAN interfaces, return simulator
     return [{
       id: 'can:simulator',
       name: 'CAN Simulator',
@@ -71,9 +68,19 @@ export class CANAdapter implements TransportAdapter {
           events: [],
           loop: true,
         },
-      });
+      }, options);
     }
 
+    const link = options.canBringUp
+      ? await this.bringUp(dev.path, options)
+      : await readCanInterface(dev.path, this.link);
+    // Bus load is computed at the interface's own bit rates unless given
+    const handleOptions = {
+      ...options,
+      canBitrate: options.canBitrate ?? link?.bitrate,
+      canDataBitrate: options.canDataBitrate ?? link?.dataBitrate,
+    };
+
     const channel = can.createRawChannel(dev.path, false);
     
     return new Promise((resolve, reject) => {
@@ -82,7 +89,9 @@ export class CANAdapter implements TransportAdapter {
       // Wait a bit for channel to be ready
       setTimeout(() => {
         try {
-          resolve(new CANHandle(channel, dev.path!, options));
+          const handle = new CANHandle(channel, dev.path!, handleOptions, dev.id, this.bus);
+          this.bus?.publish('device:connected', { device: dev });
+          resolve(this.wrap(handle, options));
         } catch (err) {
           reject(err);
         }
@@ -94,8 +103,29 @@ export class CANAdapter implements TransportAdapter {
     return true;
   }
 
-  async createSimulator(config: SimulatorConfig): Promise<AdapterHandle> {
-    return new CANSimulator(config);
+  // Without permission to configure it, an interface that is already up is used as it is
+  private async bringUp(ifname: string, options: AdapterOpenOptions): Promise<CanInterfaceInfo | null> {
+    try {
+      return await bringUpCanInterface(ifname, {
+        bitrate: options.canBitrate,
+        dataBitrate: options.canFD ? options.canDataBitrate : undefined,
+      }, this.link);
+    } catch (error) {
+      const link = await readCanInterface(ifname, this.link);
+      if (!link?.up) throw error;
+      console.error(`${(error as Error).message}; using ${ifname} as configured`);
+      return link;
+    }
+  }
+
+  // Transport-protocol layers on top of the raw frames
+  private wrap(handle: AdapterHandle, options: AdapterOpenOptions): AdapterHandle {
+    const isoTp = options.canIsoTp ? new IsoTpHandle(handle, options.canIsoTp, options.canFD) : handle;
+    return options.canJ1939 ? new J1939Handle(isoTp, options.canJ1939) : isoTp;
+  }
+
+  async createSimulator(config: CANSimulatorConfig, options: AdapterOpenOptions = {}): Promise<AdapterHandle> {
+    return this.wrap(new CANSimulator(config, options, this.bus), options);
   }
 }
 
@@ -111,13 +141,18 @@ class CANHandle implements AdapterHandle {
   private startTime = Date.now();
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
   private filters: CanFilter[] = [];
+  private kernelFilters = false; // Filters run in the socket, so frames arrive pre-filtered
+  private busStats: CanBusStatistics;
 
   constructor(
     private channel: any,
     private ifname: string,
-    private options: AdapterOpenOptions
+    private options: AdapterOpenOptions,
+    private deviceId: string,
+    private bus?: MessageBus
   ) {
     this.filters = options.canFilters || [];
+    this.busStats = new CanBusStatistics({ bitrate: options.canBitrate, dataBitrate: options.canDataBitrate });
     this.setupListeners();
     this.applyFilters();
   }
@@ -126,8 +161,13 @@ class CANHandle implements AdapterHandle {
     this.channel.addListener('onMessage', (msg: CANMessage) => {
       const timestamp = process.hrtime.bigint();
 
-      // Apply filters
-      if (this.filters.length > 0) {
+      if (msg.err) {
+        this.handleErrorFrame(msg, timestamp);
+        return;
+      }
+
+      // Apply filters, unless the socket already did
+      if (this.filters.length > 0 && !this.kernelFilters) {
         const matches = this.filters.some(filter => {
           const idMatch = (msg.id & filter.mask) === (filter.id & filter.mask);
           const extMatch = filter.extended === undefined || filter.extended === msg.ext;
@@ -137,71 +177,135 @@ class CANHandle implements AdapterHandle {
         if (!matches) return;
       }
 
-      // Encode CAN frame: [ID(4)] [DLC(1)] [DATA(0-8)]
-      const frame = new Uint8Array(5 + msg.data.length);
-      frame[0] = (msg.id >> 24) & 0xFF;
-      frame[1] = (msg.id >> 16) & 0xFF;
-      frame[2] = (msg.id >> 8) & 0xFF;
-      frame[3] = msg.id & 0xFF;
-      frame[4] = msg.data.length;
-      frame.set(msg.data, 5);
+      // Encode CAN frame: [ID+flags(4)] [FD flags+DLC(1)] [DATA(0-64)]
+      // The binding does not mark received FD frames, so their length tells
+      const fd = !!msg.canfd || !!msg.brs || !!msg.esi || msg.data.length > 8;
+      let frame: Uint8Array;
+      try {
+        frame = encodeCanFrame({
+          id: msg.id,
+          ext: msg.ext,
+          rtr: msg.rtr,
+          fd,
+          brs: !!msg.brs,
+          esi: !!msg.esi,
+          dlc: msg.rtr ? Math.min(msg.data.length, 8) : undefined,
+          data: msg.rtr ? undefined : msg.data,
+        });
+      } catch (error) {
+        this.stats.errors++;
+        this.bus?.publish('device:error', { deviceId: this.deviceId, error: (error as Error).message });
+        return;
+      }
 
       this.stats.bytesRx += frame.length;
       this.stats.messagesRx++;
+      this.busStats.add(frame, timestamp);
 
-      const meta: RxMeta = {
+      this.emit(frame, {
         timestamp,
         direction: 'rx',
         length: frame.length,
-        transportSpecific: {
-          canId: msg.id,
-          canExt: msg.ext,
-          canRtr: msg.rtr,
-          canDlc: msg.data.length,
-        },
-      };
-
-      this.readCallbacks.forEach(cb => {
-        try {
-          cb(frame, meta);
-        } catch (error) {
-          console.error('Error in read callback:', error);
-        }
+        transportSpecific: canFrameMeta(decodeCanFrame(frame)!),
       });
     });
 
     this.channel.addListener('onStopped', () => {
       console.log('CAN channel stopped');
+      this.bus?.publish('device:disconnected', { deviceId: this.deviceId });
+    });
+  }
+
+  // Error frames are reported with the error class as ID and the details as data
+  private handleErrorFrame(msg: CANMessage, timestamp: bigint): void {
+    const { error, state, txErrors, rxErrors } = decodeCanErrorFrame(msg.id, msg.data);
+    this.stats.errors++;
+    if (state) this.stats.canBusState = state;
+    if (txErrors !== undefined) this.stats.canTxErrors = txErrors;
+    if (rxErrors !== undefined) this.stats.canRxErrors = rxErrors;
+
+    this.bus?.publish('device:error', { deviceId: this.deviceId, error: error.message });
+
+    const frame = encodeCanFrame({ id: msg.id & CAN_ERR_MASK, ext: true, data: msg.data.subarray(0, 8) });
+    this.emit(frame, {
+      timestamp,
+      direction: 'rx',
+      length: frame.length,
+      error,
+      transportSpecific: {
+        canErrorFrame: true,
+        canBusState: this.stats.canBusState,
+        canTxErrors: this.stats.canTxErrors,
+        canRxErrors: this.stats.canRxErrors,
+      },
+    });
+  }
+
+  private emit(frame: Uint8Array, meta: RxMeta): void {
+    this.readCallbacks.forEach(cb => {
+      try {
+        cb(frame, meta);
+      } catch (error) {
+        console.error('Error in read callback:', error);
+      }
     });
   }
 
+  // Pushes the filters into the socket where the binding supports it, so
+  // unwanted frames never cross into Node, and subscribes to error frames
   private applyFilters(): void {
-    // SocketCAN filters would be applied here
-    // This is platform-specific and requires native bindings
+    if (typeof this.channel.setRxFilters === 'function') {
+      // Kernel filters also compare the EFF flag when the frame type is given
+      const filters = this.filters.length > 0
+        ? this.filters.map(filter => ({
+          id: (filter.id | (filter.extended ? CAN_FRAME_EFF : 0)) >>> 0,
+          mask: (filter.mask | (filter.extended === undefined ? 0 : CAN_FRAME_EFF)) >>> 0,
+        }))
+        : [{ id: 0, mask: 0 }];
+      try {
+        this.channel.setRxFilters(filters);
+        this.kernelFilters = true;
+      } catch (error) {
+        this.kernelFilters = false;
+        console.error(`SocketCAN filters not applied on ${this.ifname}, filtering in user space:`, (error as Error).message);
+      }
+    }
+
+    if (typeof this.channel.setErrorFilters === 'function') {
+      this.channel.setErrorFilters(CAN_ERR_MASK);
+    }
   }
 
   async write(frame: Uint8Array): Promise<void> {
-    if (frame.length < 5) {
-      throw new Error('Invalid CAN frame: too short');
+    const can = decodeCanFrame(frame);
+    if (!can) {
+      throw new Error(decodeIsoTpMessage(frame) ? 'ISO-TP messages require the canIsoTp option' : 'Invalid CAN frame: too short');
+    }
+    if (can.fd && !this.options.canFD) {
+      throw new Error('CAN-FD frames require the canFD option');
     }
-
-    const id = (frame[0] << 24) | (frame[1] << 16) | (frame[2] << 8) | frame[3];
-    const dlc = frame[4];
-    const data = Buffer.from(frame.slice(5, 5 + dlc));
 
     const msg: CANMessage = {
-      id,
-      ext: id > 0x7FF,
-      rtr: false,
-      data,
+      id: can.id,
+      ext: can.ext,
+      rtr: can.rtr,
+      // Remote frames carry the requested length but no data
+      data: can.rtr ? Buffer.alloc(can.dlc) : Buffer.from(can.data),
     };
 
     try {
-      this.channel.send(msg);
+      // send() copies into a classic 8-byte can_frame; FD frames go through sendFD()
+      if (can.fd) {
+        this.channel.sendFD({ id: msg.id, ext: msg.ext, fd_brs: can.brs, data: msg.data });
+      } else {
+        this.channel.send(msg);
+      }
       this.stats.bytesTx += frame.length;
       this.stats.messagesTx++;
+      this.busStats.add(frame, process.hrtime.bigint());
     } catch (error) {
       this.stats.errors++;
+      this.bus?.publish('device:error', { deviceId: this.deviceId, error: (error as Error).message });
       throw error;
     }
   }
@@ -229,305 +333,3561 @@ class CANHandle implements AdapterHandle {
 
   async getStats(): Promise<AdapterStats> {
     this.stats.uptime = Date.now() - this.startTime;
-    return { ...this.stats };
+    const bus = this.busStats.snapshot(process.hrtime.bigint());
+    return { ...this.stats, canBusLoad: bus.busLoad, canIds: bus.ids };
   }
 }
 
-// packages/transports-can/src/can-simulator.ts
-import type { AdapterHandle, AdapterStats, RxMeta, SimulatorConfig, Unsubscribe } from '@commwatch/proto-core';
+// packages/transports-can/src/can-errors.ts
+import type { CanBusState, FrameError } from '@commwatch/proto-core';
 
-export class CANSimulator implements AdapterHandle {
-  private stats: AdapterStats = {
-    bytesRx: 0,
-    bytesTx: 0,
-    messagesRx: 0,
-    messagesTx: 0,
-    errors: 0,
-    uptime: 0,
+// Error classes in the ID of SocketCAN error frames (linux/can/error.h)
+export const CAN_ERR_TX_TIMEOUT = 0x001;
+export const CAN_ERR_LOSTARB = 0x002;
+export const CAN_ERR_CRTL = 0x004;
+export const CAN_ERR_PROT = 0x008;
+export const CAN_ERR_TRX = 0x010;
+export const CAN_ERR_ACK = 0x020;
+export const CAN_ERR_BUSOFF = 0x040;
+export const CAN_ERR_BUSERROR = 0x080;
+export const CAN_ERR_RESTARTED = 0x100;
+export const CAN_ERR_CNT = 0x200;
+export const CAN_ERR_MASK = 0x1FFFFFFF; // All classes, for the socket's error filter
+
+// Controller status, data[1] of CAN_ERR_CRTL
+const CRTL_RX_OVERFLOW = 0x01;
+const CRTL_TX_OVERFLOW = 0x02;
+const CRTL_WARNING = 0x04 | 0x08;
+const CRTL_PASSIVE = 0x10 | 0x20;
+const CRTL_ACTIVE = 0x40;
+
+// Protocol violation types, data[2] of CAN_ERR_PROT
+const PROTOCOL_VIOLATIONS: [number, string][] = [
+  [0x01, 'bit error'],
+  [0x02, 'form error'],
+  [0x04, 'stuff error'],
+  [0x08, 'dominant bit error'],
+  [0x10, 'recessive bit error'],
+  [0x20, 'overload'],
+  [0x40, 'active error announcement'],
+  [0x80, 'transmit error'],
+];
+
+export interface CanErrorFrame {
+  error: FrameError; // Most severe condition; the message lists all of them
+  state?: CanBusState; // Set when the frame reports a controller state change
+  txErrors?: number; // TEC, when the driver reports counters
+  rxErrors?: number; // REC
+}
+
+/**
+ * Decodes a SocketCAN error frame. The error class is in the CAN ID and the
+ * details in the eight data bytes; an ID without known classes yields a
+ * generic CAN_ERROR.
+ */
+export function decodeCanErrorFrame(id: number, data: ArrayLike<number>): CanErrorFrame {
+  const errors: FrameError[] = [];
+  const add = (code: string, message: string, severity: FrameError['severity'] = 'error') => {
+    errors.push({ code, message, severity });
   };
-  private startTime = Date.now();
-  private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
-  private timer?: NodeJS.Timeout;
-  private frameCounter = 0;
+  let state: CanBusState | undefined;
 
-  constructor(private config: SimulatorConfig) {
-    this.startSimulation();
+  if (id & CAN_ERR_BUSOFF) {
+    add('CAN_BUS_OFF', 'Controller is bus-off');
+    state = 'bus-off';
+  }
+  if (id & CAN_ERR_CRTL) {
+    const status = data[1] ?? 0;
+    if (status & CRTL_PASSIVE) {
+      add('CAN_ERROR_PASSIVE', `Controller is error-passive (${status & 0x20 ? 'TX' : 'RX'})`, 'warning');
+      state = state ?? 'error-passive';
+    } else if (status & CRTL_WARNING) {
+      add('CAN_ERROR_WARNING', `Controller reached the error warning limit (${status & 0x08 ? 'TX' : 'RX'})`, 'warning');
+      state = state ?? 'error-warning';
+    } else if (status & CRTL_ACTIVE) {
+      add('CAN_ERROR_ACTIVE', 'Controller is error-active again', 'warning');
+      state = state ?? 'error-active';
+    }
+    if (status & (CRTL_RX_OVERFLOW | CRTL_TX_OVERFLOW)) {
+      add('CAN_OVERFLOW', `Controller ${status & CRTL_RX_OVERFLOW ? 'RX' : 'TX'} buffer overflow`);
+    }
+  }
+  if (id & CAN_ERR_ACK) {
+    add('CAN_ACK_ERROR', 'No acknowledgement, is another node on the bus?');
+  }
+  if (id & CAN_ERR_LOSTARB) {
+    const bit = data[0] ?? 0;
+    add('CAN_ARBITRATION_LOST', bit ? `Arbitration lost at bit ${bit}` : 'Arbitration lost', 'warning');
+  }
+  if (id & CAN_ERR_PROT) {
+    const type = data[2] ?? 0;
+    const violations = PROTOCOL_VIOLATIONS.filter(([mask]) => type & mask).map(([, name]) => name);
+    add('CAN_PROTOCOL_ERROR', `Protocol violation: ${violations.join(', ') || 'unspecified'}`);
+  }
+  if (id & CAN_ERR_TRX) {
+    add('CAN_TRANSCEIVER_ERROR', 'Transceiver error');
+  }
+  if (id & CAN_ERR_TX_TIMEOUT) {
+    add('CAN_TX_TIMEOUT', 'Transmission timed out');
+  }
+  if (id & CAN_ERR_RESTARTED) {
+    add('CAN_RESTARTED', 'Controller restarted after bus-off', 'warning');
+    state = state ?? 'error-active';
+  }
+  if (errors.length === 0) {
+    add('CAN_ERROR', `CAN error frame 0x${(id & CAN_ERR_MASK).toString(16).toUpperCase()}`, (id & CAN_ERR_BUSERROR) ? 'error' : 'warning');
   }
 
-  private startSimulation(): void {
-    // Generate realistic CAN traffic
-    this.timer = setInterval(() => {
-      // Simulate multiple CAN IDs
-      this.generateFrame(0x100); // Engine RPM
-      this.generateFrame(0x200); // Vehicle speed
-      this.generateFrame(0x300); // Temperature
-      
-      if (this.frameCounter % 10 === 0) {
-        this.generateFrame(0x7E0); // OBD request
-      }
-    }, 100);
+  const worst = errors.find(e => e.severity === 'error') ?? errors[0];
+  const result: CanErrorFrame = {
+    error: { ...worst, message: errors.map(e => e.message).join('; ') },
+  };
+  if (state) result.state = state;
+  if (id & CAN_ERR_CNT) {
+    result.txErrors = data[6] ?? 0;
+    result.rxErrors = data[7] ?? 0;
   }
+  return result;
+}
 
-  private generateFrame(canId: number): void {
-    const timestamp = process.hrtime.bigint();
-    
-    // Generate data based on CAN ID
-    let data: number[];
-    switch (canId) {
-      case 0x100: // Engine RPM (2 bytes, RPM = value * 0.25)
-        const rpm = 800 + Math.floor(Math.sin(this.frameCounter / 20) * 2000);
-        data = [(rpm >> 8) & 0xFF, rpm & 0xFF, 0, 0, 0, 0, 0, 0];
-        break;
-      case 0x200: // Vehicle speed (1 byte, km/h)
-        const speed = 60 + Math.floor(Math.sin(this.frameCounter / 30) * 20);
-        data = [speed, 0, 0, 0, 0, 0, 0, 0];
-        break;
-      case 0x300: // Temperature (1 byte, °C + 40)
-        const temp = 90 + Math.floor(Math.random() * 10);
-        data = [temp + 40, 0, 0, 0, 0, 0, 0, 0];
-        break;
-      case 0x7E0: // OBD request
-        data = [0x02, 0x01, 0x0C, 0, 0, 0, 0, 0]; // Request engine RPM
-        break;
-      default:
-        data = Array(8).fill(0);
-    }
+// packages/transports-can/src/can-link.ts
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import type { DeviceInfo, CanBusState } from '@commwatch/proto-core';
 
-    const dlc = 8;
-    const frame = new Uint8Array(5 + dlc);
-    frame[0] = (canId >> 24) & 0xFF;
-    frame[1] = (canId >> 16) & 0xFF;
-    frame[2] = (canId >> 8) & 0xFF;
-    frame[3] = canId & 0xFF;
-    frame[4] = dlc;
-    frame.set(data, 5);
+// Linux link type of SocketCAN interfaces (ARPHRD_CAN) and their MTUs
+export const ARPHRD_CAN = 280;
+export const CAN_MTU = 16;
+export const CANFD_MTU = 72;
 
-    this.stats.bytesRx += frame.length;
-    this.stats.messagesRx++;
+const IFF_UP = 0x1;
 
-    const meta: RxMeta = {
-      timestamp,
-      direction: 'rx',
-      length: frame.length,
-      transportSpecific: {
-        canId,
-        canExt: canId > 0x7FF,
-        canRtr: false,
-        canDlc: dlc,
-      },
-    };
+export interface CanInterfaceInfo {
+  name: string;
+  kind: string; // Netlink link kind: vcan, vxcan or can (physical controllers)
+  virtual: boolean;
+  up: boolean;
+  operState: string;
+  mtu: number;
+  fd: boolean; // CAN-FD frames are enabled (CANFD_MTU)
+  driver?: string;
+  bitrate?: number;
+  samplePoint?: number;
+  dataBitrate?: number;
+  controllerState?: CanBusState;
+  txErrors?: number;
+  rxErrors?: number;
+}
 
-    this.readCallbacks.forEach(cb => {
-      try {
-        cb(frame, meta);
-      } catch (error) {
-        console.error('Error in read callback:', error);
+export interface CanLinkEnvironment {
+  sysfsRoot?: string; // Default /sys/class/net
+  run?: (command: string, args: string[]) => Promise<string>;
+}
+
+export interface CanBringUpOptions {
+  bitrate?: number;
+  dataBitrate?: number; // Enables CAN-FD
+  restartMs?: number; // Automatic restart after bus-off
+}
+
+const CONTROLLER_STATES: Record<string, CanBusState> = {
+  'ERROR-ACTIVE': 'error-active',
+  'ERROR-WARNING': 'error-warning',
+  'ERROR-PASSIVE': 'error-passive',
+  'BUS-OFF': 'bus-off',
+};
+
+function runCommand(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { encoding: 'utf8', timeout: 5000 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve(stdout);
       }
     });
+  });
+}
 
-    this.frameCounter++;
+async function readAttribute(dir: string, attribute: string): Promise<string | undefined> {
+  try {
+    return (await fs.readFile(path.join(dir, attribute), 'utf8')).trim();
+  } catch {
+    return undefined;
   }
+}
 
-  async write(frame: Uint8Array): Promise<void> {
-    this.stats.bytesTx += frame.length;
-    this.stats.messagesTx++;
-    
-    // In loopback mode, echo back
-    if (this.config.mode === 'loopback') {
-      setTimeout(() => {
-        const timestamp = process.hrtime.bigint();
-        const meta: RxMeta = {
-          timestamp,
-          direction: 'rx',
-          length: frame.length,
-        };
-        this.readCallbacks.forEach(cb => cb(frame, meta));
-      }, 10);
-    }
+// Interfaces and their MTU and flags come from sysfs; link kind, bit timing and controller state from netlink via `ip -details -json`
+export async function listCanInterfaces(env: CanLinkEnvironment = {}): Promise<CanInterfaceInfo[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(env.sysfsRoot || '/sys/class/net');
+  } catch {
+    return [];
   }
 
-  read(cb: (chunk: Uint8Array, meta?: RxMeta) => void): Unsubscribe {
-    this.readCallbacks.add(cb);
-    return () => {
-      this.readCallbacks.delete(cb);
-    };
+  const interfaces: CanInterfaceInfo[] = [];
+  for (const name of names.sort()) {
+    const info = await readCanInterface(name, env);
+    if (info) interfaces.push(info);
   }
+  return interfaces;
+}
 
-  async setOptions(): Promise<void> {
-    // Simulator doesn't need to update options
+export async function readCanInterface(name: string, env: CanLinkEnvironment = {}): Promise<CanInterfaceInfo | null> {
+  const dir = path.join(env.sysfsRoot || '/sys/class/net', name);
+  if (parseInt(await readAttribute(dir, 'type') || '') !== ARPHRD_CAN) return null;
+
+  const mtu = parseInt(await readAttribute(dir, 'mtu') || '') || CAN_MTU;
+  const flags = parseInt(await readAttribute(dir, 'flags') || '0', 16);
+
+  // Virtual interfaces have no backing device
+  let driver: string | undefined;
+  let physical = false;
+  try {
+    await fs.access(path.join(dir, 'device'));
+    physical = true;
+    driver = path.basename(await fs.readlink(path.join(dir, 'device', 'driver')));
+  } catch {
+    // No device, or a device without a bound driver
   }
 
-  async close(): Promise<void> {
-    if (this.timer) {
-      clearInterval(this.timer);
+  const info: CanInterfaceInfo = {
+    name,
+    kind: physical ? 'can' : 'vcan',
+    virtual: !physical,
+    up: (flags & IFF_UP) !== 0,
+    operState: await readAttribute(dir, 'operstate') || 'unknown',
+    mtu,
+    fd: mtu === CANFD_MTU,
+    driver,
+  };
+
+  // Without iproute2 (or with an old one lacking JSON output) only the sysfs view is reported
+  try {
+    const [link] = JSON.parse(await (env.run || runCommand)('ip', ['-details', '-json', 'link', 'show', name]));
+    const linkInfo = link?.linkinfo;
+    if (linkInfo?.info_kind) {
+      info.kind = linkInfo.info_kind;
+      info.virtual = linkInfo.info_kind !== 'can';
     }
-    this.readCallbacks.clear();
+
+    const data = linkInfo?.info_data;
+    if (data) {
+      info.bitrate = data.bittiming?.bitrate;
+      info.samplePoint = data.bittiming?.sample_point !== undefined ? parseFloat(data.bittiming.sample_point) : undefined;
+      info.dataBitrate = data.data_bittiming?.bitrate;
+      info.controllerState = CONTROLLER_STATES[data.state];
+      info.txErrors = data.berr_counter?.tx;
+      info.rxErrors = data.berr_counter?.rx;
+    }
+  } catch {
+    // Keep the sysfs view
   }
 
-  async getStats(): Promise<AdapterStats> {
-    this.stats.uptime = Date.now() - this.startTime;
-    return { ...this.stats };
+  return info;
+}
+
+export function canInterfaceDevice(info: CanInterfaceInfo): DeviceInfo {
+  const { name, ...metadata } = info;
+  const rate = info.bitrate ? ` @ ${info.bitrate / 1000} kbit/s` : '';
+  return {
+    id: `can:${name}`,
+    name: `${info.virtual ? 'Virtual CAN Interface' : 'CAN Interface'} ${name}${rate}${info.up ? '' : ' (down)'}`,
+    type: 'can',
+    path: name,
+    metadata: { ...metadata },
+  };
+}
+
+/**
+ * Configures the bit timing of a physical interface and brings it up, like
+ * `ip link set can0 type can bitrate 500000 && ip link set can0 up`. Virtual
+ * interfaces are only brought up. Needs CAP_NET_ADMIN unless nothing changes.
+ */
+export async function bringUpCanInterface(
+  name: string,
+  options: CanBringUpOptions = {},
+  env: CanLinkEnvironment = {}
+): Promise<CanInterfaceInfo> {
+  const current = await readCanInterface(name, env);
+  if (!current) {
+    throw new Error(`Not a CAN interface: ${name}`);
+  }
+
+  const run = env.run || runCommand;
+  const configure = !current.virtual && (
+    (options.bitrate !== undefined && options.bitrate !== current.bitrate) ||
+    (options.dataBitrate !== undefined && options.dataBitrate !== current.dataBitrate) ||
+    (options.restartMs !== undefined)
+  );
+  if (!configure && current.up) return current;
+
+  try {
+    // Bit timing can only change while the interface is down
+    if (configure) {
+      if (current.up) await run('ip', ['link', 'set', name, 'down']);
+
+      const args = ['link', 'set', name, 'type', 'can'];
+      if (options.bitrate !== undefined) args.push('bitrate', String(options.bitrate));
+      if (options.dataBitrate !== undefined) args.push('dbitrate', String(options.dataBitrate), 'fd', 'on');
+      if (options.restartMs !== undefined) args.push('restart-ms', String(options.restartMs));
+      await run('ip', args);
+    }
+    await run('ip', ['link', 'set', name, 'up']);
+  } catch (error) {
+    throw new Error(`Failed to bring up ${name}: ${(error as Error).message}`);
   }
+
+  return (await readCanInterface(name, env)) || current;
 }
 
-// packages/transports-can/src/can-decoder.ts
-import { ProtocolDecoder, DecodedFrame, FrameField, FrameError } from '@commwatch/proto-core';
+// packages/transports-can/src/can-sim-model.ts
+import type { DbcDatabase, DbcMessage, DbcSignal } from '@commwatch/proto-core';
+import { parseDbc, findDbcMessage, encodeDbcMessage, encodeCanFrame } from '@commwatch/proto-core';
 
-export class CANDecoder implements ProtocolDecoder {
-  id = 'can';
-  name = 'CAN Bus Frame';
+/**
+ * Traffic model of the CAN simulator: cyclic messages whose signals follow
+ * generators, and messages sent on events. Signal layouts and default cycle
+ * times come from a DBC database; messages without one send raw data.
+ */
+export interface CanSimulationModel {
+  database?: DbcDatabase;
+  messages: CanSimulatedMessage[];
+  events?: CanSimulatedEvent[];
+}
 
-  decode(raw: Uint8Array): DecodedFrame | null {
-    if (raw.length < 5) return null;
+export interface CanSimulatedMessage {
+  name?: string; // DBC message name
+  id?: number; // Required without a DBC message
+  ext?: boolean;
+  fd?: boolean; // Only sent with the canFD option
+  brs?: boolean;
+  cycleMs?: number; // Defaults to GenMsgCycleTime; without a cycle the message is only sent by events
+  signals?: Record<string, CanSignalGenerator>;
+  data?: number[]; // Raw payload of messages without a DBC layout
+}
 
-    const id = (raw[0] << 24) | (raw[1] << 16) | (raw[2] << 8) | raw[3];
-    const dlc = raw[4];
-    const data = raw.slice(5, 5 + dlc);
+// Sends a message once after start (atMs) or whenever a frame with the `on` ID is written
+export interface CanSimulatedEvent {
+  message: string | number; // Name or ID of a model message
+  atMs?: number;
+  on?: { id: number; ext?: boolean };
+  delayMs?: number;
+  signals?: Record<string, CanSignalGenerator>; // Override the message's generators
+}
 
-    const fields: FrameField[] = [
-      {
-        name: 'id',
-        value: `0x${id.toString(16).toUpperCase()}`,
-        type: 'uint32',
-        raw: raw.slice(0, 4),
-        offset: 0,
-      },
-      {
-        name: 'extended',
-        value: id > 0x7FF,
-        type: 'uint8',
-        raw: raw.slice(0, 4),
-        offset: 0,
-      },
-      {
-        name: 'dlc',
-        value: dlc,
-        type: 'uint8',
-        raw: raw.slice(4, 5),
-        offset: 4,
-      },
-      {
-        name: 'data',
-        value: data,
-        type: 'bytes',
-        raw: data,
-        offset: 5,
-      },
-    ];
+export type CanSignalGenerator =
+  | { type: 'constant'; value: number | string }
+  | { type: 'ramp'; from: number; to: number; periodMs: number; repeat?: boolean }
+  | { type: 'sine'; offset?: number; amplitude: number; periodMs: number; phase?: number }
+  | { type: 'noise'; value: number; amplitude: number }
+  | { type: 'playback'; samples: Array<[number, number]>; loop?: boolean }; // [ms, value], held until the next sample
 
-    // Try to decode known CAN IDs
-    const decodedData = this.decodeCANId(id, data);
-    if (decodedData) {
-      fields.push(...decodedData);
-    }
+// Signals of the frames generated by CANSimulator without a model
+export const SIMULATOR_DBC = `
+VERSION "CommWatch simulator"
 
-    return {
-      protocol: 'can',
-      fields,
-      metadata: { id, dlc, extended: id > 0x7FF },
-    };
-  }
+BU_: SIM
 
-  encode(fields: FrameField[]): Uint8Array {
-    const idField = fields.find(f => f.name === 'id');
-    const dlcField = fields.find(f => f.name === 'dlc');
-    const dataField = fields.find(f => f.name === 'data');
+BO_ 256 EngineData: 8 SIM
+ SG_ engine_rpm : 7|16@0+ (0.25,0) [0|16383.75] "RPM" Vector__XXX
 
-    if (!idField || !dlcField || !dataField) {
-      throw new Error('Missing required fields: id, dlc, data');
-    }
+BO_ 512 VehicleData: 8 SIM
+ SG_ vehicle_speed : 7|8@0+ (1,0) [0|255] "km/h" Vector__XXX
 
-    const idStr = idField.value as string;
-    const id = parseInt(idStr.replace('0x', ''), 16);
-    const dlc = dlcField.value as number;
-    const data = dataField.value as Uint8Array;
+BO_ 768 CoolantData: 8 SIM
+ SG_ coolant_temp : 7|8@0+ (1,-40) [-40|215] "°C" Vector__XXX
 
-    const frame = new Uint8Array(5 + dlc);
-    frame[0] = (id >> 24) & 0xFF;
-    frame[1] = (id >> 16) & 0xFF;
-    frame[2] = (id >> 8) & 0xFF;
-    frame[3] = id & 0xFF;
-    frame[4] = dlc;
-    frame.set(data.slice(0, dlc), 5);
+BO_ 2566868993 BatteryCells: 64 SIM
+${Array.from({ length: 32 }, (_, cell) => ` SG_ cell_${cell + 1}_voltage : ${cell * 16 + 7}|16@0+ (0.001,0) [0|65.535] "V" Vector__XXX`).join('\n')}
 
-    return frame;
-  }
+BA_ "GenMsgCycleTime" BO_ 256 100;
+BA_ "GenMsgCycleTime" BO_ 512 100;
+BA_ "GenMsgCycleTime" BO_ 768 100;
+BA_ "GenMsgCycleTime" BO_ 2566868993 1000;
+BA_ "VFrameFormat" BO_ 2566868993 15;
+`;
 
-  validate(raw: Uint8Array): FrameError | null {
-    if (raw.length < 5) {
-      return {
-        code: 'FRAME_TOO_SHORT',
-        message: 'CAN frame too short',
-        severity: 'error',
-      };
-    }
+export const DEFAULT_SIMULATION_MODEL: CanSimulationModel = {
+  database: parseDbc(SIMULATOR_DBC),
+  messages: [
+    { name: 'EngineData', signals: { engine_rpm: { type: 'sine', offset: 2000, amplitude: 1200, periodMs: 12_000 } } },
+    { name: 'VehicleData', signals: { vehicle_speed: { type: 'sine', offset: 60, amplitude: 20, periodMs: 18_000 } } },
+    { name: 'CoolantData', signals: { coolant_temp: { type: 'noise', value: 95, amplitude: 5 } } },
+    { id: 0x7E0, cycleMs: 1000, data: [0x02, 0x01, 0x0C, 0, 0, 0, 0, 0] }, // OBD request for engine RPM
+    {
+      name: 'BatteryCells',
+      brs: true,
+      signals: Object.fromEntries(Array.from({ length: 32 }, (_, cell) => [
+        `cell_${cell + 1}_voltage`,
+        { type: 'sine', offset: 3.6, amplitude: 0.2, periodMs: 9000, phase: cell / 5 } as CanSignalGenerator,
+      ])),
+    },
+  ],
+};
 
-    const dlc = raw[4];
-    if (dlc > 8) {
-      return {
-        code: 'INVALID_DLC',
-        message: `Invalid DLC: ${dlc} (max 8)`,
-        severity: 'error',
-      };
+export function evaluateSignal(generator: CanSignalGenerator, ms: number): number | string {
+  switch (generator.type) {
+    case 'constant':
+      return generator.value;
+    case 'ramp': {
+      const progress = generator.repeat === false
+        ? Math.min(ms / generator.periodMs, 1)
+        : (ms % generator.periodMs) / generator.periodMs;
+      return generator.from + (generator.to - generator.from) * progress;
     }
-
-    if (raw.length !== 5 + dlc) {
-      return {
-        code: 'LENGTH_MISMATCH',
-        message: `Frame length mismatch: expected ${5 + dlc}, got ${raw.length}`,
-        severity: 'error',
-      };
+    case 'sine':
+      return (generator.offset ?? 0) + generator.amplitude * Math.sin((2 * Math.PI * ms) / generator.periodMs + (generator.phase ?? 0));
+    case 'noise':
+      return generator.value + (Math.random() * 2 - 1) * generator.amplitude;
+    case 'playback': {
+      const { samples } = generator;
+      if (samples.length === 0) return 0;
+      const duration = samples[samples.length - 1][0];
+      const t = generator.loop && duration > 0 ? ms % duration : ms;
+      let value = samples[0][1];
+      for (const [at, sample] of samples) {
+        if (at > t) break;
+        value = sample;
+      }
+      return value;
     }
+  }
+}
 
-    return null;
+// Why the generator cannot drive the signal, if it cannot
+function generatorProblem(generator: CanSignalGenerator, signal: DbcSignal): string | undefined {
+  const finite = (...values: unknown[]) => values.every(value => typeof value === 'number' && Number.isFinite(value));
+  const period = (ms: unknown) => finite(ms) && (ms as number) > 0;
+
+  switch (generator.type) {
+    case 'constant':
+      if (typeof generator.value === 'string') {
+        return Object.values(signal.values || {}).includes(generator.value) ? undefined : `unknown value "${generator.value}"`;
+      }
+      return finite(generator.value) ? undefined : 'constant needs a number or a value label';
+    case 'ramp':
+      return finite(generator.from, generator.to) && period(generator.periodMs) ? undefined : 'ramp needs from, to and a positive periodMs';
+    case 'sine':
+      return finite(generator.offset ?? 0, generator.amplitude, generator.phase ?? 0) && period(generator.periodMs)
+        ? undefined
+        : 'sine needs an amplitude and a positive periodMs';
+    case 'noise':
+      return finite(generator.value, generator.amplitude) ? undefined : 'noise needs a value and an amplitude';
+    case 'playback':
+      return Array.isArray(generator.samples) && generator.samples.every(sample => Array.isArray(sample) && sample.length === 2 && finite(...sample))
+        ? undefined
+        : 'playback needs [ms, value] samples';
+    default:
+      return `unknown generator type "${(generator as { type: unknown }).type}"`;
   }
+}
 
-  private decodeCANId(id: number, data: Uint8Array): FrameField[] | null {
-    switch (id) {
-      case 0x100: // Engine RPM
-        if (data.length >= 2) {
-          const rpm = ((data[0] << 8) | data[1]) * 0.25;
-          return [{
-            name: 'engine_rpm',
-            value: rpm.toFixed(0),
-            type: 'float',
-            raw: data.slice(0, 2),
-            offset: 0,
-            unit: 'RPM',
-          }];
-        }
-        break;
-      case 0x200: // Vehicle speed
-        if (data.length >= 1) {
-          return [{
-            name: 'vehicle_speed',
-            value: data[0],
-            type: 'uint8',
-            raw: data.slice(0, 1),
-            offset: 0,
-            unit: 'km/h',
-          }];
-        }
-        break;
-      case 0x300: // Temperature
-        if (data.length >= 1) {
-          const temp = data[0] - 40;
-          return [{
-            name: 'coolant_temp',
-            value: temp,
-            type: 'int8',
-            raw: data.slice(0, 1),
-            offset: 0,
-            unit: '°C',
-          }];
-        }
-        break;
+interface ResolvedMessage {
+  config: CanSimulatedMessage;
+  id: number;
+  ext: boolean;
+  fd: boolean;
+  cycleMs?: number;
+  layout?: DbcMessage;
+}
+
+// Resolves the model's messages against its DBC database and builds their frames
+export class CanTrafficModel {
+  private messages: ResolvedMessage[];
+
+  constructor(private model: CanSimulationModel) {
+    this.messages = model.messages.map(config => this.resolve(config));
+
+    // Frames are built on timer ticks, so anything that would fail there is rejected up front
+    for (const message of this.messages) {
+      this.check(message, message.config.signals);
+    }
+    for (const event of model.events || []) {
+      const message = this.find(event.message);
+      if (!message) {
+        throw new Error(`Simulation event refers to unknown message: ${event.message}`);
+      }
+      this.check(message, { ...message.config.signals, ...event.signals });
     }
-    return null;
   }
+
+  private check(message: ResolvedMessage, generators: Record<string, CanSignalGenerator> = {}): void {
+    const name = message.layout?.name ?? `0x${message.id.toString(16).toUpperCase()}`;
+    for (const [signal, generator] of Object.entries(generators)) {
+      const layout = message.layout?.signals.find(s => s.name === signal);
+      if (!layout) {
+        throw new Error(`Simulated message ${name} has no signal ${signal}`);
+      }
+      const problem = generatorProblem(generator, layout);
+      if (problem) {
+        throw new Error(`Simulated signal ${name}.${signal}: ${problem}`);
+      }
+    }
+
+    try {
+      this.build(message, 0, generators);
+    } catch (error) {
+      throw new Error(`Simulated message ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  private resolve(config: CanSimulatedMessage): ResolvedMessage {
+    const db = this.model.database;
+    const layout = config.name !== undefined
+      ? db?.messages.find(m => m.name === config.name)
+      : config.id !== undefined && db ? findDbcMessage(db, config.id, config.ext ?? config.id > 0x7FF) : undefined;
+
+    if (config.name !== undefined && !layout) {
+      throw new Error(`Simulated message not in the DBC database: ${config.name}`);
+    }
+    const id = layout?.id ?? config.id;
+    if (id === undefined) {
+      throw new Error('Simulated messages need a DBC message name or an ID');
+    }
+
+    return {
+      config,
+      id,
+      ext: layout?.extended ?? config.ext ?? id > 0x7FF,
+      fd: config.fd ?? layout?.fd ?? (config.data?.length ?? 0) > 8,
+      cycleMs: config.cycleMs ?? layout?.cycleTime,
+      layout,
+    };
+  }
+
+  private find(message: string | number): ResolvedMessage | undefined {
+    return this.messages.find(m => (typeof message === 'string' ? m.layout?.name === message : m.id === message));
+  }
+
+  // Messages with a cycle time; CAN-FD ones only when FD is enabled
+  cyclic(fd: boolean): Array<{ key: string | number; cycleMs: number }> {
+    return this.messages
+      .filter(m => m.cycleMs && m.cycleMs > 0 && (fd || !m.fd))
+      .map(m => ({ key: m.layout?.name ?? m.id, cycleMs: m.cycleMs! }));
+  }
+
+  // All messages that can be sent, e.g. for burst traffic
+  keys(fd: boolean): Array<string | number> {
+    return this.messages.filter(m => fd || !m.fd).map(m => m.layout?.name ?? m.id);
+  }
+
+  triggeredBy(id: number, ext: boolean): CanSimulatedEvent[] {
+    return (this.model.events || []).filter(e => e.on && e.on.id === id && (e.on.ext ?? id > 0x7FF) === ext);
+  }
+
+  timed(): CanSimulatedEvent[] {
+    return (this.model.events || []).filter(e => e.atMs !== undefined);
+  }
+
+  isFd(key: string | number): boolean {
+    return this.find(key)?.fd ?? false;
+  }
+
+  // The frame of a message at `ms` into the simulation
+  frame(key: string | number, ms: number, overrides: Record<string, CanSignalGenerator> = {}): Uint8Array {
+    const message = this.find(key);
+    if (!message) {
+      throw new Error(`Unknown simulated message: ${key}`);
+    }
+    return this.build(message, ms, overrides);
+  }
+
+  private build(message: ResolvedMessage, ms: number, overrides: Record<string, CanSignalGenerator>): Uint8Array {
+    let data: Uint8Array;
+    if (message.layout) {
+      const generators = { ...message.config.signals, ...overrides };
+      const values: Record<string, number | string> = {};
+      for (const [signal, generator] of Object.entries(generators)) {
+        values[signal] = evaluateSignal(generator, ms);
+      }
+      data = encodeDbcMessage(message.layout, values);
+    } else {
+      data = new Uint8Array(message.config.data || []);
+    }
+
+    return encodeCanFrame({
+      id: message.id,
+      ext: message.ext,
+      fd: message.fd,
+      brs: message.fd && (message.config.brs ?? false),
+      data,
+    });
+  }
+}
+
+// packages/transports-can/src/can-simulator.ts
+import type {
+  AdapterHandle,
+  AdapterOpenOptions,
+  AdapterStats,
+  CanFrame,
+  MessageBus,
+  RxMeta,
+  SimulatorConfig,
+  Unsubscribe,
+} from '@commwatch/proto-core';
+import { encodeCanFrame, decodeCanFrame, decodeIsoTpMessage, canFrameMeta, CanBusStatistics } from '@commwatch/proto-core';
+import { decodeCanErrorFrame, CAN_ERR_PROT, CAN_ERR_BUSERROR } from './can-errors';
+import { CanTrafficModel, DEFAULT_SIMULATION_MODEL } from './can-sim-model';
+import type { CanSimulationModel, CanSimulatedEvent } from './can-sim-model';
+import { IsoTpHandle } from './isotp';
+import { OBDEcu } from './obd-ecu';
+import type { OBDVehicleState } from './obd-ecu';
+
+/**
+ * Modes: 'loopback' echoes written frames; 'scripted' plays the script's
+ * events (frames in the internal layout) and the traffic model; 'burst' sends
+ * burstSize model frames every burstInterval ms; 'error-inject' runs the model
+ * and replaces frames with bus errors at errorRate (default 0.1); 'ecu'
+ * answers OBD-II requests. Without a model or script the built-in model runs.
+ */
+export interface CANSimulatorConfig extends SimulatorConfig {
+  vehicle?: Partial<OBDVehicleState>; // Initial state of the emulated ECU in 'ecu' mode
+  model?: CanSimulationModel;
+}
+
+// Stuff error: protocol violation type 0x04 in data byte 2
+const INJECTED_ERROR_ID = CAN_ERR_PROT | CAN_ERR_BUSERROR;
+const INJECTED_ERROR_DATA = [0, 0, 0x04, 0, 0, 0, 0, 0];
+
+export class CANSimulator implements AdapterHandle {
+  private stats: AdapterStats = {
+    bytesRx: 0,
+    bytesTx: 0,
+    messagesRx: 0,
+    messagesTx: 0,
+    errors: 0,
+    uptime: 0,
+  };
+  private startTime = Date.now();
+  private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private model?: CanTrafficModel;
+  private simulationStart = Date.now();
+  private peerCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
+  private ecuHandle?: IsoTpHandle;
+  private busStats: CanBusStatistics;
+  readonly ecu?: OBDEcu; // Answers OBD-II requests in 'ecu' mode
+
+  constructor(
+    private config: CANSimulatorConfig,
+    private options: AdapterOpenOptions = {},
+    private bus?: MessageBus,
+    private deviceId = 'can:simulator'
+  ) {
+    this.busStats = new CanBusStatistics({ bitrate: options.canBitrate, dataBitrate: options.canDataBitrate });
+    if (config.mode === 'ecu') {
+      this.ecu = new OBDEcu({ state: config.vehicle });
+      this.ecuHandle = new IsoTpHandle(this.createPeer(), { pairs: this.ecu.addresses }, options.canFD);
+      this.ecu.attach(this.ecuHandle);
+    }
+
+    // A loopback bus or an emulated ECU stays quiet unless given a model
+    const scripted = config.mode === 'scripted' && (config.script?.events.length ?? 0) > 0;
+    const model = config.model ?? (config.mode === 'loopback' || config.mode === 'ecu' || scripted ? undefined : DEFAULT_SIMULATION_MODEL);
+    if (model) {
+      this.model = new CanTrafficModel(model);
+    }
+    this.startSimulation();
+  }
+
+  // The ECU's side of the simulated bus: it receives what is written and its frames arrive as rx
+  private createPeer(): AdapterHandle {
+    return {
+      write: async frame => {
+        const can = decodeCanFrame(frame);
+        if (!can) {
+          throw new Error('Invalid CAN frame: too short');
+        }
+        setTimeout(() => {
+          this.emit(frame, can, process.hrtime.bigint());
+        }, 10);
+      },
+      read: cb => {
+        this.peerCallbacks.add(cb);
+        return () => {
+          this.peerCallbacks.delete(cb);
+        };
+      },
+      setOptions: async () => undefined,
+      close: async () => {
+        this.peerCallbacks.clear();
+      },
+      getStats: () => this.getStats(),
+    };
+  }
+
+  private startSimulation(): void {
+    if (this.config.mode === 'scripted' && this.config.script) {
+      this.runScript();
+    }
+
+    if (!this.model) return;
+    const fd = !!this.options.canFD;
+
+    if (this.config.mode === 'burst') {
+      this.startBurstMode(fd);
+    } else {
+      for (const { key, cycleMs } of this.model.cyclic(fd)) {
+        this.timers.add(setInterval(() => this.sendModelFrame(key), cycleMs));
+      }
+    }
+
+    for (const event of this.model.timed()) {
+      this.schedule(() => this.sendEvent(event), event.atMs!);
+    }
+  }
+
+  private runScript(): void {
+    const events = this.config.script!.events;
+    let index = 0;
+
+    const executeNext = () => {
+      if (index >= events.length) {
+        if (this.config.script?.loop && events.length > 0) {
+          index = 0;
+        } else {
+          return;
+        }
+      }
+
+      const event = events[index++];
+      this.schedule(() => {
+        switch (event.action) {
+          case 'send':
+          case 'receive': {
+            const can = event.data ? decodeCanFrame(event.data) : null;
+            if (can) {
+              this.receive(event.data!, can);
+            } else {
+              this.stats.errors++;
+            }
+            break;
+          }
+          case 'error':
+            this.emitBusError(process.hrtime.bigint());
+            break;
+        }
+        executeNext();
+      }, event.delay);
+    };
+
+    executeNext();
+  }
+
+  private startBurstMode(fd: boolean): void {
+    if (!this.config.burstInterval || !this.config.burstSize) return;
+
+    const keys = this.model!.keys(fd);
+    let next = 0;
+    this.timers.add(setInterval(() => {
+      for (let i = 0; i < this.config.burstSize!; i++) {
+        this.sendModelFrame(keys[next++ % keys.length]);
+      }
+    }, this.config.burstInterval));
+  }
+
+  private schedule(fn: () => void, ms: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, ms);
+    this.timers.add(timer);
+  }
+
+  private sendModelFrame(key: string | number, event?: CanSimulatedEvent): void {
+    let frame: Uint8Array;
+    try {
+      frame = this.model!.frame(key, Date.now() - this.simulationStart, event?.signals);
+    } catch (error) {
+      this.stats.errors++;
+      this.bus?.publish('device:error', { deviceId: this.deviceId, error: (error as Error).message });
+      return;
+    }
+    this.receive(frame, decodeCanFrame(frame)!);
+  }
+
+  private sendEvent(event: CanSimulatedEvent): void {
+    // FD messages need the canFD option, as for written frames
+    if (this.model!.isFd(event.message) && !this.options.canFD) return;
+    this.sendModelFrame(event.message, event);
+  }
+
+  // Simulated traffic, subject to error injection
+  private receive(frame: Uint8Array, can: CanFrame): void {
+    const timestamp = process.hrtime.bigint();
+    const errorRate = this.config.errorRate ?? (this.config.mode === 'error-inject' ? 0.1 : 0);
+    if (errorRate > 0 && Math.random() < errorRate) {
+      this.emitBusError(timestamp);
+      return;
+    }
+    this.emit(frame, can, timestamp);
+  }
+
+  // Delivered like the error frames of a SocketCAN interface
+  private emitBusError(timestamp: bigint): void {
+    const { error } = decodeCanErrorFrame(INJECTED_ERROR_ID, INJECTED_ERROR_DATA);
+    this.stats.errors++;
+
+    const frame = encodeCanFrame({ id: INJECTED_ERROR_ID, ext: true, data: INJECTED_ERROR_DATA });
+    const meta: RxMeta = {
+      timestamp,
+      direction: 'rx',
+      length: frame.length,
+      error,
+      transportSpecific: { canErrorFrame: true },
+    };
+    this.readCallbacks.forEach(cb => {
+      try {
+        cb(frame, meta);
+      } catch (error) {
+        console.error('Error in read callback:', error);
+      }
+    });
+  }
+
+  private emit(frame: Uint8Array, can: CanFrame, timestamp: bigint): void {
+    this.stats.bytesRx += frame.length;
+    this.stats.messagesRx++;
+    this.busStats.add(frame, timestamp);
+
+    const meta: RxMeta = {
+      timestamp,
+      direction: 'rx',
+      length: frame.length,
+      transportSpecific: canFrameMeta(can),
+    };
+
+    this.readCallbacks.forEach(cb => {
+      try {
+        cb(frame, meta);
+      } catch (error) {
+        console.error('Error in read callback:', error);
+      }
+    });
+  }
+
+  async write(frame: Uint8Array): Promise<void> {
+    const can = decodeCanFrame(frame);
+    if (!can) {
+      throw new Error(decodeIsoTpMessage(frame) ? 'ISO-TP messages require the canIsoTp option' : 'Invalid CAN frame: too short');
+    }
+    if (can.fd && !this.options.canFD) {
+      throw new Error('CAN-FD frames require the canFD option');
+    }
+
+    this.stats.bytesTx += frame.length;
+    this.stats.messagesTx++;
+    if (this.config.mode !== 'loopback') {
+      this.busStats.add(frame, process.hrtime.bigint()); // The echo is counted when it arrives
+    }
+    
+    // In loopback mode, echo back
+    if (this.config.mode === 'loopback') {
+      setTimeout(() => {
+        this.emit(frame, can, process.hrtime.bigint());
+      }, 10);
+    }
+
+    // Event-triggered messages of the model answer written frames
+    for (const event of this.model?.triggeredBy(can.id, can.ext) || []) {
+      this.schedule(() => this.sendEvent(event), event.delayMs ?? 0);
+    }
+
+    if (this.config.mode === 'ecu') {
+      const meta: RxMeta = {
+        timestamp: process.hrtime.bigint(),
+        direction: 'rx',
+        length: frame.length,
+        transportSpecific: canFrameMeta(can),
+      };
+      setTimeout(() => {
+        this.peerCallbacks.forEach(cb => cb(frame, meta));
+      }, 10);
+    }
+  }
+
+  read(cb: (chunk: Uint8Array, meta?: RxMeta) => void): Unsubscribe {
+    this.readCallbacks.add(cb);
+    return () => {
+      this.readCallbacks.delete(cb);
+    };
+  }
+
+  async setOptions(): Promise<void> {
+    // Simulator doesn't need to update options
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    await this.ecuHandle?.close();
+    this.readCallbacks.clear();
+  }
+
+  async getStats(): Promise<AdapterStats> {
+    this.stats.uptime = Date.now() - this.startTime;
+    const bus = this.busStats.snapshot(process.hrtime.bigint());
+    return { ...this.stats, canBusLoad: bus.busLoad, canIds: bus.ids };
+  }
+}
+
+// packages/transports-can/src/can-decoder.ts
+import {
+  ProtocolDecoder,
+  DecodedFrame,
+  FrameField,
+  FrameError,
+  encodeCanFrame,
+  decodeCanFrame,
+  decodeIsoTpMessage,
+  canDlcToLength,
+  CAN_FRAME_FD,
+  CAN_FRAME_BRS,
+  CAN_FRAME_ESI,
+  CAN_FRAME_ISOTP,
+  CAN_FRAME_DLC_MASK,
+  CAN_FRAME_RTR,
+  parseDbc,
+  findDbcMessage,
+  decodeDbcMessage,
+  encodeDbcMessage,
+  signalByteRange,
+} from '@commwatch/proto-core';
+import type { DbcDatabase, DbcMessage, DbcSignal } from '@commwatch/proto-core';
+import { SIMULATOR_DBC } from './can-sim-model';
+
+export class CANDecoder implements ProtocolDecoder {
+  id = 'can';
+  name = 'CAN Bus Frame';
+
+  constructor(private database: DbcDatabase = parseDbc(SIMULATOR_DBC)) {}
+
+  // Replaces the signal definitions, e.g. after importing a DBC file
+  setDatabase(database: DbcDatabase): void {
+    this.database = database;
+  }
+
+  getDatabase(): DbcDatabase {
+    return this.database;
+  }
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    const isoTp = decodeIsoTpMessage(raw);
+    if (isoTp) {
+      return this.decodeIsoTp(raw, isoTp.id, isoTp.ext, isoTp.data);
+    }
+
+    const frame = decodeCanFrame(raw);
+    if (!frame) return null;
+
+    const { id, dlc, data } = frame;
+    const fields: FrameField[] = [
+      {
+        name: 'id',
+        value: `0x${id.toString(16).toUpperCase()}`,
+        type: 'uint32',
+        raw: raw.slice(0, 4),
+        offset: 0,
+      },
+      {
+        name: 'extended',
+        value: frame.ext,
+        type: 'uint8',
+        raw: raw.slice(0, 4),
+        offset: 0,
+      },
+      {
+        name: 'rtr',
+        value: frame.rtr,
+        type: 'uint8',
+        raw: raw.slice(0, 4),
+        offset: 0,
+      },
+      {
+        name: 'fd',
+        value: frame.fd,
+        type: 'uint8',
+        raw: raw.slice(4, 5),
+        offset: 4,
+      },
+      {
+        name: 'brs',
+        value: frame.brs,
+        type: 'uint8',
+        raw: raw.slice(4, 5),
+        offset: 4,
+      },
+      {
+        name: 'esi',
+        value: frame.esi,
+        type: 'uint8',
+        raw: raw.slice(4, 5),
+        offset: 4,
+      },
+      {
+        name: 'dlc',
+        value: dlc,
+        type: 'uint8',
+        raw: raw.slice(4, 5),
+        offset: 4,
+      },
+      {
+        name: 'data',
+        value: data,
+        type: 'bytes',
+        raw: data,
+        offset: 5,
+      },
+    ];
+
+    // Signals from the DBC database
+    const message = findDbcMessage(this.database, id, frame.ext);
+    if (message && !frame.rtr) {
+      fields.push(...this.decodeSignals(message, data));
+    }
+
+    return {
+      protocol: 'can',
+      fields,
+      metadata: {
+        message: message?.name,
+        id,
+        dlc,
+        length: data.length,
+        extended: frame.ext,
+        rtr: frame.rtr,
+        fd: frame.fd,
+        brs: frame.brs,
+        esi: frame.esi,
+      },
+    };
+  }
+
+  encode(fields: FrameField[]): Uint8Array {
+    const idField = fields.find(f => f.name === 'id');
+    const dlcField = fields.find(f => f.name === 'dlc');
+    const dataField = fields.find(f => f.name === 'data');
+
+    const flag = (name: string) => {
+      const field = fields.find(f => f.name === name);
+      return field ? Boolean(field.value) : undefined;
+    };
+
+    const idStr = idField?.value as string | undefined;
+    const id = idStr !== undefined ? parseInt(idStr.replace('0x', ''), 16) : NaN;
+
+    // Without raw data, build the payload from DBC signal values
+    const message = !isNaN(id) && !dataField ? findDbcMessage(this.database, id, flag('extended')) : undefined;
+    if (message) {
+      const values: Record<string, number | string> = {};
+      for (const field of fields) {
+        if (message.signals.some(s => s.name === field.name)) {
+          values[field.name] = field.label ?? (field.value as number | string);
+        }
+      }
+      return encodeCanFrame({
+        id,
+        ext: message.extended,
+        fd: message.fd,
+        brs: flag('brs'),
+        data: encodeDbcMessage(message, values),
+      });
+    }
+
+    if (!idField || !dlcField || !dataField) {
+      throw new Error('Missing required fields: id, dlc, data');
+    }
+
+    return encodeCanFrame({
+      id,
+      ext: flag('extended'),
+      rtr: flag('rtr'),
+      fd: flag('fd'),
+      brs: flag('brs'),
+      esi: flag('esi'),
+      dlc: dlcField.value as number,
+      data: dataField.value as Uint8Array,
+    });
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    if (raw.length < 5) {
+      return {
+        code: 'FRAME_TOO_SHORT',
+        message: 'CAN frame too short',
+        severity: 'error',
+      };
+    }
+
+    const rtr = (raw[0] & (CAN_FRAME_RTR >>> 24)) !== 0;
+    const fd = (raw[4] & CAN_FRAME_FD) !== 0;
+    const dlc = raw[4] & CAN_FRAME_DLC_MASK;
+
+    if (raw[4] === CAN_FRAME_ISOTP) {
+      return raw.length > 5 ? null : {
+        code: 'EMPTY_MESSAGE',
+        message: 'ISO-TP message without payload',
+        severity: 'error',
+      };
+    }
+
+    if (raw[4] & CAN_FRAME_ISOTP) {
+      return {
+        code: 'INVALID_FLAGS',
+        message: 'ISO-TP bit combined with CAN frame flags',
+        severity: 'error',
+      };
+    }
+
+    if (fd && rtr) {
+      return {
+        code: 'INVALID_FLAGS',
+        message: 'CAN-FD frames cannot be remote frames',
+        severity: 'error',
+      };
+    }
+
+    if (!fd && (raw[4] & (CAN_FRAME_BRS | CAN_FRAME_ESI))) {
+      return {
+        code: 'INVALID_FLAGS',
+        message: 'BRS/ESI set on a classic CAN frame',
+        severity: 'error',
+      };
+    }
+
+    if (!fd && dlc > 8) {
+      return {
+        code: 'INVALID_DLC',
+        message: `Invalid DLC: ${dlc} (max 8)`,
+        severity: 'error',
+      };
+    }
+
+    const length = rtr ? 0 : canDlcToLength(dlc, fd);
+    if (raw.length !== 5 + length) {
+      return {
+        code: 'LENGTH_MISMATCH',
+        message: `Frame length mismatch: expected ${5 + length}, got ${raw.length}`,
+        severity: 'error',
+      };
+    }
+
+    return null;
+  }
+
+  // Reassembled ISO-TP messages keep the CAN ID; `data` is the full payload
+  private decodeIsoTp(raw: Uint8Array, id: number, ext: boolean, data: Uint8Array): DecodedFrame {
+    return {
+      protocol: 'isotp',
+      fields: [
+        {
+          name: 'id',
+          value: `0x${id.toString(16).toUpperCase()}`,
+          type: 'uint32',
+          raw: raw.slice(0, 4),
+          offset: 0,
+        },
+        {
+          name: 'extended',
+          value: ext,
+          type: 'uint8',
+          raw: raw.slice(0, 4),
+          offset: 0,
+        },
+        {
+          name: 'length',
+          value: data.length,
+          type: 'uint32',
+          raw: raw.slice(4, 5),
+          offset: 4,
+        },
+        {
+          name: 'data',
+          value: data,
+          type: 'bytes',
+          raw: data,
+          offset: 5,
+        },
+      ],
+      metadata: { id, extended: ext, length: data.length, isoTp: true },
+    };
+  }
+
+  private decodeSignals(message: DbcMessage, data: Uint8Array): FrameField[] {
+    return decodeDbcMessage(message, data).map(({ signal, value, label }) => {
+      const { start, end } = signalByteRange(signal);
+      const field: FrameField = {
+        name: signal.name,
+        value,
+        type: fieldType(signal),
+        raw: data.slice(start, end),
+        offset: start,
+      };
+      if (signal.factor !== 1) field.scaling = signal.factor;
+      if (signal.unit) field.unit = signal.unit;
+      if (label !== undefined) field.label = label;
+      return field;
+    });
+  }
+}
+
+function fieldType(signal: DbcSignal): FrameField['type'] {
+  if (signal.valueType !== 'integer' || !Number.isInteger(signal.factor) || !Number.isInteger(signal.offset)) {
+    return 'float';
+  }
+  const signed = signal.signed || signal.offset < 0;
+  if (signal.length <= 8) return signed ? 'int8' : 'uint8';
+  if (signal.length <= 16) return signed ? 'int16' : 'uint16';
+  if (signal.length <= 32) return signed ? 'int32' : 'uint32';
+  return 'float';
+}
+
+// packages/transports-can/src/isotp.ts
+import type {
+  AdapterHandle,
+  AdapterOpenOptions,
+  AdapterStats,
+  CanFrame,
+  FrameError,
+  IsoTpAddress,
+  IsoTpOptions,
+  RxMeta,
+  Unsubscribe,
+} from '@commwatch/proto-core';
+import {
+  encodeCanFrame,
+  decodeCanFrame,
+  encodeIsoTpMessage,
+  decodeIsoTpMessage,
+  canDlcToLength,
+  canLengthToDlc,
+  CAN_FRAME_EFF,
+} from '@commwatch/proto-core';
+
+// Protocol control information, upper nibble of the first data byte
+const PCI_SINGLE = 0x0;
+const PCI_FIRST = 0x1;
+const PCI_CONSECUTIVE = 0x2;
+const PCI_FLOW_CONTROL = 0x3;
+
+const FLOW_CONTINUE = 0x0;
+const FLOW_WAIT = 0x1;
+const FLOW_OVERFLOW = 0x2;
+
+const MAX_WAIT_FRAMES = 10; // N_WFTmax
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_MAX_MESSAGE_LENGTH = 1 << 20;
+const DEFAULT_PADDING = 0xCC;
+
+const DEFAULT_PAIRS: IsoTpAddress[] = Array.from({ length: 8 }, (_, i) => ({ txId: 0x7E0 + i, rxId: 0x7E8 + i }));
+
+interface RxSession {
+  id: number;
+  ext: boolean;
+  data: Uint8Array;
+  received: number;
+  nextSn: number;
+  blockCount: number;
+  timestamp: bigint; // Of the first frame
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface FlowControl {
+  blockSize: number;
+  stMin: number; // ms
+}
+
+interface FlowControlWaiter {
+  flowControl: Promise<FlowControl>;
+  cancel(): void; // Stops waiting; flowControl then never settles
+}
+
+// Arbitration ID plus EFF flag, so standard and extended IDs never collide
+function idKey(id: number, ext: boolean): number {
+  return ext ? (id | CAN_FRAME_EFF) >>> 0 : id;
+}
+
+// STmin 0x00-0x7F is in ms, 0xF1-0xF9 in 100 µs steps; reserved values mean the maximum
+function parseStMin(value: number): number {
+  if (value <= 0x7F) return value;
+  if (value >= 0xF1 && value <= 0xF9) return (value - 0xF0) / 10;
+  return 0x7F;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * ISO-TP (ISO 15765-2) on top of a CAN handle. Frames on the configured
+ * address pairs are reassembled into ISO-TP messages (see encodeIsoTpMessage),
+ * answering first frames with flow control; everything else passes through.
+ * Writing an ISO-TP message segments it, following the peer's flow control.
+ * Timeouts and sequence errors are reported as chunks with `meta.error`.
+ */
+export class IsoTpHandle implements AdapterHandle {
+  private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
+  private rxSessions: Map<number, RxSession> = new Map(); // By sender ID
+  private flowWaiters: Map<number, (frame: CanFrame) => void> = new Map(); // By the ID the FC comes from
+  private txQueues: Map<number, Promise<void>> = new Map();
+  private pairs: IsoTpAddress[];
+  private timeoutMs: number;
+  private unsubscribe: Unsubscribe;
+
+  constructor(private handle: AdapterHandle, private options: IsoTpOptions = {}, private fd = false) {
+    this.pairs = options.pairs || DEFAULT_PAIRS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.unsubscribe = handle.read((chunk, meta) => this.receive(chunk, meta));
+  }
+
+  async write(frame: Uint8Array): Promise<void> {
+    const message = decodeIsoTpMessage(frame);
+    if (!message) {
+      // Plain CAN frames go out unchanged
+      return this.handle.write(frame);
+    }
+    if (message.data.length === 0) {
+      throw new Error('ISO-TP message must not be empty');
+    }
+
+    // One message at a time per ID; a failed one does not block the next
+    const key = idKey(message.id, message.ext);
+    const previous = this.txQueues.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.send(message.id, message.ext, message.data));
+    this.txQueues.set(key, next);
+    return next;
+  }
+
+  read(cb: (chunk: Uint8Array, meta?: RxMeta) => void): Unsubscribe {
+    this.readCallbacks.add(cb);
+    return () => {
+      this.readCallbacks.delete(cb);
+    };
+  }
+
+  async setOptions(opts: Partial<AdapterOpenOptions>): Promise<void> {
+    if (opts.canIsoTp) {
+      this.options = opts.canIsoTp;
+      this.pairs = opts.canIsoTp.pairs || DEFAULT_PAIRS;
+      this.timeoutMs = opts.canIsoTp.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    }
+    if (opts.canFD !== undefined) {
+      this.fd = opts.canFD;
+    }
+    await this.handle.setOptions(opts);
+  }
+
+  async close(): Promise<void> {
+    this.rxSessions.forEach(session => clearTimeout(session.timer));
+    this.rxSessions.clear();
+    this.flowWaiters.clear();
+    this.unsubscribe();
+    this.readCallbacks.clear();
+    await this.handle.close();
+  }
+
+  getStats(): Promise<AdapterStats> {
+    return this.handle.getStats();
+  }
+
+  private pairFor(frame: CanFrame): { pair: IsoTpAddress; incoming: boolean } | undefined {
+    const matches = (id: number, pair: IsoTpAddress) =>
+      id === frame.id && (pair.extended ?? id > 0x7FF) === frame.ext;
+
+    const incoming = this.pairs.find(p => matches(p.rxId, p));
+    if (incoming) return { pair: incoming, incoming: true };
+
+    // When listening only, the other direction is reassembled as well
+    const outgoing = this.options.listenOnly ? this.pairs.find(p => matches(p.txId, p)) : undefined;
+    return outgoing ? { pair: outgoing, incoming: false } : undefined;
+  }
+
+  private receive(chunk: Uint8Array, meta?: RxMeta): void {
+    const frame = meta?.error ? null : decodeCanFrame(chunk);
+    const match = frame && !frame.rtr && frame.data.length > 0 ? this.pairFor(frame) : undefined;
+    if (!frame || !match) {
+      this.emit(chunk, meta);
+      return;
+    }
+
+    const timestamp = meta?.timestamp ?? process.hrtime.bigint();
+    const key = idKey(frame.id, frame.ext);
+    const data = frame.data;
+
+    switch (data[0] >> 4) {
+      case PCI_SINGLE: {
+        let length = data[0] & 0x0F;
+        let offset = 1;
+        if (length === 0 && data.length > 8) {
+          // CAN-FD single frames with more than 7 bytes escape the length
+          length = data[1];
+          offset = 2;
+        }
+        if (length === 0 || offset + length > data.length) {
+          this.report(chunk, timestamp, 'ISOTP_INVALID_LENGTH', `Invalid single frame length ${length}`);
+          return;
+        }
+        this.interrupt(key);
+        this.emitMessage(frame.id, frame.ext, data.slice(offset, offset + length), timestamp);
+        break;
+      }
+      case PCI_FIRST: {
+        let length = ((data[0] & 0x0F) << 8) | data[1];
+        let offset = 2;
+        if (length === 0 && data.length >= 6) {
+          // Messages over 4095 bytes escape to a 32-bit length
+          length = ((data[2] << 24) | (data[3] << 16) | (data[4] << 8) | data[5]) >>> 0;
+          offset = 6;
+          if (length <= 0xFFF) {
+            this.report(chunk, timestamp, 'ISOTP_INVALID_LENGTH', `Escaped first frame length ${length} fits in 12 bits`);
+            return;
+          }
+        }
+        if (length < data.length - offset) {
+          this.report(chunk, timestamp, 'ISOTP_INVALID_LENGTH', `First frame length ${length} fits in a single frame`);
+          return;
+        }
+        const maxLength = this.options.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+        if (length > maxLength) {
+          if (match.incoming && !this.options.listenOnly) {
+            this.handle.write(this.canFrame(match.pair.txId, frame.ext, [(PCI_FLOW_CONTROL << 4) | FLOW_OVERFLOW, 0, 0]))
+              .catch(error => console.error('Failed to send flow control:', error));
+          }
+          this.report(chunk, timestamp, 'ISOTP_INVALID_LENGTH', `First frame length ${length} exceeds the maximum of ${maxLength}`);
+          return;
+        }
+        this.interrupt(key);
+
+        const session: RxSession = {
+          id: frame.id,
+          ext: frame.ext,
+          data: new Uint8Array(length),
+          received: data.length - offset,
+          nextSn: 1,
+          blockCount: 0,
+          timestamp,
+        };
+        session.data.set(data.slice(offset));
+        this.rxSessions.set(key, session);
+        this.armTimeout(key, session);
+
+        if (match.incoming && !this.options.listenOnly) {
+          this.sendFlowControl(match.pair, session);
+        }
+        break;
+      }
+      case PCI_CONSECUTIVE: {
+        const session = this.rxSessions.get(key);
+        if (!session) {
+          this.report(chunk, timestamp, 'ISOTP_UNEXPECTED_CF', 'Consecutive frame without a first frame', 'warning');
+          return;
+        }
+
+        const sn = data[0] & 0x0F;
+        if (sn !== session.nextSn) {
+          this.fail(key, session, 'ISOTP_SEQUENCE_ERROR', `Expected sequence number ${session.nextSn}, got ${sn}`);
+          return;
+        }
+
+        const bytes = data.slice(1, 1 + session.data.length - session.received);
+        session.data.set(bytes, session.received);
+        session.received += bytes.length;
+        session.nextSn = (sn + 1) & 0x0F;
+        session.blockCount++;
+
+        if (session.received >= session.data.length) {
+          clearTimeout(session.timer);
+          this.rxSessions.delete(key);
+          this.emitMessage(session.id, session.ext, session.data, session.timestamp);
+          return;
+        }
+
+        this.armTimeout(key, session);
+        const blockSize = this.options.blockSize || 0;
+        if (match.incoming && !this.options.listenOnly && blockSize > 0 && session.blockCount >= blockSize) {
+          this.sendFlowControl(match.pair, session);
+        }
+        break;
+      }
+      case PCI_FLOW_CONTROL: {
+        const waiter = this.flowWaiters.get(key);
+        if (waiter) {
+          waiter(frame);
+        } else {
+          this.emit(chunk, meta);
+        }
+        break;
+      }
+      default:
+        this.report(chunk, timestamp, 'ISOTP_INVALID_PCI', `Unknown ISO-TP frame type 0x${(data[0] >> 4).toString(16)}`);
+    }
+  }
+
+  private sendFlowControl(pair: IsoTpAddress, session: RxSession): void {
+    session.blockCount = 0;
+    const frame = this.canFrame(pair.txId, session.ext, [
+      (PCI_FLOW_CONTROL << 4) | FLOW_CONTINUE,
+      this.options.blockSize || 0,
+      Math.min(this.options.stMin || 0, 0x7F),
+    ]);
+    this.handle.write(frame).catch(error => {
+      const key = idKey(session.id, session.ext);
+      this.fail(key, session, 'ISOTP_FLOW_CONTROL', `Failed to send flow control: ${(error as Error).message}`);
+    });
+  }
+
+  private armTimeout(key: number, session: RxSession): void {
+    clearTimeout(session.timer);
+    session.timer = setTimeout(() => {
+      this.fail(key, session, 'ISOTP_TIMEOUT',
+        `Timed out waiting for a consecutive frame (N_Cr) after ${session.received} of ${session.data.length} bytes`);
+    }, this.timeoutMs);
+  }
+
+  // A new single or first frame aborts the message in progress from the same sender
+  private interrupt(key: number): void {
+    const session = this.rxSessions.get(key);
+    if (session) {
+      this.fail(key, session, 'ISOTP_INTERRUPTED',
+        `New message after ${session.received} of ${session.data.length} bytes`, 'warning');
+    }
+  }
+
+  // Drops the session and reports what was received so far
+  private fail(key: number, session: RxSession, code: string, message: string, severity: FrameError['severity'] = 'error'): void {
+    clearTimeout(session.timer);
+    if (this.rxSessions.get(key) === session) {
+      this.rxSessions.delete(key);
+    }
+    const partial = encodeIsoTpMessage({ id: session.id, ext: session.ext, data: session.data.slice(0, session.received) });
+    this.report(partial, session.timestamp, code, message, severity);
+  }
+
+  private report(chunk: Uint8Array, timestamp: bigint, code: string, message: string, severity: FrameError['severity'] = 'error'): void {
+    this.emit(chunk, {
+      timestamp,
+      direction: 'rx',
+      length: chunk.length,
+      error: { code, message, severity },
+    });
+  }
+
+  private emitMessage(id: number, ext: boolean, data: Uint8Array, timestamp: bigint): void {
+    const chunk = encodeIsoTpMessage({ id, ext, data });
+    this.emit(chunk, {
+      timestamp,
+      direction: 'rx',
+      length: chunk.length,
+      transportSpecific: { canId: id, canExt: ext, isoTpLength: data.length },
+    });
+  }
+
+  private emit(chunk: Uint8Array, meta?: RxMeta): void {
+    this.readCallbacks.forEach(cb => {
+      try {
+        cb(chunk, meta);
+      } catch (error) {
+        console.error('Error in read callback:', error);
+      }
+    });
+  }
+
+  private async send(id: number, ext: boolean, data: Uint8Array): Promise<void> {
+    const frameLength = this.fd ? 64 : 8;
+
+    if (data.length <= 7) {
+      await this.handle.write(this.canFrame(id, ext, [data.length, ...data]));
+      return;
+    }
+    if (this.fd && data.length <= frameLength - 2) {
+      await this.handle.write(this.canFrame(id, ext, [0x00, data.length, ...data]));
+      return;
+    }
+
+    const pair = this.pairs.find(p => p.txId === id && (p.extended ?? id > 0x7FF) === ext);
+    if (!pair) {
+      throw new Error(`No ISO-TP address pair for 0x${id.toString(16).toUpperCase()}; multi-frame messages need flow control`);
+    }
+
+    const header = data.length <= 0xFFF
+      ? [(PCI_FIRST << 4) | (data.length >> 8), data.length & 0xFF]
+      : [PCI_FIRST << 4, 0x00, (data.length >>> 24) & 0xFF, (data.length >> 16) & 0xFF, (data.length >> 8) & 0xFF, data.length & 0xFF];
+    let offset = frameLength - header.length;
+
+    let waiter = this.waitFlowControl(pair, ext);
+    await this.writeAwaiting(this.canFrame(id, ext, [...header, ...data.slice(0, offset)]), waiter);
+
+    let sn = 1;
+    while (offset < data.length) {
+      const { blockSize, stMin } = await waiter.flowControl;
+
+      for (let sent = 0; offset < data.length && (blockSize === 0 || sent < blockSize); sent++) {
+        if (sent > 0 && stMin > 0) await sleep(stMin);
+
+        const end = Math.min(offset + frameLength - 1, data.length);
+        const frame = this.canFrame(id, ext, [(PCI_CONSECUTIVE << 4) | sn, ...data.slice(offset, end)]);
+        // The receiver answers the last frame of a block, so listen before sending it
+        if (blockSize > 0 && sent === blockSize - 1 && end < data.length) {
+          waiter = this.waitFlowControl(pair, ext);
+          await this.writeAwaiting(frame, waiter);
+        } else {
+          await this.handle.write(frame);
+        }
+        offset = end;
+        sn = (sn + 1) & 0x0F;
+      }
+    }
+  }
+
+  // The peer may answer before write() resolves; if the write fails, nobody waits for the answer
+  private async writeAwaiting(frame: Uint8Array, waiter: FlowControlWaiter): Promise<void> {
+    try {
+      await this.handle.write(frame);
+    } catch (error) {
+      waiter.cancel();
+      throw error;
+    }
+  }
+
+  // Resolves on the next clear-to-send from the peer, following wait frames
+  private waitFlowControl(pair: IsoTpAddress, ext: boolean): FlowControlWaiter {
+    const key = idKey(pair.rxId, ext);
+    let timer: ReturnType<typeof setTimeout>;
+    let listener: (frame: CanFrame) => void;
+
+    const flowControl = new Promise<FlowControl>((resolve, reject) => {
+      let waits = 0;
+      const arm = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          this.flowWaiters.delete(key);
+          reject(new Error(`Timed out waiting for flow control from 0x${pair.rxId.toString(16).toUpperCase()} (N_Bs)`));
+        }, this.timeoutMs);
+      };
+      arm();
+
+      listener = frame => {
+        const status = frame.data[0] & 0x0F;
+        if (status === FLOW_WAIT && ++waits <= MAX_WAIT_FRAMES) {
+          arm();
+          return;
+        }
+
+        clearTimeout(timer);
+        this.flowWaiters.delete(key);
+        if (status === FLOW_CONTINUE) {
+          resolve({ blockSize: frame.data[1] ?? 0, stMin: parseStMin(frame.data[2] ?? 0) });
+        } else if (status === FLOW_OVERFLOW) {
+          reject(new Error('ISO-TP receiver overflow: message too long for the peer'));
+        } else if (status === FLOW_WAIT) {
+          reject(new Error(`ISO-TP peer sent more than ${MAX_WAIT_FRAMES} wait frames`));
+        } else {
+          reject(new Error(`Invalid ISO-TP flow status ${status}`));
+        }
+      };
+      this.flowWaiters.set(key, listener);
+    });
+
+    return {
+      flowControl,
+      cancel: () => {
+        clearTimeout(timer);
+        if (this.flowWaiters.get(key) === listener) {
+          this.flowWaiters.delete(key);
+        }
+      },
+    };
+  }
+
+  private canFrame(id: number, ext: boolean, bytes: ArrayLike<number>): Uint8Array {
+    let data = Uint8Array.from(bytes);
+    const padding = this.options.padding === undefined ? DEFAULT_PADDING : this.options.padding;
+    if (padding !== null) {
+      const length = data.length <= 8 ? 8 : canDlcToLength(canLengthToDlc(data.length), true);
+      const padded = new Uint8Array(length).fill(padding);
+      padded.set(data);
+      data = padded;
+    }
+    return encodeCanFrame({ id, ext, fd: this.fd, brs: this.fd, data });
+  }
+}
+
+// packages/transports-can/src/uds-decoder.ts
+import type { ProtocolDecoder, DecodedFrame, FrameField, FrameError } from '@commwatch/proto-core';
+
+// UDS (ISO 14229-1) service identifiers of requests; positive responses add 0x40
+export const UDS_SERVICES: Record<number, string> = {
+  0x10: 'DiagnosticSessionControl',
+  0x11: 'ECUReset',
+  0x14: 'ClearDiagnosticInformation',
+  0x19: 'ReadDTCInformation',
+  0x22: 'ReadDataByIdentifier',
+  0x23: 'ReadMemoryByAddress',
+  0x24: 'ReadScalingDataByIdentifier',
+  0x27: 'SecurityAccess',
+  0x28: 'CommunicationControl',
+  0x29: 'Authentication',
+  0x2A: 'ReadDataByPeriodicIdentifier',
+  0x2C: 'DynamicallyDefineDataIdentifier',
+  0x2E: 'WriteDataByIdentifier',
+  0x2F: 'InputOutputControlByIdentifier',
+  0x31: 'RoutineControl',
+  0x34: 'RequestDownload',
+  0x35: 'RequestUpload',
+  0x36: 'TransferData',
+  0x37: 'RequestTransferExit',
+  0x38: 'RequestFileTransfer',
+  0x3D: 'WriteMemoryByAddress',
+  0x3E: 'TesterPresent',
+  0x83: 'AccessTimingParameter',
+  0x84: 'SecuredDataTransmission',
+  0x85: 'ControlDTCSetting',
+  0x86: 'ResponseOnEvent',
+  0x87: 'LinkControl',
+};
+
+export const UDS_NEGATIVE_RESPONSE = 0x7F;
+
+export const UDS_NRC: Record<number, string> = {
+  0x10: 'generalReject',
+  0x11: 'serviceNotSupported',
+  0x12: 'subFunctionNotSupported',
+  0x13: 'incorrectMessageLengthOrInvalidFormat',
+  0x14: 'responseTooLong',
+  0x21: 'busyRepeatRequest',
+  0x22: 'conditionsNotCorrect',
+  0x24: 'requestSequenceError',
+  0x25: 'noResponseFromSubnetComponent',
+  0x26: 'failurePreventsExecutionOfRequestedAction',
+  0x31: 'requestOutOfRange',
+  0x33: 'securityAccessDenied',
+  0x35: 'invalidKey',
+  0x36: 'exceededNumberOfAttempts',
+  0x37: 'requiredTimeDelayNotExpired',
+  0x70: 'uploadDownloadNotAccepted',
+  0x71: 'transferDataSuspended',
+  0x72: 'generalProgrammingFailure',
+  0x73: 'wrongBlockSequenceCounter',
+  0x78: 'requestCorrectlyReceivedResponsePending',
+  0x7E: 'subFunctionNotSupportedInActiveSession',
+  0x7F: 'serviceNotSupportedInActiveSession',
+};
+
+// Standardised data identifiers (ISO 14229-1 annex C)
+export const UDS_DIDS: Record<number, string> = {
+  0xF180: 'bootSoftwareIdentification',
+  0xF186: 'activeDiagnosticSession',
+  0xF187: 'sparePartNumber',
+  0xF188: 'ecuSoftwareNumber',
+  0xF189: 'ecuSoftwareVersionNumber',
+  0xF18A: 'systemSupplierIdentifier',
+  0xF18B: 'ecuManufacturingDate',
+  0xF18C: 'ecuSerialNumber',
+  0xF190: 'vin',
+  0xF191: 'ecuHardwareNumber',
+  0xF192: 'systemSupplierEcuHardwareNumber',
+  0xF194: 'systemSupplierEcuSoftwareNumber',
+  0xF197: 'systemName',
+};
+
+// Sub-function names by service; services listed here carry a sub-function byte
+const SUB_FUNCTIONS: Record<number, Record<number, string>> = {
+  0x10: { 0x01: 'defaultSession', 0x02: 'programmingSession', 0x03: 'extendedDiagnosticSession', 0x04: 'safetySystemDiagnosticSession' },
+  0x11: { 0x01: 'hardReset', 0x02: 'keyOffOnReset', 0x03: 'softReset', 0x04: 'enableRapidPowerShutDown', 0x05: 'disableRapidPowerShutDown' },
+  0x19: {},
+  0x27: {}, // Odd levels request a seed, even ones send the key
+  0x28: { 0x00: 'enableRxAndTx', 0x01: 'enableRxAndDisableTx', 0x02: 'disableRxAndEnableTx', 0x03: 'disableRxAndTx' },
+  0x29: {},
+  0x31: { 0x01: 'startRoutine', 0x02: 'stopRoutine', 0x03: 'requestRoutineResults' },
+  0x3E: { 0x00: 'zeroSubFunction' },
+  0x83: {},
+  0x85: { 0x01: 'on', 0x02: 'off' },
+  0x86: {},
+  0x87: {},
+};
+
+// Services followed by a 16-bit identifier
+const DID_SERVICES = new Set([0x22, 0x24, 0x2E, 0x2F]);
+
+const SUPPRESS_POSITIVE_RESPONSE = 0x80;
+
+export function udsServiceName(sid: number): string {
+  return UDS_SERVICES[sid] || `0x${sid.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+export function udsNrcName(nrc: number): string {
+  return UDS_NRC[nrc] || `0x${nrc.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+/**
+ * Decodes UDS requests and responses, e.g. the payloads of reassembled
+ * ISO-TP messages in a `can,uds` stack.
+ */
+export class UDSDecoder implements ProtocolDecoder {
+  id = 'uds';
+  name = 'UDS Diagnostics';
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    if (raw.length === 0) return null;
+
+    const sid = raw[0];
+    if (sid === UDS_NEGATIVE_RESPONSE) {
+      return this.decodeNegative(raw);
+    }
+
+    const response = !UDS_SERVICES[sid] && !!UDS_SERVICES[sid - 0x40];
+    const service = response ? sid - 0x40 : sid;
+    if (!UDS_SERVICES[service]) return null;
+
+    const fields: FrameField[] = [
+      {
+        name: 'service',
+        value: sid,
+        type: 'uint8',
+        raw: raw.slice(0, 1),
+        offset: 0,
+        label: response ? `${UDS_SERVICES[service]} response` : UDS_SERVICES[service],
+      },
+    ];
+    let offset = 1;
+
+    const subFunctions = SUB_FUNCTIONS[service];
+    if (subFunctions && raw.length > offset) {
+      const value = raw[offset] & ~SUPPRESS_POSITIVE_RESPONSE;
+      fields.push({
+        name: 'subFunction',
+        value,
+        type: 'uint8',
+        raw: raw.slice(offset, offset + 1),
+        offset,
+        label: service === 0x27 ? securityLabel(value) : subFunctions[value],
+      });
+      if (!response && raw[offset] & SUPPRESS_POSITIVE_RESPONSE) {
+        fields.push({ name: 'suppressPositiveResponse', value: true, type: 'uint8', raw: raw.slice(offset, offset + 1), offset });
+      }
+      offset++;
+    }
+
+    if (service === 0x22 && !response) {
+      // A request may read several identifiers at once
+      for (; offset + 1 < raw.length; offset += 2) {
+        fields.push(this.identifier('did', raw, offset));
+      }
+    } else if ((DID_SERVICES.has(service) || service === 0x31) && raw.length >= offset + 2) {
+      fields.push(this.identifier(service === 0x31 ? 'routineId' : 'did', raw, offset));
+      offset += 2;
+    } else if (service === 0x10 && response && raw.length >= offset + 4) {
+      // Server timing: P2 in ms, P2* in units of 10 ms
+      fields.push({ name: 'p2', value: (raw[offset] << 8) | raw[offset + 1], type: 'uint16', raw: raw.slice(offset, offset + 2), offset, unit: 'ms' });
+      fields.push({ name: 'p2Star', value: ((raw[offset + 2] << 8) | raw[offset + 3]) * 10, type: 'uint16', raw: raw.slice(offset + 2, offset + 4), offset: offset + 2, scaling: 10, unit: 'ms' });
+      offset += 4;
+    }
+
+    if (offset < raw.length) {
+      const data = raw.slice(offset);
+      const subFunction = raw[1] & ~SUPPRESS_POSITIVE_RESPONSE;
+      let name = 'data';
+      if (service === 0x27) name = subFunction % 2 === 1 ? (response ? 'seed' : 'data') : (response ? 'data' : 'key');
+      fields.push({ name, value: data, type: 'bytes', raw: data, offset });
+    }
+
+    return {
+      protocol: 'uds',
+      fields,
+      metadata: {
+        service: UDS_SERVICES[service],
+        kind: response ? 'response' : 'request',
+      },
+    };
+  }
+
+  encode(fields: FrameField[]): Uint8Array {
+    const number = (name: string) => {
+      const field = fields.find(f => f.name === name);
+      return field === undefined ? undefined : Number(field.value);
+    };
+    const bytes = (...names: string[]) => {
+      const field = fields.find(f => names.includes(f.name));
+      return field ? Array.from(field.value as ArrayLike<number>) : [];
+    };
+    const word = (value: number) => [(value >> 8) & 0xFF, value & 0xFF];
+
+    const sid = number('service');
+    if (sid === undefined) {
+      throw new Error('UDS message requires a service field');
+    }
+
+    if (sid === UDS_NEGATIVE_RESPONSE) {
+      return new Uint8Array([sid, number('requestService') ?? 0, number('nrc') ?? 0]);
+    }
+
+    const out = [sid];
+    const subFunction = number('subFunction');
+    if (subFunction !== undefined) {
+      out.push(subFunction | (fields.some(f => f.name === 'suppressPositiveResponse' && f.value) ? SUPPRESS_POSITIVE_RESPONSE : 0));
+    }
+    fields.filter(f => f.name === 'did' || f.name === 'routineId').forEach(f => out.push(...word(Number(f.value))));
+
+    const p2 = number('p2');
+    if (p2 !== undefined) {
+      out.push(...word(p2), ...word(Math.round((number('p2Star') ?? 0) / 10)));
+    }
+
+    out.push(...bytes('data', 'seed', 'key'));
+    return new Uint8Array(out);
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    if (raw.length === 0) {
+      return {
+        code: 'EMPTY_MESSAGE',
+        message: 'Empty UDS message',
+        severity: 'error',
+      };
+    }
+
+    if (raw[0] === UDS_NEGATIVE_RESPONSE) {
+      if (raw.length < 3) {
+        return {
+          code: 'TRUNCATED',
+          message: 'Negative response without service and code',
+          severity: 'error',
+        };
+      }
+      return {
+        code: 'NEGATIVE_RESPONSE',
+        message: `${udsServiceName(raw[1])} rejected: ${udsNrcName(raw[2])}`,
+        severity: 'warning',
+      };
+    }
+
+    const service = UDS_SERVICES[raw[0]] ? raw[0] : raw[0] - 0x40;
+    if (!UDS_SERVICES[service]) {
+      return {
+        code: 'UNKNOWN_SERVICE',
+        message: `Unknown UDS service ${udsServiceName(raw[0])}`,
+        severity: 'error',
+      };
+    }
+
+    const minLength = 1 + (SUB_FUNCTIONS[service] ? 1 : 0) + (DID_SERVICES.has(service) || service === 0x31 ? 2 : 0);
+    if (raw.length < minLength) {
+      return {
+        code: 'TRUNCATED',
+        message: `${UDS_SERVICES[service]} needs at least ${minLength} bytes, got ${raw.length}`,
+        severity: 'error',
+      };
+    }
+
+    return null;
+  }
+
+  // Diagnostic payloads are short and unmarked, so they never win auto-detection on their own
+  score(raw: Uint8Array): number {
+    return this.decode(raw) && !this.validate(raw) ? 0.3 : 0;
+  }
+
+  private decodeNegative(raw: Uint8Array): DecodedFrame {
+    const fields: FrameField[] = [
+      { name: 'service', value: raw[0], type: 'uint8', raw: raw.slice(0, 1), offset: 0, label: 'NegativeResponse' },
+    ];
+    if (raw.length > 1) {
+      fields.push({ name: 'requestService', value: raw[1], type: 'uint8', raw: raw.slice(1, 2), offset: 1, label: UDS_SERVICES[raw[1]] });
+    }
+    if (raw.length > 2) {
+      fields.push({ name: 'nrc', value: raw[2], type: 'uint8', raw: raw.slice(2, 3), offset: 2, label: UDS_NRC[raw[2]] });
+    }
+
+    return {
+      protocol: 'uds',
+      fields,
+      metadata: {
+        service: raw.length > 1 ? UDS_SERVICES[raw[1]] : undefined,
+        kind: 'negative',
+      },
+    };
+  }
+
+  private identifier(name: string, raw: Uint8Array, offset: number): FrameField {
+    const value = (raw[offset] << 8) | raw[offset + 1];
+    return {
+      name,
+      value,
+      type: 'uint16',
+      raw: raw.slice(offset, offset + 2),
+      offset,
+      label: name === 'did' ? UDS_DIDS[value] : undefined,
+    };
+  }
+}
+
+function securityLabel(level: number): string {
+  return level % 2 === 1 ? `requestSeed level ${level}` : `sendKey level ${level - 1}`;
+}
+
+// packages/transports-can/src/obd-decoder.ts
+import type { ProtocolDecoder, DecodedFrame, FrameField, FrameError } from '@commwatch/proto-core';
+import { UDS_NEGATIVE_RESPONSE, UDS_NRC } from './uds-decoder';
+
+// OBD-II (SAE J1979) services; positive responses add 0x40
+export const OBD_MODES: Record<number, string> = {
+  0x01: 'showCurrentData',
+  0x02: 'showFreezeFrameData',
+  0x03: 'showStoredDtcs',
+  0x04: 'clearDtcs',
+  0x09: 'requestVehicleInformation',
+};
+
+export interface OBDPid {
+  name: string;
+  bytes: number;
+  scale?: number; // Physical value = raw * scale + offset; bit fields have neither
+  offset?: number;
+  unit?: string;
+}
+
+// Mode 01/02 parameter IDs
+export const OBD_PIDS: Record<number, OBDPid> = {
+  0x00: { name: 'supportedPids', bytes: 4 },
+  0x01: { name: 'monitorStatus', bytes: 4 },
+  0x02: { name: 'freezeFrameDtc', bytes: 2 }, // Mode 02 only
+  0x03: { name: 'fuelSystemStatus', bytes: 2 },
+  0x04: { name: 'engineLoad', bytes: 1, scale: 100 / 255, unit: '%' },
+  0x05: { name: 'coolantTemp', bytes: 1, offset: -40, unit: '°C' },
+  0x06: { name: 'shortTermFuelTrimBank1', bytes: 1, scale: 100 / 128, offset: -100, unit: '%' },
+  0x07: { name: 'longTermFuelTrimBank1', bytes: 1, scale: 100 / 128, offset: -100, unit: '%' },
+  0x08: { name: 'shortTermFuelTrimBank2', bytes: 1, scale: 100 / 128, offset: -100, unit: '%' },
+  0x09: { name: 'longTermFuelTrimBank2', bytes: 1, scale: 100 / 128, offset: -100, unit: '%' },
+  0x0A: { name: 'fuelPressure', bytes: 1, scale: 3, unit: 'kPa' },
+  0x0B: { name: 'intakeManifoldPressure', bytes: 1, unit: 'kPa' },
+  0x0C: { name: 'engineRpm', bytes: 2, scale: 0.25, unit: 'rpm' },
+  0x0D: { name: 'vehicleSpeed', bytes: 1, unit: 'km/h' },
+  0x0E: { name: 'timingAdvance', bytes: 1, scale: 0.5, offset: -64, unit: '°' },
+  0x0F: { name: 'intakeAirTemp', bytes: 1, offset: -40, unit: '°C' },
+  0x10: { name: 'mafAirFlowRate', bytes: 2, scale: 0.01, unit: 'g/s' },
+  0x11: { name: 'throttlePosition', bytes: 1, scale: 100 / 255, unit: '%' },
+  0x1C: { name: 'obdStandard', bytes: 1 },
+  0x1F: { name: 'runTime', bytes: 2, unit: 's' },
+  0x20: { name: 'supportedPids', bytes: 4 },
+  0x21: { name: 'distanceWithMil', bytes: 2, unit: 'km' },
+  0x2F: { name: 'fuelTankLevel', bytes: 1, scale: 100 / 255, unit: '%' },
+  0x31: { name: 'distanceSinceCodesCleared', bytes: 2, unit: 'km' },
+  0x33: { name: 'barometricPressure', bytes: 1, unit: 'kPa' },
+  0x40: { name: 'supportedPids', bytes: 4 },
+  0x42: { name: 'controlModuleVoltage', bytes: 2, scale: 0.001, unit: 'V' },
+  0x46: { name: 'ambientAirTemp', bytes: 1, offset: -40, unit: '°C' },
+  0x51: { name: 'fuelType', bytes: 1 },
+  0x5C: { name: 'oilTemp', bytes: 1, offset: -40, unit: '°C' },
+  0x5E: { name: 'fuelRate', bytes: 2, scale: 0.05, unit: 'L/h' },
+  0x60: { name: 'supportedPids', bytes: 4 },
+  0x80: { name: 'supportedPids', bytes: 4 },
+  0xA0: { name: 'supportedPids', bytes: 4 },
+  0xA6: { name: 'odometer', bytes: 4, scale: 0.1, unit: 'km' },
+};
+
+// Mode 09 information types
+export const OBD_INFO_TYPES: Record<number, string> = {
+  0x00: 'supportedInfoTypes',
+  0x02: 'vin',
+  0x04: 'calibrationId',
+  0x0A: 'ecuName',
+};
+
+const DTC_LETTERS = ['P', 'C', 'B', 'U'];
+const MAX_REQUEST_PIDS = 6;
+
+export function decodeObdValue(pid: number, data: ArrayLike<number>): number {
+  const info = OBD_PIDS[pid];
+  if (!info) {
+    throw new Error(`Unknown OBD PID 0x${pid.toString(16).toUpperCase()}`);
+  }
+  let raw = 0;
+  for (let i = 0; i < info.bytes; i++) {
+    raw = raw * 256 + (data[i] ?? 0);
+  }
+  return raw * (info.scale ?? 1) + (info.offset ?? 0);
+}
+
+// Physical value to response bytes, rounded and clamped to the PID's range
+export function encodeObdValue(pid: number, value: number): number[] {
+  const info = OBD_PIDS[pid];
+  if (!info) {
+    throw new Error(`Unknown OBD PID 0x${pid.toString(16).toUpperCase()}`);
+  }
+  const max = 2 ** (8 * info.bytes) - 1;
+  let raw = Math.min(max, Math.max(0, Math.round((value - (info.offset ?? 0)) / (info.scale ?? 1))));
+  const bytes: number[] = [];
+  for (let i = 0; i < info.bytes; i++) {
+    bytes.unshift(raw % 256);
+    raw = Math.floor(raw / 256);
+  }
+  return bytes;
+}
+
+// Two-byte trouble code, e.g. 01 43 → P0143
+export function decodeDtc(high: number, low: number): string {
+  return DTC_LETTERS[high >> 6] + ((high >> 4) & 0x03) + (((high & 0x0F) << 8) | low).toString(16).toUpperCase().padStart(3, '0');
+}
+
+export function encodeDtc(code: string): [number, number] {
+  const match = /^([PCBU])([0-3])([0-9A-F]{3})$/i.exec(code);
+  if (!match) {
+    throw new Error(`Invalid DTC: ${code} (expected e.g. P0301)`);
+  }
+  const rest = parseInt(match[3], 16);
+  return [(DTC_LETTERS.indexOf(match[1].toUpperCase()) << 6) | (parseInt(match[2]) << 4) | (rest >> 8), rest & 0xFF];
+}
+
+function ascii(data: Uint8Array): string {
+  return Buffer.from(data).toString('latin1').replace(/\0+$/, '');
+}
+
+/**
+ * Decodes OBD-II requests and responses (modes 01-04 and 09), e.g. the
+ * payloads of reassembled ISO-TP messages in a `can,obd` stack.
+ */
+export class OBDDecoder implements ProtocolDecoder {
+  id = 'obd';
+  name = 'OBD-II';
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    if (raw.length === 0) return null;
+
+    if (raw[0] === UDS_NEGATIVE_RESPONSE) {
+      if (raw.length < 3 || !OBD_MODES[raw[1]]) return null;
+      return {
+        protocol: 'obd',
+        fields: [
+          { name: 'mode', value: raw[0], type: 'uint8', raw: raw.slice(0, 1), offset: 0, label: 'NegativeResponse' },
+          { name: 'requestMode', value: raw[1], type: 'uint8', raw: raw.slice(1, 2), offset: 1, label: OBD_MODES[raw[1]] },
+          { name: 'nrc', value: raw[2], type: 'uint8', raw: raw.slice(2, 3), offset: 2, label: UDS_NRC[raw[2]] },
+        ],
+        metadata: { mode: OBD_MODES[raw[1]], kind: 'negative' },
+      };
+    }
+
+    const response = raw[0] >= 0x40;
+    const mode = response ? raw[0] - 0x40 : raw[0];
+    if (!OBD_MODES[mode]) return null;
+
+    const fields: FrameField[] = [
+      {
+        name: 'mode',
+        value: raw[0],
+        type: 'uint8',
+        raw: raw.slice(0, 1),
+        offset: 0,
+        label: response ? `${OBD_MODES[mode]} response` : OBD_MODES[mode],
+      },
+    ];
+    const byte = (name: string, offset: number, label?: string): FrameField =>
+      ({ name, value: raw[offset], type: 'uint8', raw: raw.slice(offset, offset + 1), offset, label });
+
+    let offset = 1;
+    if (!response) {
+      // Requests: PIDs (mode 02 pairs each with a freeze frame number) or an info type
+      while (offset < raw.length) {
+        if (mode === 0x09) {
+          fields.push(byte('infoType', offset, OBD_INFO_TYPES[raw[offset]]));
+        } else {
+          fields.push(byte('pid', offset, OBD_PIDS[raw[offset]]?.name));
+          if (mode === 0x02 && offset + 1 < raw.length) fields.push(byte('frame', ++offset));
+        }
+        offset++;
+      }
+    } else if (mode === 0x01 || mode === 0x02) {
+      // A response may carry several PIDs back to back
+      while (offset < raw.length) {
+        const pid = OBD_PIDS[raw[offset]];
+        const start = offset + (mode === 0x02 ? 2 : 1);
+        if (!pid || start + pid.bytes > raw.length) break;
+
+        fields.push(byte('pid', offset, pid.name));
+        if (mode === 0x02) fields.push(byte('frame', offset + 1));
+        fields.push(this.pidField(raw[offset], raw, start));
+        offset = start + pid.bytes;
+      }
+    } else if (mode === 0x03 && offset < raw.length) {
+      fields.push(byte('dtcCount', offset++));
+      for (; offset + 1 < raw.length; offset += 2) {
+        fields.push({ name: 'dtc', value: decodeDtc(raw[offset], raw[offset + 1]), type: 'string', raw: raw.slice(offset, offset + 2), offset });
+      }
+    } else if (mode === 0x09 && raw.length >= 2) {
+      const infoType = raw[1];
+      fields.push(byte('infoType', 1, OBD_INFO_TYPES[infoType]));
+      offset = 2;
+
+      if (infoType === 0x00) {
+        // The supported bitmap has no data item count
+        if (raw.length >= 6) {
+          fields.push({ name: 'supportedInfoTypes', value: decodeObdValue(0x00, raw.slice(2)), type: 'uint32', raw: raw.slice(2, 6), offset });
+          offset = 6;
+        }
+      } else if (offset < raw.length) {
+        fields.push(byte('dataItems', offset++));
+        if (infoType === 0x02 || infoType === 0x0A) {
+          const data = raw.slice(offset);
+          fields.push({ name: OBD_INFO_TYPES[infoType], value: ascii(data), type: 'string', raw: data, offset });
+          offset = raw.length;
+        } else if (infoType === 0x04) {
+          for (; offset + 16 <= raw.length; offset += 16) {
+            fields.push({ name: 'calibrationId', value: ascii(raw.slice(offset, offset + 16)), type: 'string', raw: raw.slice(offset, offset + 16), offset });
+          }
+        }
+      }
+    }
+
+    if (offset < raw.length) {
+      const data = raw.slice(offset);
+      fields.push({ name: 'data', value: data, type: 'bytes', raw: data, offset });
+    }
+
+    return {
+      protocol: 'obd',
+      fields,
+      metadata: {
+        mode: OBD_MODES[mode],
+        kind: response ? 'response' : 'request',
+      },
+    };
+  }
+
+  // Fields are written back in order, so decode output round-trips
+  encode(fields: FrameField[]): Uint8Array {
+    const out: number[] = [];
+    let pid: number | undefined;
+
+    for (const field of fields) {
+      switch (field.name) {
+        case 'pid':
+          pid = Number(field.value);
+          out.push(pid);
+          break;
+        case 'mode':
+        case 'requestMode':
+        case 'nrc':
+        case 'frame':
+        case 'infoType':
+        case 'dataItems':
+        case 'dtcCount':
+          out.push(Number(field.value));
+          break;
+        case 'dtc':
+        case 'freezeFrameDtc':
+          out.push(...encodeDtc(String(field.value)));
+          break;
+        case 'supportedInfoTypes':
+          out.push(...encodeObdValue(0x00, Number(field.value)));
+          break;
+        case 'vin':
+          out.push(...Buffer.from(String(field.value), 'latin1'));
+          break;
+        case 'ecuName':
+        case 'calibrationId': {
+          const padded = new Uint8Array(field.name === 'ecuName' ? 20 : 16);
+          padded.set(Buffer.from(String(field.value), 'latin1').slice(0, padded.length));
+          out.push(...padded);
+          break;
+        }
+        case 'data':
+          out.push(...Array.from(field.value as ArrayLike<number>));
+          break;
+        default:
+          if (pid === undefined || OBD_PIDS[pid]?.name !== field.name) {
+            throw new Error(`Unexpected OBD field: ${field.name}`);
+          }
+          out.push(...encodeObdValue(pid, Number(field.value)));
+      }
+    }
+
+    if (out.length === 0) {
+      throw new Error('OBD message requires a mode field');
+    }
+    return new Uint8Array(out);
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    if (raw.length === 0) {
+      return {
+        code: 'EMPTY_MESSAGE',
+        message: 'Empty OBD-II message',
+        severity: 'error',
+      };
+    }
+
+    if (raw[0] === UDS_NEGATIVE_RESPONSE) {
+      return {
+        code: 'NEGATIVE_RESPONSE',
+        message: `Mode 0x${(raw[1] ?? 0).toString(16).padStart(2, '0')} rejected: ${UDS_NRC[raw[2]] || 'unknown code'}`,
+        severity: 'warning',
+      };
+    }
+
+    const response = raw[0] >= 0x40;
+    const mode = response ? raw[0] - 0x40 : raw[0];
+    if (!OBD_MODES[mode]) {
+      return {
+        code: 'UNKNOWN_MODE',
+        message: `Unknown OBD-II mode 0x${raw[0].toString(16).toUpperCase()}`,
+        severity: 'error',
+      };
+    }
+
+    if (!response && mode === 0x01 && raw.length - 1 > MAX_REQUEST_PIDS) {
+      return {
+        code: 'TOO_MANY_PIDS',
+        message: `Mode 01 requests carry at most ${MAX_REQUEST_PIDS} PIDs, got ${raw.length - 1}`,
+        severity: 'error',
+      };
+    }
+
+    const decoded = this.decode(raw);
+    if (response && (mode === 0x01 || mode === 0x02) && decoded?.fields.some(f => f.name === 'data')) {
+      return {
+        code: 'TRUNCATED',
+        message: 'Unknown PID or PID data shorter than expected',
+        severity: 'warning',
+      };
+    }
+
+    return null;
+  }
+
+  // OBD payloads are short and unmarked, so they never win auto-detection on their own
+  score(raw: Uint8Array): number {
+    return this.decode(raw) && !this.validate(raw) ? 0.3 : 0;
+  }
+
+  private pidField(pid: number, raw: Uint8Array, offset: number): FrameField {
+    const info = OBD_PIDS[pid];
+    const bytes = raw.slice(offset, offset + info.bytes);
+    if (pid === 0x02) {
+      return { name: info.name, value: decodeDtc(bytes[0], bytes[1]), type: 'string', raw: bytes, offset };
+    }
+
+    const integer = Number.isInteger(info.scale ?? 1) && Number.isInteger(info.offset ?? 0);
+    const field: FrameField = {
+      name: info.name,
+      value: decodeObdValue(pid, bytes),
+      type: !integer ? 'float' : info.offset ? 'int16' : info.bytes === 1 ? 'uint8' : info.bytes === 2 ? 'uint16' : 'uint32',
+      raw: bytes,
+      offset,
+    };
+    if (info.scale !== undefined) field.scaling = info.scale;
+    if (info.unit) field.unit = info.unit;
+    return field;
+  }
+}
+
+// packages/transports-can/src/obd-ecu.ts
+import type { AdapterHandle, IsoTpAddress, Unsubscribe } from '@commwatch/proto-core';
+import { encodeIsoTpMessage, decodeIsoTpMessage } from '@commwatch/proto-core';
+import { OBD_PIDS, encodeObdValue, encodeDtc } from './obd-decoder';
+
+export const OBD_FUNCTIONAL_ID = 0x7DF;
+
+// What the emulated vehicle reports
+export interface OBDVehicleState {
+  values: Record<string, number>; // Mode 01 PIDs by name, e.g. engineRpm
+  dtcs: string[];
+  freezeFrame?: Record<string, number>; // Mode 02 frame 0, captured for the first DTC
+  vin: string;
+  calibrationIds: string[];
+  ecuName: string;
+}
+
+export interface OBDEcuOptions {
+  requestId?: number; // Physical request ID, default 0x7E0; 0x7DF is always answered
+  responseId?: number; // Default requestId + 8
+  state?: Partial<OBDVehicleState>;
+}
+
+export const DEFAULT_VEHICLE_STATE: OBDVehicleState = {
+  values: {
+    monitorStatus: 0x00076500,
+    engineLoad: 20,
+    coolantTemp: 90,
+    engineRpm: 850,
+    vehicleSpeed: 0,
+    intakeAirTemp: 25,
+    throttlePosition: 15,
+    obdStandard: 6, // EOBD
+    runTime: 0,
+    fuelTankLevel: 60,
+    controlModuleVoltage: 14.1,
+    ambientAirTemp: 20,
+  },
+  dtcs: [],
+  vin: 'WCW00000000000001',
+  calibrationIds: ['CW-SIM-0001'],
+  ecuName: 'ECM-EngineControl',
+};
+
+/**
+ * Emulated engine ECU answering OBD-II requests from a vehicle-state model.
+ * `respond` maps a request payload to the response; `attach` serves a handle
+ * opened with the canIsoTp option and `addresses` as pairs.
+ */
+export class OBDEcu {
+  readonly requestId: number;
+  readonly responseId: number;
+  private state: OBDVehicleState;
+
+  constructor(options: OBDEcuOptions = {}) {
+    this.requestId = options.requestId ?? 0x7E0;
+    this.responseId = options.responseId ?? this.requestId + 8;
+    this.state = { ...DEFAULT_VEHICLE_STATE, values: { ...DEFAULT_VEHICLE_STATE.values } };
+    this.setState(options.state || {});
+  }
+
+  // ISO-TP pairs from the ECU's side: it answers both physical and functional requests
+  get addresses(): IsoTpAddress[] {
+    return [
+      { txId: this.responseId, rxId: this.requestId },
+      { txId: this.responseId, rxId: OBD_FUNCTIONAL_ID },
+    ];
+  }
+
+  // Values are merged, so a running test can change single PIDs
+  setState(state: Partial<OBDVehicleState>): void {
+    for (const name of Object.keys(state.values || {})) {
+      if (!Object.values(OBD_PIDS).some(pid => pid.name === name)) {
+        throw new Error(`Unknown OBD PID name: ${name}`);
+      }
+    }
+    state.dtcs?.forEach(encodeDtc);
+
+    this.state = {
+      ...this.state,
+      ...state,
+      values: { ...this.state.values, ...state.values },
+    };
+  }
+
+  getState(): OBDVehicleState {
+    return { ...this.state, values: { ...this.state.values } };
+  }
+
+  attach(handle: AdapterHandle): Unsubscribe {
+    return handle.read((chunk, meta) => {
+      const message = decodeIsoTpMessage(chunk);
+      if (!message || meta?.error || (message.id !== this.requestId && message.id !== OBD_FUNCTIONAL_ID)) return;
+
+      const response = this.respond(message.data);
+      if (response) {
+        handle.write(encodeIsoTpMessage({ id: this.responseId, data: response })).catch(error => {
+          console.error('OBD ECU response failed:', error);
+        });
+      }
+    });
+  }
+
+  // Unsupported requests get no answer, as with functional requests on a real bus
+  respond(request: Uint8Array): Uint8Array | null {
+    const mode = request[0];
+    switch (mode) {
+      case 0x01: {
+        const out = [0x41];
+        for (const pid of request.slice(1)) {
+          const value = this.currentValue(pid);
+          if (value !== undefined) out.push(pid, ...encodeObdValue(pid, value));
+        }
+        return out.length > 1 ? new Uint8Array(out) : null;
+      }
+      case 0x02: {
+        const freezeFrame = this.state.freezeFrame;
+        if (!freezeFrame || this.state.dtcs.length === 0) return null;
+
+        const out = [0x42];
+        for (let i = 1; i + 1 < request.length; i += 2) {
+          const [pid, frame] = [request[i], request[i + 1]];
+          if (frame !== 0) continue;
+          if (pid === 0x02) {
+            out.push(pid, frame, ...encodeDtc(this.state.dtcs[0]));
+          } else if (OBD_PIDS[pid] && freezeFrame[OBD_PIDS[pid].name] !== undefined) {
+            out.push(pid, frame, ...encodeObdValue(pid, freezeFrame[OBD_PIDS[pid].name]));
+          }
+        }
+        return out.length > 1 ? new Uint8Array(out) : null;
+      }
+      case 0x03:
+        return new Uint8Array([0x43, this.state.dtcs.length, ...this.state.dtcs.flatMap(encodeDtc)]);
+      case 0x04:
+        this.state = { ...this.state, dtcs: [], freezeFrame: undefined };
+        return new Uint8Array([0x44]);
+      case 0x09:
+        return this.vehicleInformation(request[1]);
+      default:
+        return null;
+    }
+  }
+
+  private currentValue(pid: number): number | undefined {
+    // Bit 32 - n of the 0x00/0x20/... bitmaps flags PID base + n
+    if (pid % 0x20 === 0 && pid <= 0xC0) {
+      let mask = 0;
+      for (let n = 1; n <= 0x20; n++) {
+        if (this.currentValue(pid + n) !== undefined) mask |= 1 << (32 - n);
+      }
+      return mask ? mask >>> 0 : undefined;
+    }
+    const info = OBD_PIDS[pid];
+    return info ? this.state.values[info.name] : undefined;
+  }
+
+  private vehicleInformation(infoType: number): Uint8Array | null {
+    const ascii = (text: string, length: number) => {
+      const bytes = new Uint8Array(length);
+      bytes.set(Buffer.from(text, 'latin1').slice(0, length));
+      return Array.from(bytes);
+    };
+
+    switch (infoType) {
+      case 0x00:
+        return new Uint8Array([0x49, 0x00, 0x50, 0x40, 0x00, 0x00]); // 02, 04 and 0A
+      case 0x02:
+        return new Uint8Array([0x49, 0x02, 0x01, ...ascii(this.state.vin, 17)]);
+      case 0x04:
+        return new Uint8Array([0x49, 0x04, this.state.calibrationIds.length, ...this.state.calibrationIds.flatMap(id => ascii(id, 16))]);
+      case 0x0A:
+        return new Uint8Array([0x49, 0x0A, 0x01, ...ascii(this.state.ecuName, 20)]);
+      default:
+        return null;
+    }
+  }
+}
+
+// packages/transports-can/src/uds-client.ts
+import type { AdapterHandle, IsoTpAddress, Unsubscribe } from '@commwatch/proto-core';
+import { encodeIsoTpMessage, decodeIsoTpMessage } from '@commwatch/proto-core';
+import { UDS_NEGATIVE_RESPONSE, udsServiceName, udsNrcName } from './uds-decoder';
+
+const RESPONSE_PENDING = 0x78;
+
+// Computes the key for a SecurityAccess seed; algorithms are manufacturer specific
+export type UDSSecurityKey = (seed: Uint8Array, level: number) => ArrayLike<number> | Promise<ArrayLike<number>>;
+
+export interface UDSClientOptions {
+  timeoutMs?: number; // P2 client, default 1 s
+  pendingTimeoutMs?: number; // P2* after a response-pending reply, default 5 s
+  securityKey?: UDSSecurityKey;
+}
+
+export interface UDSSession {
+  session: number;
+  p2Ms: number;
+  p2StarMs: number;
+}
+
+export type RoutineControlType = 'start' | 'stop' | 'results';
+
+const ROUTINE_CONTROL: Record<RoutineControlType, number> = { start: 0x01, stop: 0x02, results: 0x03 };
+
+export class UDSNegativeResponseError extends Error {
+  constructor(readonly service: number, readonly code: number) {
+    super(`${udsServiceName(service)} rejected: ${udsNrcName(code)} (0x${code.toString(16).toUpperCase().padStart(2, '0')})`);
+    this.name = 'UDSNegativeResponseError';
+  }
+}
+
+/**
+ * Sends UDS requests to one ECU and waits for its responses. The handle must
+ * carry ISO-TP messages, i.e. be opened with the canIsoTp option covering the
+ * address pair. Requests are sent one at a time.
+ */
+export class UDSClient {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private handle: AdapterHandle, private address: IsoTpAddress, private options: UDSClientOptions = {}) {}
+
+  // Sends a raw request and resolves with the positive response, service byte included
+  request(data: ArrayLike<number>): Promise<Uint8Array> {
+    const request = Uint8Array.from(data);
+    if (request.length === 0) {
+      return Promise.reject(new Error('UDS request must not be empty'));
+    }
+
+    const next = this.queue.catch(() => undefined).then(() => this.exchange(request));
+    this.queue = next;
+    return next;
+  }
+
+  async diagnosticSessionControl(session: number): Promise<UDSSession> {
+    const response = await this.request([0x10, session]);
+    return {
+      session: response[1],
+      p2Ms: response.length >= 4 ? (response[2] << 8) | response[3] : 0,
+      p2StarMs: response.length >= 6 ? ((response[4] << 8) | response[5]) * 10 : 0,
+    };
+  }
+
+  async readDataByIdentifier(did: number): Promise<Uint8Array> {
+    const response = await this.request([0x22, (did >> 8) & 0xFF, did & 0xFF]);
+    const echoed = (response[1] << 8) | response[2];
+    if (echoed !== did) {
+      throw new Error(`ReadDataByIdentifier answered 0x${echoed.toString(16).toUpperCase()} instead of 0x${did.toString(16).toUpperCase()}`);
+    }
+    return response.slice(3);
+  }
+
+  /**
+   * Unlocks a security level (odd, e.g. 1): requests a seed and answers it with
+   * the key from `computeKey` or the securityKey option. A zero seed means the
+   * level is already unlocked.
+   */
+  async securityAccess(level: number, computeKey = this.options.securityKey): Promise<void> {
+    if (level % 2 !== 1 || level > 0x7F) {
+      throw new Error(`Invalid security level ${level} (odd values 1-127 request a seed)`);
+    }
+
+    const seed = (await this.request([0x27, level])).slice(2);
+    if (seed.every(b => b === 0)) return;
+
+    if (!computeKey) {
+      throw new Error('SecurityAccess needs a key function (securityKey option)');
+    }
+    const key = await computeKey(seed, level);
+    await this.request([0x27, level + 1, ...Array.from(key)]);
+  }
+
+  // Resolves with the routine status record
+  async routineControl(control: RoutineControlType, routineId: number, data: ArrayLike<number> = []): Promise<Uint8Array> {
+    const type = ROUTINE_CONTROL[control];
+    if (!type) {
+      throw new Error(`Invalid routine control type: ${control} (expected start, stop or results)`);
+    }
+    const response = await this.request([0x31, type, (routineId >> 8) & 0xFF, routineId & 0xFF, ...Array.from(data)]);
+    return response.slice(4);
+  }
+
+  async testerPresent(): Promise<void> {
+    await this.request([0x3E, 0x00]);
+  }
+
+  private exchange(request: Uint8Array): Promise<Uint8Array> {
+    const service = request[0];
+    const extended = this.address.extended ?? this.address.rxId > 0x7FF;
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout>;
+      let unsubscribe: Unsubscribe = () => undefined;
+      const finish = (error: Error | null, response?: Uint8Array) => {
+        clearTimeout(timer);
+        unsubscribe();
+        if (error) reject(error);
+        else resolve(response!);
+      };
+      const arm = (ms: number) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => finish(new Error(`No response to ${udsServiceName(service)} within ${ms} ms`)), ms);
+      };
+
+      unsubscribe = this.handle.read((chunk, meta) => {
+        const message = decodeIsoTpMessage(chunk);
+        if (!message || message.id !== this.address.rxId || message.ext !== extended) return;
+        if (meta?.error) {
+          finish(new Error(`${udsServiceName(service)} response failed: ${meta.error.message}`));
+          return;
+        }
+
+        const data = message.data;
+        if (data[0] === service + 0x40) {
+          finish(null, data);
+        } else if (data[0] === UDS_NEGATIVE_RESPONSE && data[1] === service) {
+          if (data[2] === RESPONSE_PENDING) {
+            arm(this.options.pendingTimeoutMs ?? 5000);
+          } else {
+            finish(new UDSNegativeResponseError(service, data[2]));
+          }
+        }
+      });
+
+      arm(this.options.timeoutMs ?? 1000);
+      this.handle.write(encodeIsoTpMessage({ id: this.address.txId, ext: this.address.extended, data: request }))
+        .catch(error => finish(error as Error));
+    });
+  }
+}
+
+// packages/transports-can/src/j1939.ts
+import type {
+  AdapterHandle,
+  AdapterOpenOptions,
+  AdapterStats,
+  FrameError,
+  J1939Options,
+  RxMeta,
+  Unsubscribe,
+} from '@commwatch/proto-core';
+import { encodeCanFrame, decodeCanFrame, encodeIsoTpMessage, decodeIsoTpMessage } from '@commwatch/proto-core';
+
+export const J1939_GLOBAL = 0xFF;
+export const J1939_NULL_ADDRESS = 0xFE; // Source of "cannot claim address"
+
+export const PGN_REQUEST = 0xEA00;
+export const PGN_TP_DT = 0xEB00;
+export const PGN_TP_CM = 0xEC00;
+export const PGN_ADDRESS_CLAIMED = 0xEE00;
+
+// TP.CM control bytes
+export const TP_RTS = 0x10;
+export const TP_CTS = 0x11;
+export const TP_EOMA = 0x13;
+export const TP_BAM = 0x20;
+export const TP_ABORT = 0xFF;
+
+export const J1939_MAX_LENGTH = 1785; // 255 packets of 7 bytes
+
+const DEFAULT_TIMEOUT_MS = 1250;
+const BAM_PACKET_INTERVAL_MS = 50;
+
+export interface J1939Id {
+  priority: number;
+  pgn: number;
+  source: number;
+  destination: number; // J1939_GLOBAL for PDU2 (broadcast) PGNs
+}
+
+export interface J1939Name {
+  name: string; // 64-bit NAME as 16 hex digits
+  identityNumber: number;
+  manufacturerCode: number;
+  ecuInstance: number;
+  functionInstance: number;
+  function: number;
+  vehicleSystem: number;
+  vehicleSystemInstance: number;
+  industryGroup: number;
+  arbitraryAddressCapable: boolean;
+}
+
+export interface J1939AddressClaim extends J1939Name {
+  address: number;
+}
+
+// PDU1 PGNs (PF < 240) carry the destination address in PS
+export function parseJ1939Id(id: number): J1939Id {
+  const pf = (id >> 16) & 0xFF;
+  const ps = (id >> 8) & 0xFF;
+  const pdu1 = pf < 240;
+  return {
+    priority: (id >> 26) & 0x07,
+    pgn: (((id >> 24) & 0x03) << 16) | (pf << 8) | (pdu1 ? 0 : ps),
+    source: id & 0xFF,
+    destination: pdu1 ? ps : J1939_GLOBAL,
+  };
+}
+
+export function buildJ1939Id(id: { priority?: number; pgn: number; source: number; destination?: number }): number {
+  const pdu1 = ((id.pgn >> 8) & 0xFF) < 240;
+  const pgn = pdu1 ? (id.pgn & 0x3FF00) | ((id.destination ?? J1939_GLOBAL) & 0xFF) : id.pgn & 0x3FFFF;
+  return ((((id.priority ?? 6) & 0x07) << 26) | (pgn << 8) | (id.source & 0xFF)) >>> 0;
+}
+
+// The NAME is sent little endian in the address claim
+export function decodeJ1939Name(data: ArrayLike<number>): J1939Name {
+  let name = 0n;
+  for (let i = 7; i >= 0; i--) {
+    name = (name << 8n) | BigInt(data[i] ?? 0);
+  }
+  const bits = (start: number, length: number) => Number((name >> BigInt(start)) & ((1n << BigInt(length)) - 1n));
+
+  return {
+    name: name.toString(16).toUpperCase().padStart(16, '0'),
+    identityNumber: bits(0, 21),
+    manufacturerCode: bits(21, 11),
+    ecuInstance: bits(32, 3),
+    functionInstance: bits(35, 5),
+    function: bits(40, 8),
+    vehicleSystem: bits(49, 7),
+    vehicleSystemInstance: bits(56, 4),
+    industryGroup: bits(60, 3),
+    arbitraryAddressCapable: bits(63, 1) === 1,
+  };
+}
+
+function pgnBytes(pgn: number): number[] {
+  return [pgn & 0xFF, (pgn >> 8) & 0xFF, (pgn >> 16) & 0xFF];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+interface RxSession {
+  id: J1939Id; // Of the reassembled message
+  data: Uint8Array;
+  packets: number;
+  nextSeq: number;
+  bam: boolean;
+  maxPerCts: number;
+  ctsLeft: number; // Packets left in the current CTS window, when we are the receiver
+  timestamp: bigint;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface ControlWaiter {
+  reply: Promise<{ control: number; bytes: Uint8Array }>;
+  cancel(): void; // Stops waiting; reply then never settles
+}
+
+/**
+ * J1939-21 transport protocol on top of a CAN handle. BAM and RTS/CTS
+ * transfers are reassembled into long messages (see encodeIsoTpMessage) with
+ * the ID of the transferred PGN; with an own address, RTS/CTS sessions sent
+ * to it are answered with CTS and end-of-message acknowledgements. Writing a
+ * long message sends it with BAM (global destination) or RTS/CTS. Address
+ * claims seen on the bus are tracked.
+ */
+export class J1939Handle implements AdapterHandle {
+  private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
+  private claimCallbacks: Set<(claim: J1939AddressClaim) => void> = new Set();
+  private claims: Map<number, J1939AddressClaim> = new Map();
+  private rxSessions: Map<number, RxSession> = new Map(); // By source << 8 | destination
+  private txWaiters: Map<number, (control: number, data: Uint8Array) => void> = new Map();
+  private txQueue: Promise<void> = Promise.resolve();
+  private unsubscribe: Unsubscribe;
+
+  constructor(private handle: AdapterHandle, private options: J1939Options = {}) {
+    this.unsubscribe = handle.read((chunk, meta) => this.receive(chunk, meta));
+  }
+
+  // Address -> NAME of every ECU that has claimed an address
+  getAddressClaims(): J1939AddressClaim[] {
+    return [...this.claims.values()].sort((a, b) => a.address - b.address);
+  }
+
+  onAddressClaim(cb: (claim: J1939AddressClaim) => void): Unsubscribe {
+    this.claimCallbacks.add(cb);
+    return () => {
+      this.claimCallbacks.delete(cb);
+    };
+  }
+
+  async write(frame: Uint8Array): Promise<void> {
+    const message = decodeIsoTpMessage(frame);
+    if (!message) {
+      return this.handle.write(frame);
+    }
+    if (!message.ext) {
+      throw new Error('J1939 messages need a 29-bit ID');
+    }
+    if (message.data.length <= 8) {
+      return this.handle.write(encodeCanFrame({ id: message.id, ext: true, data: message.data }));
+    }
+    if (message.data.length > J1939_MAX_LENGTH) {
+      throw new Error(`J1939 message too long: ${message.data.length} bytes (max ${J1939_MAX_LENGTH})`);
+    }
+
+    // One transfer at a time, as a node may only run one session per destination
+    const next = this.txQueue.catch(() => undefined).then(() => this.send(parseJ1939Id(message.id), message.data));
+    this.txQueue = next;
+    return next;
+  }
+
+  read(cb: (chunk: Uint8Array, meta?: RxMeta) => void): Unsubscribe {
+    this.readCallbacks.add(cb);
+    return () => {
+      this.readCallbacks.delete(cb);
+    };
+  }
+
+  async setOptions(opts: Partial<AdapterOpenOptions>): Promise<void> {
+    if (opts.canJ1939) {
+      this.options = opts.canJ1939;
+    }
+    await this.handle.setOptions(opts);
+  }
+
+  async close(): Promise<void> {
+    this.rxSessions.forEach(session => clearTimeout(session.timer));
+    this.rxSessions.clear();
+    this.txWaiters.clear();
+    this.unsubscribe();
+    this.readCallbacks.clear();
+    this.claimCallbacks.clear();
+    await this.handle.close();
+  }
+
+  getStats(): Promise<AdapterStats> {
+    return this.handle.getStats();
+  }
+
+  private get timeoutMs(): number {
+    return this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  private receive(chunk: Uint8Array, meta?: RxMeta): void {
+    const frame = meta?.error ? null : decodeCanFrame(chunk);
+    if (!frame || !frame.ext || frame.rtr) {
+      this.emit(chunk, meta);
+      return;
+    }
+
+    const id = parseJ1939Id(frame.id);
+    const timestamp = meta?.timestamp ?? process.hrtime.bigint();
+    const pf = id.pgn & 0x3FF00;
+
+    if (pf === PGN_TP_CM && frame.data.length >= 8) {
+      if (this.receiveControl(id, frame.data, chunk, timestamp)) return;
+    } else if (pf === PGN_TP_DT && frame.data.length >= 1) {
+      this.receiveData(id, frame.data, chunk, timestamp);
+      return;
+    } else if (pf === PGN_ADDRESS_CLAIMED && frame.data.length >= 8) {
+      this.trackClaim(id.source, frame.data);
+    }
+
+    this.emit(chunk, meta);
+  }
+
+  // Returns true when the frame was consumed by a session
+  private receiveControl(id: J1939Id, data: Uint8Array, chunk: Uint8Array, timestamp: bigint): boolean {
+    const control = data[0];
+    const pgn = data[5] | (data[6] << 8) | (data[7] << 16);
+
+    // CTS, EOMA and aborts addressed to one of our transfers
+    const waiter = this.txWaiters.get((id.destination << 8) | id.source);
+    if (waiter && (control === TP_CTS || control === TP_EOMA || control === TP_ABORT)) {
+      waiter(control, data);
+      return true;
+    }
+
+    if (control === TP_BAM || control === TP_RTS) {
+      const size = data[1] | (data[2] << 8);
+      const packets = data[3];
+      if (size <= 8 || size > J1939_MAX_LENGTH || packets !== Math.ceil(size / 7)) {
+        this.report(chunk, timestamp, 'J1939_INVALID_LENGTH', `Transfer of ${size} bytes in ${packets} packets`);
+        return true;
+      }
+
+      const key = (id.source << 8) | id.destination;
+      const previous = this.rxSessions.get(key);
+      if (previous) {
+        this.fail(key, previous, 'J1939_INTERRUPTED', `New transfer after ${previous.nextSeq - 1} of ${previous.packets} packets`, 'warning');
+      }
+
+      const session: RxSession = {
+        id: { priority: id.priority, pgn, source: id.source, destination: id.destination },
+        data: new Uint8Array(size),
+        packets,
+        nextSeq: 1,
+        bam: control === TP_BAM,
+        maxPerCts: data[4] || 0xFF,
+        ctsLeft: 0,
+        timestamp,
+      };
+      this.rxSessions.set(key, session);
+      this.armTimeout(key, session);
+
+      if (!session.bam && this.isOurs(id.destination)) {
+        this.sendCts(session);
+      }
+      return true;
+    }
+
+    if (control === TP_ABORT) {
+      // Either side may abort; the session is keyed by the data sender
+      const key = [(id.source << 8) | id.destination, (id.destination << 8) | id.source].find(k => this.rxSessions.has(k));
+      const session = key === undefined ? undefined : this.rxSessions.get(key);
+      if (session && session.id.pgn === pgn) {
+        this.fail(key!, session, 'J1939_ABORTED', `Transfer aborted by 0x${id.source.toString(16).toUpperCase()} (reason ${data[1]})`);
+      }
+    }
+    return false;
+  }
+
+  private receiveData(id: J1939Id, data: Uint8Array, chunk: Uint8Array, timestamp: bigint): void {
+    const key = (id.source << 8) | id.destination;
+    const session = this.rxSessions.get(key);
+    if (!session) {
+      this.report(chunk, timestamp, 'J1939_UNEXPECTED_DT', 'Data packet without a transfer in progress', 'warning');
+      return;
+    }
+
+    const seq = data[0];
+    if (seq < session.nextSeq) return; // Retransmission of a packet we already have
+    if (seq !== session.nextSeq) {
+      this.fail(key, session, 'J1939_SEQUENCE_ERROR', `Expected packet ${session.nextSeq}, got ${seq}`);
+      return;
+    }
+
+    const offset = (seq - 1) * 7;
+    session.data.set(data.slice(1, 1 + Math.min(7, session.data.length - offset)), offset);
+    session.nextSeq++;
+
+    if (session.nextSeq > session.packets) {
+      clearTimeout(session.timer);
+      this.rxSessions.delete(key);
+      if (!session.bam && this.isOurs(session.id.destination)) {
+        this.sendControl(session.id, [TP_EOMA, session.data.length & 0xFF, session.data.length >> 8, session.packets, 0xFF]);
+      }
+      this.emitMessage(session);
+      return;
+    }
+
+    this.armTimeout(key, session);
+    if (!session.bam && this.isOurs(session.id.destination) && --session.ctsLeft === 0) {
+      this.sendCts(session);
+    }
+  }
+
+  private isOurs(destination: number): boolean {
+    return this.options.address !== undefined && destination === this.options.address;
+  }
+
+  private sendCts(session: RxSession): void {
+    session.ctsLeft = Math.min(session.maxPerCts, session.packets - session.nextSeq + 1);
+    this.sendControl(session.id, [TP_CTS, session.ctsLeft, session.nextSeq, 0xFF, 0xFF]);
+  }
+
+  // TP.CM from the receiving side of a session back to its sender
+  private sendControl(id: J1939Id, bytes: number[]): void {
+    const frame = encodeCanFrame({
+      id: buildJ1939Id({ priority: 7, pgn: PGN_TP_CM, source: id.destination, destination: id.source }),
+      ext: true,
+      data: [...bytes, ...pgnBytes(id.pgn)],
+    });
+    this.handle.write(frame).catch(error => {
+      console.error('J1939 transport protocol response failed:', error);
+    });
+  }
+
+  private trackClaim(address: number, data: Uint8Array): void {
+    const claim: J1939AddressClaim = { address, ...decodeJ1939Name(data) };
+
+    // A NAME holds one address; "cannot claim" (0xFE) releases it
+    for (const [held, existing] of this.claims) {
+      if (existing.name === claim.name && held !== address) this.claims.delete(held);
+    }
+    if (address === J1939_NULL_ADDRESS) {
+      return;
+    }
+
+    // On a conflict the lower NAME wins
+    const current = this.claims.get(address);
+    if (current && current.name !== claim.name && BigInt(`0x${current.name}`) < BigInt(`0x${claim.name}`)) {
+      return;
+    }
+    this.claims.set(address, claim);
+
+    this.claimCallbacks.forEach(cb => {
+      try {
+        cb(claim);
+      } catch (error) {
+        console.error('Error in address claim callback:', error);
+      }
+    });
+  }
+
+  private armTimeout(key: number, session: RxSession): void {
+    clearTimeout(session.timer);
+    session.timer = setTimeout(() => {
+      this.fail(key, session, 'J1939_TIMEOUT',
+        `Timed out after ${session.nextSeq - 1} of ${session.packets} packets of PGN 0x${session.id.pgn.toString(16).toUpperCase()}`);
+    }, this.timeoutMs);
+  }
+
+  private fail(key: number, session: RxSession, code: string, message: string, severity: FrameError['severity'] = 'error'): void {
+    clearTimeout(session.timer);
+    if (this.rxSessions.get(key) === session) {
+      this.rxSessions.delete(key);
+    }
+    const received = Math.min((session.nextSeq - 1) * 7, session.data.length);
+    const partial = encodeIsoTpMessage({ id: buildJ1939Id(session.id), ext: true, data: session.data.slice(0, received) });
+    this.report(partial, session.timestamp, code, message, severity);
+  }
+
+  private report(chunk: Uint8Array, timestamp: bigint, code: string, message: string, severity: FrameError['severity'] = 'error'): void {
+    this.emit(chunk, {
+      timestamp,
+      direction: 'rx',
+      length: chunk.length,
+      error: { code, message, severity },
+    });
+  }
+
+  private emitMessage(session: RxSession): void {
+    const id = buildJ1939Id(session.id);
+    const chunk = encodeIsoTpMessage({ id, ext: true, data: session.data });
+    this.emit(chunk, {
+      timestamp: session.timestamp,
+      direction: 'rx',
+      length: chunk.length,
+      transportSpecific: { canId: id, canExt: true, j1939Pgn: session.id.pgn, j1939Length: session.data.length },
+    });
+  }
+
+  private emit(chunk: Uint8Array, meta?: RxMeta): void {
+    this.readCallbacks.forEach(cb => {
+      try {
+        cb(chunk, meta);
+      } catch (error) {
+        console.error('Error in read callback:', error);
+      }
+    });
+  }
+
+  private async send(id: J1939Id, data: Uint8Array): Promise<void> {
+    const packets = Math.ceil(data.length / 7);
+    // Session frames keep the message priority, so receivers can restore it
+    const cm = (destination: number, bytes: number[]) => encodeCanFrame({
+      id: buildJ1939Id({ priority: id.priority, pgn: PGN_TP_CM, source: id.source, destination }),
+      ext: true,
+      data: [...bytes, ...pgnBytes(id.pgn)],
+    });
+    const dt = (seq: number) => {
+      const bytes = new Uint8Array(8).fill(0xFF);
+      bytes[0] = seq;
+      bytes.set(data.slice((seq - 1) * 7, seq * 7), 1);
+      return encodeCanFrame({ id: buildJ1939Id({ priority: id.priority, pgn: PGN_TP_DT, source: id.source, destination: id.destination }), ext: true, data: bytes });
+    };
+
+    if (id.destination === J1939_GLOBAL) {
+      await this.handle.write(cm(J1939_GLOBAL, [TP_BAM, data.length & 0xFF, data.length >> 8, packets, 0xFF]));
+      for (let seq = 1; seq <= packets; seq++) {
+        await sleep(BAM_PACKET_INTERVAL_MS);
+        await this.handle.write(dt(seq));
+      }
+      return;
+    }
+
+    let waiter = this.waitControl(id);
+    await this.writeAwaiting(waiter, [cm(id.destination, [TP_RTS, data.length & 0xFF, data.length >> 8, packets, 0xFF])]);
+
+    for (;;) {
+      const { control, bytes } = await waiter.reply;
+      if (control === TP_EOMA) return;
+      if (control === TP_ABORT) {
+        throw new Error(`J1939 transfer aborted by 0x${id.destination.toString(16).toUpperCase()} (reason ${bytes[1]})`);
+      }
+
+      // CTS: send the requested window; zero packets means wait
+      const count = bytes[1];
+      const first = bytes[2];
+      const window: Uint8Array[] = [];
+      for (let seq = first; seq < first + count && seq <= packets; seq++) {
+        window.push(dt(seq));
+      }
+      waiter = this.waitControl(id);
+      await this.writeAwaiting(waiter, window);
+    }
+  }
+
+  // The answer may come before the last write resolves; if a write fails, nobody waits for it
+  private async writeAwaiting(waiter: ControlWaiter, frames: Uint8Array[]): Promise<void> {
+    try {
+      for (const frame of frames) {
+        await this.handle.write(frame);
+      }
+    } catch (error) {
+      waiter.cancel();
+      throw error;
+    }
+  }
+
+  // Next CTS, EOMA or abort from the destination of our transfer
+  private waitControl(id: J1939Id): ControlWaiter {
+    const key = (id.source << 8) | id.destination;
+    let timer: ReturnType<typeof setTimeout>;
+    let listener: (control: number, bytes: Uint8Array) => void;
+
+    const reply = new Promise<{ control: number; bytes: Uint8Array }>((resolve, reject) => {
+      timer = setTimeout(() => {
+        this.txWaiters.delete(key);
+        reject(new Error(`Timed out waiting for 0x${id.destination.toString(16).toUpperCase()} to answer the J1939 transfer`));
+      }, this.timeoutMs);
+
+      listener = (control, bytes) => {
+        clearTimeout(timer);
+        this.txWaiters.delete(key);
+        resolve({ control, bytes });
+      };
+      this.txWaiters.set(key, listener);
+    });
+
+    return {
+      reply,
+      cancel: () => {
+        clearTimeout(timer);
+        if (this.txWaiters.get(key) === listener) {
+          this.txWaiters.delete(key);
+        }
+      },
+    };
+  }
+}
+
+// packages/transports-can/src/j1939-decoder.ts
+import type { ProtocolDecoder, DecodedFrame, FrameField, FrameError, DbcDatabase, DbcMessage } from '@commwatch/proto-core';
+import {
+  encodeCanFrame,
+  decodeCanFrame,
+  encodeIsoTpMessage,
+  decodeIsoTpMessage,
+  parseDbc,
+  decodeDbcMessage,
+  encodeDbcMessage,
+  signalByteRange,
+} from '@commwatch/proto-core';
+import {
+  J1939_GLOBAL,
+  PGN_REQUEST,
+  PGN_TP_DT,
+  PGN_TP_CM,
+  PGN_ADDRESS_CLAIMED,
+  TP_RTS,
+  TP_CTS,
+  TP_EOMA,
+  TP_BAM,
+  TP_ABORT,
+  parseJ1939Id,
+  buildJ1939Id,
+  decodeJ1939Name,
+} from './j1939';
+
+const PGN_DM1 = 0xFECA;
+const PGN_DM2 = 0xFECB;
+
+export const J1939_PGNS: Record<number, string> = {
+  0xE800: 'Acknowledgement',
+  0xEA00: 'Request',
+  0xEB00: 'TP.DT',
+  0xEC00: 'TP.CM',
+  0xEE00: 'AddressClaimed',
+  0xF004: 'EEC1',
+  0xFECA: 'DM1',
+  0xFECB: 'DM2',
+  0xFEE5: 'HOURS',
+  0xFEEC: 'VI',
+  0xFEEE: 'ET1',
+  0xFEEF: 'EFL_P1',
+  0xFEF1: 'CCVS1',
+  0xFEF2: 'LFE1',
+  0xFEF7: 'VEP1',
+};
+
+const TP_CONTROL: Record<number, string> = {
+  [TP_RTS]: 'RTS',
+  [TP_CTS]: 'CTS',
+  [TP_EOMA]: 'EndOfMsgAck',
+  [TP_BAM]: 'BAM',
+  [TP_ABORT]: 'Abort',
+};
+
+const LAMP_STATUS = ['off', 'on', 'error', 'not available'];
+
+// A few common SAE J1939-71 parameters
+const J1939_DBC = `
+VERSION "CommWatch J1939"
+
+BU_: ECU
+
+BO_ 2364539904 EEC1: 8 ECU
+ SG_ DriversDemandEnginePercentTorque : 8|8@1+ (1,-125) [-125|125] "%" Vector__XXX
+ SG_ ActualEnginePercentTorque : 16|8@1+ (1,-125) [-125|125] "%" Vector__XXX
+ SG_ EngineSpeed : 24|16@1+ (0.125,0) [0|8031.875] "rpm" Vector__XXX
+
+BO_ 2566843904 ET1: 8 ECU
+ SG_ EngineCoolantTemperature : 0|8@1+ (1,-40) [-40|210] "degC" Vector__XXX
+
+BO_ 2566844160 EFL_P1: 8 ECU
+ SG_ EngineOilPressure : 24|8@1+ (4,0) [0|1000] "kPa" Vector__XXX
+
+BO_ 2566844672 CCVS1: 8 ECU
+ SG_ WheelBasedVehicleSpeed : 8|16@1+ (0.00390625,0) [0|250.996] "km/h" Vector__XXX
+
+BO_ 2566844928 LFE1: 8 ECU
+ SG_ EngineFuelRate : 0|16@1+ (0.05,0) [0|3212.75] "L/h" Vector__XXX
+
+BO_ 2566846208 VEP1: 8 ECU
+ SG_ BatteryPotential : 32|16@1+ (0.05,0) [0|3212.75] "V" Vector__XXX
+
+BA_ "ProtocolType" "J1939";
+BA_ "SPN" SG_ 2364539904 DriversDemandEnginePercentTorque 512;
+BA_ "SPN" SG_ 2364539904 ActualEnginePercentTorque 513;
+BA_ "SPN" SG_ 2364539904 EngineSpeed 190;
+BA_ "SPN" SG_ 2566843904 EngineCoolantTemperature 110;
+BA_ "SPN" SG_ 2566844160 EngineOilPressure 100;
+BA_ "SPN" SG_ 2566844672 WheelBasedVehicleSpeed 84;
+BA_ "SPN" SG_ 2566844928 EngineFuelRate 183;
+BA_ "SPN" SG_ 2566846208 BatteryPotential 168;
+`;
+
+function hex(value: number, digits: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+}
+
+/**
+ * Decodes SAE J1939 frames and reassembled transport-protocol messages: the
+ * 29-bit ID (priority, PGN, addresses), network management and diagnostic
+ * messages, and parameters from a DBC database matched by PGN.
+ */
+export class J1939Decoder implements ProtocolDecoder {
+  id = 'j1939';
+  name = 'SAE J1939';
+
+  constructor(private database: DbcDatabase = parseDbc(J1939_DBC)) {}
+
+  setDatabase(database: DbcDatabase): void {
+    this.database = database;
+  }
+
+  getDatabase(): DbcDatabase {
+    return this.database;
+  }
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    const message = this.message(raw);
+    if (!message) return null;
+
+    const { priority, pgn, source, destination } = parseJ1939Id(message.id);
+    const dbc = this.findMessage(pgn);
+    const name = dbc?.name ?? J1939_PGNS[pgn];
+    const idRaw = raw.slice(0, 4);
+    const data = message.data;
+
+    const fields: FrameField[] = [
+      { name: 'priority', value: priority, type: 'uint8', raw: idRaw, offset: 0 },
+      { name: 'pgn', value: pgn, type: 'uint32', raw: idRaw, offset: 0, label: name ?? hex(pgn, 4) },
+      { name: 'source', value: source, type: 'uint8', raw: idRaw, offset: 0 },
+    ];
+    if (((pgn >> 8) & 0xFF) < 240) {
+      const field: FrameField = { name: 'destination', value: destination, type: 'uint8', raw: idRaw, offset: 0 };
+      if (destination === J1939_GLOBAL) field.label = 'global';
+      fields.push(field);
+    }
+
+    const spns: Record<string, number> = {};
+    if (pgn === PGN_ADDRESS_CLAIMED && data.length >= 8) {
+      fields.push(...this.decodeName(data));
+    } else if (pgn === PGN_REQUEST && data.length >= 3) {
+      const requested = data[0] | (data[1] << 8) | (data[2] << 16);
+      fields.push({ name: 'requestedPgn', value: requested, type: 'uint32', raw: data.slice(0, 3), offset: 5, label: J1939_PGNS[requested] });
+    } else if (pgn === PGN_TP_CM && data.length >= 8) {
+      fields.push(...this.decodeControl(data));
+    } else if (pgn === PGN_TP_DT && data.length >= 1) {
+      fields.push({ name: 'sequence', value: data[0], type: 'uint8', raw: data.slice(0, 1), offset: 5 });
+    } else if ((pgn === PGN_DM1 || pgn === PGN_DM2) && data.length >= 2) {
+      fields.push(...this.decodeDiagnostics(data));
+    } else if (dbc) {
+      for (const { signal, raw: value, value: physical, label } of decodeDbcMessage(dbc, data)) {
+        const { start, end } = signalByteRange(signal);
+        const field: FrameField = {
+          name: signal.name,
+          value: physical,
+          type: 'float',
+          raw: data.slice(start, end),
+          offset: 5 + start,
+        };
+        if (signal.factor !== 1) field.scaling = signal.factor;
+        if (signal.unit) field.unit = signal.unit;
+        const status = label ?? availability(value, signal.length);
+        if (status !== undefined) field.label = status;
+        if (signal.spn !== undefined) spns[signal.name] = signal.spn;
+        fields.push(field);
+      }
+    }
+
+    fields.push({ name: 'data', value: data, type: 'bytes', raw: data, offset: 5 });
+
+    return {
+      protocol: 'j1939',
+      fields,
+      metadata: {
+        message: name,
+        pgn,
+        priority,
+        source,
+        destination,
+        length: data.length,
+        spns,
+      },
+    };
+  }
+
+  encode(fields: FrameField[]): Uint8Array {
+    const number = (name: string) => {
+      const field = fields.find(f => f.name === name);
+      return field === undefined ? undefined : Number(field.value);
+    };
+
+    const pgn = number('pgn');
+    if (pgn === undefined) {
+      throw new Error('J1939 message requires a pgn field');
+    }
+    const id = buildJ1939Id({ priority: number('priority'), pgn, source: number('source') ?? 0xFE, destination: number('destination') });
+
+    let data = fields.find(f => f.name === 'data')?.value as Uint8Array | number[] | undefined;
+    const dbc = data ? undefined : this.findMessage(pgn);
+    if (dbc) {
+      // Without raw data, build the payload from parameter values
+      const values: Record<string, number | string> = {};
+      for (const field of fields) {
+        if (dbc.signals.some(s => s.name === field.name)) {
+          values[field.name] = field.label && field.label !== 'not available' && field.label !== 'error'
+            ? field.label
+            : field.value as number;
+        }
+      }
+      data = encodeDbcMessage(dbc, values);
+    }
+    if (!data) {
+      throw new Error('J1939 message requires data or known parameters');
+    }
+
+    return data.length > 8 ? encodeIsoTpMessage({ id, ext: true, data }) : encodeCanFrame({ id, ext: true, data });
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    if (raw.length < 5) {
+      return {
+        code: 'FRAME_TOO_SHORT',
+        message: 'CAN frame too short',
+        severity: 'error',
+      };
+    }
+
+    const message = this.message(raw);
+    if (!message) {
+      return {
+        code: 'NOT_EXTENDED',
+        message: 'J1939 requires a 29-bit CAN ID',
+        severity: 'error',
+      };
+    }
+
+    const dbc = this.findMessage(parseJ1939Id(message.id).pgn);
+    if (dbc && message.data.length < dbc.dlc) {
+      return {
+        code: 'TRUNCATED',
+        message: `${dbc.name} needs ${dbc.dlc} bytes, got ${message.data.length}`,
+        severity: 'warning',
+      };
+    }
+
+    return null;
+  }
+
+  score(raw: Uint8Array): number {
+    const message = this.message(raw);
+    if (!message) return 0;
+    const pgn = parseJ1939Id(message.id).pgn;
+    return J1939_PGNS[pgn] || this.findMessage(pgn) ? 0.8 : 0.5;
+  }
+
+  // Extended data frames and reassembled transport-protocol messages
+  private message(raw: Uint8Array): { id: number; data: Uint8Array } | null {
+    const reassembled = decodeIsoTpMessage(raw);
+    if (reassembled) {
+      return reassembled.ext ? reassembled : null;
+    }
+    const frame = decodeCanFrame(raw);
+    return frame && frame.ext && !frame.rtr ? frame : null;
+  }
+
+  private findMessage(pgn: number): DbcMessage | undefined {
+    return this.database.messages.find(m => m.extended && parseJ1939Id(m.id).pgn === pgn);
+  }
+
+  private decodeName(data: Uint8Array): FrameField[] {
+    const name = decodeJ1939Name(data);
+    const raw = data.slice(0, 8);
+    return [
+      { name: 'name', value: name.name, type: 'string', raw, offset: 5 },
+      { name: 'identityNumber', value: name.identityNumber, type: 'uint32', raw: raw.slice(0, 3), offset: 5 },
+      { name: 'manufacturerCode', value: name.manufacturerCode, type: 'uint16', raw: raw.slice(2, 4), offset: 7 },
+      { name: 'ecuInstance', value: name.ecuInstance, type: 'uint8', raw: raw.slice(4, 5), offset: 9 },
+      { name: 'functionInstance', value: name.functionInstance, type: 'uint8', raw: raw.slice(4, 5), offset: 9 },
+      { name: 'function', value: name.function, type: 'uint8', raw: raw.slice(5, 6), offset: 10 },
+      { name: 'vehicleSystem', value: name.vehicleSystem, type: 'uint8', raw: raw.slice(6, 7), offset: 11 },
+      { name: 'vehicleSystemInstance', value: name.vehicleSystemInstance, type: 'uint8', raw: raw.slice(7, 8), offset: 12 },
+      { name: 'industryGroup', value: name.industryGroup, type: 'uint8', raw: raw.slice(7, 8), offset: 12 },
+      { name: 'arbitraryAddressCapable', value: name.arbitraryAddressCapable, type: 'uint8', raw: raw.slice(7, 8), offset: 12 },
+    ];
+  }
+
+  private decodeControl(data: Uint8Array): FrameField[] {
+    const control = data[0];
+    const transferPgn = data[5] | (data[6] << 8) | (data[7] << 16);
+    const fields: FrameField[] = [
+      { name: 'control', value: control, type: 'uint8', raw: data.slice(0, 1), offset: 5, label: TP_CONTROL[control] },
+    ];
+
+    if (control === TP_RTS || control === TP_BAM || control === TP_EOMA) {
+      fields.push({ name: 'messageSize', value: data[1] | (data[2] << 8), type: 'uint16', raw: data.slice(1, 3), offset: 6, unit: 'bytes' });
+      fields.push({ name: 'packets', value: data[3], type: 'uint8', raw: data.slice(3, 4), offset: 8 });
+    } else if (control === TP_CTS) {
+      fields.push({ name: 'packets', value: data[1], type: 'uint8', raw: data.slice(1, 2), offset: 6 });
+      fields.push({ name: 'nextSequence', value: data[2], type: 'uint8', raw: data.slice(2, 3), offset: 7 });
+    } else if (control === TP_ABORT) {
+      fields.push({ name: 'reason', value: data[1], type: 'uint8', raw: data.slice(1, 2), offset: 6 });
+    }
+
+    fields.push({ name: 'transferPgn', value: transferPgn, type: 'uint32', raw: data.slice(5, 8), offset: 10, label: J1939_PGNS[transferPgn] });
+    return fields;
+  }
+
+  // DM1/DM2: lamp status, then 4 bytes per DTC (SPN, FMI, occurrence count)
+  private decodeDiagnostics(data: Uint8Array): FrameField[] {
+    const lamp = (name: string, shift: number): FrameField => {
+      const value = (data[0] >> shift) & 0x03;
+      return { name, value, type: 'uint8', raw: data.slice(0, 1), offset: 5, label: LAMP_STATUS[value] };
+    };
+    const fields = [
+      lamp('malfunctionLamp', 6),
+      lamp('redStopLamp', 4),
+      lamp('amberWarningLamp', 2),
+      lamp('protectLamp', 0),
+    ];
+
+    for (let offset = 2; offset + 4 <= data.length; offset += 4) {
+      const spn = data[offset] | (data[offset + 1] << 8) | ((data[offset + 2] & 0xE0) << 11);
+      // A single DTC of all zeros means none are active
+      if (spn === 0 && (data[offset + 2] & 0x1F) === 0) continue;
+      const raw = data.slice(offset, offset + 4);
+      fields.push(
+        { name: 'spn', value: spn, type: 'uint32', raw: raw.slice(0, 3), offset: 5 + offset },
+        { name: 'fmi', value: data[offset + 2] & 0x1F, type: 'uint8', raw: raw.slice(2, 3), offset: 7 + offset },
+        { name: 'occurrenceCount', value: data[offset + 3] & 0x7F, type: 'uint8', raw: raw.slice(3, 4), offset: 8 + offset },
+      );
+    }
+    return fields;
+  }
+}
+
+// J1939 reserves the top raw values of a parameter for "error" and "not available"
+function availability(raw: number, length: number): string | undefined {
+  if (length < 8) return undefined;
+  const max = 2 ** length - 1;
+  if (raw === max) return 'not available';
+  if (raw >= 0xFE * 2 ** (length - 8)) return 'error';
+  return undefined;
 }
 
 // packages/transports-can/src/index.ts
 export { CANAdapter } from './can-adapter';
 export { CANSimulator } from './can-simulator';
-export { CANDecoder } from './can-decoder';
\ No newline at end of file
+export { CanTrafficModel, DEFAULT_SIMULATION_MODEL, SIMULATOR_DBC, evaluateSignal } from './can-sim-model';
+export { CANDecoder } from './can-decoder';
+export { decodeCanErrorFrame } from './can-errors';
+export { listCanInterfaces, readCanInterface, canInterfaceDevice, bringUpCanInterface } from './can-link';
+export { IsoTpHandle } from './isotp';
+export { OBDDecoder, OBD_MODES, OBD_PIDS, OBD_INFO_TYPES, decodeObdValue, encodeObdValue, decodeDtc, encodeDtc } from './obd-decoder';
+export { OBDEcu, DEFAULT_VEHICLE_STATE, OBD_FUNCTIONAL_ID } from './obd-ecu';
+export { UDSDecoder, UDS_SERVICES, UDS_NRC, UDS_DIDS, udsServiceName, udsNrcName } from './uds-decoder';
+export { UDSClient, UDSNegativeResponseError } from './uds-client';
+export { J1939Handle, J1939_GLOBAL, parseJ1939Id, buildJ1939Id, decodeJ1939Name } from './j1939';
+export { J1939Decoder, J1939_PGNS } from './j1939-decoder';
+export type { CANMessage } from './can-adapter';
+export type { CANSimulatorConfig } from './can-simulator';
+export type { CanSimulationModel, CanSimulatedMessage, CanSimulatedEvent, CanSignalGenerator } from './can-sim-model';
+export type { CanErrorFrame } from './can-errors';
+export type { CanInterfaceInfo, CanLinkEnvironment, CanBringUpOptions } from './can-link';
+export type { OBDPid } from './obd-decoder';
+export type { OBDVehicleState, OBDEcuOptions } from './obd-ecu';
+export type { UDSClientOptions, UDSSecurityKey, UDSSession, RoutineControlType } from './uds-client';
+export type { J1939Id, J1939Name, J1939AddressClaim } from './j1939';
\ No newline at end of file
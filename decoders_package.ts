@@ -1,7 +1,16 @@
 // packages/decoders/src/efuse-decoder.ts
-import { ProtocolDecoder, DecodedFrame, FrameField, FrameError, ChecksumInfo } from '@commwatch/proto-core';
+import { ProtocolDecoder, DecodedFrame, FrameField, FrameError, ChecksumInfo, FramerConfig } from '@commwatch/proto-core';
 import { CRCCalculator } from '@commwatch/proto-core';
 
+// Frames are delimited by markers, but the length field is authoritative since
+// 0xBB may appear inside the payload or CRC
+export const EFUSE_FRAMER_CONFIG: FramerConfig = {
+  type: 'start-end',
+  start: [0xAA],
+  end: [0xBB],
+  length: { offset: 2, size: 2, endianness: 'big', adjust: 7 },
+};
+
 /**
  * EFuse Custom Frame Format:
  * [0xAA] [Type:1] [Length:2] [Payload:N] [CRC16:2] [0xBB]
@@ -313,6 +322,11 @@ export class COBSDecoder implements ProtocolDecoder {
     return null;
   }
 
+  score(raw: Uint8Array): number {
+    // Almost any zero-free buffer is valid COBS, so this is weak evidence on its own
+    return raw.length > 0 && this.cobsDecode(raw) ? 0.3 : 0;
+  }
+
   private cobsEncode(data: Uint8Array): Uint8Array {
     const result: number[] = [];
     let codeIndex = 0;
@@ -408,6 +422,12 @@ export class SLIPDecoder implements ProtocolDecoder {
     return null;
   }
 
+  score(raw: Uint8Array): number {
+    if (raw.length === 0 || !this.slipDecode(raw)) return 0;
+    // Escape sequences are the only positive evidence of SLIP
+    return raw.includes(SLIPDecoder.ESC) ? 0.5 : 0.3;
+  }
+
   private slipEncode(data: Uint8Array): Uint8Array {
     const result: number[] = [];
 
@@ -501,6 +521,10 @@ export class HexDecoder implements ProtocolDecoder {
   validate(raw: Uint8Array): FrameError | null {
     return null; // Hex is always valid
   }
+
+  score(): number {
+    return 0.05; // Fallback only
+  }
 }
 
 // packages/decoders/src/ascii-decoder.ts
@@ -546,14 +570,593 @@ export class ASCIIDecoder implements ProtocolDecoder {
     }
     return null;
   }
+
+  score(raw: Uint8Array): number {
+    if (raw.length === 0) return 0;
+    const printable = raw.filter(b => (b >= 0x20 && b <= 0x7E) || b === 0x0A || b === 0x0D || b === 0x09).length;
+    return (printable / raw.length) * 0.6;
+  }
+}
+
+// packages/decoders/src/schema-decoder.ts
+import { parse as parseYaml } from 'yaml';
+import {
+  ProtocolDecoder,
+  DecodedFrame,
+  FrameField,
+  FrameError,
+  ChecksumInfo,
+  ProtocolConfig,
+  FieldDefinition,
+  ChecksumDefinition,
+  CRCCalculator,
+  ProtocolConfigSchema,
+} from '@commwatch/proto-core';
+
+type Endianness = 'big' | 'little';
+
+const NUMERIC_SIZES: Record<string, number> = {
+  uint8: 1,
+  int8: 1,
+  uint16: 2,
+  int16: 2,
+  uint32: 4,
+  int32: 4,
+  float: 4,
+  double: 8,
+};
+
+const REGION_TYPES = ['bytes', 'string', 'switch'];
+
+const CHECKSUM_SIZES: Record<ChecksumDefinition['type'], number> = {
+  'crc16-ccitt-false': 2,
+  'crc32': 4,
+  'checksum8': 1,
+};
+
+class SchemaDecodeError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+interface ParseResult {
+  fields: FrameField[];
+  checksum?: ChecksumInfo;
+  consumed: number;
+  trailerStart: number;
+}
+
+function lookupEnum(map: Record<string, string> | undefined, value: number): string | undefined {
+  if (!map) return undefined;
+  const key = Object.keys(map).find(k => Number(k) === value);
+  return key === undefined ? undefined : map[key];
+}
+
+function reverseEnum(map: Record<string, string> | undefined, label: string): number | undefined {
+  if (!map) return undefined;
+  const key = Object.keys(map).find(k => map[k] === label);
+  return key === undefined ? undefined : Number(key);
+}
+
+function readNumber(raw: Uint8Array, pos: number, type: string, endianness: Endianness): number {
+  const view = new DataView(raw.buffer, raw.byteOffset + pos, NUMERIC_SIZES[type]);
+  const le = endianness === 'little';
+  switch (type) {
+    case 'uint8': return view.getUint8(0);
+    case 'int8': return view.getInt8(0);
+    case 'uint16': return view.getUint16(0, le);
+    case 'int16': return view.getInt16(0, le);
+    case 'uint32': return view.getUint32(0, le);
+    case 'int32': return view.getInt32(0, le);
+    case 'float': return view.getFloat32(0, le);
+    default: return view.getFloat64(0, le);
+  }
+}
+
+function writeNumber(type: string, value: number, endianness: Endianness): number[] {
+  const bytes = new Uint8Array(NUMERIC_SIZES[type]);
+  const view = new DataView(bytes.buffer);
+  const le = endianness === 'little';
+  switch (type) {
+    case 'uint8': view.setUint8(0, value); break;
+    case 'int8': view.setInt8(0, value); break;
+    case 'uint16': view.setUint16(0, value, le); break;
+    case 'int16': view.setInt16(0, value, le); break;
+    case 'uint32': view.setUint32(0, value, le); break;
+    case 'int32': view.setInt32(0, value, le); break;
+    case 'float': view.setFloat32(0, value, le); break;
+    default: view.setFloat64(0, value, le); break;
+  }
+  return Array.from(bytes);
+}
+
+function toBytes(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (Array.isArray(value)) return new Uint8Array(value as number[]);
+  if (typeof value === 'string') {
+    const hex = value.replace(/\s/g, '');
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+  throw new Error(`Cannot convert ${typeof value} to bytes`);
+}
+
+/**
+ * Decodes and encodes frames described by a ProtocolConfig definition.
+ *
+ * Fields are laid out sequentially unless they carry an explicit offset;
+ * negative offsets address the frame trailer (checksum, end marker).
+ * `switch` fields select a list of sub-fields from `cases` by the value of an
+ * earlier field, and `lengthField`/`countField` size regions and arrays.
+ */
+export class SchemaDecoder implements ProtocolDecoder {
+  readonly id: string;
+  readonly name: string;
+
+  constructor(private config: ProtocolConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.checkDefinitions(config.fields);
+  }
+
+  static fromDefinition(text: string, format: 'json' | 'yaml' = 'json'): SchemaDecoder {
+    const data = format === 'yaml' ? parseYaml(text) : JSON.parse(text);
+    return new SchemaDecoder(ProtocolConfigSchema.parse(data));
+  }
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    let result: ParseResult;
+    try {
+      result = this.parse(raw);
+    } catch (error) {
+      if (error instanceof SchemaDecodeError) return null;
+      throw error;
+    }
+
+    return {
+      protocol: this.config.id,
+      fields: result.fields,
+      checksum: result.checksum,
+      metadata: { definition: this.config.name },
+    };
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    let result: ParseResult;
+    try {
+      result = this.parse(raw);
+    } catch (error) {
+      if (error instanceof SchemaDecodeError) {
+        return { code: error.code, message: error.message, severity: 'error' };
+      }
+      throw error;
+    }
+
+    if (result.consumed !== result.trailerStart) {
+      return {
+        code: 'LENGTH_MISMATCH',
+        message: `Fields end at ${result.consumed}, frame body ends at ${result.trailerStart}`,
+        severity: 'error',
+      };
+    }
+
+    if (result.checksum && !result.checksum.valid) {
+      return {
+        code: 'CRC_MISMATCH',
+        message: `Checksum mismatch: expected 0x${result.checksum.expected.toString(16)}, calculated 0x${result.checksum.calculated.toString(16)}`,
+        severity: 'error',
+      };
+    }
+
+    return null;
+  }
+
+  encode(fields: FrameField[]): Uint8Array {
+    const values = new Map<string, unknown>(fields.map(f => [f.name, f.value]));
+    const out: number[] = [];
+    const positions = new Map<string, { pos: number; size: number; def: FieldDefinition }>();
+
+    this.encodeFields(this.config.fields, values, out, 0, positions);
+
+    // Trailer fields are placed relative to the end of the frame
+    const trailer = this.config.fields.filter(d => d.offset !== undefined && d.offset < 0);
+    const trailerLength = Math.max(
+      0,
+      ...trailer.map(d => -d.offset!),
+      this.config.checksum && this.config.checksum.offset < 0 ? -this.config.checksum.offset : 0
+    );
+    const bodyLength = out.length;
+    out.length = bodyLength + trailerLength;
+    out.fill(0, bodyLength);
+
+    for (const def of trailer) {
+      if (!this.matches(def, values)) continue;
+      const pos = out.length + def.offset!;
+      const bytes = this.encodeValue(def, values);
+      out.splice(pos, bytes.length, ...bytes);
+      positions.set(def.name, { pos, size: bytes.length, def });
+    }
+
+    this.patchLengths(out, positions);
+
+    if (this.config.checksum) {
+      const checksum = this.config.checksum;
+      const offset = checksum.offset < 0 ? out.length + checksum.offset : checksum.offset;
+      const value = this.computeChecksum(new Uint8Array(out), checksum);
+      const bytes = this.checksumBytes(checksum, value);
+      out.splice(offset, bytes.length, ...bytes);
+    }
+
+    return new Uint8Array(out);
+  }
+
+  private checkDefinitions(defs: FieldDefinition[]): void {
+    for (const def of defs) {
+      if (!(def.type in NUMERIC_SIZES) && !REGION_TYPES.includes(def.type)) {
+        throw new Error(`Field ${def.name}: unsupported type ${def.type}`);
+      }
+      if (def.type === 'switch' && !def.switch) {
+        throw new Error(`Field ${def.name}: switch fields need a "switch" key`);
+      }
+      Object.values(def.cases || {}).forEach(sub => this.checkDefinitions(sub));
+      if (def.default) this.checkDefinitions(def.default);
+    }
+  }
+
+  private parse(raw: Uint8Array): ParseResult {
+    const values = new Map<string, unknown>();
+    const fields: FrameField[] = [];
+
+    let trailerStart = raw.length;
+    for (const def of this.config.fields) {
+      if (def.offset !== undefined && def.offset < 0) {
+        trailerStart = Math.min(trailerStart, raw.length + def.offset);
+      }
+    }
+    if (this.config.checksum && this.config.checksum.offset < 0) {
+      trailerStart = Math.min(trailerStart, raw.length + this.config.checksum.offset);
+    }
+    if (trailerStart < 0) {
+      throw new SchemaDecodeError('FRAME_TOO_SHORT', `Frame too short: ${raw.length} bytes`);
+    }
+
+    const consumed = this.decodeFields(this.config.fields, raw, 0, trailerStart, values, fields);
+
+    let checksum: ChecksumInfo | undefined;
+    if (this.config.checksum) {
+      const def = this.config.checksum;
+      const offset = def.offset < 0 ? raw.length + def.offset : def.offset;
+      const size = CHECKSUM_SIZES[def.type];
+      if (offset < 0 || offset + size > raw.length) {
+        throw new SchemaDecodeError('FRAME_TOO_SHORT', 'Frame too short for checksum');
+      }
+
+      const expected = readNumber(raw, offset, size === 1 ? 'uint8' : size === 2 ? 'uint16' : 'uint32',
+        def.endianness || this.config.endianness || 'big');
+      const calculated = this.computeChecksum(raw, def);
+      checksum = { type: def.type, expected, calculated, valid: expected === calculated };
+    }
+
+    return { fields, checksum, consumed, trailerStart };
+  }
+
+  private decodeFields(
+    defs: FieldDefinition[],
+    raw: Uint8Array,
+    base: number,
+    limit: number,
+    values: Map<string, unknown>,
+    fields: FrameField[]
+  ): number {
+    let cursor = base;
+
+    for (const def of defs) {
+      if (!this.matches(def, values)) continue;
+
+      const trailing = def.offset !== undefined && def.offset < 0;
+      const pos = def.offset === undefined ? cursor : trailing ? raw.length + def.offset! : base + def.offset!;
+      const size = this.fieldSize(def, pos, trailing ? raw.length : limit, values);
+
+      if (pos < 0 || pos + size > raw.length) {
+        throw new SchemaDecodeError('FIELD_OUT_OF_RANGE', `Field ${def.name} exceeds frame length`);
+      }
+
+      const bytes = raw.slice(pos, pos + size);
+
+      if (def.type in NUMERIC_SIZES) {
+        this.decodeNumeric(def, raw, pos, size, values, fields);
+      } else {
+        fields.push({
+          name: def.name,
+          value: def.type === 'string'
+            ? new TextDecoder().decode(bytes).replace(/\0+$/, '')
+            : bytes,
+          type: def.type === 'string' ? 'string' : 'bytes',
+          raw: bytes,
+          offset: pos,
+        });
+
+        if (def.type === 'switch') {
+          const sub = this.selectCase(def, values);
+          if (sub) {
+            this.decodeFields(sub, raw, pos, pos + size, values, fields);
+          }
+        }
+      }
+
+      if (!trailing) {
+        cursor = Math.max(cursor, pos + size);
+      }
+    }
+
+    return cursor;
+  }
+
+  private decodeNumeric(
+    def: FieldDefinition,
+    raw: Uint8Array,
+    pos: number,
+    size: number,
+    values: Map<string, unknown>,
+    fields: FrameField[]
+  ): void {
+    const itemSize = NUMERIC_SIZES[def.type];
+    const endianness = def.endianness || this.config.endianness || 'big';
+    const bytes = raw.slice(pos, pos + size);
+    const type = (def.type === 'double' ? 'float' : def.type) as FrameField['type'];
+    const scaled = def.scaling !== undefined || def.valueOffset !== undefined;
+    const scale = (v: number) => v * (def.scaling ?? 1) + (def.valueOffset ?? 0);
+
+    if (def.count !== undefined || def.countField !== undefined) {
+      const items: number[] = [];
+      for (let i = pos; i < pos + size; i += itemSize) {
+        items.push(readNumber(raw, i, def.type, endianness));
+      }
+      values.set(def.name, items);
+      fields.push({
+        name: def.name,
+        value: scaled ? items.map(scale) : items,
+        type: scaled ? 'float' : type,
+        raw: bytes,
+        offset: pos,
+        scaling: def.scaling,
+        unit: def.unit,
+      });
+      return;
+    }
+
+    const value = readNumber(raw, pos, def.type, endianness);
+    if (def.const !== undefined && value !== def.const) {
+      throw new SchemaDecodeError('CONST_MISMATCH',
+        `Field ${def.name}: expected 0x${def.const.toString(16)}, got 0x${value.toString(16)}`);
+    }
+    values.set(def.name, value);
+
+    const field: FrameField = {
+      name: def.name,
+      value: scaled ? scale(value) : value,
+      type: scaled ? 'float' : type,
+      raw: bytes,
+      offset: pos,
+      scaling: def.scaling,
+      unit: def.unit,
+    };
+    const label = lookupEnum(def.enum, value);
+    if (label !== undefined) field.label = label;
+    fields.push(field);
+
+    for (const bit of def.bits || []) {
+      const bitValue = Math.floor(value / 2 ** bit.offset) % 2 ** bit.width;
+      values.set(bit.name, bitValue);
+
+      const bitField: FrameField = {
+        name: bit.name,
+        value: bit.width === 1 ? bitValue === 1 : bitValue,
+        type,
+        raw: bytes,
+        offset: pos,
+        unit: bit.unit,
+      };
+      const bitLabel = lookupEnum(bit.enum, bitValue);
+      if (bitLabel !== undefined) bitField.label = bitLabel;
+      fields.push(bitField);
+    }
+  }
+
+  private fieldSize(def: FieldDefinition, pos: number, limit: number, values: Map<string, unknown>): number {
+    const count = def.countField !== undefined
+      ? this.numericValue(values, def.countField, def.name)
+      : def.count;
+
+    if (def.type in NUMERIC_SIZES) {
+      return NUMERIC_SIZES[def.type] * (count ?? 1);
+    }
+
+    if (def.lengthField !== undefined) {
+      return this.numericValue(values, def.lengthField, def.name);
+    }
+    if (def.length !== undefined) return def.length;
+    if (count !== undefined) return count;
+    return Math.max(0, limit - pos); // Rest of the enclosing region
+  }
+
+  private numericValue(values: Map<string, unknown>, name: string, referrer: string): number {
+    const value = values.get(name);
+    if (typeof value !== 'number') {
+      throw new SchemaDecodeError('MISSING_REFERENCE', `Field ${referrer} references undecoded field ${name}`);
+    }
+    return value;
+  }
+
+  private matches(def: FieldDefinition, values: Map<string, unknown>): boolean {
+    if (!def.when) return true;
+    const value = values.get(def.when.field);
+    const allowed = Array.isArray(def.when.equals) ? def.when.equals : [def.when.equals];
+    return typeof value === 'number' && allowed.includes(value);
+  }
+
+  private selectCase(def: FieldDefinition, values: Map<string, unknown>): FieldDefinition[] | undefined {
+    const value = values.get(def.switch!);
+    const key = Object.keys(def.cases || {}).find(k => Number(k) === value);
+    return key !== undefined ? def.cases![key] : def.default;
+  }
+
+  private encodeFields(
+    defs: FieldDefinition[],
+    values: Map<string, unknown>,
+    out: number[],
+    base: number,
+    positions: Map<string, { pos: number; size: number; def: FieldDefinition }>
+  ): number {
+    let cursor = base;
+
+    for (const def of defs) {
+      if (def.offset !== undefined && def.offset < 0) continue;
+      if (!this.matches(def, values)) continue;
+
+      const pos = def.offset === undefined ? cursor : base + def.offset;
+      while (out.length < pos) out.push(0);
+
+      let size: number;
+      if (def.type === 'switch' && !values.has(def.name)) {
+        const sub = this.selectCase(def, values) || [];
+        size = this.encodeFields(sub, values, out, pos, positions) - pos;
+      } else {
+        const bytes = this.encodeValue(def, values);
+        out.splice(pos, Math.min(bytes.length, out.length - pos), ...bytes);
+        size = bytes.length;
+      }
+
+      positions.set(def.name, { pos, size, def });
+      cursor = Math.max(cursor, pos + size);
+    }
+
+    return cursor;
+  }
+
+  private encodeValue(def: FieldDefinition, values: Map<string, unknown>): number[] {
+    const endianness = def.endianness || this.config.endianness || 'big';
+
+    if (!(def.type in NUMERIC_SIZES)) {
+      let bytes = def.type === 'string'
+        ? new TextEncoder().encode(String(values.get(def.name) ?? ''))
+        : values.has(def.name) ? toBytes(values.get(def.name)) : new Uint8Array(def.length || 0);
+      if (def.length !== undefined && bytes.length !== def.length) {
+        const sized = new Uint8Array(def.length);
+        sized.set(bytes.slice(0, def.length));
+        bytes = sized;
+      }
+      return Array.from(bytes);
+    }
+
+    const unscale = (v: number) => {
+      const rawValue = (v - (def.valueOffset ?? 0)) / (def.scaling ?? 1);
+      return def.type === 'float' || def.type === 'double' ? rawValue : Math.round(rawValue);
+    };
+
+    if (def.count !== undefined || def.countField !== undefined) {
+      const items = (values.get(def.name) as number[] | undefined) || [];
+      return items.flatMap(item => writeNumber(def.type, unscale(item), endianness));
+    }
+
+    const value = this.fieldValue(def, values);
+    values.set(def.name, value);
+    return writeNumber(def.type, unscale(value), endianness);
+  }
+
+  private fieldValue(def: FieldDefinition, values: Map<string, unknown>): number {
+    const value = values.get(def.name);
+
+    if (value === undefined) {
+      if (def.const !== undefined) return def.const;
+      if (this.config.checksum && def.offset === this.config.checksum.offset) return 0; // Filled in last
+      if (def.bits) {
+        return def.bits.reduce((acc, bit) => {
+          const bitValue = values.get(bit.name);
+          const numeric = typeof bitValue === 'string'
+            ? reverseEnum(bit.enum, bitValue) ?? 0
+            : Number(bitValue ?? 0);
+          return acc + (numeric % 2 ** bit.width) * 2 ** bit.offset;
+        }, 0);
+      }
+      if (this.isReferenced(def.name, this.config.fields)) return 0; // Patched after layout
+      throw new Error(`Missing field: ${def.name}`);
+    }
+
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string') {
+      const fromEnum = reverseEnum(def.enum, value);
+      if (fromEnum !== undefined) return fromEnum;
+      return Number(value);
+    }
+    return Number(value);
+  }
+
+  private isReferenced(name: string, defs: FieldDefinition[]): boolean {
+    return defs.some(d =>
+      d.lengthField === name ||
+      d.countField === name ||
+      Object.values(d.cases || {}).some(sub => this.isReferenced(name, sub)) ||
+      (d.default !== undefined && this.isReferenced(name, d.default))
+    );
+  }
+
+  // Rewrites length and count fields to match what was actually encoded
+  private patchLengths(
+    out: number[],
+    positions: Map<string, { pos: number; size: number; def: FieldDefinition }>
+  ): void {
+    for (const { size, def } of positions.values()) {
+      const ref = def.lengthField ?? def.countField;
+      const target = ref !== undefined ? positions.get(ref) : undefined;
+      if (!target) continue;
+
+      const value = def.lengthField !== undefined ? size : size / NUMERIC_SIZES[def.type];
+      const endianness = target.def.endianness || this.config.endianness || 'big';
+      out.splice(target.pos, target.size, ...writeNumber(target.def.type, value, endianness));
+    }
+  }
+
+  private computeChecksum(raw: Uint8Array, def: ChecksumDefinition): number {
+    const resolve = (offset: number) => offset < 0 ? raw.length + offset : offset;
+    const data = raw.slice(resolve(def.start ?? 0), resolve(def.end ?? def.offset));
+
+    switch (def.type) {
+      case 'crc16-ccitt-false':
+        return CRCCalculator.crc16CcittFalse(data);
+      case 'crc32':
+        return CRCCalculator.crc32(data);
+      case 'checksum8':
+        return CRCCalculator.checksum8(data);
+    }
+  }
+
+  private checksumBytes(def: ChecksumDefinition, value: number): number[] {
+    const size = CHECKSUM_SIZES[def.type];
+    const type = size === 1 ? 'uint8' : size === 2 ? 'uint16' : 'uint32';
+    return writeNumber(type, value, def.endianness || this.config.endianness || 'big');
+  }
 }
 
 // packages/decoders/src/index.ts
-export { EFuseDecoder } from './efuse-decoder';
+import type { FramerConfig } from '@commwatch/proto-core';
+import { DecoderRegistry } from '@commwatch/proto-core';
+import { EFuseDecoder, EFUSE_FRAMER_CONFIG } from './efuse-decoder';
+import { COBSDecoder } from './cobs-decoder';
+import { SLIPDecoder } from './slip-decoder';
+import { HexDecoder } from './hex-decoder';
+import { ASCIIDecoder } from './ascii-decoder';
+
+export { EFuseDecoder, EFUSE_FRAMER_CONFIG } from './efuse-decoder';
 export { COBSDecoder } from './cobs-decoder';
 export { SLIPDecoder } from './slip-decoder';
 export { HexDecoder } from './hex-decoder';
 export { ASCIIDecoder } from './ascii-decoder';
+export { SchemaDecoder } from './schema-decoder';
 
 export const DEFAULT_DECODERS = [
   new EFuseDecoder(),
@@ -561,4 +1164,21 @@ export const DEFAULT_DECODERS = [
   new SLIPDecoder(),
   new HexDecoder(),
   new ASCIIDecoder(),
-];
\ No newline at end of file
+];
+
+export function createDefaultRegistry(): DecoderRegistry {
+  const registry = new DecoderRegistry();
+  DEFAULT_DECODERS.forEach(decoder => registry.register(decoder));
+  registry.registerStack(['slip', 'efuse']);
+  registry.registerStack(['cobs', 'efuse']);
+  return registry;
+}
+
+export const FRAMER_PRESETS: Record<string, FramerConfig> = {
+  raw: { type: 'passthrough' },
+  efuse: EFUSE_FRAMER_CONFIG,
+  cobs: { type: 'cobs' },
+  slip: { type: 'slip' },
+  line: { type: 'delimiter', delimiter: [0x0A] },
+  crlf: { type: 'delimiter', delimiter: [0x0D, 0x0A] },
+};
@@ -1,6 +1,7 @@
 // apps/desktop/src/main/index.ts
-import { app, BrowserWindow, ipcMain, Menu } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Menu } from 'electron';
 import * as path from 'path';
+import { formatReport } from '@commwatch/scripting';
 import { CommWatchBackend } from './backend';
 
 let mainWindow: BrowserWindow | null = null;
@@ -34,25 +35,97 @@ function setupIpcHandlers() {
     return backend?.listDevices();
   });
 
-  ipcMain.handle('connect', async (_, device, options) => {
-    return backend?.connect(device, options);
+  ipcMain.handle('list-decoders', async () => {
+    return backend?.listDecoders();
   });
 
-  ipcMain.handle('disconnect', async () => {
-    return backend?.disconnect();
+  ipcMain.handle('list-sessions', async () => {
+    return backend?.listSessions();
   });
 
-  ipcMain.handle('send', async (_, data) => {
-    return backend?.send(data);
+  ipcMain.handle('load-protocol', async (_, filepath) => {
+    return backend?.loadProtocol(filepath);
   });
 
-  ipcMain.handle('get-stats', async () => {
-    return backend?.getStats();
+  ipcMain.handle('get-can-database', async () => {
+    return backend?.getCanDatabase();
+  });
+
+  ipcMain.handle('load-rules', async (_, filepath) => {
+    return backend?.loadRules(filepath);
+  });
+
+  ipcMain.handle('set-rules', async (_, ruleSet) => {
+    return backend?.setRules(ruleSet);
+  });
+
+  ipcMain.handle('run-script', async (_, filepath, sessionId) => {
+    return backend?.runScript(filepath, sessionId);
+  });
+
+  ipcMain.handle('connect', async (_, device, options, framer, decoder, autoReconnect) => {
+    return backend?.connect(device, options, framer, decoder, autoReconnect);
+  });
+
+  ipcMain.handle('disconnect', async (_, sessionId) => {
+    return backend?.disconnect(sessionId);
+  });
+
+  ipcMain.handle('send', async (_, sessionId, data) => {
+    return backend?.send(sessionId, data);
+  });
+
+  ipcMain.handle('set-signals', async (_, sessionId, signals) => {
+    return backend?.setSignals(sessionId, signals);
+  });
+
+  ipcMain.handle('send-break', async (_, sessionId, durationMs) => {
+    return backend?.sendBreak(sessionId, durationMs);
+  });
+
+  ipcMain.handle('get-stats', async (_, sessionId) => {
+    return backend?.getStats(sessionId);
+  });
+
+  ipcMain.handle('get-multi-drop', async (_, sessionId) => {
+    return backend?.getMultiDrop(sessionId);
   });
 
   ipcMain.handle('export-log', async (_, format, filepath) => {
     return backend?.exportLog(format, filepath);
   });
+
+  ipcMain.handle('import-capture', async (_, filepath) => {
+    return backend?.importCapture(filepath);
+  });
+
+  ipcMain.handle('open-session', async (_, filepath) => {
+    return backend?.openSession(filepath);
+  });
+
+  ipcMain.handle('save-session', async (_, filepath) => {
+    return backend?.saveSession(filepath);
+  });
+
+  ipcMain.handle('add-bookmark', async (_, frameId, label) => {
+    return backend?.addBookmark(frameId, label);
+  });
+
+  ipcMain.handle('get-frame-count', async () => {
+    return backend?.getFrameCount();
+  });
+
+  ipcMain.handle('get-frames', async (_, start, end) => {
+    return backend?.getFrames(start, end);
+  });
+
+  ipcMain.handle('get-frames-by-time', async (_, from, to) => {
+    return backend?.getFramesByTime(BigInt(from), BigInt(to));
+  });
+
+  ipcMain.handle('search-frames', async (_, pattern, limit) => {
+    return backend?.searchFrames(pattern, limit);
+  });
 }
 
 function createMenu() {
@@ -63,24 +136,30 @@ function createMenu() {
         {
           label: 'Open Session',
           accelerator: 'CmdOrCtrl+O',
-          click: () => {
-            mainWindow?.webContents.send('menu-open-session');
-          },
+          click: () => openSession(),
         },
         {
           label: 'Save Session',
           accelerator: 'CmdOrCtrl+S',
+          click: () => saveSession(),
+        },
+        { type: 'separator' },
+        {
+          label: 'Import Capture...',
           click: () => {
-            mainWindow?.webContents.send('menu-save-session');
+            mainWindow?.webContents.send('menu-import-capture');
           },
         },
-        { type: 'separator' },
         {
           label: 'Export Log',
           submenu: [
             { label: 'CSV', click: () => exportLog('csv') },
             { label: 'JSON', click: () => exportLog('json') },
             { label: 'PCAP-NG', click: () => exportLog('pcapng') },
+            { type: 'separator' },
+            { label: 'candump Log', click: () => exportLog('candump') },
+            { label: 'Vector ASC', click: () => exportLog('asc') },
+            { label: 'PEAK TRC', click: () => exportLog('trc') },
           ],
         },
         { type: 'separator' },
@@ -104,6 +183,19 @@ function createMenu() {
             mainWindow?.webContents.send('menu-disconnect');
           },
         },
+        {
+          label: 'Disconnect All',
+          click: () => backend?.disconnect(),
+        },
+        { type: 'separator' },
+        {
+          label: 'Load Rules...',
+          click: () => loadRules(),
+        },
+        {
+          label: 'Run Script...',
+          click: () => runScript(),
+        },
         { type: 'separator' },
         {
           label: 'Refresh Devices',
@@ -133,9 +225,86 @@ function exportLog(format: string) {
   mainWindow?.webContents.send('menu-export-log', format);
 }
 
+const SESSION_FILTERS = [{ name: 'CommWatch Session', extensions: ['cwsession', 'json'] }];
+
+async function openSession() {
+  if (!mainWindow || !backend) return;
+
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: SESSION_FILTERS,
+  });
+  if (result.canceled || result.filePaths.length === 0) return;
+
+  try {
+    const summary = await backend.openSession(result.filePaths[0]);
+    mainWindow.webContents.send('session-opened', summary);
+    if (summary.warnings.length > 0) {
+      dialog.showMessageBox(mainWindow, { type: 'warning', title: 'Open Session', message: summary.warnings.join('\n') });
+    }
+  } catch (error) {
+    dialog.showErrorBox('Open Session', String(error));
+  }
+}
+
+async function saveSession() {
+  if (!mainWindow || !backend) return;
+
+  const result = await dialog.showSaveDialog(mainWindow, { filters: SESSION_FILTERS });
+  if (result.canceled || !result.filePath) return;
+
+  try {
+    await backend.saveSession(result.filePath);
+  } catch (error) {
+    dialog.showErrorBox('Save Session', String(error));
+  }
+}
+
+async function loadRules() {
+  if (!mainWindow || !backend) return;
+
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: [{ name: 'Rules or Session Config', extensions: ['json'] }],
+  });
+  if (result.canceled || result.filePaths.length === 0) return;
+
+  try {
+    await backend.loadRules(result.filePaths[0]);
+  } catch (error) {
+    dialog.showErrorBox('Load Rules', String(error));
+  }
+}
+
+async function runScript() {
+  if (!mainWindow || !backend) return;
+
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: [{ name: 'Test Scripts', extensions: ['ts', 'js'] }],
+  });
+  if (result.canceled || result.filePaths.length === 0) return;
+
+  try {
+    const report = await backend.runScript(result.filePaths[0]);
+    mainWindow.webContents.send('script-report', report);
+    await dialog.showMessageBox(mainWindow, {
+      type: report.passed ? 'info' : 'error',
+      title: 'Run Script',
+      message: report.passed ? 'Script passed' : 'Script failed',
+      detail: formatReport(report),
+    });
+  } catch (error) {
+    dialog.showErrorBox('Run Script', String(error));
+  }
+}
+
 app.whenReady().then(createWindow);
 
-app.on('window-all-closed', () => {
+app.on('window-all-closed', async () => {
+  await backend?.dispose();
+  backend = null;
+
   if (process.platform !== 'darwin') {
     app.quit();
   }
@@ -148,35 +317,129 @@ app.on('activate', () => {
 });
 
 // apps/desktop/src/main/backend.ts
-import { BrowserWindow } from 'electron';
+import { BrowserWindow, Notification, ipcMain } from 'electron';
+import type { IpcMainEvent } from 'electron';
 import type {
   DeviceInfo,
-  AdapterHandle,
   AdapterOpenOptions,
   AdapterStats,
+  Bookmark,
+  DbcDatabase,
+  FilterConfig,
+  FramerConfig,
+  MultiDropStats,
+  Preset,
+  ProtocolDecoder,
   ProtocolFrame,
+  RuleSet,
+  SessionSource,
+  TransportAdapter,
+  Unsubscribe,
 } from '@commwatch/proto-core';
+import {
+  BUS_CHANNEL,
+  MessageBus,
+  RuleEngine,
+  bridgeMessageBus,
+  parseDbc,
+  parseRuleSet,
+  parseSession,
+  serializeSessionChunks,
+} from '@commwatch/proto-core';
+import type { BusTransport } from '@commwatch/proto-core';
+import { FileFrameStore } from '@commwatch/proto-core/node';
 import { UARTAdapter } from '@commwatch/transports-uart';
-import { CANAdapter } from '@commwatch/transports-can';
+import { CANAdapter, CANDecoder, J1939Decoder, OBDDecoder, UDSDecoder } from '@commwatch/transports-can';
 import { EthernetAdapter } from '@commwatch/transports-eth';
 import { SPIAdapter } from '@commwatch/transports-spi';
 import { I2CAdapter } from '@commwatch/transports-i2c';
-import { EFuseDecoder } from '@commwatch/decoders';
+import { createDefaultRegistry, SchemaDecoder } from '@commwatch/decoders';
+import { PcapngWriter, readCapture, toProtocolFrames, readCanLog, CanLogWriter, canLogFormatFor } from '@commwatch/pcapng';
+import type { CanLogFormat } from '@commwatch/pcapng';
+import { busTarget, runScript } from '@commwatch/scripting';
+import type { ScriptReport } from '@commwatch/scripting';
+import { SessionManager } from './session-manager';
+import type { DeviceSessionInfo } from './session-manager';
 import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const RAW_DECODER = 'hex';
+const DROP_NOTICE_INTERVAL_MS = 10_000;
 
 export class CommWatchBackend {
-  private adapters: Map<string, any> = new Map();
-  private currentHandle: AdapterHandle | null = null;
-  private frames: ProtocolFrame[] = [];
-  private decoder = new EFuseDecoder();
-  private frameId = 0;
+  readonly bus = new MessageBus({ async: true });
+  private adapters: Map<string, TransportAdapter> = new Map();
+  private sessions: SessionManager;
+  private store: FileFrameStore | null = null;
+  private ready: Promise<void>;
+  private disposeBridge: () => void;
+  private unwatchDevices: Unsubscribe[];
+  private storeId = 0;
+  private bookmarks: Bookmark[] = [];
+  private filters: FilterConfig[] = [];
+  private presets: Preset[] = [];
+  private rules: RuleEngine;
+  private capturing = true; // Toggled by start-capture/stop-capture rules
+  private lastDropNotice = 0;
+  private registry = createDefaultRegistry();
+  private canDecoder = new CANDecoder();
+  private j1939Decoder = new J1939Decoder();
+  private decoder: ProtocolDecoder = this.registry.resolve('auto'); // For frames without a known source
 
   constructor(private window: BrowserWindow) {
-    this.adapters.set('uart', new UARTAdapter());
-    this.adapters.set('can', new CANAdapter());
-    this.adapters.set('ethernet', new EthernetAdapter());
-    this.adapters.set('spi', new SPIAdapter());
-    this.adapters.set('i2c', new I2CAdapter());
+    this.registry.register(this.canDecoder);
+    this.registry.register(this.j1939Decoder);
+    this.registry.register(new UDSDecoder());
+    this.registry.register(new OBDDecoder());
+    this.registry.registerStack(['cobs', 'can']);
+    this.ready = this.resetStore();
+
+    this.adapters.set('uart', new UARTAdapter(this.bus));
+    this.adapters.set('can', new CANAdapter(this.bus));
+    this.adapters.set('ethernet', new EthernetAdapter(this.bus));
+    this.adapters.set('spi', new SPIAdapter(this.bus));
+    this.adapters.set('i2c', new I2CAdapter(this.bus));
+
+    this.sessions = new SessionManager(this.adapters, this.registry, this.bus);
+
+    // Hot-plug events let the renderer refresh its device list and reconnect sessions
+    this.unwatchDevices = [...this.adapters.values()]
+      .map(adapter => adapter.watchDevices?.())
+      .filter((unwatch): unwatch is Unsubscribe => unwatch !== undefined);
+
+    // Attached before the store so a start-capture frame is itself captured
+    this.rules = new RuleEngine({ filters: [] }, {
+      respond: async (data, frame) => {
+        if (!frame.source || !this.sessions.get(frame.source)?.connected) {
+          throw new Error(`No open session for frame ${frame.id}`);
+        }
+        await this.sessions.send(frame.source, data);
+      },
+      startCapture: () => {
+        this.capturing = true;
+      },
+      stopCapture: () => {
+        this.capturing = false;
+      },
+      bookmark: (frame, label) => this.addBookmark(frame.id, label),
+      alert: message => new Notification({ title: 'CommWatch', body: message }).show(),
+    });
+    this.rules.attach(this.bus);
+
+    this.bus.on('frame:received', event => this.capture(event.frame));
+    this.bus.on('frame:sent', event => this.capture(event.frame));
+    // Frames among the dropped events are missing from the capture; the renderer hears of it through the bridge
+    this.bus.on('bus:dropped', ({ count }) => {
+      console.warn(`Message bus overflow: ${count} events dropped`);
+      if (Date.now() - this.lastDropNotice >= DROP_NOTICE_INTERVAL_MS) {
+        this.lastDropNotice = Date.now();
+        new Notification({ title: 'CommWatch', body: 'The capture is missing frames: the message bus overflowed' }).show();
+      }
+    });
+
+    // The renderer sees the same bus; see onBusEvent in the preload
+    this.disposeBridge = bridgeMessageBus(this.bus, this.ipcTransport());
   }
 
   async listDevices(): Promise<DeviceInfo[]> {
@@ -194,80 +457,128 @@ export class CommWatchBackend {
     return allDevices;
   }
 
-  async connect(device: DeviceInfo, options: AdapterOpenOptions): Promise<void> {
-    const adapter = this.adapters.get(device.type);
-    if (!adapter) {
-      throw new Error(`Unknown adapter type: ${device.type}`);
+  listDecoders(): { id: string; name: string }[] {
+    return this.registry.list().map(d => ({ id: d.id, name: d.name }));
+  }
+
+  listSessions(): DeviceSessionInfo[] {
+    return this.sessions.list();
+  }
+
+  // Registers a declarative protocol definition (.json, .yaml or .yml), or
+  // replaces the CAN (or J1939) signal definitions with a .dbc file
+  async loadProtocol(filepath: string): Promise<{ id: string; name: string }> {
+    const text = await fs.readFile(filepath, 'utf8');
+    if (/\.dbc$/i.test(filepath)) {
+      // Open sessions share these decoders, so they pick up the signals too
+      const database = parseDbc(text);
+      const decoder = database.protocol === 'J1939' ? this.j1939Decoder : this.canDecoder;
+      decoder.setDatabase(database);
+      return { id: decoder.id, name: path.basename(filepath) };
     }
 
-    this.currentHandle = await adapter.open(device, options);
+    const format = /\.ya?ml$/i.test(filepath) ? 'yaml' : 'json';
+    const decoder = SchemaDecoder.fromDefinition(text, format);
+    this.registry.register(decoder);
+    return { id: decoder.id, name: decoder.name };
+  }
 
-    // Subscribe to incoming data
-    this.currentHandle.read((chunk, meta) => {
-      const frame: ProtocolFrame = {
-        id: `frame-${this.frameId++}`,
-        timestamp: meta?.timestamp || BigInt(Date.now() * 1_000_000),
-        direction: meta?.direction || 'rx',
-        raw: chunk,
-      };
+  // Messages and signals for building CAN frames in the TX builder
+  getCanDatabase(): DbcDatabase {
+    return this.canDecoder.getDatabase();
+  }
 
-      // Try to decode
-      try {
-        const decoded = this.decoder.decode(chunk);
-        if (decoded) {
-          frame.decoded = decoded;
-        }
+  // Loads trigger rules from a rules file or a SessionConfig (JSON)
+  async loadRules(filepath: string): Promise<RuleSet> {
+    const ruleSet = parseRuleSet(JSON.parse(await fs.readFile(filepath, 'utf8')));
+    this.setRules(ruleSet);
+    return ruleSet;
+  }
 
-        const error = this.decoder.validate(chunk);
-        if (error) {
-          frame.error = error;
-        }
-      } catch (err) {
-        console.error('Decode error:', err);
-      }
+  setRules(ruleSet: RuleSet): void {
+    const parsed = parseRuleSet(ruleSet);
+    this.rules.setRules(parsed);
+    this.filters = parsed.filters;
+    this.presets = parsed.presets || [];
+    // With a start-capture rule, capture waits for its trigger
+    this.capturing = !parsed.filters.some(rule => rule.action === 'start-capture' && rule.enabled !== false);
+  }
 
-      this.frames.push(frame);
+  // Runs a test script against a session; the only connected one if none is given
+  async runScript(filepath: string, sessionId?: string): Promise<ScriptReport> {
+    const connected = this.sessions.list().filter(s => s.connected);
+    if (!sessionId) {
+      if (connected.length === 0) {
+        throw new Error('Connect a device before running a script');
+      }
+      if (connected.length > 1) {
+        throw new Error('Several devices are connected; choose the session to run the script on');
+      }
+      sessionId = connected[0].id;
+    }
 
-      // Send to renderer
-      this.window.webContents.send('frame-received', frame);
+    const id = sessionId;
+    const target = busTarget(this.bus, data => this.sessions.send(id, data), id);
+    return runScript(await fs.readFile(filepath, 'utf8'), target, {
+      filename: path.basename(filepath),
+      onLog: message => this.window.webContents.send('script-log', message),
     });
   }
 
-  async disconnect(): Promise<void> {
-    if (this.currentHandle) {
-      await this.currentHandle.close();
-      this.currentHandle = null;
-    }
+  // Opens a device alongside any already connected ones and returns its session id
+  async connect(
+    device: DeviceInfo,
+    options: AdapterOpenOptions,
+    framerConfig: FramerConfig = { type: 'passthrough' },
+    decoderSpec = 'auto',
+    autoReconnect = false
+  ): Promise<string> {
+    await this.ready;
+    return this.sessions.open(device, options, framerConfig, decoderSpec, autoReconnect);
   }
 
-  async send(data: Uint8Array): Promise<void> {
-    if (!this.currentHandle) {
-      throw new Error('Not connected');
+  // Closes one session, or all of them when no id is given
+  async disconnect(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      await this.sessions.close(sessionId);
+    } else {
+      await this.sessions.closeAll();
     }
+  }
+
+  async send(sessionId: string, data: Uint8Array): Promise<void> {
+    await this.sessions.send(sessionId, data);
+  }
 
-    await this.currentHandle.write(data);
+  // E.g. pulsing DTR/RTS to reset an ESP32 or STM32 board
+  async setSignals(sessionId: string, signals: { rts?: boolean; dtr?: boolean }): Promise<void> {
+    await this.sessions.lines(sessionId).setSignals(signals);
+  }
 
-    // Add to frames
-    const frame: ProtocolFrame = {
-      id: `frame-${this.frameId++}`,
-      timestamp: BigInt(Date.now() * 1_000_000),
-      direction: 'tx',
-      raw: data,
-    };
+  async sendBreak(sessionId: string, durationMs?: number): Promise<void> {
+    await this.sessions.lines(sessionId).sendBreak(durationMs);
+  }
+
+  async getStats(sessionId: string): Promise<AdapterStats | null> {
+    const info = this.sessions.get(sessionId);
+    if (!info?.connected) {
+      return null;
+    }
 
-    this.frames.push(frame);
-    this.window.webContents.send('frame-received', frame);
+    return this.sessions.getStats(sessionId);
   }
 
-  async getStats(): Promise<AdapterStats | null> {
-    if (!this.currentHandle) {
+  // Per-node traffic of an RS-485 session; null for other sessions
+  getMultiDrop(sessionId: string): MultiDropStats | null {
+    const info = this.sessions.get(sessionId);
+    if (!info?.connected) {
       return null;
     }
 
-    return this.currentHandle.getStats();
+    return this.sessions.multiDrop(sessionId);
   }
 
-  async exportLog(format: 'csv' | 'json' | 'pcapng', filepath: string): Promise<void> {
+  async exportLog(format: 'csv' | 'json' | 'pcapng' | CanLogFormat, filepath: string): Promise<void> {
     switch (format) {
       case 'csv':
         await this.exportCsv(filepath);
@@ -278,196 +589,1261 @@ export class CommWatchBackend {
       case 'pcapng':
         await this.exportPcapng(filepath);
         break;
+      case 'candump':
+      case 'asc':
+      case 'trc':
+        await this.exportCanLog(format, filepath);
+        break;
     }
   }
 
   private async exportCsv(filepath: string): Promise<void> {
-    const lines = ['Timestamp,Direction,Length,Hex'];
-    
-    for (const frame of this.frames) {
-      const ts = Number(frame.timestamp) / 1_000_000;
-      const hex = Array.from(frame.raw).map(b => b.toString(16).padStart(2, '0')).join(' ');
-      lines.push(`${ts},${frame.direction},${frame.raw.length},"${hex}"`);
-    }
+    const file = await fs.open(filepath, 'w');
+    let lines = ['Timestamp,Source,Direction,Length,Hex'];
+
+    try {
+      for await (const frame of this.store!.frames()) {
+        const ts = Number(frame.timestamp) / 1_000_000;
+        const hex = Array.from(frame.raw).map(b => b.toString(16).padStart(2, '0')).join(' ');
+        lines.push(`${ts},${frame.source || ''},${frame.direction},${frame.raw.length},"${hex}"`);
+
+        if (lines.length >= 1000) {
+          await file.write(lines.join('\n') + '\n');
+          lines = [];
+        }
+      }
 
-    await fs.writeFile(filepath, lines.join('\n'));
+      await file.write(lines.join('\n'));
+    } finally {
+      await file.close();
+    }
   }
 
   private async exportJson(filepath: string): Promise<void> {
-    const data = {
-      version: '1.0',
-      frames: this.frames.map(f => ({
-        id: f.id,
-        timestamp: f.timestamp.toString(),
-        direction: f.direction,
-        raw: Array.from(f.raw),
-        decoded: f.decoded,
-        error: f.error,
-      })),
-    };
-
-    await fs.writeFile(filepath, JSON.stringify(data, null, 2));
+    await this.writeSession(filepath);
   }
 
+  // Writes one interface per device session so Wireshark shows each bus separately
   private async exportPcapng(filepath: string): Promise<void> {
-    // Simplified PCAP-NG export (real implementation would use proper library)
-    console.log('PCAP-NG export not yet implemented');
-  }
-}
+    const writer = new PcapngWriter({ application: 'CommWatch Desktop' });
+    const interfaces = new Map<string, number>();
+
+    const interfaceFor = (source?: string): number => {
+      const key = source || '';
+      if (!interfaces.has(key)) {
+        const device = source ? this.sessions.get(source)?.device : undefined;
+        interfaces.set(key, writer.addInterface({
+          transport: device?.type || 'uart',
+          name: device?.path || source,
+          description: device ? `${device.name} (${source})` : undefined,
+        }));
+      }
+      return interfaces.get(key)!;
+    };
 
-// apps/desktop/src/preload/index.ts
-import { contextBridge, ipcRenderer } from 'electron';
+    const file = await fs.open(filepath, 'w');
+    let count = 0;
 
-contextBridge.exposeInMainWorld('electronAPI', {
-  listDevices: () => ipcRenderer.invoke('list-devices'),
-  connect: (device: any, options: any) => ipcRenderer.invoke('connect', device, options),
-  disconnect: () => ipcRenderer.invoke('disconnect'),
-  send: (data: Uint8Array) => ipcRenderer.invoke('send', data),
-  getStats: () => ipcRenderer.invoke('get-stats'),
-  exportLog: (format: string, filepath: string) => ipcRenderer.invoke('export-log', format, filepath),
-  
-  onFrameReceived: (callback: (frame: any) => void) => {
-    ipcRenderer.on('frame-received', (_, frame) => callback(frame));
-  },
-  
-  onMenuAction: (action: string, callback: () => void) => {
-    ipcRenderer.on(`menu-${action}`, callback);
-  },
-});
+    try {
+      for await (const frame of this.store!.frames()) {
+        writer.addFrame(interfaceFor(frame.source), frame);
 
-// apps/cli/src/index.ts
-import { Command } from 'commander';
-import { RecordCommand } from './commands/record';
-import { ReplayCommand } from './commands/replay';
-import { MonitorCommand } from './commands/monitor';
+        if (++count % 1000 === 0) {
+          await file.write(writer.flush());
+        }
+      }
 
-const program = new Command();
+      await file.write(writer.flush());
+    } finally {
+      await file.close();
+    }
+  }
 
-program
-  .name('commwatch')
-  .description('CLI tool for communication monitoring and replay')
-  .version('0.1.0');
+  // Only frames of CAN sessions (or imported without a session) are written
+  private async exportCanLog(format: CanLogFormat, filepath: string): Promise<void> {
+    const channel = this.sessions.list().find(info => info.device.type === 'can')?.device.path;
+    const writer = new CanLogWriter(format, { channel });
+    const file = await fs.open(filepath, 'w');
+    let lines: string[] = [];
+
+    try {
+      for await (const frame of this.store!.frames()) {
+        const device = frame.source ? this.sessions.get(frame.source)?.device : undefined;
+        if (device && device.type !== 'can') continue;
+        lines.push(writer.add(frame));
+
+        if (lines.length >= 1000) {
+          await file.write(lines.join(''));
+          lines = [];
+        }
+      }
 
-program
-  .command('record')
-  .description('Record communication session')
-  .requiredOption('--proto <protocol>', 'Protocol (uart, spi, i2c, can, ethernet)')
-  .requiredOption('--out <file>', 'Output file')
-  .option('--port <port>', 'Serial port')
-  .option('--baud <rate>', 'Baud rate', '115200')
-  .option('--iface <interface>', 'Network interface or CAN interface')
-  .option('--duration <seconds>', 'Recording duration', '60')
-  .action(RecordCommand);
+      await file.write(lines.join('') + writer.end());
+    } finally {
+      await file.close();
+    }
+  }
 
-program
-  .command('replay')
-  .description('Replay recorded session')
-  .requiredOption('--in <file>', 'Input file')
-  .requiredOption('--proto <protocol>', 'Protocol')
-  .option('--port <port>', 'Serial port')
-  .option('--iface <interface>', 'Network interface or CAN interface')
-  .option('--speed <multiplier>', 'Playback speed multiplier', '1.0')
-  .action(ReplayCommand);
+  // Loads a PCAP/PCAP-NG capture (e.g. saved from Wireshark) or a candump, Vector ASC
+  // or PEAK TRC log in place of the current frames
+  async importCapture(filepath: string): Promise<number> {
+    const logFormat = canLogFormatFor(filepath);
+    const frames = logFormat
+      ? readCanLog(await fs.readFile(filepath, 'utf8'), logFormat)
+      : toProtocolFrames(readCapture(new Uint8Array(await fs.readFile(filepath))));
 
-program
-  .command('monitor')
-  .description('Monitor live traffic')
-  .requiredOption('--proto <protocol>', 'Protocol')
-  .option('--port <port>', 'Serial port')
-  .option('--baud <rate>', 'Baud rate', '115200')
-  .option('--iface <interface>', 'Network interface')
-  .option('--filter <pattern>', 'Filter pattern')
-  .action(MonitorCommand);
+    await this.resetStore();
+    this.loadFrames(frames.map(imported => this.decodeFrame({ ...imported, id: this.sessions.createFrameId() })));
 
-program.parse();
+    return frames.length;
+  }
 
-// apps/cli/src/commands/record.ts
-import * as fs from 'fs/promises';
-import { UARTAdapter } from '@commwatch/transports-uart';
-import { CANAdapter } from '@commwatch/transports-can';
-import { EthernetAdapter } from '@commwatch/transports-eth';
-import type { ProtocolFrame } from '@commwatch/proto-core';
+  async openSession(filepath: string): Promise<{
+    sessions: DeviceSessionInfo[];
+    decoder?: string;
+    bookmarks: Bookmark[];
+    frameCount: number;
+    warnings: string[];
+  }> {
+    const session = parseSession(await fs.readFile(filepath, 'utf8'));
+    const warnings: string[] = [];
+
+    const sources = session.sources || [];
+    const renamed = this.sessions.restore(sources.map(source => ({
+      id: source.id,
+      device: source.device,
+      options: source.adapterOptions || {},
+      framer: source.framer || { type: 'passthrough' },
+      decoder: this.sessionDecoderSpec(source.decoder || 'auto', warnings),
+      connected: false,
+    })));
+
+    this.decoder = this.registry.resolve(this.sessionDecoderSpec(session.decoder || 'auto', warnings));
+    this.setRules({ filters: session.filters || [], presets: this.presets });
+    this.bookmarks = session.bookmarks || [];
+
+    this.sessions.reserveFrameIds(session.frames.map(frame => frame.id));
+
+    await this.resetStore();
+    this.loadFrames(session.frames.map(frame => this.decodeFrame(
+      frame.source && renamed.has(frame.source) ? { ...frame, source: renamed.get(frame.source) } : frame
+    )));
+
+    return {
+      sessions: this.sessions.list(),
+      decoder: session.decoder,
+      bookmarks: this.bookmarks,
+      frameCount: this.store!.size,
+      warnings,
+    };
+  }
 
-export async function RecordCommand(options: any) {
-  console.log(`Recording ${options.proto} to ${options.out}...`);
+  // Decoders saved by another install (e.g. from a protocol file not loaded here) fall back to raw
+  private sessionDecoderSpec(spec: string, warnings: string[]): string {
+    try {
+      this.registry.resolve(spec);
+      return spec;
+    } catch (error) {
+      const warning = `Decoder "${spec}" is not available, showing frames as raw: ${(error as Error).message}`;
+      console.warn(warning);
+      warnings.push(warning);
+      return RAW_DECODER;
+    }
+  }
 
-  let adapter: any;
-  switch (options.proto) {
-    case 'uart':
-      adapter = new UARTAdapter();
-      break;
-    case 'can':
-      adapter = new CANAdapter();
-      break;
-    case 'ethernet':
-      adapter = new EthernetAdapter();
-      break;
-    default:
-      console.error(`Unknown protocol: ${options.proto}`);
-      process.exit(1);
+  async saveSession(filepath: string): Promise<void> {
+    await this.writeSession(filepath);
   }
 
-  const devices = await adapter.listDevices();
-  const device = options.port
-    ? devices.find((d: any) => d.path === options.port)
-    : devices[0];
+  async getFrameCount(): Promise<number> {
+    await this.ready;
+    return this.store!.size;
+  }
 
-  if (!device) {
-    console.error('No device found');
-    process.exit(1);
+  async getFrames(start: number, end: number): Promise<ProtocolFrame[]> {
+    await this.ready;
+    return this.store!.range(start, end);
   }
 
-  const handle = await adapter.open(device, {
-    baudRate: parseInt(options.baud),
-  });
+  async getFramesByTime(from: bigint, to: bigint): Promise<ProtocolFrame[]> {
+    await this.ready;
+    return this.store!.rangeByTime(from, to);
+  }
 
-  const frames: any[] = [];
-  let frameId = 0;
+  // Returns indices of frames whose raw bytes contain the hex pattern
+  async searchFrames(hexPattern: string, limit = 1000): Promise<number[]> {
+    await this.ready;
+    const pattern = (hexPattern.replace(/\s+/g, '').match(/.{2}/g) || []).map(h => parseInt(h, 16));
+    if (pattern.length === 0) return [];
 
-  handle.read((chunk: Uint8Array, meta: any) => {
-    const frame: ProtocolFrame = {
-      id: `frame-${frameId++}`,
-      timestamp: meta?.timestamp || BigInt(Date.now() * 1_000_000),
-      direction: meta?.direction || 'rx',
-      raw: chunk,
-    };
+    return this.store!.search(frame => indexOfBytes(frame.raw, pattern) >= 0, { limit });
+  }
 
-    frames.push({
-      ...frame,
-      timestamp: frame.timestamp.toString(),
-      raw: Array.from(frame.raw),
-    });
+  async dispose(): Promise<void> {
+    this.unwatchDevices.forEach(unwatch => unwatch());
+    await this.sessions.closeAll();
+    this.bus.flush();
+    this.disposeBridge();
+    await this.ready;
+    await this.store?.close();
+    this.store = null;
+  }
 
-    process.stdout.write('.');
-  });
+  addBookmark(frameId: string, label: string): Bookmark {
+    const bookmark: Bookmark = { frameId, label };
+    this.bookmarks.push(bookmark);
+    return bookmark;
+  }
 
-  const duration = parseInt(options.duration) * 1000;
-  await new Promise(resolve => setTimeout(resolve, duration));
+  private ipcTransport(): BusTransport {
+    return {
+      send: message => {
+        if (!this.window.isDestroyed()) {
+          this.window.webContents.send(BUS_CHANNEL, message);
+        }
+      },
+      subscribe: handler => {
+        const listener = (event: IpcMainEvent, message: unknown) => {
+          if (event.sender === this.window.webContents) handler(message);
+        };
+        ipcMain.on(BUS_CHANNEL, listener);
+        return () => {
+          ipcMain.removeListener(BUS_CHANNEL, listener);
+        };
+      },
+    };
+  }
 
-  await handle.close();
+  private capture(frame: ProtocolFrame): void {
+    if (this.capturing) {
+      this.store!.append(frame);
+    }
+  }
 
-  await fs.writeFile(options.out, JSON.stringify({ version: '1.0', frames }, null, 2));
-  console.log(`\nRecorded ${frames.length} frames to ${options.out}`);
-}
+  // Loaded frames go through the bus like live ones so every subscriber sees them,
+  // but are always stored and never trigger rules.
+  // Flushing in batches keeps large captures within the bus buffer.
+  private loadFrames(frames: ProtocolFrame[]): void {
+    const capturing = this.capturing;
+    this.capturing = true;
+    this.rules.enabled = false;
+
+    try {
+      frames.forEach((frame, i) => {
+        this.bus.publish(frame.direction === 'tx' ? 'frame:sent' : 'frame:received', { frame });
+        if (i % 1000 === 999) this.bus.flush();
+      });
+      this.bus.flush();
+    } finally {
+      this.capturing = capturing;
+      this.rules.enabled = true;
+    }
+  }
 
-// apps/cli/src/commands/replay.ts
-import * as fs from 'fs/promises';
-import { UARTAdapter } from '@commwatch/transports-uart';
+  private decodeFrame(frame: ProtocolFrame): ProtocolFrame {
+    if (!frame.error) {
+      try {
+        const decoder = this.sessions.decoderFor(frame.source) || this.decoder;
+        frame.decoded = decoder.decode(frame.raw) || undefined;
+      } catch (err) {
+        console.error('Decode error:', err);
+      }
+    }
+    return frame;
+  }
+
+  // Frames spill to a temporary file; a fresh store is started for every capture
+  private async resetStore(): Promise<void> {
+    await this.store?.close();
+    this.store = await FileFrameStore.open(
+      path.join(os.tmpdir(), `commwatch-${process.pid}-${this.storeId++}.frames`),
+      {
+        truncate: true,
+        deleteOnClose: true,
+        hydrate: frame => this.decodeFrame(frame),
+      }
+    );
+  }
+
+  // Streams frames from the store into the file instead of loading them all
+  private async writeSession(filepath: string): Promise<void> {
+    const sources: SessionSource[] = this.sessions.list().map(info => ({
+      id: info.id,
+      device: info.device,
+      adapterOptions: info.options,
+      decoder: info.decoder,
+      framer: info.framer,
+    }));
+
+    // Single-device captures also fill the top-level fields read by the CLI and VS Code
+    const single = sources.length === 1 ? sources[0] : undefined;
+
+    const chunks = serializeSessionChunks({
+      device: single?.device,
+      adapterOptions: single?.adapterOptions,
+      decoder: single?.decoder,
+      framer: single?.framer,
+      filters: this.filters,
+      bookmarks: this.bookmarks,
+      sources,
+    }, this.store!.frames());
+
+    const file = await fs.open(filepath, 'w');
+    let pending: string[] = [];
+
+    try {
+      for await (const chunk of chunks) {
+        pending.push(chunk);
+
+        if (pending.length >= 1000) {
+          await file.write(pending.join(''));
+          pending = [];
+        }
+      }
+
+      await file.write(pending.join(''));
+    } finally {
+      await file.close();
+    }
+  }
+}
+
+function indexOfBytes(data: Uint8Array, pattern: number[]): number {
+  outer: for (let i = 0; i <= data.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (data[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// apps/desktop/src/main/session-manager.ts
+import type {
+  AdapterHandle,
+  AdapterOpenOptions,
+  AdapterStats,
+  DecoderRegistry,
+  DeviceInfo,
+  FramerConfig,
+  MultiDropStats,
+  ProtocolDecoder,
+  ProtocolFrame,
+  TransportAdapter,
+  Unsubscribe,
+} from '@commwatch/proto-core';
+import type { MessageBus, SerialLineControl } from '@commwatch/proto-core';
+import {
+  MultiDropTracker,
+  ReconnectingHandle,
+  attachFramer,
+  createFramer,
+  decodeLineState,
+  hasSerialLines,
+} from '@commwatch/proto-core';
+
+export interface DeviceSessionInfo {
+  id: string;
+  device: DeviceInfo;
+  options: AdapterOpenOptions;
+  framer: FramerConfig;
+  decoder: string;
+  connected: boolean; // False while an auto-reconnecting session waits for its device
+  autoReconnect?: boolean;
+}
+
+interface DeviceSession {
+  info: DeviceSessionInfo;
+  handle: AdapterHandle;
+  decoder: ProtocolDecoder;
+  unsubscribeRead: Unsubscribe;
+  unwatchLines?: Unsubscribe;
+  multiDrop?: MultiDropTracker; // RS-485 sessions
+}
+
+// The N of ids such as `session-N`, or -1 for ids in another form
+function idNumber(id: string, prefix: string): number {
+  const match = new RegExp(`^${prefix}-(\\d+)$`).exec(id);
+  return match ? Number(match[1]) : -1;
+}
+
+/**
+ * Owns one AdapterHandle per open device and publishes their frames, tagged
+ * with the session id, onto a single MessageBus timeline.
+ */
+export class SessionManager {
+  private sessions: Map<string, DeviceSession> = new Map();
+  private known: Map<string, DeviceSessionInfo> = new Map(); // Includes closed and restored sessions
+  private knownDecoders: Map<string, ProtocolDecoder> = new Map(); // Resolved once per closed or restored session
+  private nextSessionId = 0;
+  private nextFrameId = 0;
+  private statsTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private adapters: Map<string, TransportAdapter>,
+    private registry: DecoderRegistry,
+    readonly bus: MessageBus,
+    private statsInterval = 1000
+  ) {}
+
+  async open(
+    device: DeviceInfo,
+    options: AdapterOpenOptions,
+    framerConfig: FramerConfig = { type: 'passthrough' },
+    decoderSpec = 'auto',
+    autoReconnect = false
+  ): Promise<string> {
+    const adapter = this.adapters.get(device.type);
+    if (!adapter) {
+      throw new Error(`Unknown adapter type: ${device.type}`);
+    }
+
+    const decoder = this.registry.resolve(decoderSpec);
+    const id = `session-${this.nextSessionId++}`;
+    // Reconnecting sessions keep their id, so frames after a replug append to the same capture
+    const handle = autoReconnect
+      ? await ReconnectingHandle.open(adapter, device, options, this.bus, {
+          onDisconnect: () => this.deviceLost(id),
+          onReconnect: (inner, dev) => this.deviceBack(id, inner, dev),
+        })
+      : await adapter.open(device, options);
+
+    const info: DeviceSessionInfo = {
+      id,
+      device,
+      options,
+      framer: framerConfig,
+      decoder: decoderSpec,
+      connected: true,
+      autoReconnect,
+    };
+    const multiDrop = options.rs485 ? MultiDropTracker.forAdapter(options) : undefined;
+
+    // Reassemble the byte stream into frames before decoding
+    const unsubscribeRead = attachFramer(handle, createFramer(framerConfig), (framed, meta) => {
+      const frame: ProtocolFrame = {
+        id: this.createFrameId(),
+        timestamp: framed.timestamp,
+        direction: meta?.direction || 'rx',
+        raw: framed.data,
+        source: id,
+      };
+
+      if (framed.error) {
+        frame.error = framed.error;
+      } else if (meta?.lineState) {
+        frame.decoded = decodeLineState(meta.lineState);
+      } else {
+        try {
+          frame.decoded = decoder.decode(framed.data) || undefined;
+          frame.error = decoder.validate(framed.data) || undefined;
+        } catch (err) {
+          console.error('Decode error:', err);
+        }
+      }
+
+      this.publish(frame, multiDrop, framed.endTimestamp);
+    });
+
+    this.sessions.set(id, { info, handle, decoder, unsubscribeRead, unwatchLines: this.watchLines(handle), multiDrop });
+    this.known.set(id, info);
+    this.knownDecoders.delete(id);
+    this.bus.publish('session:opened', { sessionId: id, device });
+    this.startStatsPolling();
+
+    return id;
+  }
+
+  async close(sessionId: string): Promise<void> {
+    const session = this.require(sessionId);
+
+    session.unsubscribeRead();
+    session.unwatchLines?.();
+    this.sessions.delete(sessionId);
+    session.info.connected = false;
+
+    if (this.sessions.size === 0) {
+      this.stopStatsPolling();
+    }
+
+    try {
+      await session.handle.close();
+    } finally {
+      this.bus.publish('session:closed', { sessionId, deviceId: session.info.device.id });
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    for (const id of [...this.sessions.keys()]) {
+      try {
+        await this.close(id);
+      } catch (error) {
+        console.error(`Failed to close ${id}:`, error);
+      }
+    }
+  }
+
+  async send(sessionId: string, data: Uint8Array): Promise<ProtocolFrame> {
+    const session = this.require(sessionId);
+    await session.handle.write(data);
+
+    // Same clock as the adapters so the merged timeline stays ordered
+    const frame: ProtocolFrame = {
+      id: this.createFrameId(),
+      timestamp: process.hrtime.bigint(),
+      direction: 'tx',
+      raw: data,
+      source: sessionId,
+    };
+    // Requests count towards the node they address
+    if (session.multiDrop) {
+      try {
+        frame.decoded = session.decoder.decode(data) || undefined;
+      } catch (err) {
+        console.error('Decode error:', err);
+      }
+    }
+
+    this.publish(frame, session.multiDrop);
+    return frame;
+  }
+
+  // The handle's serial control lines; the changes show up on the timeline as line events
+  lines(sessionId: string): SerialLineControl {
+    const { handle, info } = this.require(sessionId);
+    const current = handle instanceof ReconnectingHandle ? handle.current : handle;
+    if (!current) {
+      throw new Error(`${info.device.name} is disconnected`);
+    }
+    if (!hasSerialLines(current)) {
+      throw new Error(`${info.device.name} has no serial control lines`);
+    }
+    return current;
+  }
+
+  // Frames per node address on an RS-485 bus; null unless the session was opened with rs485 options
+  multiDrop(sessionId: string): MultiDropStats | null {
+    return this.require(sessionId).multiDrop?.snapshot() ?? null;
+  }
+
+  async getStats(sessionId: string): Promise<AdapterStats> {
+    const session = this.require(sessionId);
+    const stats = await session.handle.getStats();
+    this.bus.publish('stats:update', { deviceId: session.info.device.id, stats, sessionId });
+    return stats;
+  }
+
+  list(): DeviceSessionInfo[] {
+    return [...this.known.values()];
+  }
+
+  get(sessionId: string): DeviceSessionInfo | undefined {
+    return this.known.get(sessionId);
+  }
+
+  // Decoder for frames of a session, including sessions restored from a file
+  decoderFor(sessionId?: string): ProtocolDecoder | undefined {
+    if (!sessionId) return undefined;
+
+    const open = this.sessions.get(sessionId);
+    if (open) return open.decoder;
+
+    const info = this.known.get(sessionId);
+    if (!info) return undefined;
+
+    let decoder = this.knownDecoders.get(sessionId);
+    if (!decoder) {
+      decoder = this.registry.resolve(info.decoder);
+      this.knownDecoders.set(sessionId, decoder);
+    }
+    return decoder;
+  }
+
+  /**
+   * Replaces closed sessions with ones described by a saved session file.
+   * Saved ids taken by a connected session get a new id; the returned map
+   * (saved id to new id) is for retagging the file's frames.
+   */
+  restore(sessions: DeviceSessionInfo[]): Map<string, string> {
+    for (const [id, info] of this.known) {
+      if (!info.connected) this.known.delete(id);
+    }
+    this.knownDecoders.clear();
+
+    // Sessions opened later must not reuse the saved ids
+    for (const info of sessions) {
+      this.nextSessionId = Math.max(this.nextSessionId, idNumber(info.id, 'session') + 1);
+    }
+
+    const renamed = new Map<string, string>();
+    for (const info of sessions) {
+      let id = info.id;
+      if (this.known.has(id)) {
+        id = `session-${this.nextSessionId++}`;
+        renamed.set(info.id, id);
+      }
+      this.known.set(id, { ...info, id, connected: false });
+    }
+    return renamed;
+  }
+
+  // Frames created afterwards are numbered past these, e.g. the frames of an opened file
+  reserveFrameIds(ids: Iterable<string>): void {
+    for (const id of ids) {
+      this.nextFrameId = Math.max(this.nextFrameId, idNumber(id, 'frame') + 1);
+    }
+  }
+
+  createFrameId(): string {
+    return `frame-${this.nextFrameId++}`;
+  }
+
+  // Input line changes arrive through read() like the data; watching starts the polling
+  private watchLines(handle: AdapterHandle): Unsubscribe | undefined {
+    return hasSerialLines(handle) ? handle.onSignals(() => {}) : undefined;
+  }
+
+  private deviceLost(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.info.connected = false;
+    session.unwatchLines?.();
+    session.unwatchLines = undefined;
+  }
+
+  // The device may come back under another path; the session keeps its id and options
+  private deviceBack(sessionId: string, handle: AdapterHandle, device: DeviceInfo): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    session.info.device = device;
+    session.info.connected = true;
+    session.unwatchLines = this.watchLines(handle);
+    this.bus.publish('session:reconnected', { sessionId, device });
+  }
+
+  // Turnaround violations on a multi-drop bus become the frame's error
+  private publish(frame: ProtocolFrame, multiDrop?: MultiDropTracker, endTimestamp?: bigint): void {
+    const violation = multiDrop?.add(frame, endTimestamp);
+    if (violation) {
+      frame.error = violation;
+    }
+
+    this.bus.publish(frame.direction === 'tx' ? 'frame:sent' : 'frame:received', { frame });
+
+    if (frame.error) {
+      this.bus.publish('frame:error', { frame, error: frame.error });
+    }
+  }
+
+  // Publishes stats:update for every open session while any are connected
+  private startStatsPolling(): void {
+    if (this.statsTimer) return;
+
+    this.statsTimer = setInterval(() => {
+      for (const id of this.sessions.keys()) {
+        this.getStats(id).catch(error => console.error(`Failed to read stats for ${id}:`, error));
+      }
+    }, this.statsInterval);
+  }
+
+  private stopStatsPolling(): void {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  private require(sessionId: string): DeviceSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    return session;
+  }
+}
+
+// apps/desktop/src/preload/index.ts
+import { contextBridge, ipcRenderer } from 'electron';
+import { BUS_CHANNEL, decodeBusEvent } from '@commwatch/proto-core';
+
+contextBridge.exposeInMainWorld('electronAPI', {
+  listDevices: () => ipcRenderer.invoke('list-devices'),
+  listDecoders: () => ipcRenderer.invoke('list-decoders'),
+  listSessions: () => ipcRenderer.invoke('list-sessions'),
+  loadProtocol: (filepath: string) => ipcRenderer.invoke('load-protocol', filepath),
+  getCanDatabase: () => ipcRenderer.invoke('get-can-database'),
+  loadRules: (filepath: string) => ipcRenderer.invoke('load-rules', filepath),
+  setRules: (ruleSet: any) => ipcRenderer.invoke('set-rules', ruleSet),
+  runScript: (filepath: string, sessionId?: string) => ipcRenderer.invoke('run-script', filepath, sessionId),
+  // Resolves to the session id used by disconnect, send and getStats
+  connect: (device: any, options: any, framer?: any, decoder?: string, autoReconnect?: boolean): Promise<string> =>
+    ipcRenderer.invoke('connect', device, options, framer, decoder, autoReconnect),
+  disconnect: (sessionId?: string) => ipcRenderer.invoke('disconnect', sessionId),
+  send: (sessionId: string, data: Uint8Array) => ipcRenderer.invoke('send', sessionId, data),
+  setSignals: (sessionId: string, signals: { rts?: boolean; dtr?: boolean }) =>
+    ipcRenderer.invoke('set-signals', sessionId, signals),
+  sendBreak: (sessionId: string, durationMs?: number) => ipcRenderer.invoke('send-break', sessionId, durationMs),
+  getStats: (sessionId: string) => ipcRenderer.invoke('get-stats', sessionId),
+  getMultiDrop: (sessionId: string) => ipcRenderer.invoke('get-multi-drop', sessionId),
+  exportLog: (format: string, filepath: string) => ipcRenderer.invoke('export-log', format, filepath),
+  importCapture: (filepath: string) => ipcRenderer.invoke('import-capture', filepath),
+  openSession: (filepath: string) => ipcRenderer.invoke('open-session', filepath),
+  saveSession: (filepath: string) => ipcRenderer.invoke('save-session', filepath),
+  addBookmark: (frameId: string, label: string) => ipcRenderer.invoke('add-bookmark', frameId, label),
+  getFrameCount: () => ipcRenderer.invoke('get-frame-count'),
+  getFrames: (start: number, end: number) => ipcRenderer.invoke('get-frames', start, end),
+  getFramesByTime: (from: bigint, to: bigint) =>
+    ipcRenderer.invoke('get-frames-by-time', from.toString(), to.toString()),
+  searchFrames: (pattern: string, limit?: number) => ipcRenderer.invoke('search-frames', pattern, limit),
+  
+  // Bus events from the main process; pass them to a renderer MessageBus with bridgeMessageBus
+  onBusEvent: (callback: (message: any) => void) => {
+    const listener = (_: any, message: any) => callback(message);
+    ipcRenderer.on(BUS_CHANNEL, listener);
+    return () => ipcRenderer.removeListener(BUS_CHANNEL, listener);
+  },
+
+  publishBusEvent: (message: any) => ipcRenderer.send(BUS_CHANNEL, message),
+
+  onFrameReceived: (callback: (frame: any) => void) => {
+    const listener = (_: any, message: any) => {
+      if (message?.channel !== BUS_CHANNEL) return;
+      const event = decodeBusEvent(message.event);
+      if (event.type === 'frame:received' || event.type === 'frame:sent') {
+        callback(event.frame);
+      }
+    };
+    ipcRenderer.on(BUS_CHANNEL, listener);
+    return () => ipcRenderer.removeListener(BUS_CHANNEL, listener);
+  },
+
+  onSessionOpened: (callback: (summary: any) => void) => {
+    ipcRenderer.on('session-opened', (_, summary) => callback(summary));
+  },
+
+  onScriptLog: (callback: (message: string) => void) => {
+    ipcRenderer.on('script-log', (_, message) => callback(message));
+  },
+
+  onScriptReport: (callback: (report: any) => void) => {
+    ipcRenderer.on('script-report', (_, report) => callback(report));
+  },
+
+  onMenuAction: (action: string, callback: () => void) => {
+    ipcRenderer.on(`menu-${action}`, callback);
+  },
+});
+
+// apps/cli/src/index.ts
+import { Command } from 'commander';
+import { RecordCommand } from './commands/record';
+import { ReplayCommand } from './commands/replay';
+import { MonitorCommand } from './commands/monitor';
+import { RunCommand } from './commands/run';
+import { UdsCommand } from './commands/uds';
+import { EcuCommand } from './commands/ecu';
+import { StatsCommand } from './commands/stats';
+import { DetectCommand } from './commands/detect';
+
+const program = new Command();
+
+program
+  .name('commwatch')
+  .description('CLI tool for communication monitoring and replay')
+  .version('0.1.0');
+
+program
+  .command('record')
+  .description('Record communication session')
+  .requiredOption('--proto <protocol>', 'Protocol (uart, spi, i2c, can, ethernet)')
+  .requiredOption('--out <file>', 'Output file (session .json, .pcapng for Wireshark, or .log/.asc/.trc CAN log)')
+  .option('--port <port>', 'Serial port')
+  .option('--baud <rate>', 'Baud rate', '115200')
+  .option('--iface <interface>', 'Network interface or CAN interface')
+  .option('--can-fd', 'Enable CAN-FD frames (up to 64 bytes, bit rate switching)')
+  .option('--bitrate <bps>', 'CAN bit rate (applied with --bring-up; defaults to the interface setting)')
+  .option('--data-bitrate <bps>', 'CAN-FD data phase bit rate')
+  .option('--bring-up', 'Configure the CAN bit rates and bring the interface up (needs CAP_NET_ADMIN)')
+  .option('--isotp [pairs]', 'Reassemble ISO-TP messages on tx:rx ID pairs (e.g. 7E0:7E8,18DA10F1:18DAF110); OBD-II IDs if omitted')
+  .option('--j1939 [address]', 'Reassemble J1939 transport-protocol messages; answer RTS/CTS sessions to this source address (hex)')
+  .option('--duration <seconds>', 'Recording duration', '60')
+  .option('--framer <spec>', 'Stream framer (raw, efuse, cobs, slip, line, delim:<hex>, idle:<ms>)', 'raw')
+  .option('--decoder <spec>', 'Decoder id, stack (e.g. slip,efuse) or auto; frames are stored raw if omitted')
+  .option('--protocol <file...>', 'Protocol definition files (JSON/YAML) to register as decoders, or a CAN DBC file')
+  .option('--rules <file>', 'Trigger and auto-responder rules (rules file or SessionConfig JSON)')
+  .option('--scenario <file>', 'Record from the CAN simulator driven by a scenario (JSON signal model with a DBC file)')
+  .option('--reconnect', 'Keep recording when the serial device is unplugged and comes back (matched by USB serial number)')
+  .option('--rs485 [spec]', 'RS-485 half duplex: rts, rts-low, no-rts, echo, before=<ms>, after=<ms>, turnaround=<ms>, address=<field>')
+  .action(RecordCommand);
+
+program
+  .command('replay')
+  .description('Replay recorded session')
+  .requiredOption('--in <file>', 'Input file (.json, .pcapng, .pcap, or candump .log, Vector .asc, PEAK .trc)')
+  .requiredOption('--proto <protocol>', 'Protocol')
+  .option('--port <port>', 'Serial port, or CAN interface (vcan0, simulator)')
+  .option('--iface <interface>', 'Network interface or CAN interface')
+  .option('--can-fd', 'Enable CAN-FD frames (up to 64 bytes, bit rate switching)')
+  .option('--bitrate <bps>', 'CAN bit rate (applied with --bring-up)')
+  .option('--data-bitrate <bps>', 'CAN-FD data phase bit rate')
+  .option('--bring-up', 'Configure the CAN bit rates and bring the interface up (needs CAP_NET_ADMIN)')
+  .option('--speed <multiplier>', 'Playback speed multiplier', '1.0')
+  .option('--direction <dir>', 'Frames to send: tx, rx or all (captures without direction flags are rx)', 'tx')
+  .action(ReplayCommand);
+
+program
+  .command('monitor')
+  .description('Monitor live traffic')
+  .requiredOption('--proto <protocol>', 'Protocol')
+  .option('--port <port>', 'Serial port')
+  .option('--baud <rate>', 'Baud rate, or auto to detect it first', '115200')
+  .option('--iface <interface>', 'Network interface')
+  .option('--can-fd', 'Enable CAN-FD frames (up to 64 bytes, bit rate switching)')
+  .option('--filter <pattern>', 'Filter pattern')
+  .option('--framer <spec>', 'Stream framer (raw, efuse, cobs, slip, line, delim:<hex>, idle:<ms>)', 'efuse')
+  .option('--decoder <spec>', 'Decoder id, stack (e.g. slip,efuse) or auto', 'auto')
+  .option('--protocol <file...>', 'Protocol definition files (JSON/YAML) to register as decoders, or a CAN DBC file')
+  .option('--rules <file>', 'Trigger and auto-responder rules (rules file or SessionConfig JSON)')
+  .option('--reconnect', 'Wait for the device to come back instead of exiting when it is unplugged')
+  .option('--rs485 [spec]', 'RS-485 half duplex: rts, rts-low, no-rts, echo, before=<ms>, after=<ms>, turnaround=<ms>, address=<field>')
+  .action(MonitorCommand);
+
+program
+  .command('run <script>')
+  .description('Run a JS/TS test script against a device and report pass/fail')
+  .option('--proto <protocol>', 'Protocol (uart, can, ethernet)', 'uart')
+  .option('--port <port>', 'Serial port')
+  .option('--baud <rate>', 'Baud rate', '115200')
+  .option('--framer <spec>', 'Stream framer (raw, efuse, cobs, slip, line, delim:<hex>, idle:<ms>)', 'efuse')
+  .option('--decoder <spec>', 'Decoder id, stack (e.g. slip,efuse) or auto', 'auto')
+  .option('--protocol <file...>', 'Protocol definition files (JSON/YAML) to register as decoders, or a CAN DBC file')
+  .option('--timeout <seconds>', 'Script timeout', '60')
+  .option('--report <file>', 'Write the report as JSON')
+  .option('--uds <pair>', 'Give the script a UDS client as `uds` for the ECU at tx:rx (hex, e.g. 7E0:7E8); CAN only')
+  .action(RunCommand);
+
+program
+  .command('uds <service> [args...]')
+  .description('Send a UDS diagnostic request: session <type>, read <did>, security <level>, routine <start|stop|results> <id> [data], raw <hex>')
+  .option('--port <port>', 'CAN interface')
+  .option('--can-fd', 'Enable CAN-FD frames (up to 64 bytes, bit rate switching)')
+  .option('--address <pair>', 'ECU request and response IDs as tx:rx in hex', '7E0:7E8')
+  .option('--key <file>', 'Module whose default export computes the SecurityAccess key: (seed, level) => key')
+  .option('--timeout <ms>', 'Response timeout (P2)', '1000')
+  .action(UdsCommand);
+
+program
+  .command('ecu')
+  .description('Emulate an OBD-II engine ECU that answers mode 01/02/03/04/09 requests')
+  .option('--port <port>', 'CAN interface')
+  .option('--can-fd', 'Enable CAN-FD frames (up to 64 bytes, bit rate switching)')
+  .option('--request-id <id>', 'Physical request ID in hex; responses use it + 8', '7E0')
+  .option('--state <file>', 'Vehicle state JSON: values (PIDs by name, e.g. engineRpm), dtcs, freezeFrame, vin, calibrationIds, ecuName')
+  .action(EcuCommand);
+
+program
+  .command('stats')
+  .description('CAN bus load and per-ID message rate, period, jitter and missing cyclic messages as JSON')
+  .option('--in <file>', 'Compute from a recording (.json, .pcapng, .pcap, .log, .asc or .trc) instead of live traffic')
+  .option('--port <port>', 'CAN interface')
+  .option('--scenario <file>', 'Collect from the CAN simulator driven by a scenario (JSON signal model with a DBC file)')
+  .option('--can-fd', 'Enable CAN-FD frames (up to 64 bytes, bit rate switching)')
+  .option('--bitrate <bps>', 'Nominal bit rate', '500000')
+  .option('--data-bitrate <bps>', 'CAN-FD data phase bit rate; the nominal rate if omitted')
+  .option('--duration <seconds>', 'How long to collect live traffic', '10')
+  .option('--missing-factor <n>', 'Report a cyclic message missing after this many periods', '3')
+  .option('--dbc <file>', 'DBC file for message names')
+  .option('--out <file>', 'Write the JSON to a file instead of stdout')
+  .action(StatsCommand);
+
+program
+  .command('detect')
+  .description('Detect the baud rate and format of a serial device that is sending (boot log, periodic frames)')
+  .requiredOption('--port <port>', 'Serial port')
+  .option('--rates <list>', 'Comma-separated baud rates to try (default: 1200 to 921600)')
+  .option('--formats <list>', 'Comma-separated character formats to try (8N1, 7E1)', '8N1')
+  .option('--sample-ms <ms>', 'Listening time per setting', '500')
+  .option('--framer <spec>', 'Stream framer for scoring decoder hits (efuse, cobs, slip, line, delim:<hex>)')
+  .option('--decoder <spec>', 'Decoder id or stack whose hits count towards the score; needs --framer')
+  .option('--protocol <file...>', 'Protocol definition files (JSON/YAML) to register as decoders')
+  .option('--json', 'Print all candidates as JSON')
+  .action(DetectCommand);
+
+program.parse();
+
+// apps/cli/src/commands/record.ts
+import * as fs from 'fs/promises';
+import { UARTAdapter } from '@commwatch/transports-uart';
+import { CANAdapter } from '@commwatch/transports-can';
+import { EthernetAdapter } from '@commwatch/transports-eth';
+import type { Bookmark, ProtocolFrame } from '@commwatch/proto-core';
+import { MessageBus, MultiDropTracker, attachFramer, createFramer, decodeLineState, serializeSession } from '@commwatch/proto-core';
+import { writePcapng, writeCanLog, canLogFormatFor } from '@commwatch/pcapng';
+import { parseFramerSpec } from '../utils/framer';
+import { parseIsoTpSpec, parseJ1939Spec } from '../utils/isotp';
+import { resolveDecoder } from '../utils/decoders';
+import { attachRules } from '../utils/rules';
+import { CAN_SIMULATOR_DEVICE, loadSimulationModel } from '../utils/simulation';
+import { openReconnecting } from '../utils/reconnect';
+import { formatMultiDrop, parseRs485Spec } from '../utils/rs485';
+
+export async function RecordCommand(options: any) {
+  console.log(`Recording ${options.proto} to ${options.out}...`);
+
+  const bus = new MessageBus();
+  let adapter: any;
+  switch (options.proto) {
+    case 'uart':
+      adapter = new UARTAdapter(bus);
+      break;
+    case 'can':
+      adapter = new CANAdapter(bus);
+      break;
+    case 'ethernet':
+      adapter = new EthernetAdapter(bus);
+      break;
+    default:
+      console.error(`Unknown protocol: ${options.proto}`);
+      process.exit(1);
+  }
+
+  if (options.scenario && options.proto !== 'can') {
+    console.error('Simulation scenarios are only supported for CAN');
+    process.exit(1);
+  }
+
+  const devices = options.scenario ? [CAN_SIMULATOR_DEVICE] : await adapter.listDevices();
+  const device = options.port && !options.scenario
+    ? devices.find((d: any) => d.path === options.port)
+    : devices[0];
+
+  if (!device) {
+    console.error('No device found');
+    process.exit(1);
+  }
+
+  const adapterOptions = {
+    baudRate: parseInt(options.baud),
+    canFD: !!options.canFd,
+    canBitrate: options.bitrate ? parseInt(options.bitrate) : undefined,
+    canDataBitrate: options.dataBitrate ? parseInt(options.dataBitrate) : undefined,
+    canBringUp: !!options.bringUp,
+    canIsoTp: options.isotp ? parseIsoTpSpec(options.isotp) : undefined,
+    canJ1939: options.j1939 ? parseJ1939Spec(options.j1939) : undefined,
+    rs485: options.rs485 ? parseRs485Spec(options.rs485) : undefined,
+  };
+  let handle;
+  if (options.scenario) {
+    handle = await adapter.createSimulator({ mode: 'scripted', model: await loadSimulationModel(options.scenario) }, adapterOptions);
+  } else if (options.reconnect) {
+    handle = await openReconnecting(adapter, device, adapterOptions, bus);
+  } else {
+    handle = await adapter.open(device, adapterOptions);
+  }
+
+  const decoder = options.decoder ? await resolveDecoder(options.decoder, options.protocol) : null;
+  const framerConfig = parseFramerSpec(options.framer);
+  const frames: ProtocolFrame[] = [];
+  const bookmarks: Bookmark[] = [];
+  const multiDrop = adapterOptions.rs485 ? MultiDropTracker.forAdapter(adapterOptions) : undefined;
+  let frameId = 0;
+  let capturing = true;
+
+  // Rules run first so a start-capture frame is itself recorded
+  if (options.rules) {
+    const rules = await attachRules(options.rules, handle, bus, () => `frame-${frameId++}`, {
+      startCapture: () => {
+        capturing = true;
+      },
+      stopCapture: () => {
+        capturing = false;
+      },
+      bookmark: (frame, label) => bookmarks.push({ frameId: frame.id, label }),
+    });
+    // With a start-capture rule, recording waits for its trigger
+    capturing = !rules.rules.some(rule => rule.action === 'start-capture' && rule.enabled !== false);
+  }
+
+  const record = (frame: ProtocolFrame) => {
+    if (!capturing) return;
+    frames.push(frame);
+    process.stdout.write('.');
+  };
+  bus.on('frame:received', event => record(event.frame));
+  bus.on('frame:sent', event => record(event.frame));
+  bus.on('device:error', event => console.error(`\nDevice error: ${event.error}`));
+
+  const unsubscribe = attachFramer(handle, createFramer(framerConfig), (framed, meta) => {
+    const frame: ProtocolFrame = {
+      id: `frame-${frameId++}`,
+      timestamp: framed.timestamp,
+      direction: meta?.direction || 'rx',
+      raw: framed.data,
+      error: framed.error,
+    };
+
+    if (meta?.lineState) {
+      frame.decoded = decodeLineState(meta.lineState);
+    } else if (decoder && !frame.error) {
+      frame.decoded = decoder.decode(frame.raw) || undefined;
+      frame.error = decoder.validate(frame.raw) || undefined;
+    }
+    const violation = multiDrop?.add(frame, framed.endTimestamp);
+    if (violation) {
+      frame.error = violation;
+    }
+
+    bus.publish('frame:received', { frame });
+    if (frame.error) {
+      bus.publish('frame:error', { frame, error: frame.error });
+    }
+  });
+
+  const duration = parseInt(options.duration) * 1000;
+  await new Promise(resolve => setTimeout(resolve, duration));
+
+  unsubscribe();
+  await handle.close();
+
+  const logFormat = canLogFormatFor(options.out);
+  if (/\.pcapng$/i.test(options.out)) {
+    await fs.writeFile(options.out, writePcapng(frames, { transport: options.proto, name: device.path }));
+  } else if (logFormat && options.proto === 'can') {
+    await fs.writeFile(options.out, writeCanLog(frames, logFormat, { channel: device.path }));
+  } else {
+    await fs.writeFile(options.out, serializeSession({
+      device,
+      adapterOptions,
+      decoder: options.decoder,
+      framer: framerConfig,
+      bookmarks,
+      frames,
+    }));
+  }
+  console.log(`\nRecorded ${frames.length} frames to ${options.out}`);
+  if (multiDrop) {
+    console.log(formatMultiDrop(multiDrop.snapshot()));
+  }
+}
+
+// apps/cli/src/commands/replay.ts
+import { UARTAdapter } from '@commwatch/transports-uart';
 import { CANAdapter } from '@commwatch/transports-can';
+import { loadFrames } from '../utils/capture';
+import { CAN_SIMULATOR_DEVICE } from '../utils/simulation';
+
+export async function ReplayCommand(options: any) {
+  console.log(`Replaying ${options.in} via ${options.proto}...`);
+
+  const frames = await loadFrames(options.in);
+
+  let adapter: any;
+  switch (options.proto) {
+    case 'uart':
+      adapter = new UARTAdapter();
+      break;
+    case 'can':
+      adapter = new CANAdapter();
+      break;
+    default:
+      console.error(`Unknown protocol: ${options.proto}`);
+      process.exit(1);
+  }
+
+  const devices = await adapter.listDevices();
+  let device = options.port
+    ? devices.find((d: any) => d.path === options.port)
+    : devices[0];
+
+  // The CAN simulator is only listed when there are no SocketCAN interfaces, but field logs can be replayed onto it anywhere
+  if (!device && options.proto === 'can' && options.port === 'simulator') {
+    device = CAN_SIMULATOR_DEVICE;
+  }
+
+  if (!device) {
+    console.error('No device found');
+    process.exit(1);
+  }
+
+  const handle = await adapter.open(device, {
+    canFD: !!options.canFd,
+    canBitrate: options.bitrate ? parseInt(options.bitrate) : undefined,
+    canDataBitrate: options.dataBitrate ? parseInt(options.dataBitrate) : undefined,
+    canBringUp: !!options.bringUp,
+  });
+
+  const speed = parseFloat(options.speed);
+  let lastTs: number | undefined;
+
+  for (const frame of frames) {
+    // Frames that failed to parse or framed with errors are not sent
+    if (frame.error) continue;
+
+    if (options.direction === 'all' || frame.direction === options.direction) {
+      const ts = Number(frame.timestamp);
+      if (lastTs !== undefined) {
+        const delay = ((ts - lastTs) / 1_000_000) / speed;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      lastTs = ts;
+
+      await handle.write(frame.raw);
+      console.log(`Sent frame ${frame.id}`);
+    }
+  }
+
+  await handle.close();
+  console.log('Replay complete');
+}
+
+// apps/cli/src/commands/monitor.ts
+import { UARTAdapter } from '@commwatch/transports-uart';
+import type { ProtocolFrame, SerialLineState } from '@commwatch/proto-core';
+import {
+  MessageBus,
+  MultiDropTracker,
+  ReconnectingHandle,
+  attachFramer,
+  createFramer,
+  decodeLineState,
+  formatBaudCandidate,
+  formatLineState,
+  hasSerialLines,
+} from '@commwatch/proto-core';
+import { parseFramerSpec } from '../utils/framer';
+import { resolveDecoder } from '../utils/decoders';
+import { attachRules } from '../utils/rules';
+import { openReconnecting } from '../utils/reconnect';
+import { formatNodeAddress, parseRs485Spec } from '../utils/rs485';
+
+export async function MonitorCommand(options: any) {
+  console.log(`Monitoring ${options.proto}...`);
+
+  const bus = new MessageBus();
+  const adapter = new UARTAdapter(bus);
+  const devices = await adapter.listDevices();
+  const device = options.port
+    ? devices.find(d => d.path === options.port)
+    : devices[0];
+
+  if (!device) {
+    console.error('No device found');
+    process.exit(1);
+  }
+
+  bus.on('device:baud-detected', ({ result }) => {
+    if (result.best) console.log(`Detected ${formatBaudCandidate(result.best)}`);
+  });
+  const openOptions = {
+    ...(options.baud === 'auto' ? { autoBaud: true } : { baudRate: parseInt(options.baud) }),
+    rs485: options.rs485 ? parseRs485Spec(options.rs485) : undefined,
+  };
+  const handle = options.reconnect
+    ? await openReconnecting(adapter, device, openOptions, bus)
+    : await adapter.open(device, openOptions);
+
+  const decoder = await resolveDecoder(options.decoder, options.protocol);
+  const multiDrop = openOptions.rs485 ? MultiDropTracker.forAdapter(openOptions) : undefined;
+  let frameId = 0;
+
+  const print = (frame: ProtocolFrame) => {
+    const ts = new Date().toISOString();
+    const arrow = frame.direction === 'tx' ? '→' : '←';
 
-export async function ReplayCommand(options: any) {
-  console.log(`Replaying ${options.in} via ${options.proto}...`);
+    // Control line events print as e.g. "DTR off, RTS on"
+    if (frame.decoded?.protocol === 'serial-lines') {
+      console.log(`[${ts}] ${arrow} ${formatLineState(frame.decoded.metadata!.lineState as SerialLineState)}`);
+      return;
+    }
+
+    const hex = Array.from(frame.raw).map(b => b.toString(16).padStart(2, '0')).join(' ');
+    // On a multi-drop bus, the node the frame is from or addressed to
+    const address = multiDrop?.addressOf(frame);
+    const node = address !== undefined ? ` [${formatNodeAddress(address)}]` : '';
+
+    console.log(`[${ts}] ${arrow}${node} ${hex}`);
+
+    if (frame.decoded) {
+      console.log('  Decoded:', JSON.stringify(frame.decoded, null, 2));
+    }
+  };
+  bus.on('frame:received', ({ frame }) => print(frame));
+  bus.on('frame:sent', ({ frame }) => print(frame));
+  bus.on('frame:error', ({ error }) => console.log(`  Framing error: ${error.message}`));
+  bus.on('device:error', ({ error }) => console.error(`Device error: ${error}`));
+  if (!options.reconnect) {
+    bus.on('device:disconnected', () => {
+      console.log('Device disconnected');
+      process.exit(0);
+    });
+  }
+
+  if (options.rules) {
+    await attachRules(options.rules, handle, bus, () => `frame-${frameId++}`, {
+      bookmark: (frame, label) => console.log(`  ★ ${label}`),
+    });
+  }
+
+  const lines = handle instanceof ReconnectingHandle ? handle.current : handle;
+  if (lines && hasSerialLines(lines)) {
+    // CTS/DSR/DCD changes come through the read path once watched
+    lines.onSignals(() => {});
+  }
+
+  attachFramer(handle, createFramer(parseFramerSpec(options.framer)), (framed, meta) => {
+    const frame: ProtocolFrame = {
+      id: `frame-${frameId++}`,
+      timestamp: framed.timestamp,
+      direction: meta?.direction || 'rx',
+      raw: framed.data,
+      error: framed.error,
+      decoded: meta?.lineState
+        ? decodeLineState(meta.lineState)
+        : framed.error ? undefined : decoder.decode(framed.data) || undefined,
+    };
+    const violation = multiDrop?.add(frame, framed.endTimestamp);
+    if (violation) {
+      frame.error = violation;
+    }
+
+    bus.publish('frame:received', { frame });
+    if (frame.error) {
+      bus.publish('frame:error', { frame, error: frame.error });
+    }
+  });
+
+  // Keep running
+  await new Promise(() => {});
+}
+
+// apps/cli/src/commands/run.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { UARTAdapter } from '@commwatch/transports-uart';
+import { CANAdapter, UDSClient } from '@commwatch/transports-can';
+import { EthernetAdapter } from '@commwatch/transports-eth';
+import { MessageBus, hasSerialLines } from '@commwatch/proto-core';
+import { formatReport, handleTarget, runScript } from '@commwatch/scripting';
+import { parseFramerSpec } from '../utils/framer';
+import { parseIsoTpSpec } from '../utils/isotp';
+import { resolveDecoder } from '../utils/decoders';
 
-  const data = JSON.parse(await fs.readFile(options.in, 'utf8'));
-  const frames = data.frames;
+export async function RunCommand(script: string, options: any) {
+  const source = await fs.readFile(script, 'utf8');
 
+  const bus = new MessageBus();
   let adapter: any;
   switch (options.proto) {
     case 'uart':
-      adapter = new UARTAdapter();
+      adapter = new UARTAdapter(bus);
       break;
     case 'can':
-      adapter = new CANAdapter();
+      adapter = new CANAdapter(bus);
+      break;
+    case 'ethernet':
+      adapter = new EthernetAdapter(bus);
       break;
     default:
       console.error(`Unknown protocol: ${options.proto}`);
@@ -484,38 +1860,77 @@ export async function ReplayCommand(options: any) {
     process.exit(1);
   }
 
-  const handle = await adapter.open(device, {});
+  const udsAddress = options.uds ? parseIsoTpSpec(options.uds).pairs![0] : undefined;
+  if (udsAddress && options.proto !== 'can') {
+    console.error('--uds requires --proto can');
+    process.exit(1);
+  }
 
-  const speed = parseFloat(options.speed);
-  let lastTs = 0;
+  const handle = await adapter.open(device, {
+    baudRate: parseInt(options.baud),
+    canFD: !!options.canFd,
+    canIsoTp: udsAddress ? { pairs: [udsAddress] } : undefined,
+  });
+  bus.on('device:error', event => console.error(`Device error: ${event.error}`));
 
-  for (const frame of frames) {
-    if (frame.direction === 'tx') {
-      const ts = parseInt(frame.timestamp);
-      if (lastTs > 0) {
-        const delay = ((ts - lastTs) / 1_000_000) / speed;
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-      lastTs = ts;
+  const decoder = await resolveDecoder(options.decoder, options.protocol);
+  const target = handleTarget(handle, parseFramerSpec(options.framer), decoder);
 
-      const data = new Uint8Array(frame.raw);
-      await handle.write(data);
-      console.log(`Sent frame ${frame.id}`);
-    }
+  // `serial` lets scripts reset a board, e.g. serial.setSignals({ dtr: false, rts: true })
+  const globals: Record<string, unknown> = {};
+  if (udsAddress) {
+    globals.uds = new UDSClient(handle, udsAddress);
+  }
+  if (hasSerialLines(handle)) {
+    globals.serial = {
+      setSignals: handle.setSignals.bind(handle),
+      getSignals: handle.getSignals.bind(handle),
+      sendBreak: handle.sendBreak.bind(handle),
+    };
   }
 
+  console.log(`Running ${script} on ${device.name}...`);
+  const report = await runScript(source, target, {
+    filename: path.basename(script),
+    timeoutMs: parseFloat(options.timeout) * 1000,
+    globals,
+    onLog: message => console.log(`  ${message}`),
+  });
   await handle.close();
-  console.log('Replay complete');
+
+  console.log(`\n${formatReport(report)}`);
+  if (options.report) {
+    await fs.writeFile(options.report, JSON.stringify(report, null, 2));
+  }
+
+  process.exit(report.passed ? 0 : 1);
 }
 
-// apps/cli/src/commands/monitor.ts
-import { UARTAdapter } from '@commwatch/transports-uart';
-import { EFuseDecoder } from '@commwatch/decoders';
+// apps/cli/src/commands/ecu.ts
+import * as fs from 'fs/promises';
+import { CANAdapter, OBDDecoder, OBDEcu, OBD_FUNCTIONAL_ID } from '@commwatch/transports-can';
+import { MessageBus, decodeIsoTpMessage, encodeIsoTpMessage } from '@commwatch/proto-core';
+
+// Short form for the log, e.g. "showCurrentData engineRpm=850 vehicleSpeed=0"
+function describe(decoder: OBDDecoder, data: Uint8Array): string {
+  const decoded = decoder.decode(data);
+  if (!decoded) {
+    return Array.from(data).map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+  }
+  return decoded.fields
+    .filter(f => f.name !== 'frame' && !(f.name === 'pid' && decoded.metadata?.kind === 'response'))
+    .map(f => f.name === 'mode' ? f.label : `${f.name}=${f.label ?? f.value}`)
+    .join(' ');
+}
 
-export async function MonitorCommand(options: any) {
-  console.log(`Monitoring ${options.proto}...`);
+export async function EcuCommand(options: any) {
+  const ecu = new OBDEcu({
+    requestId: parseInt(options.requestId, 16),
+    state: options.state ? JSON.parse(await fs.readFile(options.state, 'utf8')) : undefined,
+  });
 
-  const adapter = new UARTAdapter();
+  const bus = new MessageBus();
+  const adapter = new CANAdapter(bus);
   const devices = await adapter.listDevices();
   const device = options.port
     ? devices.find(d => d.path === options.port)
@@ -527,23 +1942,611 @@ export async function MonitorCommand(options: any) {
   }
 
   const handle = await adapter.open(device, {
-    baudRate: parseInt(options.baud),
+    canFD: !!options.canFd,
+    canIsoTp: { pairs: ecu.addresses },
   });
+  bus.on('device:error', ({ error }) => console.error(`Device error: ${error}`));
 
-  const decoder = new EFuseDecoder();
-
+  // Same as ecu.attach(), with both directions logged
+  const decoder = new OBDDecoder();
   handle.read((chunk, meta) => {
-    const hex = Array.from(chunk).map(b => b.toString(16).padStart(2, '0')).join(' ');
+    const message = decodeIsoTpMessage(chunk);
+    if (!message || meta?.error || (message.id !== ecu.requestId && message.id !== OBD_FUNCTIONAL_ID)) return;
+
     const ts = new Date().toISOString();
-    
-    console.log(`[${ts}] ${meta?.direction === 'tx' ? '→' : '←'} ${hex}`);
+    console.log(`[${ts}] ← 0x${message.id.toString(16).toUpperCase()} ${describe(decoder, message.data)}`);
 
-    const decoded = decoder.decode(chunk);
-    if (decoded) {
-      console.log('  Decoded:', JSON.stringify(decoded, null, 2));
-    }
+    const response = ecu.respond(message.data);
+    if (!response) return;
+    handle.write(encodeIsoTpMessage({ id: ecu.responseId, data: response }))
+      .then(() => console.log(`[${ts}] → 0x${ecu.responseId.toString(16).toUpperCase()} ${describe(decoder, response)}`))
+      .catch(error => console.error(`Response failed: ${error.message}`));
   });
 
+  console.log(`Emulating an OBD-II ECU on ${device.name} (requests 0x${ecu.requestId.toString(16).toUpperCase()} and 0x7DF)`);
+
   // Keep running
   await new Promise(() => {});
-}
\ No newline at end of file
+}
+
+// apps/cli/src/commands/stats.ts
+import * as fs from 'fs/promises';
+import { CANAdapter } from '@commwatch/transports-can';
+import type { CanBusStats } from '@commwatch/proto-core';
+import { MessageBus, CanBusStatistics, parseDbc } from '@commwatch/proto-core';
+import { loadFrames } from '../utils/capture';
+import { CAN_SIMULATOR_DEVICE, loadSimulationModel } from '../utils/simulation';
+
+// Bus load and per-ID timing as JSON, from a recording (--in) or live traffic
+export async function StatsCommand(options: any) {
+  const statistics = new CanBusStatistics({
+    bitrate: parseInt(options.bitrate),
+    dataBitrate: options.dataBitrate ? parseInt(options.dataBitrate) : undefined,
+    missingFactor: parseFloat(options.missingFactor),
+  });
+
+  let result: CanBusStats;
+  if (options.in) {
+    const frames = await loadFrames(options.in);
+    frames.forEach(frame => statistics.add(frame.raw, frame.timestamp));
+    result = statistics.snapshot();
+  } else {
+    const bus = new MessageBus();
+    const adapter = new CANAdapter(bus);
+    const devices = options.scenario ? [CAN_SIMULATOR_DEVICE] : await adapter.listDevices();
+    const device = options.port && !options.scenario
+      ? devices.find(d => d.path === options.port)
+      : devices[0];
+
+    if (!device) {
+      console.error('No device found');
+      process.exit(1);
+    }
+
+    const adapterOptions = {
+      canFD: !!options.canFd,
+      canBitrate: parseInt(options.bitrate),
+    };
+    const handle = options.scenario
+      ? await adapter.createSimulator({ mode: 'scripted', model: await loadSimulationModel(options.scenario) }, adapterOptions)
+      : await adapter.open(device, adapterOptions);
+    bus.on('device:error', ({ error }) => console.error(`Device error: ${error}`));
+
+    handle.read((chunk, meta) => {
+      if (!meta?.error) statistics.add(chunk, meta?.timestamp ?? process.hrtime.bigint());
+    });
+
+    console.error(`Collecting CAN statistics on ${device.name} for ${options.duration}s...`);
+    await new Promise(resolve => setTimeout(resolve, parseFloat(options.duration) * 1000));
+    result = statistics.snapshot(process.hrtime.bigint());
+    await handle.close();
+  }
+
+  // Message names from a DBC file
+  if (options.dbc) {
+    const db = parseDbc(await fs.readFile(options.dbc, 'utf8'));
+    result.ids = result.ids.map(stats => {
+      const message = db.messages.find(m => m.id === stats.id && m.extended === stats.ext);
+      return message ? { ...stats, name: message.name } : stats;
+    });
+  }
+
+  const json = JSON.stringify(result, null, 2);
+  if (options.out) {
+    await fs.writeFile(options.out, json);
+    console.error(`Statistics for ${result.ids.length} IDs written to ${options.out}`);
+  } else {
+    console.log(json);
+  }
+  process.exit(0);
+}
+
+// apps/cli/src/commands/detect.ts
+import { UARTAdapter } from '@commwatch/transports-uart';
+import type { SerialFormat } from '@commwatch/proto-core';
+import { SERIAL_FORMATS, STANDARD_BAUD_RATES, formatBaudCandidate } from '@commwatch/proto-core';
+import { parseFramerSpec } from '../utils/framer';
+import { resolveDecoder } from '../utils/decoders';
+
+// Finds the baud rate and format of a device that is already sending
+export async function DetectCommand(options: any) {
+  const formats = options.formats.split(',').map((f: string) => f.trim().toUpperCase()) as SerialFormat[];
+  const unknown = formats.find(format => !SERIAL_FORMATS[format]);
+  if (unknown) {
+    console.error(`Unknown format: ${unknown} (use ${Object.keys(SERIAL_FORMATS).join(', ')})`);
+    process.exit(1);
+  }
+  if (options.decoder && !options.framer) {
+    console.error('--decoder needs --framer to split the samples into frames');
+    process.exit(1);
+  }
+
+  const adapter = new UARTAdapter();
+  const rates: number[] = options.rates ? options.rates.split(',').map((r: string) => parseInt(r)) : STANDARD_BAUD_RATES;
+  const sampleMs = parseInt(options.sampleMs);
+  console.log(`Listening on ${options.port} at ${rates.length * formats.length} settings, ${sampleMs} ms each...`);
+
+  const result = await adapter.detectBaudRate({ id: `uart:${options.port}`, name: options.port, type: 'uart', path: options.port }, {
+    rates,
+    formats,
+    sampleMs,
+    framer: options.framer ? parseFramerSpec(options.framer) : undefined,
+    decoders: options.decoder ? [await resolveDecoder(options.decoder, options.protocol)] : undefined,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    result.candidates
+      .filter(candidate => candidate.bytes > 0)
+      .forEach(candidate => console.log(`  ${formatBaudCandidate(candidate)}`));
+  }
+
+  if (!result.best) {
+    console.error('Nothing readable was received; is the device sending?');
+    process.exit(1);
+  }
+  if (!options.json) {
+    console.log(`\nBest: ${formatBaudCandidate(result.best)}`);
+  }
+}
+
+// apps/cli/src/commands/uds.ts
+import * as path from 'path';
+import { CANAdapter, UDSClient, UDSDecoder } from '@commwatch/transports-can';
+import type { RoutineControlType, UDSSecurityKey } from '@commwatch/transports-can';
+import { MessageBus, renderTemplate } from '@commwatch/proto-core';
+import { parseIsoTpSpec } from '../utils/isotp';
+
+const toHex = (data: ArrayLike<number>) =>
+  Array.from(data).map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+
+// Key functions are modules whose default export is (seed, level) => key
+async function loadKeyFunction(file: string): Promise<UDSSecurityKey> {
+  const module = await import(path.resolve(file));
+  if (typeof module.default !== 'function') {
+    throw new Error(`${file} must export a (seed, level) => key function`);
+  }
+  return module.default;
+}
+
+export async function UdsCommand(service: string, args: string[], options: any) {
+  const address = parseIsoTpSpec(options.address).pairs![0];
+
+  const bus = new MessageBus();
+  const adapter = new CANAdapter(bus);
+  const devices = await adapter.listDevices();
+  const device = options.port
+    ? devices.find(d => d.path === options.port)
+    : devices[0];
+
+  if (!device) {
+    console.error('No device found');
+    process.exit(1);
+  }
+
+  const handle = await adapter.open(device, {
+    canFD: !!options.canFd,
+    canIsoTp: { pairs: [address] },
+  });
+  const client = new UDSClient(handle, address, {
+    timeoutMs: parseFloat(options.timeout),
+    securityKey: options.key ? await loadKeyFunction(options.key) : undefined,
+  });
+
+  try {
+    const number = (value: string | undefined, what: string) => {
+      const parsed = parseInt(value || '', 16);
+      if (isNaN(parsed)) {
+        throw new Error(`Missing or invalid ${what}: ${value ?? '(none)'}`);
+      }
+      return parsed;
+    };
+
+    switch (service) {
+      case 'session': {
+        const session = await client.diagnosticSessionControl(number(args[0], 'session type'));
+        console.log(`Session 0x${session.session.toString(16).toUpperCase()} active (P2 ${session.p2Ms} ms, P2* ${session.p2StarMs} ms)`);
+        break;
+      }
+      case 'read': {
+        const data = await client.readDataByIdentifier(number(args[0], 'data identifier'));
+        const text = Buffer.from(data).toString('latin1');
+        console.log(`${toHex(data)}${/^[\x20-\x7E]+$/.test(text) ? `  "${text}"` : ''}`);
+        break;
+      }
+      case 'security':
+        await client.securityAccess(number(args[0] || '1', 'security level'));
+        console.log('Security access granted');
+        break;
+      case 'routine': {
+        // routineControl rejects anything but start, stop and results
+        const status = await client.routineControl(args[0] as RoutineControlType, number(args[1], 'routine identifier'),
+          args[2] ? renderTemplate(args.slice(2).join(' ')) : []);
+        console.log(status.length > 0 ? `Routine status: ${toHex(status)}` : 'Routine accepted');
+        break;
+      }
+      case 'raw': {
+        const response = await client.request(renderTemplate(args.join(' ')));
+        console.log(toHex(response));
+        const decoded = new UDSDecoder().decode(response);
+        if (decoded) {
+          console.log('  Decoded:', JSON.stringify(decoded.fields.map(f => ({ [f.name]: f.label ?? f.value })), null, 2));
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown UDS service: ${service} (expected session, read, security, routine or raw)`);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  } finally {
+    await handle.close();
+  }
+}
+
+// apps/cli/src/utils/framer.ts
+import type { FramerConfig } from '@commwatch/proto-core';
+import { FRAMER_PRESETS } from '@commwatch/decoders';
+
+// Parses --framer values: a preset name, `delim:<hex>` or `idle:<ms>`
+export function parseFramerSpec(spec: string): FramerConfig {
+  const preset = FRAMER_PRESETS[spec];
+  if (preset) {
+    return preset;
+  }
+
+  const [kind, arg] = spec.split(':');
+  switch (kind) {
+    case 'delim': {
+      const hex = (arg || '').replace(/\s/g, '');
+      if (!hex || hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+        throw new Error(`Invalid delimiter: ${arg}`);
+      }
+      const delimiter: number[] = [];
+      for (let i = 0; i < hex.length; i += 2) {
+        delimiter.push(parseInt(hex.substr(i, 2), 16));
+      }
+      return { type: 'delimiter', delimiter };
+    }
+    case 'idle': {
+      const gapMs = parseFloat(arg);
+      if (!(gapMs > 0)) {
+        throw new Error(`Invalid idle gap: ${arg}`);
+      }
+      return { type: 'idle-gap', gapMs };
+    }
+    default:
+      throw new Error(`Unknown framer: ${spec} (expected ${Object.keys(FRAMER_PRESETS).join(', ')}, delim:<hex> or idle:<ms>)`);
+  }
+}
+
+// apps/cli/src/utils/isotp.ts
+import type { IsoTpAddress, IsoTpOptions, J1939Options } from '@commwatch/proto-core';
+
+// Parses --isotp values: omitted for the OBD-II defaults, or `<tx>:<rx>` hex pairs separated by commas
+export function parseIsoTpSpec(spec: string | boolean): IsoTpOptions {
+  if (spec === true || spec === '') {
+    return {};
+  }
+
+  const pairs: IsoTpAddress[] = String(spec).split(',').map(pair => {
+    const [tx, rx] = pair.trim().split(':');
+    if (!/^(0x)?[0-9a-f]+$/i.test(tx || '') || !/^(0x)?[0-9a-f]+$/i.test(rx || '')) {
+      throw new Error(`Invalid ISO-TP address pair: ${pair} (expected <tx>:<rx> in hex, e.g. 7E0:7E8)`);
+    }
+    const txId = parseInt(tx, 16);
+    const rxId = parseInt(rx, 16);
+    if (txId > 0x1FFFFFFF || rxId > 0x1FFFFFFF) {
+      throw new Error(`Invalid ISO-TP address pair: ${pair} (IDs are at most 29 bits)`);
+    }
+    return { txId, rxId };
+  });
+
+  return { pairs };
+}
+
+// Parses --j1939 values: omitted to listen only, or our source address in hex
+export function parseJ1939Spec(spec: string | boolean): J1939Options {
+  if (spec === true || spec === '') {
+    return {};
+  }
+
+  const address = /^(0x)?[0-9a-f]{1,2}$/i.test(String(spec)) ? parseInt(String(spec), 16) : NaN;
+  if (isNaN(address) || address > 0xFD) {
+    throw new Error(`Invalid J1939 source address: ${spec} (expected 00-FD in hex)`);
+  }
+  return { address };
+}
+
+// apps/cli/src/utils/rules.ts
+import * as fs from 'fs/promises';
+import type { AdapterHandle, MessageBus, RuleActions } from '@commwatch/proto-core';
+import { RuleEngine, parseRuleSet } from '@commwatch/proto-core';
+
+// Runs --rules against frames on the bus; responses are written to the handle and published as frame:sent
+export async function attachRules(
+  file: string,
+  handle: AdapterHandle,
+  bus: MessageBus,
+  createFrameId: () => string,
+  actions: RuleActions = {}
+): Promise<RuleEngine> {
+  const ruleSet = parseRuleSet(JSON.parse(await fs.readFile(file, 'utf8')));
+
+  const engine = new RuleEngine(ruleSet, {
+    respond: async data => {
+      await handle.write(data);
+      bus.publish('frame:sent', {
+        frame: { id: createFrameId(), timestamp: process.hrtime.bigint(), direction: 'tx', raw: data },
+      });
+    },
+    alert: message => console.log(`  ⚠ ${message}`),
+    ...actions,
+  });
+  engine.attach(bus);
+
+  return engine;
+}
+
+// apps/cli/src/utils/capture.ts
+import * as fs from 'fs/promises';
+import type { ProtocolFrame } from '@commwatch/proto-core';
+import { parseSession } from '@commwatch/proto-core';
+import { readCapture, toProtocolFrames, readCanLog, canLogFormatFor } from '@commwatch/pcapng';
+
+// Accepts CommWatch session files (any version), PCAP/PCAP-NG captures and
+// candump, Vector ASC or PEAK TRC CAN logs
+export async function loadFrames(file: string): Promise<ProtocolFrame[]> {
+  const content = await fs.readFile(file);
+
+  if (/\.(pcapng|pcap)$/i.test(file)) {
+    return toProtocolFrames(readCapture(new Uint8Array(content)));
+  }
+
+  const logFormat = canLogFormatFor(file);
+  if (logFormat) {
+    return readCanLog(content.toString('utf8'), logFormat);
+  }
+
+  return parseSession(content.toString('utf8')).frames;
+}
+
+// apps/cli/src/utils/simulation.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DbcDatabase, DeviceInfo } from '@commwatch/proto-core';
+import { parseDbc, findDbcMessage, decodeDbcMessage, decodeCanFrame } from '@commwatch/proto-core';
+import type { CanSimulationModel, CanSimulatedMessage, CanSimulatedEvent, CanSignalGenerator } from '@commwatch/transports-can';
+import { loadFrames } from './capture';
+
+export const CAN_SIMULATOR_DEVICE: DeviceInfo = {
+  id: 'can:simulator',
+  name: 'CAN Simulator',
+  type: 'can',
+  path: 'simulator',
+};
+
+/**
+ * Loads a simulation scenario: a JSON CanSimulationModel whose `dbc` names a
+ * DBC file and whose playback generators may name a recording (`log`) to take
+ * the signal's values from. Paths are relative to the scenario file.
+ */
+export async function loadSimulationModel(file: string): Promise<CanSimulationModel> {
+  const scenario = parseScenario(await fs.readFile(file, 'utf8'), file);
+  const resolve = (name: string) => path.resolve(path.dirname(file), name);
+  const database = scenario.dbc ? parseDbc(await fs.readFile(resolve(scenario.dbc), 'utf8')) : undefined;
+
+  const messages: CanSimulatedMessage[] = [];
+  for (const { signals: generators = {}, ...message } of scenario.messages || []) {
+    const signals: Record<string, CanSignalGenerator> = {};
+    for (const [signal, generator] of Object.entries(generators)) {
+      signals[signal] = generator.type === 'playback' && 'log' in generator
+        ? { type: 'playback', loop: generator.loop, samples: await playbackSamples(resolve(generator.log), database, message, signal) }
+        : generator;
+    }
+    messages.push({ ...message, signals });
+  }
+
+  return { database, messages, events: scenario.events };
+}
+
+// Playback generators in a scenario file may name a recording instead of listing samples
+type ScenarioSignalGenerator = CanSignalGenerator | { type: 'playback'; log: string; loop?: boolean };
+
+interface SimulationScenario {
+  dbc?: string;
+  messages?: Array<Omit<CanSimulatedMessage, 'signals'> & { signals?: Record<string, ScenarioSignalGenerator> }>;
+  events?: CanSimulatedEvent[];
+}
+
+// The generators themselves are checked when the simulator builds its traffic model
+function parseScenario(content: string, file: string): SimulationScenario {
+  const scenario: unknown = JSON.parse(content);
+  if (typeof scenario !== 'object' || scenario === null || Array.isArray(scenario)) {
+    throw new Error(`${file} is not a simulation scenario`);
+  }
+
+  const { dbc, messages, events } = scenario as Record<string, unknown>;
+  if (dbc !== undefined && typeof dbc !== 'string') {
+    throw new Error(`${file}: dbc must be a file name`);
+  }
+  if (messages !== undefined && !(Array.isArray(messages) && messages.every(isRecord))) {
+    throw new Error(`${file}: messages must be a list of objects`);
+  }
+  if (events !== undefined && !(Array.isArray(events) && events.every(isRecord))) {
+    throw new Error(`${file}: events must be a list of objects`);
+  }
+  const generators = (messages || []).map(message => message.signals ?? {});
+  if (!generators.every(signals => isRecord(signals) && Object.values(signals).every(isRecord))) {
+    throw new Error(`${file}: signals must map signal names to generators`);
+  }
+  return scenario as SimulationScenario;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The signal's values over time in a recording, from the first frame of its message
+async function playbackSamples(
+  file: string,
+  database: DbcDatabase | undefined,
+  message: CanSimulatedMessage,
+  signal: string
+): Promise<Array<[number, number]>> {
+  const layout = message.name !== undefined
+    ? database?.messages.find(m => m.name === message.name)
+    : database && message.id !== undefined ? findDbcMessage(database, message.id, message.ext ?? message.id > 0x7FF) : undefined;
+  if (!layout) {
+    throw new Error(`Playback of ${signal} from ${file} needs its message in the DBC file`);
+  }
+
+  const samples: Array<[number, number]> = [];
+  let start: bigint | undefined;
+  for (const frame of await loadFrames(file)) {
+    const can = frame.error ? null : decodeCanFrame(frame.raw);
+    if (!can || can.id !== layout.id || can.ext !== layout.extended) continue;
+
+    const value = decodeDbcMessage(layout, can.data).find(v => v.signal.name === signal);
+    if (!value) continue;
+
+    start = start ?? frame.timestamp;
+    samples.push([Number(frame.timestamp - start) / 1_000_000, value.value]);
+  }
+
+  if (samples.length === 0) {
+    throw new Error(`No ${layout.name}.${signal} values in ${file}`);
+  }
+  return samples;
+}
+
+// apps/cli/src/utils/reconnect.ts
+import type { AdapterOpenOptions, DeviceInfo, MessageBus, TransportAdapter } from '@commwatch/proto-core';
+import { ReconnectingHandle, hasSerialLines } from '@commwatch/proto-core';
+
+// Opens a device that is reopened when it is unplugged and comes back (--reconnect)
+export async function openReconnecting(
+  adapter: TransportAdapter,
+  device: DeviceInfo,
+  options: AdapterOpenOptions,
+  bus: MessageBus
+): Promise<ReconnectingHandle> {
+  return ReconnectingHandle.open(adapter, device, options, bus, {
+    watchDevices: true,
+    onDisconnect: () => console.log(`\n${device.name} disconnected, waiting for it to come back...`),
+    onReconnect: (handle, dev) => {
+      console.log(`\nReconnected to ${dev.path}`);
+      if (hasSerialLines(handle)) handle.onSignals(() => {});
+    },
+  });
+}
+
+// apps/cli/src/utils/rs485.ts
+import type { MultiDropStats, Rs485Options } from '@commwatch/proto-core';
+
+// Parses --rs485 values: omitted for RTS as driver enable, or comma-separated
+// settings: rts, rts-low, no-rts, echo, before=<ms>, after=<ms>, turnaround=<ms>, address=<field>
+export function parseRs485Spec(spec: string | boolean): Rs485Options {
+  const options: Rs485Options = {};
+  if (spec === true || spec === '') {
+    return options;
+  }
+
+  for (const setting of String(spec).split(',')) {
+    const [key, value] = setting.trim().split('=');
+    const ms = () => {
+      const n = parseFloat(value);
+      if (isNaN(n) || n < 0) {
+        throw new Error(`Invalid RS-485 setting: ${setting} (expected ${key}=<ms>)`);
+      }
+      return n;
+    };
+
+    switch (key) {
+      case 'rts':
+        options.rtsDriverEnable = true;
+        break;
+      case 'rts-low':
+        options.rtsDriverEnable = true;
+        options.rtsActiveLow = true;
+        break;
+      case 'no-rts':
+        options.rtsDriverEnable = false;
+        break;
+      case 'echo':
+        options.suppressEcho = true;
+        break;
+      case 'before':
+        options.delayBeforeSendMs = ms();
+        break;
+      case 'after':
+        options.delayAfterSendMs = ms();
+        break;
+      case 'turnaround':
+        options.turnaroundMs = ms();
+        break;
+      case 'address':
+        if (!value) throw new Error('Invalid RS-485 setting: address (expected address=<field>)');
+        options.addressField = value;
+        break;
+      default:
+        throw new Error(`Unknown RS-485 setting: ${setting} (rts, rts-low, no-rts, echo, before=, after=, turnaround=, address=)`);
+    }
+  }
+  return options;
+}
+
+export function formatNodeAddress(address: number | string): string {
+  return typeof address === 'number' ? `0x${address.toString(16).toUpperCase().padStart(2, '0')}` : address;
+}
+
+// One line per node, then the bus totals
+export function formatMultiDrop(stats: MultiDropStats): string {
+  const lines = stats.nodes.map(node =>
+    `  ${formatNodeAddress(node.address).padEnd(8)} ${node.frames} frames (${node.tx} tx, ${node.rx} rx), ${node.errors} errors`
+  );
+  const gap = stats.minGap !== undefined ? `, shortest gap ${stats.minGap.toFixed(2)} ms` : '';
+  lines.push(
+    `  ${stats.unattributed} unattributed, ${stats.collisions} collisions, ${stats.turnaroundViolations} turnaround violations${gap}`
+  );
+  return lines.join('\n');
+}
+
+// apps/cli/src/utils/decoders.ts
+import * as fs from 'fs/promises';
+import type { DecoderRegistry, ProtocolDecoder } from '@commwatch/proto-core';
+import { parseDbc } from '@commwatch/proto-core';
+import { createDefaultRegistry, SchemaDecoder } from '@commwatch/decoders';
+import { CANDecoder, J1939Decoder, OBDDecoder, UDSDecoder } from '@commwatch/transports-can';
+
+export async function createRegistry(protocolFiles: string[] = []): Promise<DecoderRegistry> {
+  const registry = createDefaultRegistry();
+  registry.register(new CANDecoder());
+  registry.register(new J1939Decoder());
+  registry.register(new UDSDecoder());
+  registry.register(new OBDDecoder());
+  registry.registerStack(['cobs', 'can']);
+
+  for (const file of protocolFiles) {
+    const text = await fs.readFile(file, 'utf8');
+    if (/\.dbc$/i.test(file)) {
+      // J1939 databases are matched by PGN rather than by CAN ID
+      const database = parseDbc(text);
+      if (database.protocol === 'J1939') {
+        (registry.get('j1939') as J1939Decoder).setDatabase(database);
+      } else {
+        (registry.get('can') as CANDecoder).setDatabase(database);
+      }
+      continue;
+    }
+    registry.register(SchemaDecoder.fromDefinition(text, /\.ya?ml$/i.test(file) ? 'yaml' : 'json'));
+  }
+
+  return registry;
+}
+
+export async function resolveDecoder(spec: string, protocolFiles?: string[]): Promise<ProtocolDecoder> {
+  return (await createRegistry(protocolFiles)).resolve(spec);
+}
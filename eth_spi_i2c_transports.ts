@@ -11,6 +11,7 @@ import type {
   RxMeta,
   Unsubscribe,
   SimulatorConfig,
+  MessageBus,
 } from '@commwatch/proto-core';
 
 export class EthernetAdapter implements TransportAdapter {
@@ -18,6 +19,8 @@ export class EthernetAdapter implements TransportAdapter {
   name = 'Ethernet';
   type = 'ethernet' as const;
 
+  constructor(private bus?: MessageBus) {}
+
   async listDevices(): Promise<DeviceInfo[]> {
     const interfaces = os.networkInterfaces();
     const devices: DeviceInfo[] = [];
@@ -44,13 +47,17 @@ export class EthernetAdapter implements TransportAdapter {
   async open(dev: DeviceInfo, options: AdapterOpenOptions): Promise<AdapterHandle> {
     const protocol = options.ethProtocol || 'udp';
 
+    let handle: AdapterHandle;
     if (protocol === 'udp') {
-      return new UDPHandle(options);
+      handle = new UDPHandle(options, dev.id, this.bus);
     } else if (protocol === 'tcp') {
-      return new TCPHandle(options);
+      handle = new TCPHandle(options, dev.id, this.bus);
+    } else {
+      throw new Error(`Unsupported protocol: ${protocol}`);
     }
 
-    throw new Error(`Unsupported protocol: ${protocol}`);
+    this.bus?.publish('device:connected', { device: dev });
+    return handle;
   }
 
   supportsSimulation(): boolean {
@@ -75,7 +82,11 @@ class UDPHandle implements AdapterHandle {
   private startTime = Date.now();
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
 
-  constructor(private options: AdapterOpenOptions) {
+  constructor(
+    private options: AdapterOpenOptions,
+    private deviceId = 'eth:simulator',
+    private bus?: MessageBus
+  ) {
     this.socket = dgram.createSocket('udp4');
     this.setupListeners();
 
@@ -121,6 +132,11 @@ class UDPHandle implements AdapterHandle {
     this.socket.on('error', (err) => {
       this.stats.errors++;
       console.error('UDP error:', err);
+      this.bus?.publish('device:error', { deviceId: this.deviceId, error: err.message });
+    });
+
+    this.socket.on('close', () => {
+      this.bus?.publish('device:disconnected', { deviceId: this.deviceId });
     });
   }
 
@@ -182,7 +198,11 @@ class TCPHandle implements AdapterHandle {
   private startTime = Date.now();
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
 
-  constructor(private options: AdapterOpenOptions) {
+  constructor(
+    private options: AdapterOpenOptions,
+    private deviceId: string,
+    private bus?: MessageBus
+  ) {
     this.initConnection();
   }
 
@@ -228,6 +248,7 @@ class TCPHandle implements AdapterHandle {
     socket.on('error', (err) => {
       this.stats.errors++;
       console.error('TCP error:', err);
+      this.bus?.publish('device:error', { deviceId: this.deviceId, error: err.message });
     });
   }
 
@@ -262,6 +283,8 @@ class TCPHandle implements AdapterHandle {
   }
 
   async close(): Promise<void> {
+    this.bus?.publish('device:disconnected', { deviceId: this.deviceId });
+
     if (this.socket) {
       this.socket.destroy();
     }
@@ -291,6 +314,7 @@ import type {
   RxMeta,
   Unsubscribe,
   SimulatorConfig,
+  MessageBus,
 } from '@commwatch/proto-core';
 
 export class SPIAdapter implements TransportAdapter {
@@ -298,6 +322,8 @@ export class SPIAdapter implements TransportAdapter {
   name = 'SPI';
   type = 'spi' as const;
 
+  constructor(private bus?: MessageBus) {}
+
   async listDevices(): Promise<DeviceInfo[]> {
     // List USB-to-SPI bridges (FT232H, CH347A, etc.)
     return [
@@ -311,7 +337,9 @@ export class SPIAdapter implements TransportAdapter {
   }
 
   async open(dev: DeviceInfo, options: AdapterOpenOptions): Promise<AdapterHandle> {
-    return new SPISimulator(options);
+    const handle = new SPISimulator(options, dev.id, this.bus);
+    this.bus?.publish('device:connected', { device: dev });
+    return handle;
   }
 
   supportsSimulation(): boolean {
@@ -336,7 +364,11 @@ class SPISimulator implements AdapterHandle {
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
   private memory: Uint8Array = new Uint8Array(256);
 
-  constructor(private options: AdapterOpenOptions) {
+  constructor(
+    private options: AdapterOpenOptions,
+    private deviceId = '',
+    private bus?: MessageBus
+  ) {
     // Initialize simulated SPI device memory
     for (let i = 0; i < this.memory.length; i++) {
       this.memory[i] = i;
@@ -409,6 +441,7 @@ class SPISimulator implements AdapterHandle {
 
   async close(): Promise<void> {
     this.readCallbacks.clear();
+    this.bus?.publish('device:disconnected', { deviceId: this.deviceId });
   }
 
   async getStats(): Promise<AdapterStats> {
@@ -427,6 +460,7 @@ import type {
   RxMeta,
   Unsubscribe,
   SimulatorConfig,
+  MessageBus,
 } from '@commwatch/proto-core';
 
 export class I2CAdapter implements TransportAdapter {
@@ -434,6 +468,8 @@ export class I2CAdapter implements TransportAdapter {
   name = 'I²C';
   type = 'i2c' as const;
 
+  constructor(private bus?: MessageBus) {}
+
   async listDevices(): Promise<DeviceInfo[]> {
     return [
       {
@@ -446,7 +482,9 @@ export class I2CAdapter implements TransportAdapter {
   }
 
   async open(dev: DeviceInfo, options: AdapterOpenOptions): Promise<AdapterHandle> {
-    return new I2CSimulator(options);
+    const handle = new I2CSimulator(options, dev.id, this.bus);
+    this.bus?.publish('device:connected', { device: dev });
+    return handle;
   }
 
   supportsSimulation(): boolean {
@@ -471,7 +509,11 @@ class I2CSimulator implements AdapterHandle {
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
   private devices: Map<number, Uint8Array> = new Map();
 
-  constructor(private options: AdapterOpenOptions) {
+  constructor(
+    private options: AdapterOpenOptions,
+    private deviceId = '',
+    private bus?: MessageBus
+  ) {
     // Simulate some I²C devices
     this.devices.set(0x50, new Uint8Array(256).fill(0xAA)); // EEPROM
     this.devices.set(0x68, new Uint8Array([0x12, 0x34, 0x56, 0x78])); // Sensor
@@ -523,6 +565,7 @@ class I2CSimulator implements AdapterHandle {
 
   async close(): Promise<void> {
     this.readCallbacks.clear();
+    this.bus?.publish('device:disconnected', { deviceId: this.deviceId });
   }
 
   async getStats(): Promise<AdapterStats> {
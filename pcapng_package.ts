@@ -0,0 +1,1196 @@
+// packages/pcapng/src/constants.ts
+export const BLOCK_SECTION_HEADER = 0x0A0D0D0A;
+export const BLOCK_INTERFACE_DESCRIPTION = 0x00000001;
+export const BLOCK_SIMPLE_PACKET = 0x00000003;
+export const BLOCK_ENHANCED_PACKET = 0x00000006;
+
+export const BYTE_ORDER_MAGIC = 0x1A2B3C4D;
+
+export const OPT_ENDOFOPT = 0;
+export const OPT_COMMENT = 1;
+export const SHB_USERAPPL = 4;
+export const IF_NAME = 2;
+export const IF_DESCRIPTION = 3;
+export const IF_TSRESOL = 9;
+export const EPB_FLAGS = 2;
+
+export const EPB_FLAG_INBOUND = 0x1;
+export const EPB_FLAG_OUTBOUND = 0x2;
+
+// Classic libpcap file magics (microsecond and nanosecond resolution)
+export const PCAP_MAGIC_US = 0xA1B2C3D4;
+export const PCAP_MAGIC_NS = 0xA1B23C4D;
+
+export const LINKTYPE_ETHERNET = 1;
+export const LINKTYPE_RAW = 101;
+export const LINKTYPE_USER0 = 147;
+export const LINKTYPE_CAN_SOCKETCAN = 227;
+
+// SocketCAN can_id flags
+export const CAN_EFF_FLAG = 0x80000000;
+export const CAN_RTR_FLAG = 0x40000000;
+export const CAN_ERR_FLAG = 0x20000000;
+export const CAN_EFF_MASK = 0x1FFFFFFF;
+export const CAN_SFF_MASK = 0x000007FF;
+
+// canfd_frame flags
+export const CANFD_BRS = 0x01;
+export const CANFD_ESI = 0x02;
+export const CANFD_FDF = 0x04;
+
+// packages/pcapng/src/link-layer.ts
+import type { ProtocolFrame, TransportType } from '@commwatch/proto-core';
+import { encodeCanFrame, decodeCanFrame } from '@commwatch/proto-core';
+import {
+  LINKTYPE_ETHERNET,
+  LINKTYPE_RAW,
+  LINKTYPE_USER0,
+  LINKTYPE_CAN_SOCKETCAN,
+  CAN_EFF_FLAG,
+  CAN_RTR_FLAG,
+  CAN_EFF_MASK,
+  CAN_SFF_MASK,
+  CANFD_BRS,
+  CANFD_ESI,
+  CANFD_FDF,
+} from './constants';
+
+/**
+ * UART, SPI and I²C frames are written with LINKTYPE_USER0 and a 4-byte
+ * pseudo-header: [version=1] [transport] [direction: 0=rx, 1=tx] [flags: bit0=error]
+ */
+const USER_HEADER_VERSION = 1;
+const USER_TRANSPORT_CODES: Record<string, number> = { uart: 1, spi: 2, i2c: 3 };
+
+export interface UdpEndpoints {
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+}
+
+const DEFAULT_ENDPOINTS: UdpEndpoints = {
+  localAddress: '127.0.0.1',
+  localPort: 5000,
+  remoteAddress: '127.0.0.1',
+  remotePort: 5000,
+};
+
+export interface LinkPayload {
+  transport: TransportType;
+  raw: Uint8Array;
+  direction?: 'rx' | 'tx';
+  error?: boolean;
+}
+
+// Ethernet frames are either whole L2 frames or UDP/TCP payloads, which get a synthesized IPv4/UDP header
+export function linkTypeFor(transport: TransportType, ethernetFrames = false): number {
+  switch (transport) {
+    case 'can':
+      return LINKTYPE_CAN_SOCKETCAN;
+    case 'ethernet':
+      return ethernetFrames ? LINKTYPE_ETHERNET : LINKTYPE_RAW;
+    default:
+      return LINKTYPE_USER0;
+  }
+}
+
+export function transportForLinkType(linkType: number): TransportType | null {
+  switch (linkType) {
+    case LINKTYPE_CAN_SOCKETCAN:
+      return 'can';
+    case LINKTYPE_ETHERNET:
+    case LINKTYPE_RAW:
+      return 'ethernet';
+    case LINKTYPE_USER0:
+      return 'uart';
+    default:
+      return null;
+  }
+}
+
+export function encodeLinkPayload(
+  transport: TransportType,
+  frame: ProtocolFrame,
+  endpoints: UdpEndpoints = DEFAULT_ENDPOINTS,
+  ethernetFrames = false
+): Uint8Array {
+  switch (transport) {
+    case 'can':
+      return encodeSocketCan(frame.raw);
+    case 'ethernet':
+      return ethernetFrames ? frame.raw : encodeIpv4Udp(frame.raw, frame.direction, endpoints);
+    default: {
+      const payload = new Uint8Array(4 + frame.raw.length);
+      payload[0] = USER_HEADER_VERSION;
+      payload[1] = USER_TRANSPORT_CODES[transport];
+      payload[2] = frame.direction === 'tx' ? 1 : 0;
+      payload[3] = frame.error ? 0x01 : 0x00;
+      payload.set(frame.raw, 4);
+      return payload;
+    }
+  }
+}
+
+export function decodeLinkPayload(linkType: number, data: Uint8Array, ethernetFrames = false): LinkPayload | null {
+  switch (linkType) {
+    case LINKTYPE_CAN_SOCKETCAN:
+      return data.length >= 8 ? { transport: 'can', raw: decodeSocketCan(data) } : null;
+    case LINKTYPE_ETHERNET:
+      return ethernetFrames ? { transport: 'ethernet', raw: data } : decodeEthernet(data);
+    case LINKTYPE_RAW:
+      return { transport: 'ethernet', raw: decodeIpv4(data) };
+    case LINKTYPE_USER0: {
+      if (data.length < 4 || data[0] !== USER_HEADER_VERSION) return null;
+      const transport = Object.keys(USER_TRANSPORT_CODES)
+        .find(key => USER_TRANSPORT_CODES[key] === data[1]) as TransportType | undefined;
+      if (!transport) return null;
+      return {
+        transport,
+        raw: data.slice(4),
+        direction: data[2] === 1 ? 'tx' : 'rx',
+        error: (data[3] & 0x01) !== 0,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// Internal CAN frames share SocketCAN's EFF/RTR ID flags; SocketCAN uses
+// [ID(4, big-endian)] [LEN(1)] [FLAGS(1)] [RES(2)] [DATA], where LEN is the
+// payload length (the requested DLC for remote frames) and FLAGS mark CAN-FD.
+function encodeSocketCan(raw: Uint8Array): Uint8Array {
+  const frame = decodeCanFrame(raw);
+  if (!frame) return new Uint8Array(8);
+
+  let canId = frame.id;
+  if (frame.ext) canId |= CAN_EFF_FLAG;
+  if (frame.rtr) canId |= CAN_RTR_FLAG;
+
+  const payload = new Uint8Array(8 + frame.data.length);
+  new DataView(payload.buffer).setUint32(0, canId >>> 0, false);
+  payload[4] = frame.rtr ? frame.dlc : frame.data.length;
+  if (frame.fd) {
+    payload[5] = CANFD_FDF | (frame.brs ? CANFD_BRS : 0) | (frame.esi ? CANFD_ESI : 0);
+  }
+  payload.set(frame.data, 8);
+  return payload;
+}
+
+function decodeSocketCan(data: Uint8Array): Uint8Array {
+  const canId = new DataView(data.buffer, data.byteOffset, data.length).getUint32(0, false);
+  const ext = (canId & CAN_EFF_FLAG) !== 0;
+  const flags = data[5];
+  // Older writers leave FDF clear, so any length above 8 also marks CAN-FD
+  const fd = (flags & (CANFD_FDF | CANFD_BRS | CANFD_ESI)) !== 0 || data[4] > 8;
+  const rtr = !fd && (canId & CAN_RTR_FLAG) !== 0;
+  const length = rtr ? 0 : Math.min(data[4], data.length - 8, fd ? 64 : 8);
+
+  return encodeCanFrame({
+    id: canId & (ext ? CAN_EFF_MASK : CAN_SFF_MASK),
+    ext,
+    rtr,
+    fd,
+    brs: fd && (flags & CANFD_BRS) !== 0,
+    esi: fd && (flags & CANFD_ESI) !== 0,
+    dlc: rtr ? Math.min(data[4], 8) : undefined,
+    data: data.slice(8, 8 + length),
+  });
+}
+
+function parseAddress(address: string): number[] {
+  const parts = address.split('.').map(p => parseInt(p, 10));
+  return parts.length === 4 && parts.every(p => p >= 0 && p <= 255) ? parts : [127, 0, 0, 1];
+}
+
+function encodeIpv4Udp(payload: Uint8Array, direction: 'rx' | 'tx', endpoints: UdpEndpoints): Uint8Array {
+  const packet = new Uint8Array(28 + payload.length);
+  const view = new DataView(packet.buffer);
+  const tx = direction === 'tx';
+  const src = parseAddress(tx ? endpoints.localAddress : endpoints.remoteAddress);
+  const dst = parseAddress(tx ? endpoints.remoteAddress : endpoints.localAddress);
+
+  // IPv4 header
+  packet[0] = 0x45;
+  view.setUint16(2, packet.length, false);
+  view.setUint16(6, 0x4000, false); // Don't fragment
+  packet[8] = 64; // TTL
+  packet[9] = 17; // UDP
+  packet.set(src, 12);
+  packet.set(dst, 16);
+
+  let sum = 0;
+  for (let i = 0; i < 20; i += 2) {
+    sum += view.getUint16(i, false);
+  }
+  while (sum > 0xFFFF) {
+    sum = (sum & 0xFFFF) + (sum >>> 16);
+  }
+  view.setUint16(10, ~sum & 0xFFFF, false);
+
+  // UDP header, checksum left at zero (optional for IPv4)
+  view.setUint16(20, tx ? endpoints.localPort : endpoints.remotePort, false);
+  view.setUint16(22, tx ? endpoints.remotePort : endpoints.localPort, false);
+  view.setUint16(24, 8 + payload.length, false);
+  packet.set(payload, 28);
+
+  return packet;
+}
+
+function decodeEthernet(data: Uint8Array): LinkPayload | null {
+  if (data.length < 14) return null;
+
+  let offset = 12;
+  let etherType = (data[offset] << 8) | data[offset + 1];
+  while (etherType === 0x8100 && data.length >= offset + 6) {
+    offset += 4; // 802.1Q tag
+    etherType = (data[offset] << 8) | data[offset + 1];
+  }
+  offset += 2;
+
+  const body = data.slice(offset);
+  return { transport: 'ethernet', raw: etherType === 0x0800 ? decodeIpv4(body) : body };
+}
+
+// Returns the UDP/TCP payload of an IPv4 packet, or the packet itself for other protocols
+function decodeIpv4(packet: Uint8Array): Uint8Array {
+  if (packet.length < 20 || packet[0] >> 4 !== 4) return packet;
+
+  const headerLength = (packet[0] & 0x0F) * 4;
+  const totalLength = Math.min((packet[2] << 8) | packet[3], packet.length);
+  const protocol = packet[9];
+
+  if (protocol === 17 && totalLength >= headerLength + 8) {
+    return packet.slice(headerLength + 8, totalLength);
+  }
+  if (protocol === 6 && totalLength >= headerLength + 20) {
+    const tcpHeaderLength = (packet[headerLength + 12] >> 4) * 4;
+    return packet.slice(headerLength + tcpHeaderLength, totalLength);
+  }
+  return packet;
+}
+
+// packages/pcapng/src/writer.ts
+import type { ProtocolFrame, TransportType } from '@commwatch/proto-core';
+import {
+  BLOCK_SECTION_HEADER,
+  BLOCK_INTERFACE_DESCRIPTION,
+  BLOCK_ENHANCED_PACKET,
+  BYTE_ORDER_MAGIC,
+  OPT_ENDOFOPT,
+  OPT_COMMENT,
+  SHB_USERAPPL,
+  IF_NAME,
+  IF_DESCRIPTION,
+  IF_TSRESOL,
+  EPB_FLAGS,
+  EPB_FLAG_INBOUND,
+  EPB_FLAG_OUTBOUND,
+} from './constants';
+import { encodeLinkPayload, linkTypeFor, UdpEndpoints } from './link-layer';
+
+export interface PcapngWriterOptions {
+  application?: string;
+  comment?: string;
+}
+
+export interface PcapngInterfaceOptions {
+  transport: TransportType;
+  name?: string;
+  description?: string;
+  endpoints?: UdpEndpoints; // Used to synthesize IPv4/UDP headers for Ethernet
+  ethernetFrames?: boolean; // Ethernet frames are whole L2 frames, written as LINKTYPE_ETHERNET
+}
+
+// All blocks are written little-endian; readers detect this from the byte-order magic
+class BlockBuilder {
+  private bytes: number[] = [];
+
+  u8(value: number): this {
+    this.bytes.push(value & 0xFF);
+    return this;
+  }
+
+  u16(value: number): this {
+    return this.u8(value).u8(value >>> 8);
+  }
+
+  u32(value: number): this {
+    return this.u16(value & 0xFFFF).u16(value >>> 16);
+  }
+
+  data(data: Uint8Array): this {
+    for (const byte of data) this.bytes.push(byte);
+    return this.pad();
+  }
+
+  option(code: number, value: Uint8Array | string): this {
+    const data = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+    return this.u16(code).u16(data.length).data(data);
+  }
+
+  endOptions(): this {
+    return this.u16(OPT_ENDOFOPT).u16(0);
+  }
+
+  build(type: number): Uint8Array {
+    const total = 12 + this.bytes.length;
+    return new BlockBuilder().u32(type).u32(total).raw(this.bytes).u32(total).toArray();
+  }
+
+  private raw(bytes: number[]): this {
+    this.bytes.push(...bytes);
+    return this;
+  }
+
+  private pad(): this {
+    while (this.bytes.length % 4 !== 0) this.bytes.push(0);
+    return this;
+  }
+
+  private toArray(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+export class PcapngWriter {
+  private blocks: Uint8Array[] = [];
+  private interfaces: PcapngInterfaceOptions[] = [];
+
+  constructor(options: PcapngWriterOptions = {}) {
+    const shb = new BlockBuilder()
+      .u32(BYTE_ORDER_MAGIC)
+      .u16(1) // Major version
+      .u16(0) // Minor version
+      .u32(0xFFFFFFFF) // Section length unknown (-1 as int64)
+      .u32(0xFFFFFFFF)
+      .option(SHB_USERAPPL, options.application || 'CommWatch');
+
+    if (options.comment) {
+      shb.option(OPT_COMMENT, options.comment);
+    }
+
+    this.blocks.push(shb.endOptions().build(BLOCK_SECTION_HEADER));
+  }
+
+  addInterface(options: PcapngInterfaceOptions): number {
+    const idb = new BlockBuilder()
+      .u16(linkTypeFor(options.transport, options.ethernetFrames))
+      .u16(0) // Reserved
+      .u32(0) // No snap length limit
+      .option(IF_NAME, options.name || options.transport)
+      .option(IF_TSRESOL, new Uint8Array([9])); // Nanoseconds
+
+    if (options.description) {
+      idb.option(IF_DESCRIPTION, options.description);
+    }
+
+    this.blocks.push(idb.endOptions().build(BLOCK_INTERFACE_DESCRIPTION));
+    this.interfaces.push(options);
+    return this.interfaces.length - 1;
+  }
+
+  addFrame(interfaceId: number, frame: ProtocolFrame): void {
+    const iface = this.interfaces[interfaceId];
+    if (!iface) {
+      throw new Error(`Unknown interface: ${interfaceId}`);
+    }
+
+    const payload = encodeLinkPayload(iface.transport, frame, iface.endpoints, iface.ethernetFrames);
+    const timestamp = frame.timestamp;
+
+    const epb = new BlockBuilder()
+      .u32(interfaceId)
+      .u32(Number(timestamp >> BigInt(32)))
+      .u32(Number(timestamp & BigInt(0xFFFFFFFF)))
+      .u32(payload.length)
+      .u32(payload.length)
+      .data(payload);
+
+    const flags = new Uint8Array(4);
+    new DataView(flags.buffer).setUint32(0, frame.direction === 'tx' ? EPB_FLAG_OUTBOUND : EPB_FLAG_INBOUND, true);
+    epb.option(EPB_FLAGS, flags);
+
+    if (frame.error) {
+      epb.option(OPT_COMMENT, `${frame.error.code}: ${frame.error.message}`);
+      epb.option(OPT_COMMENT, `severity: ${frame.error.severity}`);
+    }
+    if (frame.decoded) {
+      epb.option(OPT_COMMENT, `decoded: ${frame.decoded.protocol}`);
+    }
+
+    this.blocks.push(epb.endOptions().build(BLOCK_ENHANCED_PACKET));
+  }
+
+  // Returns the blocks added since the last call and forgets them, for writing a capture to a file as it grows
+  flush(): Uint8Array {
+    const buffer = this.toBuffer();
+    this.blocks = [];
+    return buffer;
+  }
+
+  toBuffer(): Uint8Array {
+    const total = this.blocks.reduce((sum, b) => sum + b.length, 0);
+    const buffer = new Uint8Array(total);
+    let offset = 0;
+    for (const block of this.blocks) {
+      buffer.set(block, offset);
+      offset += block.length;
+    }
+    return buffer;
+  }
+}
+
+export function writePcapng(frames: ProtocolFrame[], iface: PcapngInterfaceOptions): Uint8Array {
+  const writer = new PcapngWriter();
+  const interfaceId = writer.addInterface(iface);
+  frames.forEach(frame => writer.addFrame(interfaceId, frame));
+  return writer.toBuffer();
+}
+
+// packages/pcapng/src/reader.ts
+import type { ProtocolFrame, TransportType } from '@commwatch/proto-core';
+import {
+  BLOCK_SECTION_HEADER,
+  BLOCK_INTERFACE_DESCRIPTION,
+  BLOCK_SIMPLE_PACKET,
+  BLOCK_ENHANCED_PACKET,
+  BYTE_ORDER_MAGIC,
+  OPT_ENDOFOPT,
+  OPT_COMMENT,
+  IF_NAME,
+  IF_DESCRIPTION,
+  IF_TSRESOL,
+  EPB_FLAGS,
+  PCAP_MAGIC_US,
+  PCAP_MAGIC_NS,
+} from './constants';
+import { decodeLinkPayload, transportForLinkType } from './link-layer';
+
+export interface PcapngInterface {
+  linkType: number;
+  name?: string;
+  description?: string;
+  ticksPerSecond: bigint;
+}
+
+export interface PcapngPacket {
+  interfaceId: number;
+  timestamp: bigint; // Nanoseconds
+  data: Uint8Array;
+  originalLength: number;
+  direction?: 'rx' | 'tx';
+  comments: string[];
+}
+
+export interface PcapngCapture {
+  interfaces: PcapngInterface[];
+  packets: PcapngPacket[];
+}
+
+export interface ProtocolFramesOptions {
+  ethernetFrames?: boolean; // Keep LINKTYPE_ETHERNET packets as whole L2 frames instead of their UDP/TCP payloads
+}
+
+const NS_PER_SECOND = BigInt(1_000_000_000);
+
+function parseOptions(view: DataView, offset: number, end: number, le: boolean): Map<number, Uint8Array[]> {
+  const options = new Map<number, Uint8Array[]>();
+
+  while (offset + 4 <= end) {
+    const code = view.getUint16(offset, le);
+    const length = view.getUint16(offset + 2, le);
+    if (code === OPT_ENDOFOPT) break;
+
+    const value = new Uint8Array(view.buffer, view.byteOffset + offset + 4, Math.min(length, end - offset - 4));
+    if (!options.has(code)) options.set(code, []);
+    options.get(code)!.push(value.slice());
+
+    offset += 4 + Math.ceil(length / 4) * 4;
+  }
+
+  return options;
+}
+
+function ticksPerSecond(tsresol?: Uint8Array): bigint {
+  if (!tsresol || tsresol.length === 0) return BigInt(1_000_000);
+  const value = tsresol[0];
+  return value & 0x80 ? BigInt(2) ** BigInt(value & 0x7F) : BigInt(10) ** BigInt(value);
+}
+
+function readPcapng(data: Uint8Array): PcapngCapture {
+  const view = new DataView(data.buffer, data.byteOffset, data.length);
+  const capture: PcapngCapture = { interfaces: [], packets: [] };
+  const text = new TextDecoder();
+  let sectionInterfaces: number[] = []; // Maps section-local interface ids to capture-wide ids
+  let le = true;
+  let offset = 0;
+
+  while (offset + 12 <= data.length) {
+    const rawType = view.getUint32(offset, true);
+
+    if (rawType === BLOCK_SECTION_HEADER) {
+      le = view.getUint32(offset + 8, true) === BYTE_ORDER_MAGIC;
+      if (!le && view.getUint32(offset + 8, false) !== BYTE_ORDER_MAGIC) {
+        throw new Error('Invalid PCAP-NG byte-order magic');
+      }
+      sectionInterfaces = [];
+    }
+
+    const type = view.getUint32(offset, le);
+    const length = view.getUint32(offset + 4, le);
+    if (length < 12 || offset + length > data.length) {
+      throw new Error(`Truncated PCAP-NG block at offset ${offset}`);
+    }
+    const body = offset + 8;
+    const end = offset + length - 4;
+
+    switch (type) {
+      case BLOCK_INTERFACE_DESCRIPTION: {
+        const options = parseOptions(view, body + 8, end, le);
+        sectionInterfaces.push(capture.interfaces.length);
+        capture.interfaces.push({
+          linkType: view.getUint16(body, le),
+          name: options.has(IF_NAME) ? text.decode(options.get(IF_NAME)![0]) : undefined,
+          description: options.has(IF_DESCRIPTION) ? text.decode(options.get(IF_DESCRIPTION)![0]) : undefined,
+          ticksPerSecond: ticksPerSecond(options.get(IF_TSRESOL)?.[0]),
+        });
+        break;
+      }
+      case BLOCK_ENHANCED_PACKET: {
+        const interfaceId = sectionInterfaces[view.getUint32(body, le)];
+        const iface = capture.interfaces[interfaceId];
+        if (!iface) throw new Error(`Packet references unknown interface at offset ${offset}`);
+
+        const ticks = (BigInt(view.getUint32(body + 4, le)) << BigInt(32)) | BigInt(view.getUint32(body + 8, le));
+        const capturedLength = view.getUint32(body + 12, le);
+        const packetData = data.slice(body + 20, body + 20 + capturedLength);
+        const options = parseOptions(view, body + 20 + Math.ceil(capturedLength / 4) * 4, end, le);
+
+        const packet: PcapngPacket = {
+          interfaceId,
+          timestamp: ticks * NS_PER_SECOND / iface.ticksPerSecond,
+          data: packetData,
+          originalLength: view.getUint32(body + 16, le),
+          comments: (options.get(OPT_COMMENT) || []).map(c => text.decode(c)),
+        };
+
+        const flags = options.get(EPB_FLAGS)?.[0];
+        if (flags && flags.length >= 4) {
+          const direction = new DataView(flags.buffer, flags.byteOffset, 4).getUint32(0, le) & 0x3;
+          if (direction === 1) packet.direction = 'rx';
+          if (direction === 2) packet.direction = 'tx';
+        }
+
+        capture.packets.push(packet);
+        break;
+      }
+      case BLOCK_SIMPLE_PACKET: {
+        const interfaceId = sectionInterfaces[0];
+        const iface = capture.interfaces[interfaceId];
+        const originalLength = view.getUint32(body, le);
+        capture.packets.push({
+          interfaceId,
+          timestamp: BigInt(0),
+          data: data.slice(body + 4, body + 4 + Math.min(originalLength, end - body - 4)),
+          originalLength,
+          comments: [],
+        });
+        if (!iface) throw new Error('Simple packet block without an interface');
+        break;
+      }
+    }
+
+    offset += length;
+  }
+
+  return capture;
+}
+
+function readClassicPcap(data: Uint8Array): PcapngCapture {
+  const view = new DataView(data.buffer, data.byteOffset, data.length);
+  const magicLe = view.getUint32(0, true);
+  const le = magicLe === PCAP_MAGIC_US || magicLe === PCAP_MAGIC_NS;
+  const magic = view.getUint32(0, le);
+  const nanoseconds = magic === PCAP_MAGIC_NS;
+
+  const capture: PcapngCapture = {
+    interfaces: [{
+      linkType: view.getUint32(20, le) & 0x0FFFFFFF,
+      ticksPerSecond: nanoseconds ? NS_PER_SECOND : BigInt(1_000_000),
+    }],
+    packets: [],
+  };
+
+  let offset = 24;
+  while (offset + 16 <= data.length) {
+    const seconds = BigInt(view.getUint32(offset, le));
+    const fraction = BigInt(view.getUint32(offset + 4, le));
+    const capturedLength = view.getUint32(offset + 8, le);
+
+    capture.packets.push({
+      interfaceId: 0,
+      timestamp: seconds * NS_PER_SECOND + (nanoseconds ? fraction : fraction * BigInt(1000)),
+      data: data.slice(offset + 16, offset + 16 + capturedLength),
+      originalLength: view.getUint32(offset + 12, le),
+      comments: [],
+    });
+
+    offset += 16 + capturedLength;
+  }
+
+  return capture;
+}
+
+// Reads PCAP-NG as well as classic libpcap files
+export function readCapture(data: Uint8Array): PcapngCapture {
+  if (data.length < 24) {
+    throw new Error('File too short to be a capture');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.length);
+  if (view.getUint32(0, true) === BLOCK_SECTION_HEADER) {
+    return readPcapng(data);
+  }
+
+  const magic = view.getUint32(0, true);
+  const swapped = view.getUint32(0, false);
+  if ([PCAP_MAGIC_US, PCAP_MAGIC_NS].includes(magic) || [PCAP_MAGIC_US, PCAP_MAGIC_NS].includes(swapped)) {
+    return readClassicPcap(data);
+  }
+
+  throw new Error('Not a PCAP or PCAP-NG file');
+}
+
+export function interfaceTransport(iface: PcapngInterface): TransportType | null {
+  return transportForLinkType(iface.linkType);
+}
+
+/**
+ * Converts captured packets back to ProtocolFrames. Packets on link types
+ * CommWatch does not understand are skipped; error comments become FrameErrors,
+ * with the severity of their `severity:` comment (error when there is none).
+ */
+export function toProtocolFrames(capture: PcapngCapture, options: ProtocolFramesOptions = {}): ProtocolFrame[] {
+  const frames: ProtocolFrame[] = [];
+
+  capture.packets.forEach((packet, index) => {
+    const iface = capture.interfaces[packet.interfaceId];
+    const payload = decodeLinkPayload(iface.linkType, packet.data, options.ethernetFrames);
+    if (!payload) return;
+
+    const frame: ProtocolFrame = {
+      id: `frame-${index}`,
+      timestamp: packet.timestamp,
+      direction: payload.direction || packet.direction || 'rx',
+      raw: payload.raw,
+    };
+
+    if (capture.interfaces.length > 1) {
+      frame.source = iface.name || `if${packet.interfaceId}`;
+    }
+
+    const errorComment = packet.comments.find(c => /^[A-Z0-9_]+: /.test(c));
+    if (errorComment) {
+      const separator = errorComment.indexOf(': ');
+      frame.error = {
+        code: errorComment.slice(0, separator),
+        message: errorComment.slice(separator + 2),
+        severity: packet.comments.includes('severity: warning') ? 'warning' : 'error',
+      };
+    }
+
+    frames.push(frame);
+  });
+
+  return frames;
+}
+
+// packages/pcapng/src/can-logs.ts
+import type { CanFrame, ProtocolFrame } from '@commwatch/proto-core';
+import { encodeCanFrame, decodeCanFrame, canDlcToLength } from '@commwatch/proto-core';
+import { CAN_ERR_FLAG, CAN_EFF_MASK } from './constants';
+
+/**
+ * Text log formats of other CAN tools: Linux `candump -l`, Vector ASC and
+ * PEAK TRC (versions 1.x and 2.x). Readers return CAN ProtocolFrames in the
+ * internal frame layout; error frames and events are skipped, TRC lines that
+ * cannot be parsed throw with their line number. Writers skip
+ * anything that is not a plain CAN frame, e.g. reassembled ISO-TP messages.
+ */
+export type CanLogFormat = 'candump' | 'asc' | 'trc';
+
+export interface CanLogWriterOptions {
+  channel?: string; // candump interface name, default can0
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Flags column of ASC CANFD lines
+const ASC_FLAG_EDL = 0x1000;
+const ASC_FLAG_BRS = 0x2000;
+const ASC_FLAG_ESI = 0x4000;
+
+// Days between the OLE automation epoch (1899-12-30) used by TRC and 1970-01-01
+const OLE_EPOCH_DAYS = 25569;
+const MS_PER_DAY = 86_400_000;
+
+export function canLogFormatFor(filename: string): CanLogFormat | null {
+  if (/\.log$/i.test(filename)) return 'candump';
+  if (/\.asc$/i.test(filename)) return 'asc';
+  if (/\.trc$/i.test(filename)) return 'trc';
+  return null;
+}
+
+export function readCanLog(text: string, format: CanLogFormat): ProtocolFrame[] {
+  const lines = text.split(/\r?\n/);
+  switch (format) {
+    case 'candump':
+      return readCandump(lines);
+    case 'asc':
+      return readAsc(lines);
+    case 'trc':
+      return readTrc(lines);
+  }
+}
+
+export function writeCanLog(frames: ProtocolFrame[], format: CanLogFormat, options: CanLogWriterOptions = {}): string {
+  const writer = new CanLogWriter(format, options);
+  return frames.map(frame => writer.add(frame)).join('') + writer.end();
+}
+
+// Writes a log one frame at a time; the text of add() and end() concatenated is the whole file
+export class CanLogWriter {
+  private first: bigint | null = null;
+  private count = 0;
+
+  constructor(private format: CanLogFormat, private options: CanLogWriterOptions = {}) {}
+
+  add(frame: ProtocolFrame): string {
+    if (frame.error) return '';
+    const can = decodeCanFrame(frame.raw);
+    if (!can) return '';
+
+    let header = '';
+    if (this.first === null) {
+      this.first = frame.timestamp;
+      header = this.header();
+    }
+
+    const entry = { frame, can };
+    this.count++;
+    switch (this.format) {
+      case 'candump':
+        return header + candumpLine(entry, this.options.channel || 'can0') + '\n';
+      case 'asc':
+        return header + ascLine(entry, this.first) + '\n';
+      case 'trc':
+        return header + trcLine(entry, this.first, this.count) + '\n';
+    }
+  }
+
+  end(): string {
+    const header = this.first === null ? this.header() : '';
+    return this.format === 'asc' ? header + 'End TriggerBlock\n' : header;
+  }
+
+  private header(): string {
+    const first = this.first ?? 0n;
+    switch (this.format) {
+      case 'candump':
+        return '';
+      case 'asc':
+        return ascHeader(first).join('\n') + '\n';
+      case 'trc':
+        return trcHeader(first).join('\n') + '\n';
+    }
+  }
+}
+
+interface LogEntry {
+  frame: ProtocolFrame;
+  can: CanFrame;
+}
+
+interface ParsedLine {
+  timestamp: bigint;
+  direction: 'rx' | 'tx';
+  channel: string;
+  raw: Uint8Array;
+}
+
+// Numbers frames in file order and names the channel only when there are several, like PCAP imports
+function toFrames(parsed: ParsedLine[]): ProtocolFrame[] {
+  const channels = new Set(parsed.map(line => line.channel));
+  return parsed.map((line, index) => {
+    const frame: ProtocolFrame = {
+      id: `frame-${index}`,
+      timestamp: line.timestamp,
+      direction: line.direction,
+      raw: line.raw,
+    };
+    if (channels.size > 1) frame.source = line.channel;
+    return frame;
+  });
+}
+
+function hexBytes(text: string): number[] {
+  return (text.match(/[0-9A-Fa-f]{2}/g) || []).map(byte => parseInt(byte, 16));
+}
+
+function formatBytes(data: Uint8Array, separator = ' '): string {
+  return Array.from(data).map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(separator);
+}
+
+function formatId(can: CanFrame, standardDigits: number): string {
+  return can.id.toString(16).toUpperCase().padStart(can.ext ? 8 : standardDigits, '0');
+}
+
+// Seconds with a fractional part, without losing nanoseconds to floating point
+function parseSeconds(text: string): bigint {
+  const [whole, fraction = ''] = text.split('.');
+  return BigInt(whole) * 1_000_000_000n + BigInt(fraction.padEnd(9, '0').slice(0, 9));
+}
+
+function formatSeconds(ns: bigint, digits: number): string {
+  const negative = ns < 0n;
+  const abs = negative ? -ns : ns;
+  const fraction = (abs % 1_000_000_000n).toString().padStart(9, '0').slice(0, digits);
+  return `${negative ? '-' : ''}${abs / 1_000_000_000n}.${fraction}`;
+}
+
+// candump -l: (1436509052.249713) can0 123#11223344, 12345678##1AABB for CAN-FD, 123#R for remote frames
+function readCandump(lines: string[]): ProtocolFrame[] {
+  const parsed: ParsedLine[] = [];
+  for (const line of lines) {
+    const match = line.match(/^\s*\((\d+(?:\.\d+)?)\)\s+(\S+)\s+([0-9A-Fa-f]+)#(#[0-9A-Fa-f])?(R\d*|[0-9A-Fa-f.]*)/);
+    if (!match) continue;
+
+    const [, time, channel, idText, fdFlags, payload] = match;
+    const id = parseInt(idText, 16);
+    if (idText.length === 8 && id & CAN_ERR_FLAG) continue; // Error frame
+
+    const ext = idText.length === 8;
+    let raw: Uint8Array;
+    if (payload.startsWith('R')) {
+      raw = encodeCanFrame({ id: id & CAN_EFF_MASK, ext, rtr: true, dlc: payload.length > 1 ? parseInt(payload.slice(1)) : 0 });
+    } else if (fdFlags) {
+      const flags = parseInt(fdFlags.slice(1), 16);
+      raw = encodeCanFrame({ id: id & CAN_EFF_MASK, ext, fd: true, brs: (flags & 1) !== 0, esi: (flags & 2) !== 0, data: hexBytes(payload) });
+    } else {
+      raw = encodeCanFrame({ id: id & CAN_EFF_MASK, ext, data: hexBytes(payload) });
+    }
+
+    parsed.push({ timestamp: parseSeconds(time), direction: 'rx', channel, raw });
+  }
+  return toFrames(parsed);
+}
+
+function candumpLine({ frame, can }: LogEntry, channel: string): string {
+  const id = formatId(can, 3);
+  let payload: string;
+  if (can.rtr) {
+    payload = `#R${can.dlc || ''}`;
+  } else if (can.fd) {
+    payload = `##${(can.brs ? 1 : 0) | (can.esi ? 2 : 0)}${formatBytes(can.data, '')}`;
+  } else {
+    payload = `#${formatBytes(can.data, '')}`;
+  }
+  return `(${formatSeconds(frame.timestamp, 6)}) ${channel} ${id}${payload}`;
+}
+
+// "date Mon Oct 19 10:00:00.000 am 2026" (the time part may lack ms and am/pm)
+function parseAscDate(line: string): number | undefined {
+  const match = line.match(/^date\s+\w+\s+(\w{3})\w*\s+(\d+)\s+(\d+):(\d+):(\d+)(?:\.(\d+))?\s*(am|pm)?\s+(\d{4})/i);
+  if (!match) return undefined;
+
+  const [, month, day, hours, minutes, seconds, ms = '0', meridiem, year] = match;
+  let hour = parseInt(hours) % (meridiem ? 12 : 24);
+  if (meridiem?.toLowerCase() === 'pm') hour += 12;
+  const monthIndex = MONTHS.findIndex(m => m.toLowerCase() === month.toLowerCase());
+  if (monthIndex < 0) return undefined;
+  return new Date(parseInt(year), monthIndex, parseInt(day), hour, parseInt(minutes), parseInt(seconds), parseInt(ms.padEnd(3, '0').slice(0, 3))).getTime();
+}
+
+function formatAscDate(ms: number): string {
+  const date = new Date(ms);
+  const hours = date.getHours();
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${DAYS[date.getDay()]} ${MONTHS[date.getMonth()]} ${pad(date.getDate())} ` +
+    `${pad(hours % 12 || 12)}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)} ` +
+    `${hours < 12 ? 'am' : 'pm'} ${date.getFullYear()}`;
+}
+
+// Vector ASC: classic lines "<time> <ch> <id>[x] <Rx|Tx> d <dlc> <bytes>" and
+// "<time> CANFD <ch> <Rx|Tx> <id>[x] [name] <brs> <esi> <dlc> <length> <bytes>"
+function readAsc(lines: string[]): ProtocolFrame[] {
+  const parsed: ParsedLine[] = [];
+  let start = 0n;
+  let radix = 16;
+  let relative = false;
+  let previous = 0n;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (/^date\s/i.test(trimmed)) {
+      const ms = parseAscDate(trimmed);
+      if (ms !== undefined) start = BigInt(ms) * 1_000_000n;
+      continue;
+    }
+    const base = trimmed.match(/^base\s+(hex|dec)\s+timestamps\s+(absolute|relative)/i);
+    if (base) {
+      radix = base[1].toLowerCase() === 'dec' ? 10 : 16;
+      relative = base[2].toLowerCase() === 'relative';
+      continue;
+    }
+
+    const tokens = trimmed.split(/\s+/);
+    if (!/^\d+(\.\d+)?$/.test(tokens[0] || '')) continue;
+
+    let offset = parseSeconds(tokens[0]);
+    if (relative) {
+      offset += previous;
+      previous = offset;
+    }
+
+    const number = (text: string) => parseInt(text, radix);
+    const idOf = (text: string) => ({ id: parseInt(text.replace(/x$/i, ''), radix), ext: /x$/i.test(text) });
+    let raw: Uint8Array | null = null;
+    let channel: string;
+    let dir: string;
+
+    if (tokens[1] === 'CANFD') {
+      // A symbolic message name may follow the ID
+      const named = !/^[01]$/.test(tokens[5] || '');
+      const fields = named ? [...tokens.slice(0, 5), ...tokens.slice(6)] : tokens;
+      if (fields.length < 9) continue;
+
+      channel = fields[2];
+      dir = fields[3];
+      const { id, ext } = idOf(fields[4]);
+      const length = parseInt(fields[8]);
+      const data = fields.slice(9, 9 + length).map(number);
+      // Classic frames on an FD channel lack the EDL flag; without flags, guess from length and BRS
+      const flags = fields[9 + length + 2];
+      const fd = flags !== undefined ? (parseInt(flags, 16) & ASC_FLAG_EDL) !== 0 : length > 8 || fields[5] === '1';
+      raw = encodeCanFrame({ id, ext, fd, brs: fd && fields[5] === '1', esi: fd && fields[6] === '1', data });
+    } else {
+      if (tokens.length < 5 || !/^\d+$/.test(tokens[1]) || !/^(Rx|Tx)$/i.test(tokens[3])) continue;
+
+      channel = tokens[1];
+      dir = tokens[3];
+      const { id, ext } = idOf(tokens[2]);
+      if (tokens[4] === 'r') {
+        raw = encodeCanFrame({ id, ext, rtr: true, dlc: tokens[5] && /^[0-9A-Fa-f]$/.test(tokens[5]) ? parseInt(tokens[5], 16) : 0 });
+      } else if (tokens[4] === 'd') {
+        const dlc = parseInt(tokens[5], 16);
+        raw = encodeCanFrame({ id, ext, data: tokens.slice(6, 6 + Math.min(dlc, 8)).map(number) });
+      }
+    }
+
+    if (!raw) continue;
+    parsed.push({ timestamp: start + offset, direction: /^tx$/i.test(dir) ? 'tx' : 'rx', channel, raw });
+  }
+  return toFrames(parsed);
+}
+
+function ascHeader(first: bigint): string[] {
+  // Monotonic capture clocks are not wall time; date the log now in that case
+  const startMs = Number(first / 1_000_000n) > 1e12 ? Number(first / 1_000_000n) : Date.now();
+  const date = formatAscDate(startMs);
+
+  return [
+    `date ${date}`,
+    'base hex  timestamps absolute',
+    'no internal events logged',
+    '// version 9.0.0',
+    `Begin Triggerblock ${date}`,
+    '   0.000000 Start of measurement',
+  ];
+}
+
+function ascLine({ frame, can }: LogEntry, first: bigint): string {
+  const time = formatSeconds(frame.timestamp - first, 6).padStart(11);
+  const id = `${can.id.toString(16).toUpperCase()}${can.ext ? 'x' : ''}`;
+  const dir = frame.direction === 'tx' ? 'Tx' : 'Rx';
+  if (can.fd) {
+    const flags = ASC_FLAG_EDL | (can.brs ? ASC_FLAG_BRS : 0) | (can.esi ? ASC_FLAG_ESI : 0);
+    return `${time} CANFD   1 ${dir} ${id.padEnd(32)} ${can.brs ? 1 : 0} ${can.esi ? 1 : 0} ${can.dlc.toString(16)} ${String(can.data.length).padStart(2)} ` +
+      `${formatBytes(can.data)} 0 0 ${flags.toString(16)} 0 0 0 0 0`;
+  } else if (can.rtr) {
+    return `${time} 1  ${id.padEnd(15)} ${dir}   r ${can.dlc.toString(16)}`;
+  } else {
+    return `${time} 1  ${id.padEnd(15)} ${dir}   d ${can.dlc} ${formatBytes(can.data)}`.trimEnd();
+  }
+}
+
+const TRC_COLUMNS_V20 = ['N', 'O', 'T', 'I', 'd', 'l', 'D'];
+const TRC_COLUMNS_V21 = ['N', 'O', 'T', 'B', 'I', 'd', 'R', 'L', 'D'];
+
+// PEAK TRC message types of 2.x files
+const TRC_TYPES: Record<string, { fd: boolean; brs: boolean; esi: boolean; rtr: boolean }> = {
+  DT: { fd: false, brs: false, esi: false, rtr: false },
+  RR: { fd: false, brs: false, esi: false, rtr: true },
+  FD: { fd: true, brs: false, esi: false, rtr: false },
+  FB: { fd: true, brs: true, esi: false, rtr: false },
+  FE: { fd: true, brs: false, esi: true, rtr: false },
+  BI: { fd: true, brs: true, esi: true, rtr: false },
+};
+
+// Status, error, error counter and event lines of 2.x files are skipped
+const TRC_SKIPPED_TYPES = new Set(['ST', 'ER', 'EC', 'EV']);
+
+function readTrc(lines: string[]): ProtocolFrame[] {
+  const parsed: ParsedLine[] = [];
+  let version = '1.0';
+  let start = 0n;
+  let columns: string[] | undefined;
+
+  lines.forEach((line, index) => {
+    const header = line.match(/^;\$(\w+)=(.*)$/);
+    if (header) {
+      const [, key, value] = header;
+      if (key === 'FILEVERSION') version = value.trim();
+      if (key === 'STARTTIME') start = BigInt(Math.round((parseFloat(value) - OLE_EPOCH_DAYS) * MS_PER_DAY)) * 1_000_000n;
+      if (key === 'COLUMNS') columns = value.trim().split(',');
+      return;
+    }
+    if (/^\s*(;|$)/.test(line)) return;
+
+    let entry: TrcEntry | null;
+    try {
+      entry = version.startsWith('1.')
+        ? parseTrcV1(line, version)
+        : parseTrcV2(line, columns || (version === '2.0' ? TRC_COLUMNS_V20 : TRC_COLUMNS_V21));
+    } catch (error) {
+      throw new Error(`TRC line ${index + 1}: ${(error as Error).message}`);
+    }
+    if (entry) {
+      parsed.push({ ...entry, timestamp: start + entry.offset });
+    }
+  });
+  return toFrames(parsed);
+}
+
+type TrcEntry = Omit<ParsedLine, 'timestamp'> & { offset: bigint };
+
+function trcOffset(ms: string): bigint {
+  return parseSeconds(ms) / 1000n;
+}
+
+// 1.1: "     1)      1059.9  Rx         0300  8  00 11 22 33 44 55 66 77"
+// 1.0 has no type column, 1.2 adds a bus column before the type and 1.3 a reserved "-" column before the DLC
+function parseTrcV1(line: string, version: string): TrcEntry | null {
+  const minor = parseInt(version.split('.')[1]) || 0;
+  const tokens = line.trim().split(/\s+/);
+  if (!/^\d+\)$/.test(tokens[0])) throw new Error(`Expected a message number: ${line.trim()}`);
+
+  let column = 1;
+  const time = tokens[column++];
+  const bus = minor >= 2 ? tokens[column++] : '1';
+  const type = minor >= 1 ? tokens[column++] : 'Rx';
+  if (type === 'Warng' || type === 'Error') return null;
+
+  const idText = tokens[column++];
+  const reserved = minor >= 3 ? tokens[column++] : '-';
+  const dlcText = tokens[column++];
+  const rest = tokens.slice(column);
+
+  if (!/^\d+(\.\d+)?$/.test(time || '') || !/^\d+$/.test(bus || '') || !/^(Rx|Tx)$/.test(type || '') ||
+      !/^[0-9A-Fa-f]{1,8}$/.test(idText || '') || reserved !== '-' || !/^[0-8]$/.test(dlcText || '')) {
+    throw new Error(`Not a TRC ${version} message: ${line.trim()}`);
+  }
+
+  const id = parseInt(idText, 16);
+  const ext = idText.length > 4;
+  const dlc = parseInt(dlcText);
+  let raw: Uint8Array;
+  if (rest[0] === 'RTR') {
+    raw = encodeCanFrame({ id, ext, rtr: true, dlc });
+  } else {
+    const data = rest.slice(0, dlc);
+    if (data.length < dlc || !data.every(byte => /^[0-9A-Fa-f]{2}$/.test(byte))) {
+      throw new Error(`Expected ${dlc} data bytes: ${line.trim()}`);
+    }
+    raw = encodeCanFrame({ id, ext, data: data.map(byte => parseInt(byte, 16)) });
+  }
+  return { offset: trcOffset(time), direction: type === 'Tx' ? 'tx' : 'rx', channel: bus, raw };
+}
+
+// 2.x: whitespace-separated columns as listed in $COLUMNS; data bytes run to the end of the line
+function parseTrcV2(line: string, columns: string[]): TrcEntry | null {
+  const tokens = line.trim().split(/\s+/);
+  const dataColumn = columns.indexOf('D');
+  const value = (column: string) => {
+    const index = columns.indexOf(column);
+    return index < 0 ? undefined : tokens[index];
+  };
+
+  const type = value('T') || 'DT';
+  if (TRC_SKIPPED_TYPES.has(type)) return null;
+
+  const kind = TRC_TYPES[type];
+  const time = value('O');
+  const idText = value('I');
+  if (!kind || !time || !/^\d+(\.\d+)?$/.test(time) || !idText || !/^[0-9A-Fa-f]{1,8}$/.test(idText)) {
+    throw new Error(`Not a TRC message: ${line.trim()}`);
+  }
+
+  const id = parseInt(idText, 16);
+  const ext = idText.length > 4;
+  const dlc = value('L') !== undefined ? parseInt(value('L')!) : undefined;
+  const length = value('l') !== undefined ? parseInt(value('l')!) : canDlcToLength(dlc ?? 0, kind.fd);
+  const data = dataColumn < 0 ? [] : tokens.slice(dataColumn).filter(t => /^[0-9A-Fa-f]{2}$/.test(t)).map(t => parseInt(t, 16));
+  if (!kind.rtr && data.length < length) {
+    throw new Error(`Expected ${length} data bytes: ${line.trim()}`);
+  }
+
+  const raw = kind.rtr
+    ? encodeCanFrame({ id, ext, rtr: true, dlc: dlc ?? length })
+    : encodeCanFrame({ id, ext, fd: kind.fd, brs: kind.brs, esi: kind.esi, data: data.slice(0, length) });
+  return { offset: trcOffset(time), direction: value('d') === 'Tx' ? 'tx' : 'rx', channel: value('B') || '1', raw };
+}
+
+// Writes version 2.1 with the default columns
+function trcHeader(first: bigint): string[] {
+  const startMs = Number(first / 1_000_000n) > 1e12 ? Number(first / 1_000_000n) : Date.now();
+
+  return [
+    ';$FILEVERSION=2.1',
+    `;$STARTTIME=${(startMs / MS_PER_DAY + OLE_EPOCH_DAYS).toFixed(10)}`,
+    `;$COLUMNS=${TRC_COLUMNS_V21.join(',')}`,
+    ';',
+    ';   Generated by CommWatch',
+    ';',
+  ];
+}
+
+// TRC numbers messages from 1
+function trcLine({ frame, can }: LogEntry, first: bigint, number: number): string {
+  const type = can.rtr ? 'RR' : !can.fd ? 'DT' : can.brs && can.esi ? 'BI' : can.brs ? 'FB' : can.esi ? 'FE' : 'FD';
+  const offset = formatSeconds((frame.timestamp - first) * 1000n, 3);
+  return [
+    String(number).padStart(7),
+    offset.padStart(13),
+    type,
+    '1',
+    formatId(can, 4).padStart(8),
+    frame.direction === 'tx' ? 'Tx' : 'Rx',
+    '-',
+    String(can.dlc).padStart(2),
+    '  ' + (can.rtr ? '' : formatBytes(can.data)),
+  ].join(' ').trimEnd();
+}
+
+// packages/pcapng/src/index.ts
+export * from './constants';
+export { PcapngWriter, writePcapng } from './writer';
+export type { PcapngWriterOptions, PcapngInterfaceOptions } from './writer';
+export { readCapture, toProtocolFrames, interfaceTransport } from './reader';
+export type { PcapngCapture, PcapngInterface, PcapngPacket, ProtocolFramesOptions } from './reader';
+export { linkTypeFor, transportForLinkType, encodeLinkPayload, decodeLinkPayload } from './link-layer';
+export type { UdpEndpoints, LinkPayload } from './link-layer';
+export { readCanLog, writeCanLog, canLogFormatFor, CanLogWriter } from './can-logs';
+export type { CanLogFormat, CanLogWriterOptions } from './can-logs';
@@ -1,4 +1,8 @@
 // packages/proto-core/src/types/transport.ts
+import type { FrameError } from './protocol';
+import type { CanIdStats } from '../utils/can-stats';
+import type { BaudDetectionOptions } from '../utils/baud-detect';
+
 export interface DeviceInfo {
   id: string;
   name: string;
@@ -17,10 +21,21 @@ export interface RxMeta {
   timestamp: bigint;
   direction: 'rx' | 'tx';
   length: number;
-  error?: string;
+  error?: FrameError; // The chunk bypasses framing and is reported with this error
+  lineState?: SerialLineState; // Control line or break event; the chunk is empty and bypasses framing
   transportSpecific?: Record<string, unknown>;
 }
 
+// Modem control (RTS, DTR) and status (CTS, DSR, DCD) lines and the break condition
+export interface SerialLineState {
+  rts?: boolean;
+  dtr?: boolean;
+  cts?: boolean;
+  dsr?: boolean;
+  dcd?: boolean;
+  break?: boolean;
+}
+
 export type Unsubscribe = () => void;
 
 export interface AdapterOpenOptions {
@@ -29,8 +44,10 @@ export interface AdapterOpenOptions {
   dataBits?: 5 | 6 | 7 | 8;
   stopBits?: 1 | 1.5 | 2;
   parity?: 'none' | 'even' | 'odd' | 'mark' | 'space';
-  flowControl?: 'none' | 'xon-xoff' | 'rts-cts' | 'dsr-dtr';
+  flowControl?: 'none' | 'xon-xoff' | 'rts-cts' | 'dsr-dtr'; // The UART adapter refuses 'dsr-dtr'
   readTimeout?: number;
+  autoBaud?: boolean | BaudDetectionOptions; // Detect baud rate and format first; they override the above
+  rs485?: Rs485Options; // Half-duplex direction control and multi-drop checks
   
   // SPI
   spiMode?: 0 | 1 | 2 | 3;
@@ -46,9 +63,13 @@ export interface AdapterOpenOptions {
   
   // CAN
   canBitrate?: number;
+  canDataBitrate?: number; // CAN-FD data phase
+  canBringUp?: boolean; // Apply the bit rates and bring the interface up (needs CAP_NET_ADMIN)
   canFD?: boolean;
   canListenOnly?: boolean;
   canFilters?: CanFilter[];
+  canIsoTp?: IsoTpOptions; // Reassemble and segment ISO-TP (ISO 15765-2) messages
+  canJ1939?: J1939Options; // Reassemble and segment J1939 transport-protocol messages
   
   // Ethernet
   ethInterface?: string;
@@ -65,6 +86,40 @@ export interface CanFilter {
   extended?: boolean;
 }
 
+export type CanBusState = 'error-active' | 'error-warning' | 'error-passive' | 'bus-off';
+
+export interface IsoTpAddress {
+  txId: number; // Our requests and flow control frames
+  rxId: number; // The peer's responses and flow control frames
+  extended?: boolean;
+}
+
+export interface IsoTpOptions {
+  pairs?: IsoTpAddress[]; // Defaults to the OBD-II/UDS pairs 0x7E0-0x7E7 <-> 0x7E8-0x7EF
+  blockSize?: number; // BS sent in our flow control frames, 0 = no limit
+  stMin?: number; // STmin sent in our flow control frames, in ms
+  timeoutMs?: number; // N_Bs and N_Cr
+  padding?: number | null; // Fill byte for short frames (default 0xCC), null to send them unpadded
+  listenOnly?: boolean; // Reassemble both directions and never send flow control
+  maxMessageLength?: number; // Longer first frames are refused with an overflow flow control, default 1 MiB
+}
+
+export interface J1939Options {
+  address?: number; // Our source address; RTS/CTS sessions to it are answered. Listen only if unset
+  timeoutMs?: number; // Between frames of a session (T1-T4), default 1250
+}
+
+// Half-duplex RS-485 through a UART and a transceiver
+export interface Rs485Options {
+  rtsDriverEnable?: boolean; // Assert RTS as the driver enable (DE) while sending, default true
+  rtsActiveLow?: boolean; // DE is enabled by RTS low
+  delayBeforeSendMs?: number; // After enabling the driver, before the first byte
+  delayAfterSendMs?: number; // After the last byte has left the UART, before releasing the driver
+  suppressEcho?: boolean; // The receiver stays enabled while sending; drop our echo and report mismatches as collisions
+  turnaroundMs?: number; // Minimum bus silence between frames: waited for before sending, shorter gaps are reported
+  addressField?: string; // Decoded field with the node address for the multi-drop view, default 'address'
+}
+
 export interface AdapterHandle {
   write(frame: Uint8Array): Promise<void>;
   read(cb: (chunk: Uint8Array, meta?: RxMeta) => void): Unsubscribe;
@@ -73,6 +128,14 @@ export interface AdapterHandle {
   getStats(): Promise<AdapterStats>;
 }
 
+// Serial handles that drive and watch the modem lines; changes also reach read() as lineState events
+export interface SerialLineControl {
+  setSignals(signals: { rts?: boolean; dtr?: boolean }): Promise<void>;
+  getSignals(): Promise<SerialLineState>;
+  onSignals(cb: (changed: SerialLineState) => void): Unsubscribe; // Input lines are watched while subscribed
+  sendBreak(durationMs?: number): Promise<void>;
+}
+
 export interface AdapterStats {
   bytesRx: number;
   bytesTx: number;
@@ -80,6 +143,13 @@ export interface AdapterStats {
   messagesTx: number;
   errors: number;
   uptime: number;
+
+  // CAN controller error counters and state, from SocketCAN error frames
+  canTxErrors?: number; // TEC
+  canRxErrors?: number; // REC
+  canBusState?: CanBusState;
+  canBusLoad?: number; // Percent, over the last second
+  canIds?: CanIdStats[];
 }
 
 export interface TransportAdapter {
@@ -90,10 +160,12 @@ export interface TransportAdapter {
   open(dev: DeviceInfo, options: AdapterOpenOptions): Promise<AdapterHandle>;
   supportsSimulation(): boolean;
   createSimulator?(config: SimulatorConfig): Promise<AdapterHandle>;
+  // Publishes device:connected/device:disconnected on the bus as devices appear and vanish
+  watchDevices?(intervalMs?: number): Unsubscribe;
 }
 
 export interface SimulatorConfig {
-  mode: 'loopback' | 'scripted' | 'burst' | 'error-inject';
+  mode: 'loopback' | 'scripted' | 'burst' | 'error-inject' | 'ecu';
   script?: SimulatorScript;
   errorRate?: number;
   burstSize?: number;
@@ -120,6 +192,7 @@ export interface ProtocolFrame {
   raw: Uint8Array;
   decoded?: DecodedFrame;
   error?: FrameError;
+  source?: string; // Id of the device session that captured the frame
 }
 
 export interface DecodedFrame {
@@ -127,6 +200,7 @@ export interface DecodedFrame {
   fields: FrameField[];
   checksum?: ChecksumInfo;
   metadata?: Record<string, unknown>;
+  layers?: DecodedFrame[]; // Set by decoder stacks, outermost first
 }
 
 export interface FrameField {
@@ -137,6 +211,7 @@ export interface FrameField {
   offset: number;
   scaling?: number;
   unit?: string;
+  label?: string; // Enum name for the value, if any
 }
 
 export interface ChecksumInfo {
@@ -158,6 +233,7 @@ export interface ProtocolDecoder {
   decode(raw: Uint8Array): DecodedFrame | null;
   encode(fields: FrameField[]): Uint8Array;
   validate(raw: Uint8Array): FrameError | null;
+  score?(raw: Uint8Array): number; // Confidence in [0, 1] used by auto-detection
 }
 
 // packages/proto-core/src/utils/crc.ts
@@ -208,124 +284,3695 @@ export class CRCCalculator {
   }
 }
 
-// packages/proto-core/src/message-bus/events.ts
-export type MessageBusEvent = 
-  | { type: 'device:connected'; device: DeviceInfo }
-  | { type: 'device:disconnected'; deviceId: string }
-  | { type: 'device:error'; deviceId: string; error: string }
-  | { type: 'frame:received'; frame: ProtocolFrame }
-  | { type: 'frame:sent'; frame: ProtocolFrame }
-  | { type: 'frame:error'; frame: ProtocolFrame; error: FrameError }
-  | { type: 'stats:update'; deviceId: string; stats: AdapterStats };
+// packages/proto-core/src/utils/can-frame.ts
+// Internal CAN frames are [ID(4)] [DLC(1)] [DATA]. As in SocketCAN, the top bits
+// of the ID carry the extended and remote flags; the DLC byte carries the CAN-FD
+// flags above the 4-bit DLC code. Classic frames without flags keep the plain
+// [ID] [LEN] [DATA] layout, and unflagged IDs above 0x7FF are read as extended.
+// Reassembled ISO-TP messages use the same ID and a DLC byte of CAN_FRAME_ISOTP,
+// with the payload running to the end of the frame. J1939 transport-protocol
+// messages are reassembled into the same form.
+export const CAN_FRAME_EFF = 0x80000000;
+export const CAN_FRAME_RTR = 0x40000000;
+export const CAN_FRAME_ID_MASK = 0x1FFFFFFF;
 
-export type MessageBusListener = (event: MessageBusEvent) => void;
+export const CAN_FRAME_FD = 0x80;
+export const CAN_FRAME_BRS = 0x40;
+export const CAN_FRAME_ESI = 0x20;
+export const CAN_FRAME_ISOTP = 0x10;
+export const CAN_FRAME_DLC_MASK = 0x0F;
 
-export class MessageBus {
-  private listeners: Map<string, Set<MessageBusListener>> = new Map();
-  private allListeners: Set<MessageBusListener> = new Set();
+export const CAN_MAX_DLEN = 8;
+export const CANFD_MAX_DLEN = 64;
 
-  on(eventType: MessageBusEvent['type'] | '*', listener: MessageBusListener): Unsubscribe {
-    if (eventType === '*') {
-      this.allListeners.add(listener);
-      return () => this.allListeners.delete(listener);
+const CANFD_LENGTHS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 12, 16, 20, 24, 32, 48, 64];
+
+export interface CanFrame {
+  id: number;
+  ext: boolean;
+  rtr: boolean;
+  fd: boolean;
+  brs: boolean;
+  esi: boolean;
+  dlc: number;
+  data: Uint8Array;
+}
+
+export interface CanFrameInit {
+  id: number;
+  data?: Uint8Array | number[];
+  ext?: boolean;
+  rtr?: boolean;
+  fd?: boolean;
+  brs?: boolean;
+  esi?: boolean;
+  // DLC code; derived from the data length if omitted, required for remote frames
+  dlc?: number;
+}
+
+export function canDlcToLength(dlc: number, fd = false): number {
+  return fd ? CANFD_LENGTHS[dlc & CAN_FRAME_DLC_MASK] : Math.min(dlc & CAN_FRAME_DLC_MASK, CAN_MAX_DLEN);
+}
+
+// Smallest DLC code whose payload fits `length` bytes (CAN-FD pads up to it)
+export function canLengthToDlc(length: number): number {
+  const dlc = CANFD_LENGTHS.findIndex(l => l >= length);
+  if (dlc < 0) {
+    throw new Error(`CAN payload too long: ${length} bytes (max ${CANFD_MAX_DLEN})`);
+  }
+  return dlc;
+}
+
+export function encodeCanFrame(init: CanFrameInit): Uint8Array {
+  const source = init.data instanceof Uint8Array ? init.data : new Uint8Array(init.data || []);
+  const ext = init.ext ?? init.id > 0x7FF;
+  const rtr = init.rtr ?? false;
+  const fd = init.fd ?? source.length > CAN_MAX_DLEN;
+  const brs = init.brs ?? false;
+  const esi = init.esi ?? false;
+
+  if (init.id < 0 || init.id > (ext ? CAN_FRAME_ID_MASK : 0x7FF)) {
+    throw new Error(`Invalid ${ext ? 'extended' : 'standard'} CAN ID: 0x${init.id.toString(16).toUpperCase()}`);
+  }
+  if (fd && rtr) {
+    throw new Error('CAN-FD frames cannot be remote frames');
+  }
+  if (!fd && (brs || esi)) {
+    throw new Error('BRS and ESI flags require a CAN-FD frame');
+  }
+  if (!fd && source.length > CAN_MAX_DLEN) {
+    throw new Error(`Classic CAN payload too long: ${source.length} bytes (max ${CAN_MAX_DLEN})`);
+  }
+
+  const dlc = init.dlc ?? (rtr ? 0 : canLengthToDlc(source.length));
+  if (dlc < 0 || dlc > (fd ? CAN_FRAME_DLC_MASK : CAN_MAX_DLEN)) {
+    throw new Error(`Invalid DLC: ${dlc} (max ${fd ? CAN_FRAME_DLC_MASK : CAN_MAX_DLEN})`);
+  }
+
+  const length = rtr ? 0 : canDlcToLength(dlc, fd);
+  const id = (init.id | (ext ? CAN_FRAME_EFF : 0) | (rtr ? CAN_FRAME_RTR : 0)) >>> 0;
+
+  // Payloads shorter than the DLC length are zero-padded
+  const frame = new Uint8Array(5 + length);
+  frame[0] = (id >>> 24) & 0xFF;
+  frame[1] = (id >> 16) & 0xFF;
+  frame[2] = (id >> 8) & 0xFF;
+  frame[3] = id & 0xFF;
+  frame[4] = dlc | (fd ? CAN_FRAME_FD : 0) | (brs ? CAN_FRAME_BRS : 0) | (esi ? CAN_FRAME_ESI : 0);
+  frame.set(source.slice(0, length), 5);
+  return frame;
+}
+
+export function decodeCanFrame(raw: Uint8Array): CanFrame | null {
+  if (raw.length < 5 || raw[4] === CAN_FRAME_ISOTP) return null;
+
+  const word = ((raw[0] << 24) | (raw[1] << 16) | (raw[2] << 8) | raw[3]) >>> 0;
+  const id = word & CAN_FRAME_ID_MASK;
+  const rtr = (word & CAN_FRAME_RTR) !== 0;
+  const fd = (raw[4] & CAN_FRAME_FD) !== 0;
+  const dlc = raw[4] & CAN_FRAME_DLC_MASK;
+
+  return {
+    id,
+    ext: (word & CAN_FRAME_EFF) !== 0 || id > 0x7FF,
+    rtr,
+    fd,
+    brs: (raw[4] & CAN_FRAME_BRS) !== 0,
+    esi: (raw[4] & CAN_FRAME_ESI) !== 0,
+    dlc,
+    data: raw.slice(5, 5 + (rtr ? 0 : canDlcToLength(dlc, fd))),
+  };
+}
+
+export interface IsoTpMessage {
+  id: number;
+  ext: boolean;
+  data: Uint8Array;
+}
+
+export function encodeIsoTpMessage(message: { id: number; ext?: boolean; data: Uint8Array | number[] }): Uint8Array {
+  const ext = message.ext ?? message.id > 0x7FF;
+  const id = (message.id | (ext ? CAN_FRAME_EFF : 0)) >>> 0;
+  const raw = new Uint8Array(5 + message.data.length);
+  raw[0] = (id >>> 24) & 0xFF;
+  raw[1] = (id >> 16) & 0xFF;
+  raw[2] = (id >> 8) & 0xFF;
+  raw[3] = id & 0xFF;
+  raw[4] = CAN_FRAME_ISOTP;
+  raw.set(message.data, 5);
+  return raw;
+}
+
+// Null for anything but a reassembled ISO-TP message
+export function decodeIsoTpMessage(raw: Uint8Array): IsoTpMessage | null {
+  if (raw.length < 5 || raw[4] !== CAN_FRAME_ISOTP) return null;
+
+  const word = ((raw[0] << 24) | (raw[1] << 16) | (raw[2] << 8) | raw[3]) >>> 0;
+  const id = word & CAN_FRAME_ID_MASK;
+  return { id, ext: (word & CAN_FRAME_EFF) !== 0 || id > 0x7FF, data: raw.slice(5) };
+}
+
+// Transport-specific RxMeta fields shared by the CAN handle and simulator
+export function canFrameMeta(frame: CanFrame): Record<string, unknown> {
+  return {
+    canId: frame.id,
+    canExt: frame.ext,
+    canRtr: frame.rtr,
+    canFd: frame.fd,
+    canBrs: frame.brs,
+    canEsi: frame.esi,
+    canDlc: frame.dlc,
+  };
+}
+
+// packages/proto-core/src/utils/can-stats.ts
+import type { CanFrame } from './can-frame';
+import { decodeCanFrame } from './can-frame';
+
+// CRC delimiter, ACK slot and delimiter, end of frame and intermission
+const FRAME_TRAILER_BITS = 13;
+
+export interface CanFrameBits {
+  nominal: number; // Bits at the arbitration bit rate
+  data: number; // Bits at the data bit rate (CAN-FD with BRS only)
+}
+
+export interface CanIdStats {
+  id: number;
+  ext: boolean;
+  count: number;
+  rate: number; // Messages per second since the first one
+  period?: number; // Mean interval in ms, after two messages
+  minInterval?: number; // ms
+  maxInterval?: number; // ms
+  jitter?: number; // Standard deviation of the interval in ms
+  missing: boolean; // Cyclic message overdue by more than missingFactor periods
+  missed: number; // Intervals that exceeded missingFactor periods
+  lastSeen: number; // ms, on the clock of the frame timestamps
+  dlc: number;
+}
+
+export interface CanBusStats {
+  bitrate: number;
+  busLoad: number; // Percent of the bus time used over the last window
+  peakBusLoad: number;
+  frames: number;
+  ids: CanIdStats[]; // Sorted by ID, standard before extended at the same value
+}
+
+export interface CanBusStatisticsOptions {
+  bitrate?: number; // Default 500 kbit/s
+  dataBitrate?: number; // CAN-FD data phase; defaults to bitrate
+  windowMs?: number; // Bus load averaging window, default 1000
+  missingFactor?: number; // Default 3
+}
+
+interface IdState {
+  id: number;
+  ext: boolean;
+  count: number;
+  first: number;
+  last: number;
+  dlc: number;
+  intervals: number;
+  mean: number; // Running mean and squared deviations of the interval (Welford)
+  m2: number;
+  min: number;
+  max: number;
+  missed: number;
+}
+
+// Bits from the start of frame to the end of the data field, before stuffing
+function frameBits(frame: CanFrame): number[] {
+  const bits: number[] = [0]; // SOF
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  if (frame.ext) {
+    push(frame.id >>> 18, 11);
+    push(1, 1); // SRR
+    push(1, 1); // IDE
+    push(frame.id & 0x3FFFF, 18);
+    push(frame.fd ? 0 : Number(frame.rtr), 1); // RTR, or RRS in CAN-FD
+    push(frame.fd ? 1 : 0, 1); // FDF, or r1 in classic frames
+  } else {
+    push(frame.id, 11);
+    push(frame.fd ? 0 : Number(frame.rtr), 1);
+    push(0, 1); // IDE
+    push(frame.fd ? 1 : 0, 1); // FDF, or r0
+  }
+
+  if (frame.fd) {
+    push(0, 1); // res
+    push(Number(frame.brs), 1);
+    push(Number(frame.esi), 1);
+  } else if (frame.ext) {
+    push(0, 1); // r0
+  }
+
+  push(frame.dlc, 4);
+  frame.data.forEach(byte => push(byte, 8));
+  return bits;
+}
+
+// Stuff bits a transmitter inserts after every five equal bits
+function stuffBits(bits: number[]): number {
+  let count = 0;
+  let run = 0;
+  let previous = -1;
+  for (const bit of bits) {
+    run = bit === previous ? run + 1 : 1;
+    previous = bit;
+    if (run === 5) {
+      count++;
+      previous = 1 - bit; // The stuff bit starts the next run
+      run = 1;
     }
+  }
+  return count;
+}
 
-    if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, new Set());
+function crc15(bits: number[]): number {
+  let crc = 0;
+  for (const bit of bits) {
+    const next = bit ^ ((crc >> 14) & 1);
+    crc = (crc << 1) & 0x7FFF;
+    if (next) crc ^= 0x4599;
+  }
+  return crc;
+}
+
+/**
+ * Length of a frame on the wire, including stuff bits. Classic frames are
+ * stuffed exactly (the CRC is computed); CAN-FD frames use the dynamic
+ * stuffing up to the data field and the fixed stuff bits of the CRC field.
+ */
+export function canFrameBits(frame: CanFrame): CanFrameBits {
+  const bits = frameBits(frame);
+
+  if (!frame.fd) {
+    const crc = crc15(bits);
+    for (let i = 14; i >= 0; i--) bits.push((crc >> i) & 1);
+    return { nominal: bits.length + stuffBits(bits) + FRAME_TRAILER_BITS, data: 0 };
+  }
+
+  // Stuff count (4), CRC-17 or CRC-21, and a fixed stuff bit every 4 bits
+  const crcBits = frame.data.length > 16 ? 21 : 17;
+  const crcField = 4 + crcBits + Math.ceil((4 + crcBits) / 4);
+  const total = bits.length + stuffBits(bits) + crcField;
+  if (!frame.brs) {
+    return { nominal: total + FRAME_TRAILER_BITS, data: 0 };
+  }
+
+  // The data phase runs from the BRS bit to the CRC delimiter
+  const arbitration = frame.ext ? 36 : 17;
+  return { nominal: arbitration + FRAME_TRAILER_BITS, data: total - arbitration };
+}
+
+/**
+ * Bus load and per-ID timing from a stream of CAN frames: message rate,
+ * period, jitter and min/max interval, and cyclic messages that stopped.
+ * Frames that are not plain CAN frames (e.g. reassembled ISO-TP messages)
+ * are ignored.
+ */
+export class CanBusStatistics {
+  private ids: Map<string, IdState> = new Map();
+  private window: { time: number; busy: number }[] = []; // ms, µs of bus time
+  private busy = 0;
+  private peak = 0;
+  private frames = 0;
+
+  constructor(private options: CanBusStatisticsOptions = {}) {}
+
+  get bitrate(): number {
+    return this.options.bitrate ?? 500_000;
+  }
+
+  // Timestamps are in ns, as in RxMeta and ProtocolFrame
+  add(raw: Uint8Array, timestamp: bigint): void {
+    const frame = decodeCanFrame(raw);
+    if (!frame) return;
+
+    const time = Number(timestamp) / 1e6;
+    const bits = canFrameBits(frame);
+    const busy = (bits.nominal / this.bitrate + bits.data / (this.options.dataBitrate ?? this.bitrate)) * 1e6;
+
+    this.frames++;
+    this.window.push({ time, busy });
+    this.busy += busy;
+    this.trim(time);
+    this.peak = Math.max(this.peak, this.load());
+
+    const key = `${frame.ext ? 'x' : 's'}${frame.id}`;
+    const state = this.ids.get(key);
+    if (!state) {
+      this.ids.set(key, {
+        id: frame.id,
+        ext: frame.ext,
+        count: 1,
+        first: time,
+        last: time,
+        dlc: frame.dlc,
+        intervals: 0,
+        mean: 0,
+        m2: 0,
+        min: Infinity,
+        max: 0,
+        missed: 0,
+      });
+      return;
     }
-    this.listeners.get(eventType)!.add(listener);
 
-    return () => {
-      const set = this.listeners.get(eventType);
-      if (set) {
-        set.delete(listener);
-        if (set.size === 0) {
-          this.listeners.delete(eventType);
+    const interval = time - state.last;
+    if (state.intervals >= 2 && interval > state.mean * this.missingFactor) {
+      state.missed++;
+    }
+    state.intervals++;
+    const delta = interval - state.mean;
+    state.mean += delta / state.intervals;
+    state.m2 += delta * (interval - state.mean);
+    state.min = Math.min(state.min, interval);
+    state.max = Math.max(state.max, interval);
+    state.count++;
+    state.last = time;
+    state.dlc = frame.dlc;
+  }
+
+  // `now` in ns; defaults to the last frame, so recorded sessions report as of their end
+  snapshot(now?: bigint): CanBusStats {
+    const last = Math.max(0, ...[...this.ids.values()].map(s => s.last));
+    const time = now === undefined ? last : Number(now) / 1e6;
+    this.trim(time);
+
+    const ids = [...this.ids.values()]
+      .sort((a, b) => a.id - b.id || Number(a.ext) - Number(b.ext))
+      .map(state => this.idStats(state, time));
+
+    return {
+      bitrate: this.bitrate,
+      busLoad: round(this.load()),
+      peakBusLoad: round(this.peak),
+      frames: this.frames,
+      ids,
+    };
+  }
+
+  reset(): void {
+    this.ids.clear();
+    this.window = [];
+    this.busy = 0;
+    this.peak = 0;
+    this.frames = 0;
+  }
+
+  private get missingFactor(): number {
+    return this.options.missingFactor ?? 3;
+  }
+
+  private get windowMs(): number {
+    return this.options.windowMs ?? 1000;
+  }
+
+  private load(): number {
+    return Math.min(100, (this.busy / 1000 / this.windowMs) * 100);
+  }
+
+  private trim(time: number): void {
+    while (this.window.length > 0 && this.window[0].time <= time - this.windowMs) {
+      this.busy -= this.window.shift()!.busy;
+    }
+  }
+
+  private idStats(state: IdState, time: number): CanIdStats {
+    const elapsed = state.last - state.first;
+    const stats: CanIdStats = {
+      id: state.id,
+      ext: state.ext,
+      count: state.count,
+      rate: elapsed > 0 ? round((state.count - 1) / (elapsed / 1000)) : 0,
+      missing: state.intervals >= 2 && time - state.last > state.mean * this.missingFactor,
+      missed: state.missed,
+      lastSeen: round(state.last),
+      dlc: state.dlc,
+    };
+
+    if (state.intervals > 0) {
+      stats.period = round(state.mean);
+      stats.minInterval = round(state.min);
+      stats.maxInterval = round(state.max);
+      stats.jitter = round(Math.sqrt(state.m2 / state.intervals));
+    }
+    return stats;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// packages/proto-core/src/utils/serial-lines.ts
+import type { AdapterHandle, SerialLineControl, SerialLineState } from '../types/transport';
+import type { DecodedFrame, FrameField } from '../types/protocol';
+
+const LINES: Array<keyof SerialLineState> = ['rts', 'dtr', 'cts', 'dsr', 'dcd', 'break'];
+
+export function hasSerialLines(handle: AdapterHandle): handle is AdapterHandle & SerialLineControl {
+  const lines = handle as Partial<SerialLineControl>;
+  return typeof lines.setSignals === 'function' && typeof lines.onSignals === 'function';
+}
+
+// Decoding of the empty frames that carry a control line event (RxMeta.lineState)
+export function decodeLineState(state: SerialLineState): DecodedFrame {
+  const fields: FrameField[] = LINES
+    .filter(line => state[line] !== undefined)
+    .map(line => ({
+      name: line,
+      value: state[line] ? 1 : 0,
+      type: 'uint8',
+      raw: new Uint8Array(0),
+      offset: 0,
+      label: state[line] ? 'on' : 'off',
+    }));
+
+  return { protocol: 'serial-lines', fields, metadata: { lineState: state } };
+}
+
+// "RTS off, DTR on"
+export function formatLineState(state: SerialLineState): string {
+  return LINES
+    .filter(line => state[line] !== undefined)
+    .map(line => `${line.toUpperCase()} ${state[line] ? 'on' : 'off'}`)
+    .join(', ');
+}
+
+// packages/proto-core/src/utils/baud-detect.ts
+import type { ProtocolDecoder } from '../types/protocol';
+import type { FramerConfig } from '../framing/framers';
+import { createFramer } from '../framing/framers';
+import { scoreDecoder } from '../decoding/registry';
+
+export const STANDARD_BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600];
+
+export type SerialFormat = '8N1' | '7E1';
+
+export const SERIAL_FORMATS: Record<SerialFormat, { dataBits: 7 | 8; parity: 'none' | 'even'; stopBits: 1 }> = {
+  '8N1': { dataBits: 8, parity: 'none', stopBits: 1 },
+  '7E1': { dataBits: 7, parity: 'even', stopBits: 1 },
+};
+
+export interface BaudDetectionOptions {
+  rates?: number[]; // Default STANDARD_BAUD_RATES
+  formats?: SerialFormat[]; // Default 8N1 only; earlier formats win ties
+  sampleMs?: number; // Listening time per candidate, default 500
+  minBytes?: number; // Samples with fewer bytes are scored down in proportion, default 8
+  framer?: FramerConfig; // Splits samples into frames for the decoders
+  decoders?: ProtocolDecoder[];
+}
+
+// What was received with one candidate setting
+export interface BaudSample {
+  baudRate: number;
+  format: SerialFormat;
+  data: Uint8Array;
+  framingErrors: number | null; // null where the kernel keeps no counters, see readLineCounters
+  parityErrors: number | null;
+}
+
+export interface BaudCandidate {
+  baudRate: number;
+  format: SerialFormat;
+  score: number; // [0, 1]
+  bytes: number;
+  framingErrors: number | null;
+  parityErrors: number | null;
+  printableRatio: number;
+  frames: number;
+  decoderHits: number; // Frames a decoder scored at least 0.5
+}
+
+export interface BaudDetectionResult {
+  best: BaudCandidate | null; // null when nothing scored above 0
+  candidates: BaudCandidate[]; // Best first
+}
+
+const MIN_DECODER_SCORE = 0.5;
+const DEFAULT_MIN_BYTES = 8;
+
+function isPrintable(byte: number): boolean {
+  return (byte >= 0x20 && byte <= 0x7E) || byte === 0x09 || byte === 0x0A || byte === 0x0D;
+}
+
+/**
+ * Scores a sample by how much of it survived without line errors, times the
+ * better of its printable ratio (text consoles) and the share of frames a
+ * decoder recognises (binary protocols). A wrong baud rate shows up as line
+ * errors and as 0x00/0xFF/0x80-heavy garbage that neither test accepts.
+ * Samples shorter than `minBytes` are scaled down so that a stray byte or two
+ * that happen to be printable cannot outscore a real stream.
+ */
+export function scoreBaudSample(
+  sample: BaudSample,
+  options: Pick<BaudDetectionOptions, 'framer' | 'decoders' | 'minBytes'> = {}
+): BaudCandidate {
+  const { data } = sample;
+  const errors = (sample.framingErrors ?? 0) + (sample.parityErrors ?? 0);
+  const printable = data.filter(isPrintable).length;
+  const printableRatio = data.length > 0 ? printable / data.length : 0;
+
+  let frames = 0;
+  let decoderHits = 0;
+  if (options.framer && options.decoders?.length && data.length > 0) {
+    const framer = createFramer(options.framer);
+    const framed = [...framer.push(data, 0n), ...framer.flush()].filter(f => !f.error);
+    frames = framed.length;
+    decoderHits = framed.filter(f =>
+      options.decoders!.some(decoder => scoreDecoder(decoder, f.data) >= MIN_DECODER_SCORE)
+    ).length;
+  }
+
+  const clean = data.length > 0 ? data.length / (data.length + errors) : 0;
+  const hitRatio = frames > 0 ? decoderHits / frames : 0;
+  const amount = Math.min(1, data.length / Math.max(1, options.minBytes ?? DEFAULT_MIN_BYTES));
+
+  return {
+    baudRate: sample.baudRate,
+    format: sample.format,
+    score: clean * Math.max(printableRatio, hitRatio) * amount,
+    bytes: data.length,
+    framingErrors: sample.framingErrors,
+    parityErrors: sample.parityErrors,
+    printableRatio,
+    frames,
+    decoderHits,
+  };
+}
+
+// Orders candidates by score, then by the amount of data; ties keep the sampling order
+export function rankBaudCandidates(candidates: BaudCandidate[]): BaudDetectionResult {
+  const ranked = [...candidates].sort((a, b) => b.score - a.score || b.bytes - a.bytes);
+  return {
+    best: ranked.length > 0 && ranked[0].score > 0 ? ranked[0] : null,
+    candidates: ranked,
+  };
+}
+
+// "115200 8N1 (score 0.97, 512 bytes, 0 line errors)"
+export function formatBaudCandidate(candidate: BaudCandidate): string {
+  const errors = candidate.framingErrors === null || candidate.parityErrors === null
+    ? 'line errors unavailable'
+    : `${candidate.framingErrors + candidate.parityErrors} line errors`;
+  const hits = candidate.frames > 0 ? `, ${candidate.decoderHits}/${candidate.frames} frames decoded` : '';
+  return `${candidate.baudRate} ${candidate.format} (score ${candidate.score.toFixed(2)}, ` +
+    `${candidate.bytes} bytes, ${errors}${hits})`;
+}
+
+// packages/proto-core/src/utils/reconnect.ts
+import type {
+  AdapterHandle,
+  AdapterOpenOptions,
+  AdapterStats,
+  DeviceInfo,
+  RxMeta,
+  TransportAdapter,
+  Unsubscribe,
+} from '../types/transport';
+import type { MessageBus } from '../message-bus/events';
+
+/**
+ * Identity of the physical device: USB vendor, product and serial number
+ * where the adapter reports them, otherwise the path. A board that resets
+ * can come back under another path (ttyUSB0 → ttyUSB1) with the same key.
+ */
+export function physicalDeviceKey(dev: DeviceInfo): string {
+  if (dev.vendorId && dev.productId && dev.serialNumber) {
+    return `${dev.type}:${dev.vendorId}:${dev.productId}:${dev.serialNumber}`.toLowerCase();
+  }
+  return `${dev.type}:${dev.path ?? dev.id}`;
+}
+
+export function isSameDevice(a: DeviceInfo, b: DeviceInfo): boolean {
+  return physicalDeviceKey(a) === physicalDeviceKey(b);
+}
+
+export interface ReconnectOptions {
+  watchDevices?: boolean; // Run the adapter's device watcher while open, if nothing else publishes hot-plug events
+  reopenAttempts?: number; // Per device:connected, default 5
+  reopenBackoffMs?: number; // Before the second attempt, doubling after each failure; default 200
+  onDisconnect?: () => void;
+  onReconnect?: (handle: AdapterHandle, device: DeviceInfo) => void; // The new inner handle
+}
+
+const COUNTERS = ['bytesRx', 'bytesTx', 'messagesRx', 'messagesTx', 'errors'] as const;
+
+/**
+ * Keeps a handle usable across unplug and replug. On device:disconnected for
+ * its device the inner handle is dropped; on device:connected for the same
+ * physical device (published by a device watcher) it is reopened with the
+ * same options. Read callbacks stay subscribed and stats keep counting.
+ */
+export class ReconnectingHandle implements AdapterHandle {
+  private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
+  private handle: AdapterHandle | null = null;
+  private unsubscribeRead: Unsubscribe | null = null;
+  private subscriptions: Unsubscribe[]; // Bus listeners and the device watcher
+  private previous: AdapterStats | null = null; // Totals of the handles before the current one
+  private opening = false;
+  private closed = false;
+  private closing = new AbortController(); // Cuts a reopen backoff short
+  private reopening: Promise<void> | null = null;
+
+  private constructor(
+    private adapter: TransportAdapter,
+    private dev: DeviceInfo,
+    private options: AdapterOpenOptions,
+    private bus: MessageBus,
+    private reconnect: ReconnectOptions
+  ) {
+    this.subscriptions = [
+      bus.on('device:disconnected', event => {
+        if (event.deviceId === this.dev.id && !this.opening) {
+          this.detach().catch(error => console.error('Error detaching device:', error));
+        }
+      }),
+      bus.on('device:connected', event => {
+        if (!this.handle && !this.opening && !this.closed && isSameDevice(event.device, this.dev)) {
+          this.reopening = this.reopen(event.device)
+            .catch(error => console.error('Error reopening device:', error))
+            .finally(() => {
+              this.reopening = null;
+            });
         }
+      }),
+    ];
+  }
+
+  static async open(
+    adapter: TransportAdapter,
+    dev: DeviceInfo,
+    options: AdapterOpenOptions,
+    bus: MessageBus,
+    reconnect: ReconnectOptions = {}
+  ): Promise<ReconnectingHandle> {
+    const wrapper = new ReconnectingHandle(adapter, dev, options, bus, reconnect);
+    try {
+      wrapper.attach(await adapter.open(dev, options));
+    } catch (error) {
+      wrapper.subscriptions.forEach(unsubscribe => unsubscribe());
+      throw error;
+    }
+
+    if (reconnect.watchDevices) {
+      if (!adapter.watchDevices) {
+        await wrapper.close();
+        throw new Error(`${adapter.name} cannot watch for devices`);
       }
-    };
+      wrapper.subscriptions.push(adapter.watchDevices());
+    }
+    return wrapper;
   }
 
-  emit(event: MessageBusEvent): void {
-    // Notify type-specific listeners
-    const typeListeners = this.listeners.get(event.type);
-    if (typeListeners) {
-      typeListeners.forEach(listener => {
+  get connected(): boolean {
+    return this.handle !== null;
+  }
+
+  // The handle of the current connection, null while the device is away
+  get current(): AdapterHandle | null {
+    return this.handle;
+  }
+
+  get device(): DeviceInfo {
+    return this.dev;
+  }
+
+  private attach(handle: AdapterHandle): void {
+    this.handle = handle;
+    this.unsubscribeRead = handle.read((chunk, meta) => {
+      this.readCallbacks.forEach(cb => {
         try {
-          listener(event);
+          cb(chunk, meta);
         } catch (error) {
-          console.error(`Error in listener for ${event.type}:`, error);
+          console.error('Error in read callback:', error);
         }
       });
-    }
+    });
+  }
 
-    // Notify wildcard listeners
-    this.allListeners.forEach(listener => {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error('Error in wildcard listener:', error);
+  private async detach(): Promise<void> {
+    const handle = this.handle;
+    if (!handle) return;
+
+    this.handle = null;
+    this.unsubscribeRead?.();
+    this.unsubscribeRead = null;
+
+    const stats = await handle.getStats().catch(() => null);
+    if (stats) this.previous = this.sum(stats);
+    // Usually already closed by the unplug
+    await handle.close().catch(() => undefined);
+
+    this.reconnect.onDisconnect?.();
+  }
+
+  // Right after the device node appears, opening it can fail until udev has set
+  // its permissions or the previous user has let go (EACCES, EBUSY), so it is retried
+  private async reopen(dev: DeviceInfo): Promise<void> {
+    const attempts = this.reconnect.reopenAttempts ?? 5;
+    this.opening = true;
+    try {
+      for (let attempt = 1; !this.closed; attempt++) {
+        try {
+          const handle = await this.adapter.open(dev, this.options);
+          if (this.closed) {
+            await handle.close().catch(() => undefined);
+            return;
+          }
+          this.dev = dev;
+          this.attach(handle);
+          this.reconnect.onReconnect?.(handle, dev);
+          return;
+        } catch (error) {
+          if (attempt >= attempts) {
+            this.bus.publish('device:error', { deviceId: dev.id, error: `Reconnect failed after ${attempts} attempts: ${error}` });
+            return;
+          }
+          await this.backoff((this.reconnect.reopenBackoffMs ?? 200) * 2 ** (attempt - 1));
+        }
       }
+    } finally {
+      this.opening = false;
+    }
+  }
+
+  // Waits `ms`, or until the handle is closed
+  private backoff(ms: number): Promise<void> {
+    const { signal } = this.closing;
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done);
     });
   }
 
-  removeAllListeners(): void {
-    this.listeners.clear();
-    this.allListeners.clear();
+  private sum(stats: AdapterStats): AdapterStats {
+    if (!this.previous) return stats;
+    const total = { ...stats };
+    COUNTERS.forEach(counter => {
+      total[counter] += this.previous![counter];
+    });
+    total.uptime += this.previous.uptime;
+    return total;
   }
-}
 
-// packages/proto-core/src/schemas/config.ts
-import { z } from 'zod';
+  async write(frame: Uint8Array): Promise<void> {
+    if (!this.handle) {
+      throw new Error(`${this.dev.name} is disconnected`);
+    }
+    await this.handle.write(frame);
+  }
 
-export const DeviceConfigSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  type: z.enum(['uart', 'spi', 'i2c', 'can', 'ethernet']),
-  path: z.string().optional(),
-  options: z.record(z.unknown()),
-});
+  read(cb: (chunk: Uint8Array, meta?: RxMeta) => void): Unsubscribe {
+    this.readCallbacks.add(cb);
+    return () => {
+      this.readCallbacks.delete(cb);
+    };
+  }
 
-export const ProtocolConfigSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  decoder: z.string(),
-  fields: z.array(z.object({
-    name: z.string(),
-    type: z.string(),
-    offset: z.number(),
-    length: z.number(),
-    scaling: z.number().optional(),
-    unit: z.string().optional(),
-  })),
-});
+  async setOptions(opts: Partial<AdapterOpenOptions>): Promise<void> {
+    Object.assign(this.options, opts);
+    await this.handle?.setOptions(opts);
+  }
 
-export const SessionConfigSchema = z.object({
-  name: z.string(),
-  device: DeviceConfigSchema,
-  protocol: ProtocolConfigSchema,
-  filters: z.array(z.object({
-    type: z.enum(['regex', 'pattern', 'field']),
-    value: z.unknown(),
-    action: z.enum(['log', 'colorize', 'export', 'respond']),
-  })).optional(),
-  presets: z.array(z.object({
-    name: z.string(),
-    data: z.string(), // hex string
-    template: z.boolean().optional(),
-  })).optional(),
-});
+  // Also waits for a reopen in progress, so no handle is opened afterwards
+  async close(): Promise<void> {
+    this.closed = true;
+    this.closing.abort();
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.unsubscribeRead?.();
+    this.readCallbacks.clear();
 
-export type DeviceConfig = z.infer<typeof DeviceConfigSchema>;
-export type ProtocolConfig = z.infer<typeof ProtocolConfigSchema>;
-export type SessionConfig = z.infer<typeof SessionConfigSchema>;
+    const handle = this.handle;
+    this.handle = null;
+    await this.reopening;
+    await handle?.close();
+  }
+
+  async getStats(): Promise<AdapterStats> {
+    if (!this.handle) {
+      return this.previous ?? { bytesRx: 0, bytesTx: 0, messagesRx: 0, messagesTx: 0, errors: 0, uptime: 0 };
+    }
+    return this.sum(await this.handle.getStats());
+  }
+}
+
+// packages/proto-core/src/utils/multi-drop.ts
+import type { AdapterOpenOptions } from '../types/transport';
+import type { FrameError, ProtocolFrame } from '../types/protocol';
+import { findField } from '../rules/template';
+
+export interface MultiDropOptions {
+  addressField?: string; // Decoded field holding the node address, default 'address'
+  turnaroundMs?: number; // Minimum bus silence between frames; not checked if unset
+  charTimeMs?: number; // Time on the wire per byte, see characterTimeMs; frame starts are estimated with it
+}
+
+export interface MultiDropNodeStats {
+  address: number | string;
+  frames: number;
+  rx: number;
+  tx: number;
+  errors: number; // Frames with any error, including turnaround violations
+  lastSeen: number; // ms, on the clock of the frame timestamps
+}
+
+export interface MultiDropStats {
+  nodes: MultiDropNodeStats[]; // Sorted by address
+  frames: number;
+  unattributed: number; // Frames without a decoded address
+  collisions: number;
+  turnaroundViolations: number;
+  minGap?: number; // Shortest silence between two frames, ms
+}
+
+// Start bit, data bits, parity bit and stop bits at the configured baud rate
+export function characterTimeMs(options: AdapterOpenOptions): number {
+  const bits = 1 + (options.dataBits ?? 8) + (options.parity && options.parity !== 'none' ? 1 : 0) + (options.stopBits ?? 1);
+  return (bits * 1000) / (options.baudRate || 115200);
+}
+
+/**
+ * Attributes the frames of a multi-drop bus (RS-485) to node addresses using
+ * the decoded address field, and checks the silence before each frame against
+ * the turnaround time. Frame timestamps are when the first bytes arrived; the
+ * end of a frame is when its last bytes arrived (FramedChunk.endTimestamp),
+ * and its start is estimated back from there by its length.
+ */
+export class MultiDropTracker {
+  private nodes: Map<string, MultiDropNodeStats> = new Map();
+  private lastEnd: number | null = null;
+  private frames = 0;
+  private unattributed = 0;
+  private collisions = 0;
+  private turnaroundViolations = 0;
+  private minGap?: number;
+
+  constructor(private options: MultiDropOptions = {}) {}
+
+  static forAdapter(options: AdapterOpenOptions): MultiDropTracker {
+    return new MultiDropTracker({
+      addressField: options.rs485?.addressField,
+      turnaroundMs: options.rs485?.turnaroundMs,
+      charTimeMs: characterTimeMs(options),
+    });
+  }
+
+  addressOf(frame: ProtocolFrame): number | string | undefined {
+    const value = findField(frame.decoded, this.options.addressField ?? 'address')?.value;
+    return typeof value === 'number' || typeof value === 'string' ? value : undefined;
+  }
+
+  // Returns a turnaround violation to report on the frame, unless it already has an error
+  add(frame: ProtocolFrame, endTimestamp = frame.timestamp): FrameError | null {
+    if (frame.raw.length === 0 && !frame.error) return null; // Line events
+
+    const end = Number(endTimestamp) / 1e6;
+    // The first bytes were on the wire before they arrived
+    const start = Math.min(end - frame.raw.length * (this.options.charTimeMs ?? 0), Number(frame.timestamp) / 1e6);
+    let violation: FrameError | null = null;
+
+    if (this.lastEnd !== null && frame.raw.length > 0) {
+      const gap = start - this.lastEnd;
+      this.minGap = this.minGap === undefined ? gap : Math.min(this.minGap, gap);
+
+      const { turnaroundMs } = this.options;
+      if (turnaroundMs !== undefined && gap < turnaroundMs && !frame.error) {
+        this.turnaroundViolations++;
+        violation = {
+          code: 'RS485_TURNAROUND',
+          message: `Frame started ${Math.max(0, gap).toFixed(2)} ms after the previous one, turnaround is ${turnaroundMs} ms`,
+          severity: 'warning',
+        };
+      }
+    }
+    if (frame.raw.length > 0) {
+      this.lastEnd = this.lastEnd === null ? end : Math.max(this.lastEnd, end);
+    }
+
+    this.frames++;
+    if (frame.error?.code === 'RS485_COLLISION') this.collisions++;
+
+    const address = this.addressOf(frame);
+    if (address === undefined) {
+      this.unattributed++;
+      return violation;
+    }
+
+    const key = `${typeof address}:${address}`;
+    let node = this.nodes.get(key);
+    if (!node) {
+      node = { address, frames: 0, rx: 0, tx: 0, errors: 0, lastSeen: end };
+      this.nodes.set(key, node);
+    }
+    node.frames++;
+    node[frame.direction]++;
+    if (frame.error || violation) node.errors++;
+    node.lastSeen = end;
+
+    return violation;
+  }
+
+  snapshot(): MultiDropStats {
+    const nodes = [...this.nodes.values()]
+      .map(node => ({ ...node }))
+      .sort((a, b) => typeof a.address === typeof b.address
+        ? (a.address < b.address ? -1 : a.address > b.address ? 1 : 0)
+        : typeof a.address === 'number' ? -1 : 1);
+
+    return {
+      nodes,
+      frames: this.frames,
+      unattributed: this.unattributed,
+      collisions: this.collisions,
+      turnaroundViolations: this.turnaroundViolations,
+      minGap: this.minGap,
+    };
+  }
+
+  reset(): void {
+    this.nodes.clear();
+    this.lastEnd = null;
+    this.frames = 0;
+    this.unattributed = 0;
+    this.collisions = 0;
+    this.turnaroundViolations = 0;
+    this.minGap = undefined;
+  }
+}
+
+// packages/proto-core/src/message-bus/events.ts
+import type { DeviceInfo, AdapterStats, Unsubscribe } from '../types/transport';
+import type { ProtocolFrame, FrameError } from '../types/protocol';
+import type { FilterConfig } from '../schemas/config';
+import type { BaudDetectionResult } from '../utils/baud-detect';
+
+export interface MessageBusEventMap {
+  'device:connected': { device: DeviceInfo };
+  'device:disconnected': { deviceId: string };
+  'device:error': { deviceId: string; error: string };
+  'device:baud-detected': { deviceId: string; result: BaudDetectionResult };
+  'session:opened': { sessionId: string; device: DeviceInfo };
+  'session:closed': { sessionId: string; deviceId: string };
+  'session:reconnected': { sessionId: string; device: DeviceInfo };
+  'frame:received': { frame: ProtocolFrame };
+  'frame:sent': { frame: ProtocolFrame };
+  'frame:error': { frame: ProtocolFrame; error: FrameError };
+  'stats:update': { deviceId: string; stats: AdapterStats; sessionId?: string };
+  'rule:triggered': { rule: FilterConfig; frame: ProtocolFrame; message?: string };
+  'bus:dropped': { count: number }; // Events discarded by a full async buffer since the last report
+}
+
+export type MessageBusEventType = keyof MessageBusEventMap;
+
+export type MessageBusEventOf<T extends MessageBusEventType> = { type: T } & MessageBusEventMap[T];
+
+export type MessageBusEvent = {
+  [T in MessageBusEventType]: MessageBusEventOf<T>;
+}[MessageBusEventType];
+
+export type MessageBusListener = (event: MessageBusEvent) => void;
+
+export interface MessageBusOptions {
+  async?: boolean; // Deliver from a timer instead of inside emit(), batching bursts
+  bufferSize?: number; // Max queued events in async mode; the oldest are dropped, default 10 000
+}
+
+export class MessageBus {
+  private listeners: Map<string, Set<MessageBusListener>> = new Map();
+  private allListeners: Set<MessageBusListener> = new Set();
+  private queue: MessageBusEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private droppedEvents = 0;
+  private reportedDrops = 0;
+
+  constructor(private options: MessageBusOptions = {}) {}
+
+  // Events discarded because the async buffer was full
+  get dropped(): number {
+    return this.droppedEvents;
+  }
+
+  on<T extends MessageBusEventType>(eventType: T, listener: (event: MessageBusEventOf<T>) => void): Unsubscribe;
+  on(eventType: '*', listener: MessageBusListener): Unsubscribe;
+  on(eventType: MessageBusEventType | '*', listener: MessageBusListener): Unsubscribe {
+    if (eventType === '*') {
+      this.allListeners.add(listener);
+      return () => this.allListeners.delete(listener);
+    }
+
+    if (!this.listeners.has(eventType)) {
+      this.listeners.set(eventType, new Set());
+    }
+    this.listeners.get(eventType)!.add(listener);
+
+    return () => {
+      const set = this.listeners.get(eventType);
+      if (set) {
+        set.delete(listener);
+        if (set.size === 0) {
+          this.listeners.delete(eventType);
+        }
+      }
+    };
+  }
+
+  emit(event: MessageBusEvent): void {
+    if (!this.options.async) {
+      this.deliver(event);
+      return;
+    }
+
+    this.queue.push(event);
+    if (this.queue.length > (this.options.bufferSize ?? 10_000)) {
+      this.queue.shift();
+      this.droppedEvents++;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), 0);
+    }
+  }
+
+  publish<T extends MessageBusEventType>(type: T, payload: MessageBusEventMap[T]): void {
+    this.emit({ type, ...payload } as MessageBusEvent);
+  }
+
+  // Delivers queued events immediately (async mode)
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const queue = this.queue;
+    this.queue = [];
+    // Reported ahead of the events that outlived the dropped ones
+    if (this.droppedEvents > this.reportedDrops) {
+      this.deliver({ type: 'bus:dropped', count: this.droppedEvents - this.reportedDrops });
+      this.reportedDrops = this.droppedEvents;
+    }
+    queue.forEach(event => this.deliver(event));
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+    this.allListeners.clear();
+    this.queue = [];
+  }
+
+  private deliver(event: MessageBusEvent): void {
+    // Notify type-specific listeners
+    const typeListeners = this.listeners.get(event.type);
+    if (typeListeners) {
+      typeListeners.forEach(listener => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Error in listener for ${event.type}:`, error);
+        }
+      });
+    }
+
+    // Notify wildcard listeners
+    this.allListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in wildcard listener:', error);
+      }
+    });
+  }
+}
+
+// packages/proto-core/src/message-bus/bridge.ts
+import type { Unsubscribe } from '../types/transport';
+import type { MessageBus, MessageBusEvent, MessageBusEventType } from './events';
+
+export const BUS_CHANNEL = 'commwatch:bus';
+
+export interface BusBridgeMessage {
+  channel: typeof BUS_CHANNEL;
+  event: unknown; // Output of encodeBusEvent
+}
+
+/**
+ * One side of a message channel, e.g. Electron IPC or a webview's postMessage.
+ * Messages that are not bus messages may arrive and are ignored.
+ */
+export interface BusTransport {
+  send(message: BusBridgeMessage): void;
+  subscribe(handler: (message: unknown) => void): Unsubscribe;
+}
+
+export interface BusBridgeOptions {
+  types?: MessageBusEventType[]; // Forwarded to the remote side; all by default
+  receive?: boolean; // Emit remote events on the local bus, default true
+}
+
+// bigint and Uint8Array do not survive JSON (webview postMessage), so they are tagged
+export function encodeBusEvent(event: MessageBusEvent): unknown {
+  return encodeValue(event);
+}
+
+export function decodeBusEvent(data: unknown): MessageBusEvent {
+  return decodeValue(data) as MessageBusEvent;
+}
+
+function encodeValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Uint8Array) {
+    return { $bytes: Array.from(value).map(b => b.toString(16).padStart(2, '0')).join('') };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) result[key] = encodeValue(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.$bigint === 'string') {
+      return BigInt(record.$bigint);
+    }
+    if (typeof record.$bytes === 'string') {
+      const hex = record.$bytes;
+      const bytes = new Uint8Array(hex.length / 2);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+      }
+      return bytes;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(record)) {
+      result[key] = decodeValue(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+function isBridgeMessage(message: unknown): message is BusBridgeMessage {
+  return !!message && typeof message === 'object' && (message as BusBridgeMessage).channel === BUS_CHANNEL;
+}
+
+/**
+ * Mirrors bus events across a transport. Events that arrived from the remote
+ * side are not sent back, so both ends can bridge without echo loops.
+ */
+export function bridgeMessageBus(
+  bus: MessageBus,
+  transport: BusTransport,
+  options: BusBridgeOptions = {}
+): Unsubscribe {
+  const remote = new WeakSet<MessageBusEvent>();
+  const types = options.types ? new Set<string>(options.types) : null;
+
+  const unsubscribeLocal = bus.on('*', event => {
+    if (remote.has(event) || (types && !types.has(event.type))) return;
+
+    try {
+      transport.send({ channel: BUS_CHANNEL, event: encodeBusEvent(event) });
+    } catch (error) {
+      console.error('Failed to forward bus event:', error);
+    }
+  });
+
+  const unsubscribeRemote = options.receive === false
+    ? () => {}
+    : transport.subscribe(message => {
+      if (!isBridgeMessage(message)) return;
+
+      const event = decodeBusEvent(message.event);
+      remote.add(event);
+      bus.emit(event);
+    });
+
+  return () => {
+    unsubscribeLocal();
+    unsubscribeRemote();
+  };
+}
+
+// packages/proto-core/src/framing/framers.ts
+import type { AdapterHandle, RxMeta, Unsubscribe } from '../types/transport';
+import type { FrameError } from '../types/protocol';
+
+export interface LengthFieldConfig {
+  offset: number; // Offset of the length field from the start of the frame
+  size: 1 | 2 | 4;
+  endianness?: 'big' | 'little';
+  adjust?: number; // Added to the field value to get the total frame length
+}
+
+export type FramerConfig =
+  | { type: 'passthrough' }
+  | { type: 'delimiter'; delimiter: number[]; includeDelimiter?: boolean; maxFrameLength?: number }
+  | { type: 'length-prefixed'; length: LengthFieldConfig; maxFrameLength?: number }
+  | { type: 'start-end'; start: number[]; end: number[]; length?: LengthFieldConfig; maxFrameLength?: number }
+  | { type: 'cobs'; maxFrameLength?: number }
+  | { type: 'slip'; maxFrameLength?: number }
+  | { type: 'idle-gap'; gapMs: number; maxFrameLength?: number };
+
+export interface FramedChunk {
+  data: Uint8Array;
+  timestamp: bigint; // Arrival of the chunk holding the first byte
+  endTimestamp?: bigint; // Arrival of the chunk holding the last byte, if it is a later one
+  error?: FrameError;
+}
+
+export interface Framer {
+  readonly id: string;
+  // When set, the stream is flushed after this many ms without new data
+  readonly idleTimeoutMs?: number;
+  push(chunk: Uint8Array, timestamp: bigint): FramedChunk[];
+  flush(): FramedChunk[];
+  reset(): void;
+}
+
+const DEFAULT_MAX_FRAME_LENGTH = 4096;
+
+function indexOf(buffer: Uint8Array, pattern: number[], from = 0): number {
+  outer:
+  for (let i = from; i <= buffer.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (buffer[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function readLength(buffer: Uint8Array, field: LengthFieldConfig): number {
+  let value = 0;
+  for (let i = 0; i < field.size; i++) {
+    const byte = field.endianness === 'little'
+      ? buffer[field.offset + field.size - 1 - i]
+      : buffer[field.offset + i];
+    value = value * 256 + byte;
+  }
+  return value + (field.adjust || 0);
+}
+
+abstract class BufferedFramer implements Framer {
+  abstract readonly id: string;
+  protected buffer = new Uint8Array(0);
+  protected bufferTimestamp = BigInt(0);
+  protected lastTimestamp = BigInt(0);
+
+  constructor(protected maxFrameLength = DEFAULT_MAX_FRAME_LENGTH) {}
+
+  push(chunk: Uint8Array, timestamp: bigint): FramedChunk[] {
+    if (this.buffer.length === 0) {
+      this.bufferTimestamp = timestamp;
+    }
+    this.lastTimestamp = timestamp;
+
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer);
+    merged.set(chunk, this.buffer.length);
+    this.buffer = merged;
+
+    const frames = this.extract();
+
+    if (this.buffer.length > this.maxFrameLength) {
+      frames.push(this.take(this.buffer.length, 0, {
+        code: 'FRAME_OVERFLOW',
+        message: `No frame boundary within ${this.maxFrameLength} bytes`,
+        severity: 'error',
+      }));
+    }
+
+    return frames;
+  }
+
+  flush(): FramedChunk[] {
+    if (this.buffer.length === 0) return [];
+
+    return [this.take(this.buffer.length, 0, {
+      code: 'INCOMPLETE_FRAME',
+      message: `Incomplete frame: ${this.buffer.length} bytes without boundary`,
+      severity: 'warning',
+    })];
+  }
+
+  reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+
+  protected abstract extract(): FramedChunk[];
+
+  // Removes `length` bytes (plus `skip` trailing bytes) from the front of the buffer
+  protected take(length: number, skip = 0, error?: FrameError): FramedChunk {
+    const frame: FramedChunk = {
+      data: this.buffer.slice(0, length),
+      timestamp: this.bufferTimestamp,
+    };
+    // Frames are taken once their last byte is in, which came with the latest chunk
+    if (this.lastTimestamp !== this.bufferTimestamp) {
+      frame.endTimestamp = this.lastTimestamp;
+    }
+    if (error) {
+      frame.error = error;
+    }
+
+    this.buffer = this.buffer.slice(length + skip);
+    this.bufferTimestamp = this.lastTimestamp;
+    return frame;
+  }
+}
+
+export class PassthroughFramer implements Framer {
+  readonly id = 'passthrough';
+
+  push(chunk: Uint8Array, timestamp: bigint): FramedChunk[] {
+    return [{ data: chunk, timestamp }];
+  }
+
+  flush(): FramedChunk[] {
+    return [];
+  }
+
+  reset(): void {}
+}
+
+export class DelimiterFramer extends BufferedFramer {
+  constructor(
+    readonly id: string,
+    private delimiter: number[],
+    private includeDelimiter = false,
+    maxFrameLength?: number
+  ) {
+    super(maxFrameLength);
+    if (delimiter.length === 0) {
+      throw new Error('Delimiter must not be empty');
+    }
+  }
+
+  protected extract(): FramedChunk[] {
+    const frames: FramedChunk[] = [];
+    let index: number;
+
+    while ((index = indexOf(this.buffer, this.delimiter)) >= 0) {
+      if (index === 0 && !this.includeDelimiter) {
+        // Back-to-back delimiters (e.g. SLIP frame openers) carry no data
+        this.take(0, this.delimiter.length);
+        continue;
+      }
+
+      frames.push(this.includeDelimiter
+        ? this.take(index + this.delimiter.length)
+        : this.take(index, this.delimiter.length));
+    }
+
+    return frames;
+  }
+}
+
+export class LengthPrefixedFramer extends BufferedFramer {
+  readonly id = 'length-prefixed';
+
+  constructor(private length: LengthFieldConfig, maxFrameLength?: number) {
+    super(maxFrameLength);
+  }
+
+  protected extract(): FramedChunk[] {
+    const frames: FramedChunk[] = [];
+    const headerLength = this.length.offset + this.length.size;
+
+    while (this.buffer.length >= headerLength) {
+      const total = readLength(this.buffer, this.length);
+
+      if (total < headerLength || total > this.maxFrameLength) {
+        // Without a sync marker there is no way to find the next frame
+        frames.push(this.take(this.buffer.length, 0, {
+          code: 'INVALID_LENGTH',
+          message: `Invalid frame length: ${total}`,
+          severity: 'error',
+        }));
+        break;
+      }
+
+      if (this.buffer.length < total) break;
+      frames.push(this.take(total));
+    }
+
+    return frames;
+  }
+}
+
+export class StartEndFramer extends BufferedFramer {
+  readonly id = 'start-end';
+
+  constructor(
+    private start: number[],
+    private end: number[],
+    private length?: LengthFieldConfig,
+    maxFrameLength?: number
+  ) {
+    super(maxFrameLength);
+  }
+
+  protected extract(): FramedChunk[] {
+    const frames: FramedChunk[] = [];
+
+    while (this.buffer.length > 0) {
+      const startIndex = indexOf(this.buffer, this.start);
+
+      if (startIndex < 0) {
+        // Keep a possible partial start marker at the tail
+        const keep = Math.min(this.start.length - 1, this.buffer.length);
+        if (this.buffer.length > keep) {
+          frames.push(this.unframed(this.buffer.length - keep));
+        }
+        break;
+      }
+
+      if (startIndex > 0) {
+        frames.push(this.unframed(startIndex));
+        continue;
+      }
+
+      const total = this.frameLength();
+      if (total === null) break;
+
+      if (total < 0) {
+        frames.push(this.resync('FRAMING_ERROR', 'No end marker found for frame'));
+        continue;
+      }
+
+      const endOffset = total - this.end.length;
+      if (indexOf(this.buffer, this.end, endOffset) !== endOffset) {
+        frames.push(this.resync('INVALID_END_MARKER', `End marker not found at offset ${endOffset}`));
+        continue;
+      }
+
+      frames.push(this.take(total));
+    }
+
+    return frames;
+  }
+
+  // Returns the total length of the frame at the buffer head, null if more data is needed,
+  // or -1 if the frame is malformed
+  private frameLength(): number | null {
+    const minLength = this.start.length + this.end.length;
+
+    if (this.length) {
+      if (this.buffer.length < this.length.offset + this.length.size) return null;
+      const total = readLength(this.buffer, this.length);
+      if (total < minLength || total > this.maxFrameLength) return -1;
+      return this.buffer.length < total ? null : total;
+    }
+
+    const endIndex = indexOf(this.buffer, this.end, this.start.length);
+    return endIndex < 0 ? null : endIndex + this.end.length;
+  }
+
+  private unframed(length: number): FramedChunk {
+    return this.take(length, 0, {
+      code: 'UNFRAMED_DATA',
+      message: `${length} bytes outside of a frame`,
+      severity: 'warning',
+    });
+  }
+
+  // Drops bytes up to the next start marker candidate
+  private resync(code: string, message: string): FramedChunk {
+    const next = indexOf(this.buffer, this.start, 1);
+    return this.take(next < 0 ? this.buffer.length : next, 0, { code, message, severity: 'error' });
+  }
+}
+
+export class IdleGapFramer extends BufferedFramer {
+  readonly id = 'idle-gap';
+  readonly idleTimeoutMs: number;
+
+  constructor(gapMs: number, maxFrameLength?: number) {
+    super(maxFrameLength);
+    this.idleTimeoutMs = gapMs;
+  }
+
+  push(chunk: Uint8Array, timestamp: bigint): FramedChunk[] {
+    const frames: FramedChunk[] = [];
+    const gapNs = BigInt(Math.round(this.idleTimeoutMs * 1_000_000));
+
+    if (this.buffer.length > 0 && timestamp - this.lastTimestamp > gapNs) {
+      frames.push(this.take(this.buffer.length));
+    }
+
+    frames.push(...super.push(chunk, timestamp));
+    return frames;
+  }
+
+  flush(): FramedChunk[] {
+    return this.buffer.length > 0 ? [this.take(this.buffer.length)] : [];
+  }
+
+  protected extract(): FramedChunk[] {
+    return [];
+  }
+}
+
+export function createFramer(config: FramerConfig): Framer {
+  switch (config.type) {
+    case 'passthrough':
+      return new PassthroughFramer();
+    case 'delimiter':
+      return new DelimiterFramer('delimiter', config.delimiter, config.includeDelimiter, config.maxFrameLength);
+    case 'length-prefixed':
+      return new LengthPrefixedFramer(config.length, config.maxFrameLength);
+    case 'start-end':
+      return new StartEndFramer(config.start, config.end, config.length, config.maxFrameLength);
+    case 'cobs':
+      return new DelimiterFramer('cobs', [0x00], false, config.maxFrameLength);
+    case 'slip':
+      return new DelimiterFramer('slip', [0xC0], false, config.maxFrameLength);
+    case 'idle-gap':
+      return new IdleGapFramer(config.gapMs, config.maxFrameLength);
+  }
+}
+
+/**
+ * Subscribes to a handle and reassembles its byte stream into frames.
+ * The callback receives each frame along with the meta of the chunk that completed it.
+ */
+export function attachFramer(
+  handle: AdapterHandle,
+  framer: Framer,
+  cb: (frame: FramedChunk, meta?: RxMeta) => void
+): Unsubscribe {
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastMeta: RxMeta | undefined;
+
+  const emit = (frames: FramedChunk[]) => {
+    frames.forEach(frame => {
+      try {
+        cb(frame, lastMeta);
+      } catch (error) {
+        console.error('Error in framer callback:', error);
+      }
+    });
+  };
+
+  const unsubscribe = handle.read((chunk, meta) => {
+    lastMeta = meta;
+    // Chunks the transport already flagged, and line events, are not part of the stream
+    if (meta?.error || meta?.lineState) {
+      emit([{ data: chunk, timestamp: meta.timestamp, error: meta.error }]);
+      return;
+    }
+
+    emit(framer.push(chunk, meta?.timestamp || BigInt(Date.now() * 1_000_000)));
+
+    if (framer.idleTimeoutMs !== undefined) {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => emit(framer.flush()), framer.idleTimeoutMs);
+    }
+  });
+
+  return () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    unsubscribe();
+    framer.reset();
+  };
+}
+
+// packages/proto-core/src/decoding/registry.ts
+import type { DecodedFrame, FrameError, FrameField, ProtocolDecoder } from '../types/protocol';
+
+export interface DecoderCandidate {
+  decoder: ProtocolDecoder;
+  score: number;
+}
+
+/**
+ * Confidence in [0, 1] that `raw` is a frame of the given decoder's protocol.
+ * Decoders can override this by implementing `score`.
+ */
+export function scoreDecoder(decoder: ProtocolDecoder, raw: Uint8Array): number {
+  if (decoder.score) {
+    return decoder.score(raw);
+  }
+
+  let decoded: DecodedFrame | null;
+  let error: FrameError | null;
+  try {
+    decoded = decoder.decode(raw);
+    error = decoder.validate(raw);
+  } catch {
+    return 0;
+  }
+
+  if (!decoded) return 0;
+  if (error) return error.severity === 'error' ? 0.1 : 0.4;
+  if (decoded.checksum) return decoded.checksum.valid ? 1 : 0.2;
+  return 0.7;
+}
+
+function payloadOf(decoded: DecodedFrame): Uint8Array | null {
+  const field = decoded.fields.find(f => f.name === 'data' && f.type === 'bytes');
+  return field ? field.value as Uint8Array : null;
+}
+
+/**
+ * Chains decoders so that each layer's `data` field is decoded by the next,
+ * e.g. SLIP → EFuse. The result carries the innermost fields and every layer.
+ */
+export class DecoderStack implements ProtocolDecoder {
+  readonly id: string;
+  readonly name: string;
+
+  constructor(private layers: ProtocolDecoder[]) {
+    if (layers.length === 0) {
+      throw new Error('Decoder stack must have at least one layer');
+    }
+    this.id = layers.map(l => l.id).join(',');
+    this.name = layers.map(l => l.name).join(' → ');
+  }
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    const decodedLayers: DecodedFrame[] = [];
+    let data: Uint8Array | null = raw;
+
+    for (const layer of this.layers) {
+      if (!data) break;
+      const decoded: DecodedFrame | null = layer.decode(data);
+      if (!decoded) break;
+      decodedLayers.push(decoded);
+      data = payloadOf(decoded);
+    }
+
+    if (decodedLayers.length === 0) return null;
+
+    const inner = decodedLayers[decodedLayers.length - 1];
+    return {
+      ...inner,
+      protocol: decodedLayers.map(d => d.protocol).join('/'),
+      layers: decodedLayers,
+    };
+  }
+
+  encode(fields: FrameField[]): Uint8Array {
+    let data = this.layers[this.layers.length - 1].encode(fields);
+
+    for (let i = this.layers.length - 2; i >= 0; i--) {
+      data = this.layers[i].encode([
+        { name: 'data', value: data, type: 'bytes', raw: data, offset: 0 },
+      ]);
+    }
+
+    return data;
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    let data = raw;
+
+    for (let i = 0; i < this.layers.length; i++) {
+      const layer = this.layers[i];
+      const error = layer.validate(data);
+      if (error) {
+        return { ...error, message: `${layer.id}: ${error.message}` };
+      }
+
+      if (i === this.layers.length - 1) break;
+
+      const decoded = layer.decode(data);
+      const payload = decoded ? payloadOf(decoded) : null;
+      if (!payload) {
+        return {
+          code: 'MISSING_PAYLOAD',
+          message: `${layer.id}: no data field for the next layer`,
+          severity: 'error',
+        };
+      }
+      data = payload;
+    }
+
+    return null;
+  }
+
+  score(raw: Uint8Array): number {
+    let data = raw;
+
+    for (let i = 0; i < this.layers.length - 1; i++) {
+      const decoded = this.layers[i].decode(data);
+      const payload = decoded ? payloadOf(decoded) : null;
+      if (!payload) return 0;
+      data = payload;
+    }
+
+    return scoreDecoder(this.layers[this.layers.length - 1], data);
+  }
+}
+
+/**
+ * Scores registered decoders against incoming frames and locks onto the best
+ * candidate once it has won enough frames in a row.
+ */
+export class AutoDecoder implements ProtocolDecoder {
+  readonly id = 'auto';
+  readonly name = 'Auto-detect';
+  private selected: ProtocolDecoder | null = null;
+  private leader: string | null = null;
+  private streak = 0;
+
+  constructor(
+    private registry: DecoderRegistry,
+    private lockAfter = 3,
+    private minScore = 0.5
+  ) {}
+
+  get current(): ProtocolDecoder | null {
+    return this.selected;
+  }
+
+  decode(raw: Uint8Array): DecodedFrame | null {
+    return this.pick(raw)?.decode(raw) || null;
+  }
+
+  encode(fields: FrameField[]): Uint8Array {
+    if (!this.selected) {
+      throw new Error('No decoder detected yet');
+    }
+    return this.selected.encode(fields);
+  }
+
+  validate(raw: Uint8Array): FrameError | null {
+    // Callers validate the frames they decode, so only decode counts towards the lock
+    const decoder = this.selected ?? this.best(raw);
+    if (!decoder) {
+      return {
+        code: 'NO_DECODER',
+        message: 'No registered decoder matches this frame',
+        severity: 'warning',
+      };
+    }
+    return decoder.validate(raw);
+  }
+
+  reset(): void {
+    this.selected = null;
+    this.leader = null;
+    this.streak = 0;
+  }
+
+  private pick(raw: Uint8Array): ProtocolDecoder | null {
+    if (this.selected) return this.selected;
+
+    const best = this.best(raw);
+    if (!best) {
+      this.streak = 0;
+      return null;
+    }
+
+    if (best.id === this.leader) {
+      this.streak++;
+    } else {
+      this.leader = best.id;
+      this.streak = 1;
+    }
+
+    if (this.streak >= this.lockAfter) {
+      this.selected = best;
+    }
+
+    return best;
+  }
+
+  private best(raw: Uint8Array): ProtocolDecoder | null {
+    const best = this.registry.detect(raw);
+    return best && best.score >= this.minScore ? best.decoder : null;
+  }
+}
+
+export class DecoderRegistry {
+  private decoders: Map<string, ProtocolDecoder> = new Map();
+  private stacks: Map<string, DecoderStack> = new Map();
+
+  register(decoder: ProtocolDecoder): this {
+    this.decoders.set(decoder.id, decoder);
+    return this;
+  }
+
+  // Makes a stack available to auto-detection
+  registerStack(ids: string[]): this {
+    const stack = new DecoderStack(ids.map(id => this.require(id)));
+    this.stacks.set(stack.id, stack);
+    return this;
+  }
+
+  unregister(id: string): void {
+    this.decoders.delete(id);
+    this.stacks.delete(id);
+  }
+
+  get(id: string): ProtocolDecoder | undefined {
+    return this.decoders.get(id) || this.stacks.get(id);
+  }
+
+  list(): ProtocolDecoder[] {
+    return [...this.decoders.values(), ...this.stacks.values()];
+  }
+
+  createStack(ids: string[]): ProtocolDecoder {
+    if (ids.length === 1) {
+      return this.require(ids[0]);
+    }
+    return new DecoderStack(ids.map(id => this.require(id)));
+  }
+
+  /**
+   * Resolves a decoder spec: a single id (`efuse`), a comma-separated
+   * stack (`slip,efuse`) or `auto` for detection.
+   */
+  resolve(spec: string): ProtocolDecoder {
+    if (spec === 'auto') {
+      return new AutoDecoder(this);
+    }
+
+    const ids = spec.split(',').map(id => id.trim()).filter(Boolean);
+    if (ids.length === 0) {
+      throw new Error('Empty decoder spec');
+    }
+    return this.createStack(ids);
+  }
+
+  // Candidates ordered by score; ties keep registration order
+  score(raw: Uint8Array, candidates: ProtocolDecoder[] = this.list()): DecoderCandidate[] {
+    return candidates
+      .map(decoder => ({ decoder, score: scoreDecoder(decoder, raw) }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  detect(samples: Uint8Array | Uint8Array[]): DecoderCandidate | null {
+    const frames = Array.isArray(samples) ? samples : [samples];
+    if (frames.length === 0) return null;
+
+    let best: DecoderCandidate | null = null;
+    for (const decoder of this.list()) {
+      const total = frames.reduce((sum, raw) => sum + scoreDecoder(decoder, raw), 0);
+      const score = total / frames.length;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { decoder, score };
+      }
+    }
+
+    return best;
+  }
+
+  private require(id: string): ProtocolDecoder {
+    const decoder = this.get(id);
+    if (!decoder) {
+      throw new Error(`Unknown decoder: ${id} (available: ${this.list().map(d => d.id).join(', ')})`);
+    }
+    return decoder;
+  }
+}
+
+// packages/proto-core/src/decoding/dbc.ts
+export interface DbcSignal {
+  name: string;
+  startBit: number;
+  length: number;
+  byteOrder: 'little' | 'big'; // @1 (Intel) / @0 (Motorola)
+  signed: boolean;
+  valueType: 'integer' | 'float' | 'double';
+  factor: number;
+  offset: number;
+  min: number;
+  max: number;
+  unit: string;
+  receivers: string[];
+  multiplexor?: boolean;
+  multiplexValue?: number; // Set on signals only present for this multiplexor value
+  values?: Record<string, string>; // Raw value -> label, from VAL_
+  comment?: string;
+  spn?: number; // J1939 suspect parameter number, from the SPN attribute
+}
+
+export interface DbcMessage {
+  id: number;
+  extended: boolean;
+  fd: boolean;
+  name: string;
+  dlc: number;
+  sender: string;
+  signals: DbcSignal[];
+  comment?: string;
+  cycleTime?: number; // ms, from the GenMsgCycleTime attribute
+}
+
+export interface DbcDatabase {
+  version: string;
+  protocol?: string; // ProtocolType attribute, e.g. J1939
+  nodes: string[];
+  messages: DbcMessage[];
+  valueTables: Record<string, Record<string, string>>;
+}
+
+export interface DbcSignalValue {
+  signal: DbcSignal;
+  raw: number;
+  value: number;
+  label?: string;
+}
+
+const STRING = '"((?:[^"\\\\]|\\\\.)*)"';
+const NUMBER = '([-+]?[\\d.]+(?:[eE][-+]?\\d+)?)';
+
+const MESSAGE_RE = /^BO_\s+(\d+)\s+(\w+)\s*:\s*(\d+)\s+(\w+)/;
+const SIGNAL_RE = new RegExp(
+  `^SG_\\s+(\\w+)\\s*(M|m\\d+M?)?\\s*:\\s*(\\d+)\\|(\\d+)@([01])([+-])\\s*` +
+  `\\(\\s*${NUMBER}\\s*,\\s*${NUMBER}\\s*\\)\\s*\\[\\s*${NUMBER}\\s*\\|\\s*${NUMBER}\\s*\\]\\s*` +
+  `${STRING}\\s*(.*)$`
+);
+const VALUE_PAIR_RE = new RegExp(`(-?\\d+)\\s+${STRING}`, 'g');
+
+// Statements that end with ';' and may span several lines
+const STATEMENTS = ['CM_', 'VAL_', 'VAL_TABLE_', 'SIG_VALTYPE_', 'BA_'];
+
+// Messages not sent by any node use this pseudo message for their signals
+const INDEPENDENT_SIGNALS = 'VECTOR__INDEPENDENT_SIG_MSG';
+
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
+
+function parseValuePairs(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const match of text.matchAll(VALUE_PAIR_RE)) {
+    values[String(Number(match[1]))] = unescape(match[2]);
+  }
+  return values;
+}
+
+function isTerminated(statement: string): boolean {
+  return statement.replace(new RegExp(STRING, 'g'), '""').includes(';');
+}
+
+/**
+ * Parses a Vector DBC file: messages (BO_), signals (SG_) including simple
+ * multiplexing, value descriptions (VAL_, VAL_TABLE_), comments (CM_), float
+ * signals (SIG_VALTYPE_), the CAN-FD frame format and cycle time attributes
+ * and the J1939 SPN and ProtocolType attributes. Other sections are skipped.
+ */
+export function parseDbc(text: string): DbcDatabase {
+  const db: DbcDatabase = { version: '', nodes: [], messages: [], valueTables: {} };
+  const lines = text.split(/\r?\n/);
+  const fail = (line: number, message: string): never => {
+    throw new Error(`Invalid DBC: line ${line}: ${message}`);
+  };
+  const findMessage = (rawId: string) => {
+    const id = Number(rawId);
+    return db.messages.find(m => m.id === (id & 0x1FFFFFFF) && m.extended === id >= 0x80000000);
+  };
+
+  let current: DbcMessage | null = null;
+  let skipping = false; // Signals of the pseudo message
+  let inNamespace = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    // NS_ lists keywords on indented lines; they are not statements
+    if (inNamespace && /^\s/.test(lines[i])) continue;
+    inNamespace = false;
+
+    const line = lines[i].trim();
+    if (!line || line.startsWith('//')) continue;
+    const keyword = line.split(/[\s:]/)[0];
+
+    if (keyword !== 'SG_') {
+      current = null;
+      skipping = false;
+    }
+
+    if (STATEMENTS.includes(keyword)) {
+      let statement = line;
+      while (!isTerminated(statement) && i + 1 < lines.length) {
+        statement += '\n' + lines[++i];
+      }
+      parseStatement(statement.trim());
+      continue;
+    }
+
+    switch (keyword) {
+      case 'VERSION':
+        db.version = unescape(line.match(new RegExp(STRING))?.[1] ?? '');
+        break;
+      case 'NS_':
+        inNamespace = true;
+        break;
+      case 'BU_':
+        db.nodes = line.slice(line.indexOf(':') + 1).trim().split(/\s+/).filter(Boolean);
+        break;
+      case 'BO_': {
+        const match = line.match(MESSAGE_RE) ?? fail(lineNo, `malformed message: ${line}`);
+        if (match[2] === INDEPENDENT_SIGNALS) {
+          skipping = true;
+          break;
+        }
+        const rawId = Number(match[1]);
+        current = {
+          id: rawId & 0x1FFFFFFF,
+          extended: rawId >= 0x80000000,
+          fd: Number(match[3]) > 8,
+          name: match[2],
+          dlc: Number(match[3]),
+          sender: match[4],
+          signals: [],
+        };
+        db.messages.push(current);
+        break;
+      }
+      case 'SG_': {
+        if (skipping) break;
+        if (!current) fail(lineNo, 'signal outside of a message');
+        const match = line.match(SIGNAL_RE) ?? fail(lineNo, `malformed signal: ${line}`);
+        const mux = match[2];
+        const signal: DbcSignal = {
+          name: match[1],
+          startBit: Number(match[3]),
+          length: Number(match[4]),
+          byteOrder: match[5] === '1' ? 'little' : 'big',
+          signed: match[6] === '-',
+          valueType: 'integer',
+          factor: Number(match[7]),
+          offset: Number(match[8]),
+          min: Number(match[9]),
+          max: Number(match[10]),
+          unit: unescape(match[11]),
+          receivers: match[12].split(/[\s,]+/).filter(r => r && r !== 'Vector__XXX'),
+        };
+        if (signal.length < 1 || signal.length > 64) {
+          fail(lineNo, `signal ${signal.name} has invalid length ${signal.length}`);
+        }
+        if (mux?.endsWith('M')) signal.multiplexor = true;
+        if (mux?.startsWith('m')) signal.multiplexValue = parseInt(mux.slice(1), 10);
+        current!.signals.push(signal);
+        break;
+      }
+    }
+  }
+
+  function parseStatement(statement: string): void {
+    let match: RegExpMatchArray | null;
+    if ((match = statement.match(/^VAL_TABLE_\s+(\w+)\s+([\s\S]*);$/))) {
+      db.valueTables[match[1]] = parseValuePairs(match[2]);
+    } else if ((match = statement.match(/^VAL_\s+(\d+)\s+(\w+)\s+([\s\S]*);$/))) {
+      const signal = findMessage(match[1])?.signals.find(s => s.name === match![2]);
+      if (signal) signal.values = parseValuePairs(match[3]);
+    } else if ((match = statement.match(new RegExp(`^CM_\\s+BO_\\s+(\\d+)\\s+${STRING}\\s*;$`)))) {
+      const message = findMessage(match[1]);
+      if (message) message.comment = unescape(match[2]);
+    } else if ((match = statement.match(new RegExp(`^CM_\\s+SG_\\s+(\\d+)\\s+(\\w+)\\s+${STRING}\\s*;$`)))) {
+      const signal = findMessage(match[1])?.signals.find(s => s.name === match![2]);
+      if (signal) signal.comment = unescape(match[3]);
+    } else if ((match = statement.match(/^SIG_VALTYPE_\s+(\d+)\s+(\w+)\s*:?\s*([12])\s*;$/))) {
+      const signal = findMessage(match[1])?.signals.find(s => s.name === match![2]);
+      if (signal) signal.valueType = match[3] === '1' ? 'float' : 'double';
+    } else if ((match = statement.match(/^BA_\s+"VFrameFormat"\s+BO_\s+(\d+)\s+(\d+)\s*;$/))) {
+      // 14 = StandardCAN_FD, 15 = ExtendedCAN_FD
+      const message = findMessage(match[1]);
+      if (message) message.fd = Number(match[2]) >= 14;
+    } else if ((match = statement.match(/^BA_\s+"GenMsgCycleTime"\s+BO_\s+(\d+)\s+(\d+)\s*;$/))) {
+      const message = findMessage(match[1]);
+      if (message) message.cycleTime = Number(match[2]);
+    } else if ((match = statement.match(/^BA_\s+"SPN"\s+SG_\s+(\d+)\s+(\w+)\s+(\d+)\s*;$/))) {
+      const signal = findMessage(match[1])?.signals.find(s => s.name === match![2]);
+      if (signal) signal.spn = Number(match[3]);
+    } else if ((match = statement.match(new RegExp(`^BA_\\s+"ProtocolType"\\s+${STRING}\\s*;$`)))) {
+      db.protocol = unescape(match[1]);
+    }
+  }
+
+  return db;
+}
+
+export function findDbcMessage(db: DbcDatabase, id: number, extended = id > 0x7FF): DbcMessage | undefined {
+  return db.messages.find(m => m.id === id && m.extended === extended);
+}
+
+// Data bit positions of a signal, most significant bit first
+function signalBits(signal: DbcSignal): number[] {
+  const bits: number[] = [];
+  if (signal.byteOrder === 'little') {
+    for (let i = signal.length - 1; i >= 0; i--) bits.push(signal.startBit + i);
+  } else {
+    // Motorola start bits address the MSB; bits run down each byte, then into the next
+    let pos = signal.startBit;
+    for (let i = 0; i < signal.length; i++) {
+      bits.push(pos);
+      pos = pos % 8 === 0 ? pos + 15 : pos - 1;
+    }
+  }
+  return bits;
+}
+
+export function signalByteRange(signal: DbcSignal): { start: number; end: number } {
+  const bytes = signalBits(signal).map(bit => bit >> 3);
+  return { start: Math.min(...bytes), end: Math.max(...bytes) + 1 };
+}
+
+function readRaw(signal: DbcSignal, data: Uint8Array): bigint {
+  let raw = 0n;
+  for (const bit of signalBits(signal)) {
+    raw = (raw << 1n) | BigInt((data[bit >> 3] >> (bit & 7)) & 1);
+  }
+  return raw;
+}
+
+function writeRaw(signal: DbcSignal, data: Uint8Array, raw: bigint): void {
+  const bits = signalBits(signal);
+  bits.forEach((bit, i) => {
+    const value = (raw >> BigInt(bits.length - 1 - i)) & 1n;
+    data[bit >> 3] = value ? data[bit >> 3] | (1 << (bit & 7)) : data[bit >> 3] & ~(1 << (bit & 7));
+  });
+}
+
+// Drops binary floating point noise from scaled values (0.1 * 3 -> 0.3)
+function tidy(value: number): number {
+  return parseFloat(value.toPrecision(12));
+}
+
+function toPhysical(signal: DbcSignal, raw: bigint): number {
+  if (signal.valueType !== 'integer') {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigUint64(0, raw);
+    return signal.valueType === 'float' ? view.getFloat32(4) : view.getFloat64(0);
+  }
+
+  const length = BigInt(signal.length);
+  const value = signal.signed && (raw >> (length - 1n)) & 1n
+    ? raw - (1n << length)
+    : raw;
+  return tidy(Number(value) * signal.factor + signal.offset);
+}
+
+function toRaw(signal: DbcSignal, value: number | string): bigint {
+  if (typeof value === 'string') {
+    const key = Object.keys(signal.values || {}).find(k => signal.values![k] === value);
+    if (key === undefined) {
+      throw new Error(`Unknown value "${value}" for signal ${signal.name}`);
+    }
+    return BigInt(key) & ((1n << BigInt(signal.length)) - 1n);
+  }
+
+  if (signal.valueType !== 'integer') {
+    const view = new DataView(new ArrayBuffer(8));
+    if (signal.valueType === 'float') {
+      view.setFloat32(4, value);
+    } else {
+      view.setFloat64(0, value);
+    }
+    return view.getBigUint64(0);
+  }
+
+  const length = BigInt(signal.length);
+  const min = signal.signed ? -(1n << (length - 1n)) : 0n;
+  const max = (signal.signed ? 1n << (length - 1n) : 1n << length) - 1n;
+  let raw = BigInt(Math.round((value - signal.offset) / signal.factor));
+  raw = raw < min ? min : raw > max ? max : raw;
+  return raw & ((1n << length) - 1n);
+}
+
+function activeSignals(message: DbcMessage, multiplexValue: number | undefined): DbcSignal[] {
+  return message.signals.filter(s => s.multiplexValue === undefined || s.multiplexValue === multiplexValue);
+}
+
+function multiplexorOf(message: DbcMessage): DbcSignal | undefined {
+  return message.signals.find(s => s.multiplexor && s.multiplexValue === undefined);
+}
+
+// Decodes the signals of a message that fit in `data`, honouring the multiplexor
+export function decodeDbcMessage(message: DbcMessage, data: Uint8Array): DbcSignalValue[] {
+  const fits = (signal: DbcSignal) => signalByteRange(signal).end <= data.length;
+  const multiplexor = multiplexorOf(message);
+  const multiplexValue = multiplexor && fits(multiplexor) ? Number(readRaw(multiplexor, data)) : undefined;
+
+  return activeSignals(message, multiplexValue).filter(fits).map(signal => {
+    const raw = readRaw(signal, data);
+    const decoded: DbcSignalValue = { signal, raw: Number(raw), value: toPhysical(signal, raw) };
+    const label = signal.values?.[String(decoded.raw)];
+    if (label !== undefined) decoded.label = label;
+    return decoded;
+  });
+}
+
+/**
+ * Builds a message payload from physical values (or value labels). Missing
+ * signals are sent as raw 0; values outside the signal's bit range are clamped.
+ */
+export function encodeDbcMessage(message: DbcMessage, values: Record<string, number | string>): Uint8Array {
+  const data = new Uint8Array(message.dlc);
+  const multiplexor = multiplexorOf(message);
+  let multiplexValue: number | undefined;
+  if (multiplexor) {
+    const value = values[multiplexor.name];
+    multiplexValue = value === undefined ? 0 : Number(toRaw(multiplexor, value));
+  }
+
+  for (const signal of activeSignals(message, multiplexValue)) {
+    if (signalByteRange(signal).end > data.length) {
+      throw new Error(`Signal ${signal.name} does not fit in ${message.name} (${message.dlc} bytes)`);
+    }
+    const value = values[signal.name];
+    if (value !== undefined) writeRaw(signal, data, toRaw(signal, value));
+  }
+  return data;
+}
+
+// packages/proto-core/src/storage/frame-store.ts
+import type { ProtocolFrame } from '../types/protocol';
+
+/**
+ * Indexed frame storage. Indices are absolute and never reused; frames are
+ * expected in non-decreasing timestamp order for time-range queries.
+ */
+export interface FrameStore {
+  readonly size: number;
+  append(frame: ProtocolFrame): number;
+  get(index: number): Promise<ProtocolFrame | null>;
+  range(start: number, end: number): Promise<ProtocolFrame[]>; // [start, end)
+  indexOfTime(timestamp: bigint): Promise<number>; // First index at or after timestamp
+  rangeByTime(from: bigint, to: bigint): Promise<ProtocolFrame[]>;
+  window(): ProtocolFrame[]; // In-memory tail, oldest first
+  search(predicate: (frame: ProtocolFrame) => boolean, options?: SearchOptions): Promise<number[]>;
+  clear(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface SearchOptions {
+  start?: number;
+  end?: number;
+  limit?: number;
+}
+
+// Record layout: [LEN(4)] [DIR(1)] [FLAGS(1)] [ID_LEN(2)] [TIMESTAMP(8)] [RAW_LEN(4)] [ID] [RAW]
+// followed by [SRC_LEN(1)] [SOURCE] if FLAG_SOURCE and the error as JSON if FLAG_ERROR
+const RECORD_HEADER_SIZE = 20;
+const FLAG_ERROR = 0x01;
+const FLAG_SOURCE = 0x02;
+
+export function encodeFrameRecord(frame: ProtocolFrame): Uint8Array {
+  const encoder = new TextEncoder();
+  const id = encoder.encode(frame.id);
+  const source = frame.source ? encodeSource(frame.source) : null;
+  const error = frame.error ? encoder.encode(JSON.stringify(frame.error)) : new Uint8Array(0);
+  const sourceSize = source ? 1 + source.length : 0;
+  const record = new Uint8Array(RECORD_HEADER_SIZE + id.length + frame.raw.length + sourceSize + error.length);
+  const view = new DataView(record.buffer);
+
+  view.setUint32(0, record.length, true);
+  record[4] = frame.direction === 'tx' ? 1 : 0;
+  record[5] = (frame.error ? FLAG_ERROR : 0) | (source ? FLAG_SOURCE : 0);
+  view.setUint16(6, id.length, true);
+  view.setBigUint64(8, frame.timestamp, true);
+  view.setUint32(16, frame.raw.length, true);
+
+  let offset = RECORD_HEADER_SIZE;
+  record.set(id, offset);
+  offset += id.length;
+  record.set(frame.raw, offset);
+  offset += frame.raw.length;
+  if (source) {
+    record[offset] = source.length;
+    record.set(source, offset + 1);
+    offset += sourceSize;
+  }
+  record.set(error, offset);
+
+  return record;
+}
+
+// At most 255 bytes of UTF-8, cut before a code point rather than inside one
+function encodeSource(source: string): Uint8Array {
+  const bytes = new TextEncoder().encode(source);
+  if (bytes.length <= 255) return bytes;
+
+  let end = 255;
+  while ((bytes[end] & 0xC0) === 0x80) end--; // Continuation byte of the code point being cut
+  return bytes.slice(0, end);
+}
+
+export function decodeFrameRecord(data: Uint8Array, offset = 0): ProtocolFrame {
+  const view = new DataView(data.buffer, data.byteOffset + offset);
+  const length = view.getUint32(0, true);
+  const idLength = view.getUint16(6, true);
+  const rawLength = view.getUint32(16, true);
+  const idStart = offset + RECORD_HEADER_SIZE;
+  const rawStart = idStart + idLength;
+  const decoder = new TextDecoder();
+
+  const flags = data[offset + 5];
+  let position = rawStart + rawLength;
+
+  const frame: ProtocolFrame = {
+    id: decoder.decode(data.subarray(idStart, rawStart)),
+    timestamp: view.getBigUint64(8, true),
+    direction: data[offset + 4] === 1 ? 'tx' : 'rx',
+    raw: data.slice(rawStart, position),
+  };
+
+  if (flags & FLAG_SOURCE) {
+    const sourceLength = data[position];
+    frame.source = decoder.decode(data.subarray(position + 1, position + 1 + sourceLength));
+    position += 1 + sourceLength;
+  }
+
+  if (flags & FLAG_ERROR) {
+    frame.error = JSON.parse(decoder.decode(data.subarray(position, offset + length)));
+  }
+
+  return frame;
+}
+
+// Binary search over a sorted accessor
+export function lowerBound(count: number, at: (index: number) => bigint, value: bigint): number {
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (at(mid) < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Bounded in-memory store for environments without a filesystem (e.g. webviews).
+ * The oldest frames are evicted once capacity is reached.
+ */
+export class MemoryFrameStore implements FrameStore {
+  private frames: ProtocolFrame[] = [];
+  private head = 0; // Ring position of the oldest frame
+  private total = 0;
+
+  constructor(private capacity = 100_000) {}
+
+  get size(): number {
+    return this.total;
+  }
+
+  // Absolute index of the oldest frame still held
+  get firstIndex(): number {
+    return this.total - this.frames.length;
+  }
+
+  append(frame: ProtocolFrame): number {
+    if (this.frames.length < this.capacity) {
+      this.frames.push(frame);
+    } else {
+      this.frames[this.head] = frame;
+      this.head = (this.head + 1) % this.capacity;
+    }
+    return this.total++;
+  }
+
+  async get(index: number): Promise<ProtocolFrame | null> {
+    return this.at(index);
+  }
+
+  async range(start: number, end: number): Promise<ProtocolFrame[]> {
+    const result: ProtocolFrame[] = [];
+    for (let i = Math.max(start, this.firstIndex); i < Math.min(end, this.total); i++) {
+      result.push(this.at(i)!);
+    }
+    return result;
+  }
+
+  async indexOfTime(timestamp: bigint): Promise<number> {
+    const first = this.firstIndex;
+    return first + lowerBound(this.frames.length, i => this.at(first + i)!.timestamp, timestamp);
+  }
+
+  async rangeByTime(from: bigint, to: bigint): Promise<ProtocolFrame[]> {
+    const result: ProtocolFrame[] = [];
+    for (let i = await this.indexOfTime(from); i < this.total; i++) {
+      const frame = this.at(i)!;
+      if (frame.timestamp > to) break;
+      result.push(frame);
+    }
+    return result;
+  }
+
+  window(): ProtocolFrame[] {
+    return [...this.frames.slice(this.head), ...this.frames.slice(0, this.head)];
+  }
+
+  async search(predicate: (frame: ProtocolFrame) => boolean, options: SearchOptions = {}): Promise<number[]> {
+    const matches: number[] = [];
+    const end = Math.min(options.end ?? this.total, this.total);
+    for (let i = Math.max(options.start ?? 0, this.firstIndex); i < end; i++) {
+      if (predicate(this.at(i)!)) {
+        matches.push(i);
+        if (options.limit && matches.length >= options.limit) break;
+      }
+    }
+    return matches;
+  }
+
+  async clear(): Promise<void> {
+    this.frames = [];
+    this.head = 0;
+    this.total = 0;
+  }
+
+  async close(): Promise<void> {
+    await this.clear();
+  }
+
+  private at(index: number): ProtocolFrame | null {
+    if (index < this.firstIndex || index >= this.total) return null;
+    return this.frames[(this.head + index - this.firstIndex) % this.frames.length];
+  }
+}
+
+// packages/proto-core/src/storage/file-frame-store.ts
+import { promises as fs, constants } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import type { ProtocolFrame } from '../types/protocol';
+import type { FrameStore, SearchOptions } from './frame-store';
+import { encodeFrameRecord, decodeFrameRecord } from './frame-store';
+
+export interface FileFrameStoreOptions {
+  windowSize?: number; // Frames kept in memory, default 10 000
+  flushBytes?: number; // Pending bytes that trigger a write, default 64 KiB
+  flushInterval?: number; // ms, default 200
+  truncate?: boolean; // Discard existing contents instead of reopening them
+  deleteOnClose?: boolean;
+  hydrate?: (frame: ProtocolFrame) => ProtocolFrame; // Rebuilds decoded views for frames read back from disk
+}
+
+// Index entries are [DATA_OFFSET(8)] [TIMESTAMP(8)]
+const INDEX_ENTRY_SIZE = 16;
+const SCAN_BATCH = 1024;
+
+/**
+ * Append-only frame store backed by a data file and a fixed-width index file
+ * (`<path>.idx`). Recent frames are served from a bounded in-memory window;
+ * older ones are located through the index file, which is never loaded whole.
+ */
+export class FileFrameStore implements FrameStore {
+  private count = 0;
+  private dataBytes = 0;
+  private recent: ProtocolFrame[] = [];
+  private recentHead = 0; // Ring position of the oldest frame in the window
+  private pendingData: Uint8Array[] = [];
+  private pendingIndex: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private flushedData = 0;
+  private flushedIndex = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private readonly windowSize: number;
+  private readonly flushBytes: number;
+  private readonly flushInterval: number;
+
+  private constructor(
+    private readonly path: string,
+    private data: FileHandle,
+    private index: FileHandle,
+    private readonly options: FileFrameStoreOptions
+  ) {
+    this.windowSize = options.windowSize ?? 10_000;
+    this.flushBytes = options.flushBytes ?? 64 * 1024;
+    this.flushInterval = options.flushInterval ?? 200;
+  }
+
+  static async open(path: string, options: FileFrameStoreOptions = {}): Promise<FileFrameStore> {
+    // Not 'a+': with O_APPEND the positional writes of a reopened store would all land at the end
+    const flags = constants.O_RDWR | constants.O_CREAT | (options.truncate ? constants.O_TRUNC : 0);
+    const data = await fs.open(path, flags);
+    const index = await fs.open(`${path}.idx`, flags);
+    const store = new FileFrameStore(path, data, index, options);
+    await store.restore();
+    return store;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  append(frame: ProtocolFrame): number {
+    const record = encodeFrameRecord(frame);
+    const entry = new Uint8Array(INDEX_ENTRY_SIZE);
+    const view = new DataView(entry.buffer);
+    view.setBigUint64(0, BigInt(this.dataBytes), true);
+    view.setBigInt64(8, frame.timestamp, true);
+    this.dataBytes += record.length;
+
+    this.pendingData.push(record);
+    this.pendingIndex.push(entry);
+    this.pendingBytes += record.length;
+
+    if (this.recent.length < this.windowSize) {
+      this.recent.push(frame);
+    } else if (this.recent.length > 0) {
+      this.recent[this.recentHead] = frame;
+      this.recentHead = (this.recentHead + 1) % this.recent.length;
+    }
+
+    if (this.pendingBytes >= this.flushBytes) {
+      this.flush().catch(error => console.error('Frame store flush failed:', error));
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flush().catch(error => console.error('Frame store flush failed:', error));
+      }, this.flushInterval);
+    }
+
+    return this.count++;
+  }
+
+  async get(index: number): Promise<ProtocolFrame | null> {
+    const frames = await this.range(index, index + 1);
+    return frames[0] || null;
+  }
+
+  async range(start: number, end: number): Promise<ProtocolFrame[]> {
+    start = Math.max(0, start);
+    end = Math.min(end, this.count);
+    if (start >= end) return [];
+
+    // Served from memory when the whole range is in the window
+    const windowStart = this.count - this.recent.length;
+    if (start >= windowStart) {
+      const frames: ProtocolFrame[] = [];
+      for (let i = start; i < end; i++) {
+        frames.push(this.recent[(this.recentHead + i - windowStart) % this.recent.length]);
+      }
+      return frames;
+    }
+
+    await this.flush();
+
+    // The entry after the range marks its end, except at the end of the store
+    const entries = await this.readIndex(start, Math.min(end + 1, this.count));
+    const from = entryOffset(entries, 0);
+    const to = end < this.count ? entryOffset(entries, end - start) : this.dataBytes;
+    const buffer = new Uint8Array(to - from);
+    await this.data.read(buffer, 0, buffer.length, from);
+
+    const frames: ProtocolFrame[] = [];
+    for (let i = start; i < end; i++) {
+      const frame = decodeFrameRecord(buffer, entryOffset(entries, i - start) - from);
+      frames.push(this.options.hydrate ? this.options.hydrate(frame) : frame);
+    }
+    return frames;
+  }
+
+  // Binary search over the index file
+  async indexOfTime(timestamp: bigint): Promise<number> {
+    await this.flush();
+
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const entry = await this.readIndex(mid, mid + 1);
+      if (entry.getBigInt64(8, true) < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  async rangeByTime(from: bigint, to: bigint): Promise<ProtocolFrame[]> {
+    const start = await this.indexOfTime(from);
+    const end = await this.indexOfTime(to + BigInt(1));
+    return this.range(start, end);
+  }
+
+  window(): ProtocolFrame[] {
+    return [...this.recent.slice(this.recentHead), ...this.recent.slice(0, this.recentHead)];
+  }
+
+  async search(predicate: (frame: ProtocolFrame) => boolean, options: SearchOptions = {}): Promise<number[]> {
+    const matches: number[] = [];
+    const end = Math.min(options.end ?? this.count, this.count);
+
+    for (let batch = options.start ?? 0; batch < end; batch += SCAN_BATCH) {
+      const frames = await this.range(batch, Math.min(batch + SCAN_BATCH, end));
+      for (let i = 0; i < frames.length; i++) {
+        if (predicate(frames[i])) {
+          matches.push(batch + i);
+          if (options.limit && matches.length >= options.limit) return matches;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  // Iterates stored frames in batches without loading the whole capture
+  async *frames(start = 0, end = this.count): AsyncIterableIterator<ProtocolFrame> {
+    for (let batch = start; batch < end; batch += SCAN_BATCH) {
+      yield* await this.range(batch, Math.min(batch + SCAN_BATCH, end));
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.pendingData.length > 0) {
+      const data = concat(this.pendingData);
+      const index = concat(this.pendingIndex);
+      this.pendingData = [];
+      this.pendingIndex = [];
+      this.pendingBytes = 0;
+
+      this.writeChain = this.writeChain.then(async () => {
+        await this.data.write(data, 0, data.length, this.flushedData);
+        await this.index.write(index, 0, index.length, this.flushedIndex);
+        this.flushedData += data.length;
+        this.flushedIndex += index.length;
+      });
+    }
+
+    return this.writeChain;
+  }
+
+  async clear(): Promise<void> {
+    await this.flush();
+    await this.data.truncate(0);
+    await this.index.truncate(0);
+    this.count = 0;
+    this.dataBytes = 0;
+    this.flushedData = 0;
+    this.flushedIndex = 0;
+    this.recent = [];
+    this.recentHead = 0;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    await this.data.close();
+    await this.index.close();
+
+    if (this.options.deleteOnClose) {
+      await fs.rm(this.path, { force: true });
+      await fs.rm(`${this.path}.idx`, { force: true });
+    }
+  }
+
+  // Picks up the index of a previously written store, rebuilding it if it is behind the data file
+  private async restore(): Promise<void> {
+    const dataSize = (await this.data.stat()).size;
+    const indexSize = (await this.index.stat()).size;
+    this.count = Math.floor(indexSize / INDEX_ENTRY_SIZE);
+
+    const lastEnd = this.count > 0 ? await this.recordEnd(this.count - 1) : 0;
+    if (lastEnd < dataSize) {
+      await this.reindexFrom(lastEnd, dataSize);
+    }
+
+    this.dataBytes = this.count > 0 ? await this.recordEnd(this.count - 1) : 0;
+    this.flushedData = this.dataBytes;
+    this.flushedIndex = this.count * INDEX_ENTRY_SIZE;
+    await this.data.truncate(this.dataBytes); // Drop a partially written trailing record
+    await this.index.truncate(this.flushedIndex);
+
+    this.recent = await this.range(Math.max(0, this.count - this.windowSize), this.count);
+    this.recentHead = 0;
+  }
+
+  // Entries [start, end) of the index file
+  private async readIndex(start: number, end: number): Promise<DataView> {
+    const buffer = new Uint8Array((end - start) * INDEX_ENTRY_SIZE);
+    await this.index.read(buffer, 0, buffer.length, start * INDEX_ENTRY_SIZE);
+    return new DataView(buffer.buffer);
+  }
+
+  private async recordEnd(index: number): Promise<number> {
+    const offset = entryOffset(await this.readIndex(index, index + 1), 0);
+    const header = new Uint8Array(4);
+    await this.data.read(header, 0, 4, offset);
+    return offset + new DataView(header.buffer).getUint32(0, true);
+  }
+
+  private async reindexFrom(offset: number, dataSize: number): Promise<void> {
+    const header = new Uint8Array(16);
+    const view = new DataView(header.buffer);
+    let entries: Uint8Array[] = [];
+
+    const writeEntries = async () => {
+      const index = concat(entries);
+      await this.index.write(index, 0, index.length, (this.count - entries.length) * INDEX_ENTRY_SIZE);
+      entries = [];
+    };
+
+    while (offset + 16 <= dataSize) {
+      await this.data.read(header, 0, 16, offset);
+      const length = view.getUint32(0, true);
+      if (length < 20 || offset + length > dataSize) break;
+
+      const entry = new Uint8Array(INDEX_ENTRY_SIZE);
+      const entryView = new DataView(entry.buffer);
+      entryView.setBigUint64(0, BigInt(offset), true);
+      entryView.setBigInt64(8, view.getBigInt64(8, true), true);
+      entries.push(entry);
+      this.count++;
+      offset += length;
+
+      if (entries.length === SCAN_BATCH) await writeEntries();
+    }
+
+    if (entries.length > 0) await writeEntries();
+  }
+}
+
+function entryOffset(entries: DataView, entry: number): number {
+  return Number(entries.getBigUint64(entry * INDEX_ENTRY_SIZE, true));
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// packages/proto-core/src/node.ts
+// Node-only entry point (`@commwatch/proto-core/node`); keeps fs out of browser bundles
+export { FileFrameStore } from './storage/file-frame-store';
+export type { FileFrameStoreOptions } from './storage/file-frame-store';
+
+// packages/proto-core/src/schemas/config.ts
+import { z } from 'zod';
+
+export const DeviceConfigSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['uart', 'spi', 'i2c', 'can', 'ethernet']),
+  path: z.string().optional(),
+  options: z.record(z.unknown()),
+});
+
+const EnumSchema = z.record(z.string()); // Keys are numeric strings ("1", "0x01")
+
+const BitFieldSchema = z.object({
+  name: z.string(),
+  offset: z.number().int().min(0).max(31), // Bit index from the LSB
+  width: z.number().int().min(1).max(32),
+  enum: EnumSchema.optional(),
+  unit: z.string().optional(),
+});
+
+export interface FieldDefinition {
+  name: string;
+  type: string;
+  offset?: number; // Relative to the enclosing struct; negative counts from the frame end
+  length?: number;
+  scaling?: number;
+  unit?: string;
+  valueOffset?: number;
+  endianness?: 'big' | 'little';
+  lengthField?: string;
+  count?: number;
+  countField?: string;
+  const?: number;
+  enum?: Record<string, string>;
+  bits?: z.infer<typeof BitFieldSchema>[];
+  when?: { field: string; equals: number | number[] };
+  switch?: string;
+  cases?: Record<string, FieldDefinition[]>;
+  default?: FieldDefinition[];
+}
+
+export const FieldDefinitionSchema: z.ZodType<FieldDefinition> = z.lazy(() => z.object({
+  name: z.string(),
+  type: z.string(),
+  offset: z.number().int().optional(),
+  length: z.number().int().nonnegative().optional(),
+  scaling: z.number().optional(),
+  unit: z.string().optional(),
+  valueOffset: z.number().optional(),
+  endianness: z.enum(['big', 'little']).optional(),
+  lengthField: z.string().optional(),
+  count: z.number().int().nonnegative().optional(),
+  countField: z.string().optional(),
+  const: z.number().int().optional(),
+  enum: EnumSchema.optional(),
+  bits: z.array(BitFieldSchema).optional(),
+  when: z.object({
+    field: z.string(),
+    equals: z.union([z.number(), z.array(z.number())]),
+  }).optional(),
+  switch: z.string().optional(),
+  cases: z.record(z.array(FieldDefinitionSchema)).optional(),
+  default: z.array(FieldDefinitionSchema).optional(),
+}));
+
+export const ChecksumDefinitionSchema = z.object({
+  type: z.enum(['crc16-ccitt-false', 'crc32', 'checksum8']),
+  offset: z.number().int(), // Where the checksum is stored; negative counts from the frame end
+  start: z.number().int().optional(), // First covered byte, defaults to 0
+  end: z.number().int().optional(), // Exclusive; defaults to the checksum offset
+  endianness: z.enum(['big', 'little']).optional(),
+});
+
+export const ProtocolConfigSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  decoder: z.string(),
+  endianness: z.enum(['big', 'little']).optional(),
+  fields: z.array(FieldDefinitionSchema),
+  checksum: ChecksumDefinitionSchema.optional(),
+});
+
+const LengthFieldSchema = z.object({
+  offset: z.number().int().nonnegative(),
+  size: z.union([z.literal(1), z.literal(2), z.literal(4)]),
+  endianness: z.enum(['big', 'little']).optional(),
+  adjust: z.number().int().optional(),
+});
+
+const ByteSequenceSchema = z.array(z.number().int().min(0).max(255)).min(1);
+
+export const FramerConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('passthrough') }),
+  z.object({
+    type: z.literal('delimiter'),
+    delimiter: ByteSequenceSchema,
+    includeDelimiter: z.boolean().optional(),
+    maxFrameLength: z.number().int().positive().optional(),
+  }),
+  z.object({
+    type: z.literal('length-prefixed'),
+    length: LengthFieldSchema,
+    maxFrameLength: z.number().int().positive().optional(),
+  }),
+  z.object({
+    type: z.literal('start-end'),
+    start: ByteSequenceSchema,
+    end: ByteSequenceSchema,
+    length: LengthFieldSchema.optional(),
+    maxFrameLength: z.number().int().positive().optional(),
+  }),
+  z.object({ type: z.literal('cobs'), maxFrameLength: z.number().int().positive().optional() }),
+  z.object({ type: z.literal('slip'), maxFrameLength: z.number().int().positive().optional() }),
+  z.object({
+    type: z.literal('idle-gap'),
+    gapMs: z.number().positive(),
+    maxFrameLength: z.number().int().positive().optional(),
+  }),
+]);
+
+export const FieldPredicateSchema = z.object({
+  field: z.string(),
+  op: z.enum(['==', '!=', '>', '>=', '<', '<=', 'in']).optional(), // Default '=='
+  value: z.union([z.number(), z.string(), z.boolean(), z.array(z.union([z.number(), z.string()]))]),
+});
+
+// value depends on type: a hex pattern with ?? wildcards ("^AA 02 ?? ?? BB$"),
+// a regex tested against the frame as ASCII, or a field predicate ("type == 0x02")
+export const FilterConfigSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(['regex', 'pattern', 'field']),
+  value: z.unknown(),
+  action: z.enum(['log', 'colorize', 'export', 'respond', 'start-capture', 'stop-capture', 'bookmark', 'alert']),
+  direction: z.enum(['rx', 'tx', 'any']).optional(), // Frames the rule sees, default rx
+  response: z.string().optional(), // Template sent by respond, see renderTemplate
+  preset: z.string().optional(), // Preset sent by respond when no response is given
+  delayMs: z.number().nonnegative().optional(),
+  label: z.string().optional(), // Bookmark label or alert message
+  enabled: z.boolean().optional(),
+});
+
+export const PresetSchema = z.object({
+  name: z.string(),
+  data: z.string(), // hex string
+  template: z.boolean().optional(),
+});
+
+// Filters and presets on their own, e.g. a rules file or the matching part of a SessionConfig
+export const RuleSetSchema = z.object({
+  filters: z.array(FilterConfigSchema),
+  presets: z.array(PresetSchema).optional(),
+});
+
+export const SessionConfigSchema = z.object({
+  name: z.string(),
+  device: DeviceConfigSchema,
+  protocol: ProtocolConfigSchema,
+  framer: FramerConfigSchema.optional(),
+  filters: z.array(FilterConfigSchema).optional(),
+  presets: z.array(PresetSchema).optional(),
+});
+
+export type DeviceConfig = z.infer<typeof DeviceConfigSchema>;
+export type ProtocolConfig = z.infer<typeof ProtocolConfigSchema>;
+export type ChecksumDefinition = z.infer<typeof ChecksumDefinitionSchema>;
+export type FieldPredicate = z.infer<typeof FieldPredicateSchema>;
+export type FilterConfig = z.infer<typeof FilterConfigSchema>;
+export type Preset = z.infer<typeof PresetSchema>;
+export type RuleSet = z.infer<typeof RuleSetSchema>;
+export type SessionConfig = z.infer<typeof SessionConfigSchema>;
+
+// packages/proto-core/src/schemas/session.ts
+import { z } from 'zod';
+import type { ProtocolFrame } from '../types/protocol';
+import type { DeviceInfo, AdapterOpenOptions } from '../types/transport';
+import type { FramerConfig } from '../framing/framers';
+import { SessionConfigSchema, FramerConfigSchema, FilterConfigSchema } from './config';
+import type { SessionConfig, FilterConfig } from './config';
+
+export const SESSION_FORMAT = 'commwatch-session';
+export const SESSION_VERSION = '2.0';
+
+const HexSchema = z.string().regex(/^([0-9a-f]{2})*$/i);
+
+const DeviceInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['uart', 'spi', 'i2c', 'can', 'ethernet']),
+  path: z.string().optional(),
+  vendorId: z.string().optional(),
+  productId: z.string().optional(),
+  manufacturer: z.string().optional(),
+  serialNumber: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const FrameErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  severity: z.enum(['warning', 'error']),
+});
+
+// Decoded views are not stored; they are rebuilt from the decoder spec on load
+const SessionFrameSchema = z.object({
+  id: z.string(),
+  timestamp: z.string().regex(/^\d+$/), // Nanoseconds as a decimal string
+  direction: z.enum(['rx', 'tx']),
+  raw: HexSchema,
+  error: FrameErrorSchema.optional(),
+  source: z.string().optional(),
+});
+
+// One entry per device session in a multi-device capture; frames refer to it by `source`
+const SessionSourceSchema = z.object({
+  id: z.string(),
+  device: DeviceInfoSchema,
+  adapterOptions: z.record(z.unknown()).default({}),
+  decoder: z.string().optional(),
+  framer: FramerConfigSchema.optional(),
+});
+
+export const BookmarkSchema = z.object({
+  frameId: z.string(),
+  label: z.string(),
+  color: z.string().optional(),
+  note: z.string().optional(),
+});
+
+export const SessionFileSchema = z.object({
+  format: z.literal(SESSION_FORMAT),
+  version: z.literal(SESSION_VERSION),
+  createdAt: z.string(),
+  config: SessionConfigSchema.optional(),
+  device: DeviceInfoSchema.optional(),
+  adapterOptions: z.record(z.unknown()).default({}),
+  decoder: z.string().optional(), // Registry spec, e.g. 'auto' or 'slip,efuse'
+  framer: FramerConfigSchema.optional(),
+  filters: z.array(FilterConfigSchema).default([]),
+  bookmarks: z.array(BookmarkSchema).default([]),
+  sources: z.array(SessionSourceSchema).default([]),
+  frames: z.array(SessionFrameSchema),
+});
+
+export type Bookmark = z.infer<typeof BookmarkSchema>;
+export type SessionFile = z.infer<typeof SessionFileSchema>;
+
+export interface SessionSource {
+  id: string;
+  device: DeviceInfo;
+  adapterOptions?: AdapterOpenOptions;
+  decoder?: string;
+  framer?: FramerConfig;
+}
+
+export interface Session {
+  config?: SessionConfig;
+  device?: DeviceInfo;
+  adapterOptions?: AdapterOpenOptions;
+  decoder?: string;
+  framer?: FramerConfig;
+  filters?: FilterConfig[];
+  bookmarks?: Bookmark[];
+  sources?: SessionSource[];
+  frames: ProtocolFrame[];
+}
+
+function toHex(data: Uint8Array): string {
+  return Array.from(data).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// 1.0 files are `{ version: '1.0', frames }` with raw as a byte array
+function migrateFrom1_0(data: any): unknown {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    createdAt: new Date(0).toISOString(),
+    frames: (Array.isArray(data.frames) ? data.frames : []).map((frame: any) => ({
+      id: String(frame.id),
+      timestamp: String(frame.timestamp),
+      direction: frame.direction,
+      raw: Array.isArray(frame.raw) ? toHex(new Uint8Array(frame.raw)) : frame.raw,
+      error: frame.error || undefined,
+    })),
+  };
+}
+
+export function migrateSession(data: unknown): unknown {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid session file: not an object');
+  }
+
+  const version = (data as any).version;
+  switch (version) {
+    case '1.0':
+      return migrateFrom1_0(data);
+    case SESSION_VERSION:
+      return data;
+    default:
+      throw new Error(`Unsupported session version: ${version}`);
+  }
+}
+
+export function serializeSession(session: Session): string {
+  return JSON.stringify(sessionFile(session, session.frames), null, 2);
+}
+
+/**
+ * Serialize a session piece by piece, pulling frames from an iterator
+ * instead of an array. Joining the chunks gives the same text as
+ * serializeSession.
+ */
+export async function* serializeSessionChunks(
+  session: Omit<Session, 'frames'>,
+  frames: AsyncIterable<ProtocolFrame> | Iterable<ProtocolFrame>
+): AsyncGenerator<string> {
+  const text = JSON.stringify(sessionFile(session, []), null, 2);
+  const split = text.lastIndexOf('"frames": []');
+  yield text.slice(0, split) + '"frames": [';
+
+  let first = true;
+  for await (const frame of frames) {
+    const entry = JSON.stringify(sessionFrame(frame), null, 2).replace(/^/gm, '    ');
+    yield (first ? '\n' : ',\n') + entry;
+    first = false;
+  }
+
+  yield (first ? ']' : '\n  ]') + text.slice(split + '"frames": []'.length);
+}
+
+function sessionFile(session: Omit<Session, 'frames'>, frames: ProtocolFrame[]): SessionFile {
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    createdAt: new Date().toISOString(),
+    config: session.config,
+    device: session.device,
+    adapterOptions: (session.adapterOptions || {}) as Record<string, unknown>,
+    decoder: session.decoder,
+    framer: session.framer,
+    filters: session.filters || [],
+    bookmarks: session.bookmarks || [],
+    sources: (session.sources || []).map(source => ({
+      ...source,
+      adapterOptions: (source.adapterOptions || {}) as Record<string, unknown>,
+    })),
+    frames: frames.map(sessionFrame),
+  };
+}
+
+function sessionFrame(frame: ProtocolFrame): SessionFile['frames'][number] {
+  return {
+    id: frame.id,
+    timestamp: frame.timestamp.toString(),
+    direction: frame.direction,
+    raw: toHex(frame.raw),
+    error: frame.error,
+    source: frame.source,
+  };
+}
+
+export function parseSession(text: string): Session {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid session file: ${(error as Error).message}`);
+  }
+
+  const result = SessionFileSchema.safeParse(migrateSession(data));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid session file: ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const file = result.data;
+  return {
+    config: file.config,
+    device: file.device,
+    adapterOptions: file.adapterOptions as AdapterOpenOptions,
+    decoder: file.decoder,
+    framer: file.framer,
+    filters: file.filters,
+    bookmarks: file.bookmarks,
+    sources: file.sources.map(source => ({
+      ...source,
+      adapterOptions: source.adapterOptions as AdapterOpenOptions,
+    })),
+    frames: file.frames.map(frame => ({
+      id: frame.id,
+      timestamp: BigInt(frame.timestamp),
+      direction: frame.direction,
+      raw: fromHex(frame.raw),
+      error: frame.error,
+      source: frame.source,
+    })),
+  };
+}
+
+// packages/proto-core/src/rules/template.ts
+import type { DecodedFrame, FrameField, ProtocolFrame } from '../types/protocol';
+import { CRCCalculator } from '../utils/crc';
+
+/**
+ * Response templates are hex bytes with placeholders in braces:
+ *   {frame[1]}     byte of the triggering frame; negative indices count from the end
+ *   {frame[4:-3]}  slice of the triggering frame, end exclusive
+ *   {field.adc}    decoded field value as one byte; add :u16be, :u16le, :u32be or :u32le for wider values
+ *   {crc16(1)}     CRC-16/CCITT-FALSE (big-endian) over the bytes rendered so far, from offset 1
+ *   {crc32(0)}, {sum8(0)} likewise
+ * e.g. "AA 81 00 02 {frame[4:6]} {crc16(1)} BB" echoes a payload back as an EFuse reply.
+ */
+export interface TemplateContext {
+  frame?: ProtocolFrame;
+}
+
+const TOKEN = /\s+|([0-9A-Fa-f]{2})|\{([^}]*)\}/y;
+
+const WIDTHS: Record<string, { size: number; littleEndian: boolean }> = {
+  u8: { size: 1, littleEndian: false },
+  u16be: { size: 2, littleEndian: false },
+  u16le: { size: 2, littleEndian: true },
+  u32be: { size: 4, littleEndian: false },
+  u32le: { size: 4, littleEndian: true },
+};
+
+export function renderTemplate(template: string, context: TemplateContext = {}): Uint8Array {
+  const out: number[] = [];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < template.length) {
+    const position = TOKEN.lastIndex;
+    const match = TOKEN.exec(template);
+    if (!match) {
+      throw new Error(`Invalid template at ${position}: ${template.slice(position, position + 10)}`);
+    }
+
+    if (match[1]) {
+      out.push(parseInt(match[1], 16));
+    } else if (match[2] !== undefined) {
+      out.push(...renderPlaceholder(match[2].trim(), out, context));
+    }
+  }
+
+  return new Uint8Array(out);
+}
+
+// Looks a field up by name in the decoded frame and then in its decoder-stack layers
+export function findField(decoded: DecodedFrame | undefined, name: string): FrameField | undefined {
+  if (!decoded) return undefined;
+
+  const field = decoded.fields.find(f => f.name === name);
+  if (field) return field;
+
+  for (const layer of decoded.layers || []) {
+    const found = findField(layer, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function renderPlaceholder(expr: string, out: number[], context: TemplateContext): number[] {
+  let match: RegExpMatchArray | null;
+
+  if ((match = expr.match(/^frame\[(-?\d+)\]$/))) {
+    const raw = requireFrame(context, expr).raw;
+    const index = resolveIndex(parseInt(match[1], 10), raw.length);
+    if (index < 0 || index >= raw.length) {
+      throw new Error(`Template ${expr} is outside the ${raw.length}-byte frame`);
+    }
+    return [raw[index]];
+  }
+
+  if ((match = expr.match(/^frame\[(-?\d*):(-?\d*)\]$/))) {
+    const raw = requireFrame(context, expr).raw;
+    const start = match[1] ? resolveIndex(parseInt(match[1], 10), raw.length) : 0;
+    const end = match[2] ? resolveIndex(parseInt(match[2], 10), raw.length) : raw.length;
+    return Array.from(raw.slice(start, end));
+  }
+
+  if ((match = expr.match(/^field\.([\w.]+?)(?::(\w+))?$/))) {
+    const field = findField(requireFrame(context, expr).decoded, match[1]);
+    if (!field) {
+      throw new Error(`Template ${expr}: field ${match[1]} is not in the decoded frame`);
+    }
+    const width = WIDTHS[match[2] || 'u8'];
+    if (!width) {
+      throw new Error(`Template ${expr}: unknown width ${match[2]}`);
+    }
+    return encodeInteger(Number(field.value), width.size, width.littleEndian, expr);
+  }
+
+  if ((match = expr.match(/^(crc16|crc32|sum8)\((\d+)\)$/))) {
+    const covered = new Uint8Array(out.slice(parseInt(match[2], 10)));
+    switch (match[1]) {
+      case 'crc16':
+        return encodeInteger(CRCCalculator.crc16CcittFalse(covered), 2, false, expr);
+      case 'crc32':
+        return encodeInteger(CRCCalculator.crc32(covered), 4, false, expr);
+      default:
+        return [CRCCalculator.checksum8(covered)];
+    }
+  }
+
+  throw new Error(`Unknown template placeholder: {${expr}}`);
+}
+
+function requireFrame(context: TemplateContext, expr: string): ProtocolFrame {
+  if (!context.frame) {
+    throw new Error(`Template ${expr} needs a triggering frame`);
+  }
+  return context.frame;
+}
+
+function resolveIndex(index: number, length: number): number {
+  return index < 0 ? length + index : index;
+}
+
+function encodeInteger(value: number, size: number, littleEndian: boolean, expr: string): number[] {
+  if (!Number.isInteger(value)) {
+    throw new Error(`Template ${expr}: ${value} is not an integer`);
+  }
+
+  const bytes: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Math.floor(value / 2 ** (i * 8)) & 0xFF);
+  }
+  return littleEndian ? bytes.reverse() : bytes;
+}
+
+// packages/proto-core/src/rules/rule-engine.ts
+import type { ProtocolFrame } from '../types/protocol';
+import type { Unsubscribe } from '../types/transport';
+import type { MessageBus } from '../message-bus/events';
+import type { FieldPredicate, FilterConfig, Preset, RuleSet } from '../schemas/config';
+import { FieldPredicateSchema, RuleSetSchema } from '../schemas/config';
+import { findField, renderTemplate } from './template';
+
+// Display-only filters (log, colorize, export) are left to the UI
+const TRIGGER_ACTIONS = new Set(['respond', 'start-capture', 'stop-capture', 'bookmark', 'alert']);
+
+export interface RuleActions {
+  // The frame reporting the response should carry `data` itself as its raw bytes so it is recognized as one
+  respond?(data: Uint8Array, frame: ProtocolFrame, rule: FilterConfig): void | Promise<void>;
+  startCapture?(frame: ProtocolFrame, rule: FilterConfig): void;
+  stopCapture?(frame: ProtocolFrame, rule: FilterConfig): void;
+  bookmark?(frame: ProtocolFrame, label: string, rule: FilterConfig): void;
+  alert?(message: string, frame: ProtocolFrame, rule: FilterConfig): void;
+}
+
+interface CompiledRule {
+  rule: FilterConfig;
+  label: string;
+  test: (frame: ProtocolFrame) => boolean;
+}
+
+/**
+ * Runs the trigger rules of a SessionConfig (respond, start/stop capture,
+ * bookmark, alert) against frames as they arrive.
+ */
+export class RuleEngine {
+  enabled = true; // Cleared while loading saved frames so they don't trigger responses
+  private compiled: CompiledRule[] = [];
+  private presets: Map<string, Preset> = new Map();
+  private responses = new WeakSet<Uint8Array>(); // Data sent by respond rules
+  private bus?: MessageBus;
+
+  constructor(ruleSet: RuleSet, private actions: RuleActions = {}) {
+    this.setRules(ruleSet);
+  }
+
+  get rules(): FilterConfig[] {
+    return this.compiled.map(c => c.rule);
+  }
+
+  // Throws if a rule's value doesn't fit its type
+  setRules(ruleSet: RuleSet): void {
+    this.presets = new Map((ruleSet.presets || []).map(p => [p.name, p]));
+    this.compiled = ruleSet.filters
+      .filter(rule => TRIGGER_ACTIONS.has(rule.action))
+      .map((rule, index) => this.compile(rule, index));
+  }
+
+  // Trigger rules that match the frame, without running them
+  matches(frame: ProtocolFrame): FilterConfig[] {
+    return this.compiled.filter(c => this.applies(c, frame)).map(c => c.rule);
+  }
+
+  process(frame: ProtocolFrame): FilterConfig[] {
+    if (!this.enabled) return [];
+
+    const triggered = this.compiled.filter(c => this.applies(c, frame));
+    triggered.forEach(c => this.run(c, frame));
+    return triggered.map(c => c.rule);
+  }
+
+  // Runs rules for frames on the bus and reports them as rule:triggered events
+  attach(bus: MessageBus): Unsubscribe {
+    this.bus = bus;
+    const unsubscribeRx = bus.on('frame:received', event => this.process(event.frame));
+    const unsubscribeTx = bus.on('frame:sent', event => this.process(event.frame));
+
+    return () => {
+      unsubscribeRx();
+      unsubscribeTx();
+      if (this.bus === bus) this.bus = undefined;
+    };
+  }
+
+  private applies(compiled: CompiledRule, frame: ProtocolFrame): boolean {
+    const { rule } = compiled;
+    if (rule.enabled === false) return false;
+
+    const direction = rule.direction || 'rx';
+    if (direction !== 'any' && direction !== frame.direction) return false;
+    // Otherwise a response matching its own rule would be answered forever
+    if (rule.action === 'respond' && this.responses.has(frame.raw)) return false;
+
+    return compiled.test(frame);
+  }
+
+  private run({ rule, label }: CompiledRule, frame: ProtocolFrame): void {
+    const message = rule.label || `${label} matched ${frame.id}`;
+
+    try {
+      switch (rule.action) {
+        case 'respond':
+          this.respond(rule, frame);
+          break;
+        case 'start-capture':
+          this.actions.startCapture?.(frame, rule);
+          break;
+        case 'stop-capture':
+          this.actions.stopCapture?.(frame, rule);
+          break;
+        case 'bookmark':
+          this.actions.bookmark?.(frame, message, rule);
+          break;
+        case 'alert':
+          this.actions.alert?.(message, frame, rule);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error in ${label}:`, error);
+    }
+
+    this.bus?.publish('rule:triggered', { rule, frame, message });
+  }
+
+  private respond(rule: FilterConfig, frame: ProtocolFrame): void {
+    const template = rule.response ?? this.presets.get(rule.preset!)?.data;
+    if (template === undefined) {
+      throw new Error(`Unknown preset: ${rule.preset}`);
+    }
+
+    const data = renderTemplate(template, { frame });
+    this.responses.add(data);
+    const send = () => {
+      Promise.resolve(this.actions.respond?.(data, frame, rule)).catch(error => {
+        console.error('Rule response failed:', error);
+      });
+    };
+
+    if (rule.delayMs) {
+      setTimeout(send, rule.delayMs);
+    } else {
+      send();
+    }
+  }
+
+  private compile(rule: FilterConfig, index: number): CompiledRule {
+    const label = `rule ${rule.id ?? index}`;
+
+    if (rule.action === 'respond' && rule.response === undefined && rule.preset === undefined) {
+      throw new Error(`Invalid ${label}: respond needs a response or preset`);
+    }
+    if (rule.preset !== undefined && rule.response === undefined && !this.presets.has(rule.preset)) {
+      throw new Error(`Invalid ${label}: unknown preset ${rule.preset}`);
+    }
+
+    return { rule, label, test: compileFrameMatcher(rule, label) };
+  }
+}
+
+export type FrameMatcherSpec = Pick<FilterConfig, 'type' | 'value'>;
+
+// Builds the predicate behind a pattern, regex or field rule; throws if the value doesn't fit the type
+export function compileFrameMatcher(spec: FrameMatcherSpec, label = 'matcher'): (frame: ProtocolFrame) => boolean {
+  switch (spec.type) {
+    case 'pattern':
+      return compilePattern(requireString(spec, label));
+    case 'regex': {
+      const regex = new RegExp(requireString(spec, label));
+      return frame => regex.test(toAscii(frame.raw));
+    }
+    case 'field':
+      return compileFieldPredicate(parseFieldPredicate(spec.value, label));
+  }
+}
+
+// Accepts a parsed rules file or SessionConfig; extra keys are ignored
+export function parseRuleSet(data: unknown): RuleSet {
+  const result = RuleSetSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid rules: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+function requireString(spec: FrameMatcherSpec, label: string): string {
+  if (typeof spec.value !== 'string' || !spec.value) {
+    throw new Error(`Invalid ${label}: ${spec.type} value must be a non-empty string`);
+  }
+  return spec.value;
+}
+
+function toAscii(raw: Uint8Array): string {
+  let text = '';
+  for (const byte of raw) {
+    text += String.fromCharCode(byte);
+  }
+  return text;
+}
+
+// "^AA 02 ?? ?? BB$": hex bytes with ?? wildcards, optionally anchored to the frame start/end
+function compilePattern(pattern: string): (frame: ProtocolFrame) => boolean {
+  let body = pattern.trim();
+  const anchorStart = body.startsWith('^');
+  const anchorEnd = body.endsWith('$');
+  body = body.replace(/^\^|\$$/g, '').replace(/\s/g, '');
+
+  if (!body || body.length % 2 !== 0 || /[^0-9a-f?]/i.test(body)) {
+    throw new Error(`Invalid byte pattern: ${pattern}`);
+  }
+
+  const bytes: (number | null)[] = [];
+  for (let i = 0; i < body.length; i += 2) {
+    const pair = body.substr(i, 2);
+    if (pair === '??') {
+      bytes.push(null);
+    } else if (pair.includes('?')) {
+      throw new Error(`Invalid byte pattern: ${pattern}`);
+    } else {
+      bytes.push(parseInt(pair, 16));
+    }
+  }
+
+  const matchesAt = (raw: Uint8Array, offset: number) =>
+    bytes.every((b, i) => b === null || raw[offset + i] === b);
+
+  return ({ raw }) => {
+    const last = raw.length - bytes.length;
+    if (last < 0) return false;
+    if (anchorStart) return (!anchorEnd || last === 0) && matchesAt(raw, 0);
+    if (anchorEnd) return matchesAt(raw, last);
+
+    for (let offset = 0; offset <= last; offset++) {
+      if (matchesAt(raw, offset)) return true;
+    }
+    return false;
+  };
+}
+
+// Field predicates are objects ({ field, op, value }) or strings such as "type == 0x02"
+function parseFieldPredicate(value: unknown, label: string): FieldPredicate {
+  if (typeof value === 'string') {
+    const match = value.match(/^\s*([\w.]+)\s*(==|!=|>=|<=|>|<)\s*(.+?)\s*$/);
+    if (!match) {
+      throw new Error(`Invalid ${label}: expected "<field> <op> <value>", got "${value}"`);
+    }
+    const operand = Number(match[3]);
+    return {
+      field: match[1],
+      op: match[2] as FieldPredicate['op'],
+      value: Number.isNaN(operand) ? match[3].replace(/^(['"])(.*)\1$/, '$2') : operand,
+    };
+  }
+
+  const result = FieldPredicateSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid ${label}: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+function compileFieldPredicate(predicate: FieldPredicate): (frame: ProtocolFrame) => boolean {
+  const op = predicate.op || '==';
+
+  return frame => {
+    const field = findField(frame.decoded, predicate.field);
+    if (!field) return false;
+
+    // String operands match the enum label when there is one, so "status == 'FAULT'" works
+    const actual = (operand: unknown) =>
+      typeof operand === 'string' && field.label !== undefined ? field.label : field.value;
+    const equals = (operand: unknown) => {
+      const value = actual(operand);
+      return typeof operand === 'string' && typeof value === 'string'
+        ? value === operand
+        : Number(value) === Number(operand);
+    };
+
+    switch (op) {
+      case '==':
+        return equals(predicate.value);
+      case '!=':
+        return !equals(predicate.value);
+      case 'in':
+        return Array.isArray(predicate.value) && predicate.value.some(equals);
+      default: {
+        const value = Number(field.value);
+        const operand = Number(predicate.value);
+        if (Number.isNaN(value) || Number.isNaN(operand)) return false;
+        return op === '>' ? value > operand
+          : op === '>=' ? value >= operand
+          : op === '<' ? value < operand
+          : value <= operand;
+      }
+    }
+  };
+}
 
 // packages/proto-core/src/index.ts
 export * from './types/transport';
 export * from './types/protocol';
 export * from './utils/crc';
+export * from './utils/can-frame';
+export * from './utils/can-stats';
+export * from './utils/serial-lines';
+export * from './utils/baud-detect';
+export * from './utils/reconnect';
+export * from './utils/multi-drop';
 export * from './message-bus/events';
+export * from './message-bus/bridge';
+export * from './framing/framers';
+export * from './decoding/registry';
+export * from './decoding/dbc';
 export * from './schemas/config';
+export * from './schemas/session';
+export * from './storage/frame-store';
+export * from './rules/template';
+export * from './rules/rule-engine';
 
 export { MessageBus } from './message-bus/events';
+export { bridgeMessageBus, encodeBusEvent, decodeBusEvent } from './message-bus/bridge';
 export { CRCCalculator } from './utils/crc';
+export {
+  encodeCanFrame,
+  decodeCanFrame,
+  canDlcToLength,
+  canLengthToDlc,
+  encodeIsoTpMessage,
+  decodeIsoTpMessage,
+} from './utils/can-frame';
+export { CanBusStatistics, canFrameBits } from './utils/can-stats';
+export { hasSerialLines, decodeLineState, formatLineState } from './utils/serial-lines';
+export {
+  scoreBaudSample,
+  rankBaudCandidates,
+  formatBaudCandidate,
+  STANDARD_BAUD_RATES,
+  SERIAL_FORMATS,
+} from './utils/baud-detect';
+export { ReconnectingHandle, physicalDeviceKey, isSameDevice } from './utils/reconnect';
+export { MultiDropTracker, characterTimeMs } from './utils/multi-drop';
+export { createFramer, attachFramer } from './framing/framers';
+export { DecoderRegistry, DecoderStack, AutoDecoder } from './decoding/registry';
+export { parseDbc, findDbcMessage, decodeDbcMessage, encodeDbcMessage, signalByteRange } from './decoding/dbc';
+export { serializeSession, serializeSessionChunks, parseSession, migrateSession } from './schemas/session';
+export { MemoryFrameStore } from './storage/frame-store';
+export { renderTemplate, findField } from './rules/template';
+export { RuleEngine, parseRuleSet, compileFrameMatcher } from './rules/rule-engine';
@@ -0,0 +1,570 @@
+// packages/scripting/src/types.ts
+import type { FieldPredicate, ProtocolFrame, Unsubscribe } from '@commwatch/proto-core';
+
+// Where a script sends bytes and receives frames
+export interface ScriptTarget {
+  send(data: Uint8Array): Promise<void>;
+  onFrame(callback: (frame: ProtocolFrame) => void): Unsubscribe;
+}
+
+export interface ScriptFrame extends ProtocolFrame {
+  fields: Record<string, unknown>; // Decoded field values by name, including stacked layers
+}
+
+// What expect() accepts: a hex pattern with ?? wildcards ("^AA 01 ?? ??"),
+// a RegExp tested against the frame as ASCII, a field predicate or a function
+export type FrameMatcher = string | RegExp | FieldPredicate | ((frame: ScriptFrame) => boolean);
+
+export interface ScriptOptions {
+  filename?: string;
+  timeoutMs?: number; // Whole script, default 60 s
+  expectTimeoutMs?: number; // Default for expect(), 1 s
+  globals?: Record<string, unknown>; // Extra script globals, e.g. a UDS client; built-ins take precedence
+  onLog?: (message: string) => void;
+}
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  assertions: number;
+  error?: string;
+}
+
+export interface ScriptReport {
+  script: string;
+  passed: boolean;
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  tests: TestResult[];
+  logs: string[];
+}
+
+// packages/scripting/src/targets.ts
+import type { AdapterHandle, FramerConfig, MessageBus, ProtocolDecoder, ProtocolFrame } from '@commwatch/proto-core';
+import { attachFramer, createFramer, decodeLineState } from '@commwatch/proto-core';
+import type { ScriptTarget } from './types';
+
+// Frames and decodes a handle's byte stream itself, for callers without a session (CLI)
+export function handleTarget(
+  handle: AdapterHandle,
+  framerConfig: FramerConfig = { type: 'passthrough' },
+  decoder?: ProtocolDecoder
+): ScriptTarget {
+  let frameId = 0;
+
+  return {
+    send: data => handle.write(data),
+    onFrame: callback => attachFramer(handle, createFramer(framerConfig), (framed, meta) => {
+      const frame: ProtocolFrame = {
+        id: `frame-${frameId++}`,
+        timestamp: framed.timestamp,
+        direction: meta?.direction || 'rx',
+        raw: framed.data,
+        error: framed.error,
+      };
+
+      if (meta?.lineState) {
+        frame.decoded = decodeLineState(meta.lineState);
+      } else if (decoder && !frame.error) {
+        frame.decoded = decoder.decode(frame.raw) || undefined;
+        frame.error = decoder.validate(frame.raw) || undefined;
+      }
+
+      callback(frame);
+    }),
+  };
+}
+
+// Uses frames already decoded and published on a bus, optionally only those of one session
+export function busTarget(
+  bus: MessageBus,
+  send: (data: Uint8Array) => Promise<unknown>,
+  source?: string
+): ScriptTarget {
+  return {
+    send: async data => {
+      await send(data);
+    },
+    onFrame: callback => bus.on('frame:received', ({ frame }) => {
+      if (!source || frame.source === source) callback(frame);
+    }),
+  };
+}
+
+// packages/scripting/src/transpile.ts
+import * as ts from 'typescript';
+
+/**
+ * Compiles a JS/TS script to plain JS. The source becomes the body of an async
+ * function so scripts can await at the top level; imports are not available.
+ */
+export function compileScript(source: string, filename = 'script.ts'): string {
+  const wrapped = `(async () => {\n${source}\n})()`;
+  const result = ts.transpileModule(wrapped, {
+    fileName: filename,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+    },
+  });
+
+  const diagnostic = result.diagnostics?.find(d => d.category === ts.DiagnosticCategory.Error);
+  if (diagnostic) {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    // The wrapper adds one line, so the 0-based wrapped line is the 1-based source line
+    const line = diagnostic.file && diagnostic.start !== undefined
+      ? `:${diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line}`
+      : '';
+    throw new Error(`${filename}${line}: ${message}`);
+  }
+
+  return result.outputText;
+}
+
+// packages/scripting/src/runner.ts
+import * as vm from 'vm';
+import { inspect } from 'util';
+import type { DecodedFrame, FieldPredicate, ProtocolFrame, Unsubscribe } from '@commwatch/proto-core';
+import { compileFrameMatcher, renderTemplate } from '@commwatch/proto-core';
+import type { FrameMatcher, ScriptFrame, ScriptOptions, ScriptReport, ScriptTarget, TestResult } from './types';
+import { compileScript } from './transpile';
+
+const MAX_QUEUED_FRAMES = 10_000;
+const SCRIPT_TEST = '(script)'; // Assertions and errors outside test() blocks
+
+// Runs the microtasks a settled host promise queued in the script context
+const DRAIN = new vm.Script('');
+
+// Evaluated in the script context and called with the host functions, which
+// stay in its closure. Scripts only see functions, objects and errors of their
+// own realm: host values are copied in, host promises become context promises
+// resolved through host.settle, and methods of extra globals are wrapped.
+const BOOTSTRAP = new vm.Script(`(host) => {
+  const toError = error => new Error(error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error));
+  const copy = value => {
+    if (typeof value === 'function') return wrap(value);
+    if (value === null || typeof value !== 'object') return value;
+    const tag = Object.prototype.toString.call(value).slice(8, -1);
+    if (ArrayBuffer.isView(value)) return new globalThis[tag](Array.from(value));
+    if (Array.isArray(value)) return Array.from(value, copy);
+    if (tag === 'Error') return toError(value);
+    if (tag === 'Date') return new Date(value.getTime());
+    if (tag === 'RegExp') return new RegExp(value.source, value.flags);
+    const result = {};
+    for (const key of Object.keys(value)) result[key] = copy(value[key]);
+    return result;
+  };
+  const settle = value => value && typeof value.then === 'function'
+    ? new Promise((resolve, reject) => host.settle(value, result => resolve(copy(result)), error => reject(toError(error))))
+    : copy(value);
+  const wrap = (fn, self) => (...args) => {
+    let result;
+    try {
+      result = Reflect.apply(fn, self, args);
+    } catch (error) {
+      throw toError(error);
+    }
+    return settle(result);
+  };
+  // Class instances, e.g. a UDS client, expose their methods only
+  const expose = value => {
+    const proto = value && typeof value === 'object' ? Object.getPrototypeOf(value) : null;
+    if (!proto || !Object.getPrototypeOf(proto)) return copy(value);
+    const result = {};
+    for (let p = proto; Object.getPrototypeOf(p); p = Object.getPrototypeOf(p)) {
+      for (const name of Object.getOwnPropertyNames(p)) {
+        const fn = Object.getOwnPropertyDescriptor(p, name).value;
+        if (name !== 'constructor' && !(name in result) && typeof fn === 'function') result[name] = wrap(fn, value);
+      }
+    }
+    return result;
+  };
+
+  for (const [name, value] of Object.entries(host.extra)) globalThis[name] = expose(value);
+  for (const [name, fn] of Object.entries(host.globals)) globalThis[name] = wrap(fn);
+  const expectFrame = globalThis.expect;
+  globalThis.expect = (matcher, ...args) =>
+    expectFrame(typeof matcher === 'function' ? frame => matcher(copy(frame)) : matcher, ...args);
+  globalThis.console = { log, info: log, warn: log, error: log };
+}`, { filename: 'bootstrap.js' });
+
+interface Waiter {
+  test: (frame: ScriptFrame) => boolean;
+  resolve: (frame: ScriptFrame) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs test scripts against a target in a separate vm context. Scripts get
+ * send, expect, sleep, test, assert, assertEqual and log as globals, built in
+ * the context so that no host object (and with it no host Function
+ * constructor) is reachable. The context runs its own microtask queue, so the
+ * timeout also stops scripts that loop on await. This keeps well-meaning
+ * scripts from reaching require or process by accident; vm is still not a
+ * security boundary for untrusted code.
+ */
+export class ScriptRunner {
+  private queue: ScriptFrame[] = []; // Received while no expect() was waiting
+  private waiter: Waiter | null = null;
+  private currentTest: TestResult | null = null;
+  private scriptAssertions = 0;
+
+  constructor(private target: ScriptTarget) {}
+
+  async run(source: string, options: ScriptOptions = {}): Promise<ScriptReport> {
+    const filename = options.filename || 'script.ts';
+    const startedAt = new Date();
+    const tests: TestResult[] = [];
+    const logs: string[] = [];
+
+    const log = (...args: unknown[]) => {
+      const message = args.map(arg => typeof arg === 'string' ? arg : inspect(arg)).join(' ');
+      logs.push(message);
+      options.onLog?.(message);
+    };
+
+    this.queue = [];
+    this.scriptAssertions = 0;
+    const unsubscribe = this.target.onFrame(frame => this.receive(toScriptFrame(frame)));
+    const finished = new AbortController();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const code = compileScript(source, filename);
+      const timeoutMs = options.timeoutMs ?? 60_000;
+      const deadline = Date.now() + timeoutMs;
+      const context = vm.createContext({}, { microtaskMode: 'afterEvaluate' });
+      let abort!: (error: Error) => void;
+      const aborted = new Promise<never>((_, reject) => {
+        abort = reject;
+      });
+
+      // Each slice of script code runs, with its microtasks, under what is left of the timeout
+      const evaluate = (script: vm.Script): unknown => {
+        try {
+          return script.runInContext(context, { timeout: Math.max(1, deadline - Date.now()) });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+            throw new Error(`Script timed out after ${timeoutMs} ms`);
+          }
+          throw error;
+        }
+      };
+      const resume = (settle: () => void) => {
+        if (finished.signal.aborted) return;
+        settle();
+        try {
+          evaluate(DRAIN);
+        } catch (error) {
+          abort(error as Error);
+        }
+      };
+
+      const install = evaluate(BOOTSTRAP) as (host: unknown) => void;
+      install({
+        globals: this.createGlobals(tests, log, options.expectTimeoutMs ?? 1000, finished.signal),
+        extra: options.globals || {},
+        settle: (promise: Promise<unknown>, resolve: (value: unknown) => void, reject: (error: unknown) => void) => {
+          promise.then(value => resume(() => resolve(value)), error => resume(() => reject(error)));
+        },
+      });
+
+      await Promise.race([
+        fromScript(evaluate(new vm.Script(code, { filename }))),
+        aborted,
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error(`Script timed out after ${timeoutMs} ms`)), timeoutMs);
+        }),
+      ]);
+
+      if (tests.length === 0 || this.scriptAssertions > 0) {
+        tests.push(this.scriptResult(startedAt, true));
+      }
+    } catch (error) {
+      tests.push({ ...this.scriptResult(startedAt, false), error: errorMessage(error) });
+    } finally {
+      clearTimeout(timeout);
+      finished.abort();
+      unsubscribe();
+      this.cancelWaiter(new Error('Script finished'));
+      this.currentTest = null;
+    }
+
+    return {
+      script: filename,
+      passed: tests.every(t => t.passed),
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      tests,
+      logs,
+    };
+  }
+
+  private createGlobals(
+    tests: TestResult[],
+    log: (...args: unknown[]) => void,
+    expectTimeoutMs: number,
+    finished: AbortSignal
+  ) {
+    // A script still running after run() settled (e.g. timed out) can no longer send or wait
+    const active = <T>(fn: () => Promise<T>): Promise<T> =>
+      finished.aborted ? Promise.reject(new Error('Script finished')) : fn();
+
+    return {
+      // Hex strings may use response template placeholders such as {crc16(1)}
+      send: (data: string | ArrayLike<number>) => active(() => this.target.send(
+        typeof data === 'string' ? renderTemplate(data) : Uint8Array.from(data)
+      )),
+      expect: (matcher: FrameMatcher, timeoutMs = expectTimeoutMs) => active(() => this.expect(matcher, timeoutMs)),
+      sleep: (ms: number) => active(() => sleep(ms, finished)),
+      test: (name: string, fn: () => unknown) => this.test(name, fn, tests),
+      assert: (condition: unknown, message = 'Assertion failed') => {
+        this.countAssertion();
+        if (!condition) throw new Error(message);
+      },
+      assertEqual: (actual: unknown, expected: unknown, message?: string) => {
+        this.countAssertion();
+        if (!deepEqual(actual, expected)) {
+          throw new Error(`${message ? `${message}: ` : ''}expected ${inspect(expected)}, got ${inspect(actual)}`);
+        }
+      },
+      log,
+    };
+  }
+
+  private async test(name: string, fn: () => unknown, tests: TestResult[]): Promise<boolean> {
+    if (this.currentTest) {
+      throw new Error(`test("${name}") cannot be nested in test("${this.currentTest.name}")`);
+    }
+
+    const result: TestResult = { name, passed: true, durationMs: 0, assertions: 0 };
+    const start = Date.now();
+    this.currentTest = result;
+
+    try {
+      await fromScript(fn());
+    } catch (error) {
+      result.passed = false;
+      result.error = errorMessage(error);
+      this.cancelWaiter(new Error(`test("${name}") failed`));
+    } finally {
+      this.currentTest = null;
+      result.durationMs = Date.now() - start;
+      tests.push(result);
+    }
+
+    return result.passed;
+  }
+
+  // Resolves with the first matching frame received since the previous expect()
+  private expect(matcher: FrameMatcher, timeoutMs: number): Promise<ScriptFrame> {
+    if (this.waiter) {
+      return Promise.reject(new Error('expect() is already waiting for a frame'));
+    }
+
+    let test: (frame: ScriptFrame) => boolean;
+    try {
+      test = compileMatcher(matcher);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    this.countAssertion();
+
+    const index = this.queue.findIndex(test);
+    if (index >= 0) {
+      const frame = this.queue[index];
+      this.queue = this.queue.slice(index + 1);
+      return Promise.resolve(frame);
+    }
+    this.queue = [];
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        reject(new Error(`expect timed out after ${timeoutMs} ms waiting for ${describeMatcher(matcher)}`));
+      }, timeoutMs);
+      this.waiter = { test, resolve, reject, timer };
+    });
+  }
+
+  private receive(frame: ScriptFrame): void {
+    const waiter = this.waiter;
+    if (!waiter) {
+      this.queue.push(frame);
+      if (this.queue.length > MAX_QUEUED_FRAMES) this.queue.shift();
+      return;
+    }
+
+    let matched: boolean;
+    try {
+      matched = waiter.test(frame);
+    } catch (error) {
+      this.cancelWaiter(error as Error);
+      return;
+    }
+
+    if (matched) {
+      clearTimeout(waiter.timer);
+      this.waiter = null;
+      waiter.resolve(frame);
+    }
+  }
+
+  private cancelWaiter(error: Error): void {
+    if (this.waiter) {
+      clearTimeout(this.waiter.timer);
+      this.waiter.reject(error);
+      this.waiter = null;
+    }
+  }
+
+  private countAssertion(): void {
+    if (this.currentTest) {
+      this.currentTest.assertions++;
+    } else {
+      this.scriptAssertions++;
+    }
+  }
+
+  private scriptResult(startedAt: Date, passed: boolean): TestResult {
+    return {
+      name: SCRIPT_TEST,
+      passed,
+      durationMs: Date.now() - startedAt.getTime(),
+      assertions: this.scriptAssertions,
+    };
+  }
+}
+
+export function runScript(source: string, target: ScriptTarget, options?: ScriptOptions): Promise<ScriptReport> {
+  return new ScriptRunner(target).run(source, options);
+}
+
+// Rejects when the run is over, so scripts that outlive it stop at their next sleep
+function sleep(ms: number, finished: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new Error('Script finished'));
+    };
+    const timer = setTimeout(() => {
+      finished.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    finished.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// Awaiting a promise of the script context would queue its then() call in the
+// context's microtask queue, which only runs along with script code
+function fromScript(value: unknown): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (value && typeof (value as PromiseLike<unknown>).then === 'function') {
+      (value as PromiseLike<unknown>).then(resolve, reject);
+    } else {
+      resolve(value);
+    }
+  });
+}
+
+function toScriptFrame(frame: ProtocolFrame): ScriptFrame {
+  const fields: Record<string, unknown> = {};
+  const collect = (decoded?: DecodedFrame) => {
+    if (!decoded) return;
+    decoded.fields.forEach(field => {
+      if (!(field.name in fields)) fields[field.name] = field.value;
+    });
+    decoded.layers?.forEach(collect);
+  };
+  collect(frame.decoded);
+
+  return { ...frame, fields };
+}
+
+// Script values come from another vm realm, so instanceof checks don't apply
+function compileMatcher(matcher: FrameMatcher): (frame: ScriptFrame) => boolean {
+  if (typeof matcher === 'function') {
+    return frame => !!matcher(frame);
+  }
+  if (typeof matcher === 'string') {
+    return compileFrameMatcher({ type: 'pattern', value: matcher });
+  }
+  if (Object.prototype.toString.call(matcher) === '[object RegExp]') {
+    const { source, flags } = matcher as RegExp;
+    const regex = new RegExp(source, flags.replace('g', ''));
+    return frame => regex.test(Buffer.from(frame.raw).toString('latin1'));
+  }
+  return compileFrameMatcher({ type: 'field', value: { ...(matcher as FieldPredicate) } });
+}
+
+function describeMatcher(matcher: FrameMatcher): string {
+  if (typeof matcher === 'function') return 'a matching frame';
+  if (typeof matcher === 'string') return `"${matcher}"`;
+  return inspect(matcher);
+}
+
+function errorMessage(error: unknown): string {
+  return error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  const arrayLike = (v: object) => Array.isArray(v) || ArrayBuffer.isView(v);
+  if (arrayLike(a) || arrayLike(b)) {
+    if (!arrayLike(a) || !arrayLike(b)) return false;
+    const x = a as ArrayLike<unknown>;
+    const y = b as ArrayLike<unknown>;
+    if (x.length !== y.length) return false;
+    for (let i = 0; i < x.length; i++) {
+      if (!deepEqual(x[i], y[i])) return false;
+    }
+    return true;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(key => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+// packages/scripting/src/report.ts
+import type { ScriptReport } from './types';
+
+// Plain-text summary for terminals and output channels
+export function formatReport(report: ScriptReport): string {
+  const lines = [report.script];
+
+  for (const test of report.tests) {
+    lines.push(`  ${test.passed ? '✔' : '✘'} ${test.name} (${test.durationMs} ms)`);
+    if (test.error) {
+      lines.push(`      ${test.error}`);
+    }
+  }
+
+  const failed = report.tests.filter(t => !t.passed).length;
+  lines.push('');
+  lines.push(
+    `${report.tests.length} tests, ${report.tests.length - failed} passed, ${failed} failed ` +
+    `(${(report.durationMs / 1000).toFixed(2)} s) - ${report.passed ? 'PASS' : 'FAIL'}`
+  );
+
+  return lines.join('\n');
+}
+
+// packages/scripting/src/index.ts
+export { ScriptRunner, runScript } from './runner';
+export { compileScript } from './transpile';
+export { handleTarget, busTarget } from './targets';
+export { formatReport } from './report';
+export type {
+  ScriptTarget,
+  ScriptFrame,
+  FrameMatcher,
+  ScriptOptions,
+  ScriptReport,
+  TestResult,
+} from './types';
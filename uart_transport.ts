@@ -9,14 +9,50 @@ import type {
   RxMeta,
   Unsubscribe,
   SimulatorConfig,
+  MessageBus,
+  FrameError,
+  SerialLineControl,
+  SerialLineState,
+  BaudCandidate,
+  BaudDetectionOptions,
+  BaudDetectionResult,
+  BaudSample,
+  SerialFormat,
 } from '@commwatch/proto-core';
+import { SERIAL_FORMATS, STANDARD_BAUD_RATES, rankBaudCandidates, scoreBaudSample } from '@commwatch/proto-core';
 import { UARTSimulator } from './uart-simulator';
+import { SerialDeviceWatcher } from './uart-watcher';
+import { readLineCounters } from './uart-line-status';
+import type { UartLineCounters } from './uart-line-status';
+import { EchoFilter } from './uart-rs485';
+
+// How often the input lines are polled while watched, and the kernel error counters
+const SIGNAL_POLL_MS = 20;
+const LINE_ERROR_POLL_MS = 100;
+// How long the RS-485 echo of a write may lag behind the drained UART
+const ECHO_TIMEOUT_MS = 50;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Drivers have no DSR/DTR handshaking, so 'dsr-dtr' is refused rather than left without flow control
+function flowControlSettings(flowControl: AdapterOpenOptions['flowControl']) {
+  if (flowControl === 'dsr-dtr') {
+    throw new Error("DSR/DTR flow control is not supported by serial drivers; use 'rts-cts' or 'xon-xoff'");
+  }
+  return {
+    rtscts: flowControl === 'rts-cts',
+    xon: flowControl === 'xon-xoff',
+    xoff: flowControl === 'xon-xoff',
+  };
+}
 
 export class UARTAdapter implements TransportAdapter {
   id = 'uart';
   name = 'UART Serial';
   type = 'uart' as const;
 
+  constructor(private bus?: MessageBus) {}
+
   async listDevices(): Promise<DeviceInfo[]> {
     const ports = await SerialPort.list();
     
@@ -36,6 +72,15 @@ export class UARTAdapter implements TransportAdapter {
     if (!dev.path) {
       throw new Error('Device path is required');
     }
+    const flowControl = flowControlSettings(options.flowControl);
+
+    if (options.autoBaud) {
+      const { best } = await this.detectBaudRate(dev, options.autoBaud === true ? {} : options.autoBaud);
+      if (!best) {
+        throw new Error(`Could not detect the baud rate of ${dev.path}: nothing readable was received`);
+      }
+      options = { ...options, baudRate: best.baudRate, ...SERIAL_FORMATS[best.format] };
+    }
 
     const serialOptions: SerialPortOpenOptions<any> = {
       path: dev.path,
@@ -43,6 +88,7 @@ export class UARTAdapter implements TransportAdapter {
       dataBits: options.dataBits || 8,
       stopBits: options.stopBits || 1,
       parity: options.parity || 'none',
+      ...flowControl,
       autoOpen: false,
     };
 
@@ -53,12 +99,84 @@ export class UARTAdapter implements TransportAdapter {
         if (err) {
           reject(err);
         } else {
-          resolve(new UARTHandle(port, options));
+          const handle = new UARTHandle(port, options, dev.id, this.bus);
+          // An RS-485 transceiver must not drive the bus until we send
+          handle.enableDriver(false).then(() => {
+            this.bus?.publish('device:connected', { device: dev });
+            resolve(handle);
+          }, error => {
+            handle.close().catch(() => undefined).then(() => reject(error));
+          });
         }
       });
     });
   }
 
+  /**
+   * Listens at each candidate rate and format in turn and ranks what arrived.
+   * Only works while the device sends on its own, e.g. a boot log or
+   * periodic frames; the result is also published as device:baud-detected.
+   * Candidates the port cannot be opened with are left out; it throws only
+   * when none could be sampled.
+   */
+  async detectBaudRate(dev: DeviceInfo, options: BaudDetectionOptions = {}): Promise<BaudDetectionResult> {
+    if (!dev.path) {
+      throw new Error('Device path is required');
+    }
+
+    const candidates: BaudCandidate[] = [];
+    let failure: unknown;
+    for (const baudRate of options.rates || STANDARD_BAUD_RATES) {
+      for (const format of options.formats || ['8N1' as const]) {
+        try {
+          const sample = await this.sample(dev.path, baudRate, format, options.sampleMs ?? 500);
+          candidates.push(scoreBaudSample(sample, options));
+        } catch (error) {
+          // E.g. a rate the driver rejects, or the port busy for a moment
+          failure = error;
+        }
+      }
+    }
+    if (candidates.length === 0 && failure) {
+      throw failure;
+    }
+
+    const result = rankBaudCandidates(candidates);
+    this.bus?.publish('device:baud-detected', { deviceId: dev.id, result });
+    return result;
+  }
+
+  private async sample(path: string, baudRate: number, format: SerialFormat, sampleMs: number): Promise<BaudSample> {
+    const port = new SerialPort({ path, baudRate, ...SERIAL_FORMATS[format], autoOpen: false });
+    await new Promise<void>((resolve, reject) => port.open(err => (err ? reject(err) : resolve())));
+
+    const chunks: Buffer[] = [];
+    port.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const before = await readLineCounters(path);
+    await new Promise(resolve => setTimeout(resolve, sampleMs));
+    const after = await readLineCounters(path);
+    await new Promise<void>(resolve => port.close(() => resolve()));
+
+    return {
+      baudRate,
+      format,
+      data: new Uint8Array(Buffer.concat(chunks)),
+      framingErrors: before && after ? after.frame - before.frame : null,
+      parityErrors: before && after ? after.parity - before.parity : null,
+    };
+  }
+
+  watchDevices(intervalMs = 1000): Unsubscribe {
+    if (!this.bus) {
+      throw new Error('Watching serial ports needs a message bus');
+    }
+
+    const watcher = new SerialDeviceWatcher(this.bus, () => this.listDevices(), intervalMs);
+    watcher.start().catch(error => console.error('Serial port scan failed:', error));
+    return () => watcher.stop();
+  }
+
   supportsSimulation(): boolean {
     return true;
   }
@@ -68,7 +186,7 @@ export class UARTAdapter implements TransportAdapter {
   }
 }
 
-class UARTHandle implements AdapterHandle {
+class UARTHandle implements AdapterHandle, SerialLineControl {
   private stats: AdapterStats = {
     bytesRx: 0,
     bytesTx: 0,
@@ -79,44 +197,241 @@ class UARTHandle implements AdapterHandle {
   };
   private startTime = Date.now();
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
+  private outputs = { rts: true, dtr: true }; // Asserted when the port opens
+  private inputs?: SerialLineState;
+  private signalCallbacks: Set<(changed: SerialLineState) => void> = new Set();
+  private signalTimer?: NodeJS.Timeout;
+  private lineCounters?: UartLineCounters;
+  private lineErrorTimer?: NodeJS.Timeout;
+  private reopening = false;
+  private echo = new EchoFilter();
+  private echoTimer?: NodeJS.Timeout;
+  private lastBusActivity = 0; // ms, hrtime clock
+  private sending: Promise<void> = Promise.resolve();
 
   constructor(
     private port: SerialPort,
-    private options: AdapterOpenOptions
+    private options: AdapterOpenOptions,
+    private deviceId: string,
+    private bus?: MessageBus
   ) {
     this.setupListeners();
+    this.watchLineErrors();
+  }
+
+  // Promise form of the port's callback methods
+  private call<T = void>(fn: (cb: (err: Error | null, result?: T) => void) => void): Promise<T> {
+    return new Promise((resolve, reject) => {
+      fn((err, result) => (err ? reject(err) : resolve(result as T)));
+    });
+  }
+
+  private emit(chunk: Uint8Array, meta: RxMeta): void {
+    this.readCallbacks.forEach(cb => {
+      try {
+        cb(chunk, meta);
+      } catch (error) {
+        console.error('Error in read callback:', error);
+      }
+    });
+  }
+
+  // Puts a line change on the timeline: outputs we drive as tx, inputs as rx
+  private emitLineEvent(direction: 'rx' | 'tx', lineState: SerialLineState): void {
+    this.emit(new Uint8Array(0), { timestamp: process.hrtime.bigint(), direction, length: 0, lineState });
+  }
+
+  async setSignals(signals: { rts?: boolean; dtr?: boolean }): Promise<void> {
+    this.outputs = { ...this.outputs, ...signals };
+    // set() resets the lines it is not given, so both outputs are always passed
+    await this.call(cb => this.port.set({ rts: this.outputs.rts, dtr: this.outputs.dtr }, cb));
+    this.emitLineEvent('tx', signals);
+  }
+
+  async getSignals(): Promise<SerialLineState> {
+    const status = await this.call<{ cts: boolean; dsr: boolean; dcd: boolean }>(cb => this.port.get(cb));
+    return { ...this.outputs, cts: status.cts, dsr: status.dsr, dcd: status.dcd };
+  }
+
+  onSignals(cb: (changed: SerialLineState) => void): Unsubscribe {
+    this.signalCallbacks.add(cb);
+    if (!this.signalTimer) {
+      this.signalTimer = setInterval(() => {
+        this.pollSignals().catch(error => console.error('UART line poll failed:', error));
+      }, SIGNAL_POLL_MS);
+    }
+
+    return () => {
+      this.signalCallbacks.delete(cb);
+      if (this.signalCallbacks.size === 0 && this.signalTimer) {
+        clearInterval(this.signalTimer);
+        this.signalTimer = undefined;
+        this.inputs = undefined;
+      }
+    };
+  }
+
+  // The first poll only takes the baseline
+  private async pollSignals(): Promise<void> {
+    if (!this.port.isOpen) return;
+    const { cts, dsr, dcd } = await this.getSignals();
+    const current: SerialLineState = { cts, dsr, dcd };
+    const previous = this.inputs;
+    this.inputs = current;
+    if (!previous) return;
+
+    const changed: SerialLineState = {};
+    for (const line of ['cts', 'dsr', 'dcd'] as const) {
+      if (current[line] !== previous[line]) changed[line] = current[line];
+    }
+    if (Object.keys(changed).length === 0) return;
+
+    this.emitLineEvent('rx', changed);
+    this.signalCallbacks.forEach(cb => {
+      try {
+        cb(changed);
+      } catch (error) {
+        console.error('Error in signal callback:', error);
+      }
+    });
+  }
+
+  // RTS as the RS-485 driver enable; not put on the timeline, as it follows every write
+  async enableDriver(enabled: boolean): Promise<void> {
+    const rs485 = this.options.rs485;
+    if (!rs485 || rs485.rtsDriverEnable === false) return;
+
+    this.outputs.rts = rs485.rtsActiveLow ? !enabled : enabled;
+    await this.call(cb => this.port.set({ rts: this.outputs.rts, dtr: this.outputs.dtr }, cb));
+  }
+
+  async sendBreak(durationMs = 250): Promise<void> {
+    await this.call(cb => this.port.set({ ...this.outputs, brk: true }, cb));
+    this.emitLineEvent('tx', { break: true });
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    await this.call(cb => this.port.set({ ...this.outputs, brk: false }, cb));
+    this.emitLineEvent('tx', { break: false });
+  }
+
+  // Framing, parity and overrun errors and received breaks, where the kernel counts them;
+  // see readLineCounters for when it does. Elsewhere these errors go unreported.
+  private async watchLineErrors(): Promise<void> {
+    const counters = await readLineCounters(this.port.path);
+    if (!counters || !this.port.isOpen) return;
+    this.lineCounters = counters;
+
+    this.lineErrorTimer = setInterval(async () => {
+      const current = await readLineCounters(this.port.path);
+      if (!current || !this.lineCounters) return;
+
+      const previous = this.lineCounters;
+      this.lineCounters = current;
+      this.reportLineErrors('UART_FRAMING_ERROR', current.frame - previous.frame, 'framing error', 'error');
+      this.reportLineErrors('UART_PARITY_ERROR', current.parity - previous.parity, 'parity error', 'error');
+      this.reportLineErrors('UART_OVERRUN', current.overrun - previous.overrun, 'receive overrun', 'error');
+      this.reportLineErrors('UART_BREAK', current.brk - previous.brk, 'break received', 'warning');
+    }, LINE_ERROR_POLL_MS);
+  }
+
+  private reportLineErrors(code: string, count: number, what: string, severity: FrameError['severity']): void {
+    if (count <= 0) return;
+    this.stats.errors += count;
+
+    const error: FrameError = { code, message: count === 1 ? `1 ${what}` : `${count} × ${what}`, severity };
+    this.emit(new Uint8Array(0), { timestamp: process.hrtime.bigint(), direction: 'rx', length: 0, error });
   }
 
   private setupListeners(): void {
     this.port.on('data', (data: Buffer) => {
       const timestamp = process.hrtime.bigint();
-      const chunk = new Uint8Array(data);
-      
+      let chunk: Uint8Array = new Uint8Array(data);
+      this.lastBusActivity = Number(timestamp) / 1e6;
+
+      if (this.options.rs485?.suppressEcho && this.echo.pendingBytes > 0) {
+        const { data: rest, collision } = this.echo.filter(chunk);
+        if (collision) {
+          this.stats.errors++;
+          const error: FrameError = { code: 'RS485_COLLISION', message: collision, severity: 'error' };
+          this.emit(new Uint8Array(0), { timestamp, direction: 'rx', length: 0, error });
+        }
+        if (rest.length === 0) return;
+        chunk = rest;
+      }
+
       this.stats.bytesRx += chunk.length;
       this.stats.messagesRx++;
 
-      const meta: RxMeta = {
+      this.emit(chunk, {
         timestamp,
         direction: 'rx',
         length: chunk.length,
-      };
-
-      this.readCallbacks.forEach(cb => {
-        try {
-          cb(chunk, meta);
-        } catch (error) {
-          console.error('Error in read callback:', error);
-        }
       });
     });
 
     this.port.on('error', (err) => {
       this.stats.errors++;
       console.error('UART error:', err);
+      this.bus?.publish('device:error', { deviceId: this.deviceId, error: err.message });
+    });
+
+    // Also fires when the device is unplugged
+    this.port.on('close', () => {
+      if (this.reopening) return;
+      this.bus?.publish('device:disconnected', { deviceId: this.deviceId });
     });
   }
 
   async write(frame: Uint8Array): Promise<void> {
+    if (!this.options.rs485) return this.transmit(frame);
+
+    // Half duplex: one write at a time, each with its own driver enable
+    const send = this.sending.then(() => this.writeRs485(frame));
+    this.sending = send.catch(() => undefined);
+    return send;
+  }
+
+  private async writeRs485(frame: Uint8Array): Promise<void> {
+    const rs485 = this.options.rs485!;
+
+    const quiet = this.lastBusActivity + (rs485.turnaroundMs ?? 0) - Number(process.hrtime.bigint()) / 1e6;
+    if (quiet > 0) await delay(quiet);
+
+    await this.enableDriver(true);
+    try {
+      if (rs485.delayBeforeSendMs) await delay(rs485.delayBeforeSendMs);
+      if (rs485.suppressEcho) this.echo.expect(frame);
+      await this.transmit(frame);
+      // Until drained the bytes are still in the UART; releasing the driver would cut them off
+      await this.call(cb => this.port.drain(cb));
+      if (rs485.delayAfterSendMs) await delay(rs485.delayAfterSendMs);
+    } catch (error) {
+      // What did go out cannot be told apart from the next node's reply
+      this.echo.clear();
+      throw error;
+    } finally {
+      await this.enableDriver(false);
+      this.lastBusActivity = Number(process.hrtime.bigint()) / 1e6;
+    }
+
+    if (rs485.suppressEcho) this.checkEcho();
+  }
+
+  // The receiver may be disabled while sending after all; then no echo is coming
+  private checkEcho(): void {
+    clearTimeout(this.echoTimer);
+    this.echoTimer = setTimeout(() => {
+      if (this.echo.pendingBytes === 0) return;
+      const error: FrameError = {
+        code: 'RS485_NO_ECHO',
+        message: `${this.echo.pendingBytes} sent byte(s) were not read back; is echo suppression needed?`,
+        severity: 'warning',
+      };
+      this.echo.clear();
+      this.emit(new Uint8Array(0), { timestamp: process.hrtime.bigint(), direction: 'rx', length: 0, error });
+    }, ECHO_TIMEOUT_MS);
+  }
+
+  private transmit(frame: Uint8Array): Promise<void> {
     return new Promise((resolve, reject) => {
       this.port.write(Buffer.from(frame), (err) => {
         if (err) {
@@ -144,17 +459,33 @@ class UARTHandle implements AdapterHandle {
       await this.port.update({ baudRate: opts.baudRate });
     }
 
-    // Update flow control
-    if (opts.flowControl) {
-      const rts = opts.flowControl.includes('rts');
-      const dtr = opts.flowControl.includes('dtr');
-      await this.port.set({ rts, dtr });
+    // Flow control is a port setting, so the port is reopened with it
+    if (opts.flowControl !== undefined && opts.flowControl !== this.options.flowControl) {
+      await this.reopen(opts.flowControl);
     }
 
     Object.assign(this.options, opts);
   }
 
+  private async reopen(flowControl: AdapterOpenOptions['flowControl']): Promise<void> {
+    const settings = flowControlSettings(flowControl);
+    this.reopening = true;
+    try {
+      await this.call(cb => this.port.close(cb));
+      Object.assign(this.port.settings, settings);
+      await this.call(cb => this.port.open(cb));
+      await this.call(cb => this.port.set({ rts: this.outputs.rts, dtr: this.outputs.dtr }, cb));
+    } finally {
+      this.reopening = false;
+    }
+  }
+
   async close(): Promise<void> {
+    clearInterval(this.signalTimer);
+    clearInterval(this.lineErrorTimer);
+    clearTimeout(this.echoTimer);
+    this.signalCallbacks.clear();
+
     return new Promise((resolve, reject) => {
       this.port.close((err) => {
         if (err) {
@@ -173,10 +504,198 @@ class UARTHandle implements AdapterHandle {
   }
 }
 
+// packages/transports-uart/src/uart-line-status.ts
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Receive error counters of a serial-core UART, cumulative since boot
+export interface UartLineCounters {
+  frame: number;
+  parity: number;
+  overrun: number;
+  brk: number;
+}
+
+/**
+ * Reads the error counters the kernel keeps for serial-core UARTs (ttyS,
+ * ttyAMA, ttymxc, ...) from /proc/tty/driver/<driver>. That file is only
+ * readable by root, and USB adapters (ttyUSB, ttyACM) are not serial-core
+ * drivers, so most setups get null: counters unavailable, not zero errors.
+ * Also null on other platforms.
+ */
+export async function readLineCounters(devicePath: string, procRoot = '/proc/tty'): Promise<UartLineCounters | null> {
+  const match = path.basename(devicePath).match(/^(.*?)(\d+)$/);
+  if (!match) return null;
+
+  try {
+    // Lines of /proc/tty/drivers: name, device prefix, major, minors, type
+    const drivers = await fs.readFile(path.join(procRoot, 'drivers'), 'utf8');
+    const driver = drivers.split('\n')
+      .map(line => line.trim().split(/\s+/))
+      .find(fields => fields[1] === `/dev/${match[1]}` && fields[4] === 'serial');
+    if (!driver) return null;
+
+    const info = await fs.readFile(path.join(procRoot, 'driver', driver[0]), 'utf8');
+    const line = info.split('\n').find(l => l.startsWith(`${parseInt(match[2])}:`));
+    // Only serial-core drivers report tx/rx counts; error counts are left out while zero
+    if (!line || !/\btx:\d+/.test(line)) return null;
+
+    const count = (name: string) => parseInt(line.match(new RegExp(`\\b${name}:(\\d+)`))?.[1] || '0');
+    return {
+      frame: count('fe'),
+      parity: count('pe'),
+      overrun: count('oe') + count('bo'),
+      brk: count('brk'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// packages/transports-uart/src/uart-rs485.ts
+const hex = (byte: number) => `0x${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+export interface EchoFilterResult {
+  data: Uint8Array; // What is left once our own bytes are removed
+  echoed: number;
+  collision?: string; // Set when the bus did not carry what we sent
+}
+
+/**
+ * Removes our own transmission from what an RS-485 receiver reads back while
+ * the driver is enabled. A byte that differs from the one sent means another
+ * node drove the bus at the same time; the rest of the chunk is then passed
+ * on as received, since it is no longer known to be ours.
+ */
+export class EchoFilter {
+  private pending: number[] = [];
+  private sent = 0;
+
+  expect(data: Uint8Array): void {
+    if (this.pending.length === 0) this.sent = 0;
+    this.pending.push(...data);
+  }
+
+  get pendingBytes(): number {
+    return this.pending.length;
+  }
+
+  filter(chunk: Uint8Array): EchoFilterResult {
+    let i = 0;
+    while (i < chunk.length && this.pending.length > 0) {
+      const expected = this.pending.shift()!;
+      if (chunk[i] !== expected) {
+        const collision = `Bus collision at byte ${this.sent} of our transmission: sent ${hex(expected)}, read ${hex(chunk[i])}`;
+        this.clear();
+        return { data: chunk.slice(i), echoed: i, collision };
+      }
+      this.sent++;
+      i++;
+    }
+    return { data: chunk.slice(i), echoed: i };
+  }
+
+  clear(): void {
+    this.pending = [];
+    this.sent = 0;
+  }
+}
+
+// packages/transports-uart/src/uart-watcher.ts
+import type { DeviceInfo, MessageBus, Unsubscribe } from '@commwatch/proto-core';
+import { physicalDeviceKey } from '@commwatch/proto-core';
+
+/**
+ * Polls the serial port list and publishes device:connected and
+ * device:disconnected as ports appear and vanish. Ports are matched by USB
+ * VID/PID/serial number, so a board that re-enumerates under a new path is
+ * reported as gone from the old path and back on the new one. A port whose
+ * handle reports it disconnected is forgotten, so a reset shorter than the
+ * interval is still reported as connected again on the next scan.
+ */
+export class SerialDeviceWatcher {
+  private known: Map<string, DeviceInfo> = new Map(); // By physical key
+  private timer?: NodeJS.Timeout;
+  private unsubscribe?: Unsubscribe;
+  private running = false;
+  private polling = false;
+
+  constructor(
+    private bus: MessageBus,
+    private list: () => Promise<DeviceInfo[]>,
+    private intervalMs = 1000
+  ) {}
+
+  // The ports present at start are the baseline and not reported
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    this.known = this.index(await this.list());
+    if (!this.running) return;
+
+    this.unsubscribe = this.bus.on('device:disconnected', event => this.forget(event.deviceId));
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Serial port scan failed:', error));
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    this.running = false;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const current = this.index(await this.list());
+
+      for (const [key, device] of this.known) {
+        const now = current.get(key);
+        if (!now || now.path !== device.path) {
+          this.bus.publish('device:disconnected', { deviceId: device.id });
+        }
+      }
+      for (const [key, device] of current) {
+        const before = this.known.get(key);
+        if (!before || before.path !== device.path) {
+          this.bus.publish('device:connected', { device });
+        }
+      }
+
+      this.known = current;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private forget(deviceId: string): void {
+    for (const [key, device] of this.known) {
+      if (device.id === deviceId) this.known.delete(key);
+    }
+  }
+
+  private index(devices: DeviceInfo[]): Map<string, DeviceInfo> {
+    return new Map(devices.map(device => [physicalDeviceKey(device), device]));
+  }
+}
+
 // packages/transports-uart/src/uart-simulator.ts
-import type { AdapterHandle, AdapterStats, RxMeta, SimulatorConfig, Unsubscribe } from '@commwatch/proto-core';
+import type {
+  AdapterHandle,
+  AdapterStats,
+  RxMeta,
+  SerialLineControl,
+  SerialLineState,
+  SimulatorConfig,
+  Unsubscribe,
+} from '@commwatch/proto-core';
 
-export class UARTSimulator implements AdapterHandle {
+export class UARTSimulator implements AdapterHandle, SerialLineControl {
   private stats: AdapterStats = {
     bytesRx: 0,
     bytesTx: 0,
@@ -189,6 +708,8 @@ export class UARTSimulator implements AdapterHandle {
   private readCallbacks: Set<(chunk: Uint8Array, meta?: RxMeta) => void> = new Set();
   private scriptTimer?: NodeJS.Timeout;
   private loopbackBuffer: Uint8Array[] = [];
+  private outputs = { rts: true, dtr: true };
+  private signalCallbacks: Set<(changed: SerialLineState) => void> = new Set();
 
   constructor(private config: SimulatorConfig) {
     this.startSimulation();
@@ -318,6 +839,10 @@ export class UARTSimulator implements AdapterHandle {
       length: data.length,
     };
 
+    this.emit(data, meta);
+  }
+
+  private emit(data: Uint8Array, meta: RxMeta): void {
     this.readCallbacks.forEach(cb => {
       try {
         cb(data, meta);
@@ -327,6 +852,67 @@ export class UARTSimulator implements AdapterHandle {
     });
   }
 
+  private emitLineEvent(direction: 'rx' | 'tx', lineState: SerialLineState): void {
+    this.emit(new Uint8Array(0), { timestamp: process.hrtime.bigint(), direction, length: 0, lineState });
+  }
+
+  // Loopback wires outputs back to inputs like a loopback plug: RTS to CTS, DTR to DSR and DCD
+  private inputs(): SerialLineState {
+    if (this.config.mode !== 'loopback') {
+      return { cts: true, dsr: true, dcd: true };
+    }
+    return { cts: this.outputs.rts, dsr: this.outputs.dtr, dcd: this.outputs.dtr };
+  }
+
+  async setSignals(signals: { rts?: boolean; dtr?: boolean }): Promise<void> {
+    const before = this.inputs();
+    this.outputs = { ...this.outputs, ...signals };
+    this.emitLineEvent('tx', signals);
+
+    const after = this.inputs();
+    const changed: SerialLineState = {};
+    for (const line of ['cts', 'dsr', 'dcd'] as const) {
+      if (after[line] !== before[line]) changed[line] = after[line];
+    }
+    if (Object.keys(changed).length === 0) return;
+
+    this.emitLineEvent('rx', changed);
+    this.signalCallbacks.forEach(cb => {
+      try {
+        cb(changed);
+      } catch (error) {
+        console.error('Error in signal callback:', error);
+      }
+    });
+  }
+
+  async getSignals(): Promise<SerialLineState> {
+    return { ...this.outputs, ...this.inputs() };
+  }
+
+  onSignals(cb: (changed: SerialLineState) => void): Unsubscribe {
+    this.signalCallbacks.add(cb);
+    return () => {
+      this.signalCallbacks.delete(cb);
+    };
+  }
+
+  async sendBreak(durationMs = 250): Promise<void> {
+    this.emitLineEvent('tx', { break: true });
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    this.emitLineEvent('tx', { break: false });
+
+    if (this.config.mode === 'loopback') {
+      this.stats.errors++;
+      this.emit(new Uint8Array(0), {
+        timestamp: process.hrtime.bigint(),
+        direction: 'rx',
+        length: 0,
+        error: { code: 'UART_BREAK', message: '1 break received', severity: 'warning' },
+      });
+    }
+  }
+
   async write(frame: Uint8Array): Promise<void> {
     this.stats.bytesTx += frame.length;
     this.stats.messagesTx++;
@@ -356,6 +942,7 @@ export class UARTSimulator implements AdapterHandle {
       clearTimeout(this.scriptTimer);
     }
     this.readCallbacks.clear();
+    this.signalCallbacks.clear();
   }
 
   async getStats(): Promise<AdapterStats> {
@@ -366,4 +953,9 @@ export class UARTSimulator implements AdapterHandle {
 
 // packages/transports-uart/src/index.ts
 export { UARTAdapter } from './uart-adapter';
-export { UARTSimulator } from './uart-simulator';
\ No newline at end of file
+export { UARTSimulator } from './uart-simulator';
+export { SerialDeviceWatcher } from './uart-watcher';
+export { readLineCounters } from './uart-line-status';
+export type { UartLineCounters } from './uart-line-status';
+export { EchoFilter } from './uart-rs485';
+export type { EchoFilterResult } from './uart-rs485';
\ No newline at end of file
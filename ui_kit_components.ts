@@ -6,12 +6,14 @@ interface MonitorProps {
   frames: ProtocolFrame[];
   displayMode: 'hex' | 'ascii' | 'both';
   maxLines?: number;
+  totalFrames?: number; // Size of the backing frame store when frames is only its tail
 }
 
 export const Monitor: React.FC<MonitorProps> = ({ 
   frames, 
   displayMode, 
-  maxLines = 1000 
+  maxLines = 1000,
+  totalFrames = frames.length,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [autoScroll, setAutoScroll] = useState(true);
@@ -40,17 +42,18 @@ export const Monitor: React.FC<MonitorProps> = ({
   };
 
   const displayedFrames = frames.slice(-maxLines);
+  const hiddenFrames = totalFrames - displayedFrames.length;
 
   return (
     <div className="flex flex-col h-full">
       <div className="flex items-center justify-between p-2 border-b border-gray-700 bg-gray-800">
         <div className="flex gap-2">
           <span className="text-sm text-gray-400">
-            {frames.length} frames
+            {totalFrames} frames
           </span>
-          {frames.length > maxLines && (
+          {hiddenFrames > 0 && (
             <span className="text-sm text-yellow-400">
-              (showing last {maxLines})
+              (showing last {displayedFrames.length})
             </span>
           )}
         </div>
@@ -79,6 +82,9 @@ export const Monitor: React.FC<MonitorProps> = ({
             <span className="text-gray-500 mr-2">
               {formatTimestamp(frame.timestamp)}
             </span>
+            {frame.source && (
+              <span className="text-purple-400 mr-2">{frame.source}</span>
+            )}
             <span className="text-gray-400 mr-2">
               {frame.direction === 'tx' ? '→' : '←'}
             </span>
@@ -105,6 +111,8 @@ export const Monitor: React.FC<MonitorProps> = ({
 
 // packages/ui-kit/src/components/TxBuilder.tsx
 import React, { useState } from 'react';
+import type { DbcDatabase, DbcSignal } from '@commwatch/proto-core';
+import { encodeCanFrame, encodeDbcMessage } from '@commwatch/proto-core';
 
 interface Preset {
   name: string;
@@ -114,12 +122,22 @@ interface Preset {
 interface TxBuilderProps {
   onSend: (data: Uint8Array) => void;
   presets?: Preset[];
+  database?: DbcDatabase; // Enables building CAN frames from signal values
 }
 
-export const TxBuilder: React.FC<TxBuilderProps> = ({ onSend, presets = [] }) => {
+export const TxBuilder: React.FC<TxBuilderProps> = ({ onSend, presets = [], database }) => {
   const [hexInput, setHexInput] = useState('');
   const [periodicMs, setPeriodicMs] = useState(0);
   const [intervalId, setIntervalId] = useState<NodeJS.Timeout | null>(null);
+  const [mode, setMode] = useState<'hex' | 'signals'>('hex');
+  const [messageName, setMessageName] = useState('');
+  const [signalValues, setSignalValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const message = database?.messages.find(m => m.name === messageName) || database?.messages[0];
+  const multiplexor = message?.signals.find(s => s.multiplexor && s.multiplexValue === undefined);
+  const multiplexValue = multiplexor ? Number(signalValues[multiplexor.name]) || 0 : undefined;
+  const signals = message?.signals.filter(s => s.multiplexValue === undefined || s.multiplexValue === multiplexValue) || [];
 
   const parseHex = (hex: string): Uint8Array | null => {
     const cleaned = hex.replace(/\s/g, '');
@@ -134,8 +152,35 @@ export const TxBuilder: React.FC<TxBuilderProps> = ({ onSend, presets = [] }) =>
     return bytes;
   };
 
+  // Encodes the selected DBC message as an internal CAN frame
+  const buildSignalFrame = (): Uint8Array | null => {
+    if (!message) return null;
+
+    const values: Record<string, number | string> = {};
+    for (const [name, text] of Object.entries(signalValues)) {
+      if (text.trim() === '') continue;
+      values[name] = isNaN(Number(text)) ? text : Number(text);
+    }
+
+    try {
+      const frame = encodeCanFrame({
+        id: message.id,
+        ext: message.extended,
+        fd: message.fd,
+        data: encodeDbcMessage(message, values),
+      });
+      setError(null);
+      return frame;
+    } catch (err) {
+      setError((err as Error).message);
+      return null;
+    }
+  };
+
+  const buildFrame = () => mode === 'signals' ? buildSignalFrame() : parseHex(hexInput);
+
   const handleSend = () => {
-    const data = parseHex(hexInput);
+    const data = buildFrame();
     if (data) {
       onSend(data);
     }
@@ -147,30 +192,106 @@ export const TxBuilder: React.FC<TxBuilderProps> = ({ onSend, presets = [] }) =>
       setIntervalId(null);
     } else if (periodicMs > 0) {
       const id = setInterval(() => {
-        const data = parseHex(hexInput);
+        const data = buildFrame();
         if (data) onSend(data);
       }, periodicMs);
       setIntervalId(id);
     }
   };
 
+  const renderSignalInput = (signal: DbcSignal) => {
+    const value = signalValues[signal.name] ?? '';
+    const onChange = (text: string) => setSignalValues({ ...signalValues, [signal.name]: text });
+
+    if (signal.values) {
+      return (
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="px-3 py-1 bg-gray-900 border border-gray-700 rounded text-white"
+        >
+          <option value=""></option>
+          {Object.values(signal.values).map(label => (
+            <option key={label} value={label}>{label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type="number"
+        value={value}
+        step={signal.factor}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`${signal.min} .. ${signal.max}`}
+        className="w-32 px-3 py-1 bg-gray-900 border border-gray-700 rounded text-white font-mono"
+      />
+    );
+  };
+
   const loadPreset = (preset: Preset) => {
     setHexInput(preset.data);
   };
 
   return (
     <div className="flex flex-col gap-4 p-4 bg-gray-800 rounded">
-      <div>
-        <label className="block text-sm font-medium text-gray-300 mb-2">
-          Hex Data
-        </label>
-        <textarea
-          value={hexInput}
-          onChange={(e) => setHexInput(e.target.value)}
-          placeholder="AA 01 00 02 12 34 5F A3 BB"
-          className="w-full h-24 px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white font-mono"
-        />
-      </div>
+      {database && (
+        <div className="flex gap-2">
+          {(['hex', 'signals'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 rounded text-sm text-white ${
+                mode === m ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {m === 'hex' ? 'Hex' : 'Signals'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {mode === 'signals' && message ? (
+        <div className="flex flex-col gap-2">
+          <select
+            value={message.name}
+            onChange={(e) => {
+              setMessageName(e.target.value);
+              setSignalValues({});
+            }}
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white"
+          >
+            {database!.messages.map(m => (
+              <option key={m.name} value={m.name}>
+                {m.name} (0x{m.id.toString(16).toUpperCase()})
+              </option>
+            ))}
+          </select>
+          {signals.map(signal => (
+            <div key={signal.name} className="flex items-center gap-2">
+              <label className="w-40 text-sm text-gray-300 truncate" title={signal.comment}>
+                {signal.name}
+              </label>
+              {renderSignalInput(signal)}
+              {signal.unit && <span className="text-sm text-gray-400">{signal.unit}</span>}
+            </div>
+          ))}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Hex Data
+          </label>
+          <textarea
+            value={hexInput}
+            onChange={(e) => setHexInput(e.target.value)}
+            placeholder="AA 01 00 02 12 34 5F A3 BB"
+            className="w-full h-24 px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white font-mono"
+          />
+        </div>
+      )}
 
       <div className="flex gap-2">
         <button
@@ -314,7 +435,8 @@ export const DecoderView: React.FC<DecoderViewProps> = ({ frame, raw }) => {
 
 // packages/ui-kit/src/components/DevicePicker.tsx
 import React, { useEffect, useState } from 'react';
-import type { DeviceInfo, TransportType } from '@commwatch/proto-core';
+import type { BaudDetectionResult, DeviceInfo, TransportType } from '@commwatch/proto-core';
+import { STANDARD_BAUD_RATES, formatBaudCandidate } from '@commwatch/proto-core';
 
 interface DevicePickerProps {
   devices: DeviceInfo[];
@@ -322,6 +444,12 @@ interface DevicePickerProps {
   onSelect: (device: DeviceInfo | null) => void;
   onRefresh: () => void;
   isConnected: boolean;
+  // UART baud rate; the selector is shown when onBaudRateChange is given
+  baudRate?: number;
+  onBaudRateChange?: (baudRate: number) => void;
+  onDetectBaud?: () => void;
+  detecting?: boolean;
+  detection?: BaudDetectionResult | null;
 }
 
 export const DevicePicker: React.FC<DevicePickerProps> = ({
@@ -330,7 +458,17 @@ export const DevicePicker: React.FC<DevicePickerProps> = ({
   onSelect,
   onRefresh,
   isConnected,
+  baudRate,
+  onBaudRateChange,
+  onDetectBaud,
+  detecting = false,
+  detection,
 }) => {
+  const showBaud = selectedDevice?.type === 'uart' && onBaudRateChange;
+  const rates = baudRate && !STANDARD_BAUD_RATES.includes(baudRate)
+    ? [...STANDARD_BAUD_RATES, baudRate].sort((a, b) => a - b)
+    : STANDARD_BAUD_RATES;
+
   return (
     <div className="flex items-center gap-2 p-2 bg-gray-800 border-b border-gray-700">
       <label className="text-sm text-gray-400">Device:</label>
@@ -359,6 +497,37 @@ export const DevicePicker: React.FC<DevicePickerProps> = ({
         Refresh
       </button>
 
+      {showBaud && (
+        <>
+          <select
+            value={baudRate}
+            onChange={(e) => onBaudRateChange?.(parseInt(e.target.value))}
+            disabled={isConnected || detecting}
+            className="px-3 py-1 bg-gray-900 border border-gray-700 rounded text-white disabled:opacity-50"
+          >
+            {rates.map(rate => (
+              <option key={rate} value={rate}>{rate} baud</option>
+            ))}
+          </select>
+
+          {onDetectBaud && (
+            <button
+              onClick={onDetectBaud}
+              disabled={isConnected || detecting}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm disabled:opacity-50"
+            >
+              {detecting ? 'Detecting...' : 'Auto-baud'}
+            </button>
+          )}
+
+          {detection !== undefined && !detecting && (
+            <span className="text-xs text-gray-400">
+              {detection?.best ? formatBaudCandidate(detection.best) : 'No readable data'}
+            </span>
+          )}
+        </>
+      )}
+
       <div className="ml-auto flex items-center gap-2">
         <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-600'}`} />
         <span className="text-sm text-gray-400">
@@ -419,6 +588,12 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
         <div className="text-lg font-semibold text-red-400">
           {stats.errors}
         </div>
+        {stats.canTxErrors !== undefined && (
+          <div className="text-xs text-gray-400">
+            TEC {stats.canTxErrors} / REC {stats.canRxErrors ?? 0}
+            {stats.canBusState && stats.canBusState !== 'error-active' && ` (${stats.canBusState})`}
+          </div>
+        )}
       </div>
 
       <div>
@@ -440,6 +615,194 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
   );
 };
 
+// packages/ui-kit/src/components/CanIdTable.tsx
+import React, { useState } from 'react';
+import type { CanIdStats } from '@commwatch/proto-core';
+
+interface CanIdTableProps {
+  ids: CanIdStats[];
+  busLoad?: number;
+  peakBusLoad?: number;
+  names?: Record<number, string>; // Message names by CAN ID, e.g. from a DBC file
+}
+
+type SortKey = 'id' | 'count' | 'rate' | 'period' | 'jitter';
+
+export const CanIdTable: React.FC<CanIdTableProps> = ({ ids, busLoad, peakBusLoad, names = {} }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('id');
+
+  const formatId = (stats: CanIdStats): string =>
+    stats.id.toString(16).toUpperCase().padStart(stats.ext ? 8 : 3, '0');
+
+  const formatMs = (value?: number): string => (value === undefined ? '—' : value.toFixed(1));
+
+  const sorted = [...ids].sort((a, b) =>
+    sortKey === 'id' ? a.id - b.id : (b[sortKey] ?? 0) - (a[sortKey] ?? 0)
+  );
+
+  const loadColor = (load: number): string =>
+    load > 80 ? 'text-red-400' : load > 50 ? 'text-yellow-400' : 'text-green-400';
+
+  const header = (key: SortKey | null, label: string) => (
+    <th
+      onClick={key ? () => setSortKey(key) : undefined}
+      className={`px-2 py-1 text-right font-normal ${key ? 'cursor-pointer hover:text-white' : ''} ${
+        sortKey === key ? 'text-white' : ''
+      }`}
+    >
+      {label}
+    </th>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900">
+      {busLoad !== undefined && (
+        <div className="flex items-center gap-4 p-2 border-b border-gray-700 bg-gray-800 text-sm">
+          <span className="text-gray-400">Bus load</span>
+          <div className="w-40 h-2 bg-gray-700 rounded">
+            <div
+              className={`h-2 rounded ${busLoad > 80 ? 'bg-red-500' : busLoad > 50 ? 'bg-yellow-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.min(100, busLoad)}%` }}
+            />
+          </div>
+          <span className={loadColor(busLoad)}>{busLoad.toFixed(1)}%</span>
+          {peakBusLoad !== undefined && (
+            <span className="text-gray-500">peak {peakBusLoad.toFixed(1)}%</span>
+          )}
+          <span className="ml-auto text-gray-500">{ids.length} IDs</span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full font-mono text-sm">
+          <thead className="sticky top-0 bg-gray-800 text-xs text-gray-500">
+            <tr>
+              <th
+                onClick={() => setSortKey('id')}
+                className={`px-2 py-1 text-left font-normal cursor-pointer hover:text-white ${sortKey === 'id' ? 'text-white' : ''}`}
+              >
+                ID
+              </th>
+              <th className="px-2 py-1 text-left font-normal">Name</th>
+              {header(null, 'DLC')}
+              {header('count', 'Count')}
+              {header('rate', 'Rate/s')}
+              {header('period', 'Period ms')}
+              {header(null, 'Min ms')}
+              {header(null, 'Max ms')}
+              {header('jitter', 'Jitter ms')}
+              {header(null, 'Missed')}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(stats => (
+              <tr
+                key={`${stats.ext ? 'x' : 's'}${stats.id}`}
+                className={`border-b border-gray-800 ${stats.missing ? 'bg-red-900/20 text-red-300' : 'text-gray-300'}`}
+              >
+                <td className="px-2 py-1 text-purple-400">{formatId(stats)}</td>
+                <td className="px-2 py-1 text-gray-400">
+                  {names[stats.id] ?? ''}
+                  {stats.missing && <span className="ml-2 text-red-400">⚠ missing</span>}
+                </td>
+                <td className="px-2 py-1 text-right">{stats.dlc}</td>
+                <td className="px-2 py-1 text-right">{stats.count}</td>
+                <td className="px-2 py-1 text-right">{stats.rate.toFixed(1)}</td>
+                <td className="px-2 py-1 text-right">{formatMs(stats.period)}</td>
+                <td className="px-2 py-1 text-right">{formatMs(stats.minInterval)}</td>
+                <td className="px-2 py-1 text-right">{formatMs(stats.maxInterval)}</td>
+                <td className="px-2 py-1 text-right">{formatMs(stats.jitter)}</td>
+                <td className={`px-2 py-1 text-right ${stats.missed > 0 ? 'text-yellow-400' : ''}`}>{stats.missed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {ids.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">No CAN frames yet</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// packages/ui-kit/src/components/MultiDropView.tsx
+import React from 'react';
+import type { MultiDropStats } from '@commwatch/proto-core';
+
+interface MultiDropViewProps {
+  stats: MultiDropStats;
+  names?: Record<string, string>; // Node names by address as shown, e.g. '0x11'
+  selected?: number | string;
+  onSelectNode?: (address: number | string) => void; // E.g. to filter the monitor to one node
+}
+
+export const MultiDropView: React.FC<MultiDropViewProps> = ({ stats, names = {}, selected, onSelectNode }) => {
+  const formatAddress = (address: number | string): string =>
+    typeof address === 'number' ? `0x${address.toString(16).toUpperCase().padStart(2, '0')}` : address;
+
+  const share = (frames: number): string =>
+    stats.frames > 0 ? `${((frames / stats.frames) * 100).toFixed(1)}%` : '—';
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900">
+      <div className="flex items-center gap-4 p-2 border-b border-gray-700 bg-gray-800 text-sm">
+        <span className="text-gray-400">{stats.nodes.length} nodes</span>
+        <span className={stats.collisions > 0 ? 'text-red-400' : 'text-gray-500'}>
+          {stats.collisions} collisions
+        </span>
+        <span className={stats.turnaroundViolations > 0 ? 'text-yellow-400' : 'text-gray-500'}>
+          {stats.turnaroundViolations} turnaround violations
+        </span>
+        {stats.minGap !== undefined && (
+          <span className="text-gray-500">shortest gap {Math.max(0, stats.minGap).toFixed(2)} ms</span>
+        )}
+        <span className="ml-auto text-gray-500">{stats.unattributed} unattributed</span>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full font-mono text-sm">
+          <thead className="sticky top-0 bg-gray-800 text-xs text-gray-500">
+            <tr>
+              <th className="px-2 py-1 text-left font-normal">Address</th>
+              <th className="px-2 py-1 text-left font-normal">Name</th>
+              <th className="px-2 py-1 text-right font-normal">Frames</th>
+              <th className="px-2 py-1 text-right font-normal">Share</th>
+              <th className="px-2 py-1 text-right font-normal">Tx</th>
+              <th className="px-2 py-1 text-right font-normal">Rx</th>
+              <th className="px-2 py-1 text-right font-normal">Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.nodes.map(node => {
+              const address = formatAddress(node.address);
+              return (
+                <tr
+                  key={`${typeof node.address}:${node.address}`}
+                  onClick={onSelectNode ? () => onSelectNode(node.address) : undefined}
+                  className={`border-b border-gray-800 text-gray-300 ${onSelectNode ? 'cursor-pointer hover:bg-gray-800' : ''} ${
+                    node.address === selected ? 'bg-blue-900/30' : ''
+                  }`}
+                >
+                  <td className="px-2 py-1 text-purple-400">{address}</td>
+                  <td className="px-2 py-1 text-gray-400">{names[address] ?? ''}</td>
+                  <td className="px-2 py-1 text-right">{node.frames}</td>
+                  <td className="px-2 py-1 text-right">{share(node.frames)}</td>
+                  <td className="px-2 py-1 text-right">{node.tx}</td>
+                  <td className="px-2 py-1 text-right">{node.rx}</td>
+                  <td className={`px-2 py-1 text-right ${node.errors > 0 ? 'text-red-400' : ''}`}>{node.errors}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {stats.nodes.length === 0 && (
+          <div className="p-4 text-sm text-gray-500">No addressed frames yet</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // packages/ui-kit/src/components/FilterPanel.tsx
 import React, { useState } from 'react';
 
@@ -539,5 +902,7 @@ export { TxBuilder } from './components/TxBuilder';
 export { DecoderView } from './components/DecoderView';
 export { DevicePicker } from './components/DevicePicker';
 export { StatsPanel } from './components/StatsPanel';
+export { CanIdTable } from './components/CanIdTable';
+export { MultiDropView } from './components/MultiDropView';
 export { FilterPanel } from './components/FilterPanel';
 export type { FilterRule } from './components/FilterPanel';
\ No newline at end of file
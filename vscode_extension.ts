@@ -1,5 +1,7 @@
 // apps/vscode-ext/src/extension.ts
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { busTarget, formatReport, runScript } from '@commwatch/scripting';
 import { CommWatchPanel } from './panels/CommWatchPanel';
 import { DeviceTreeProvider } from './providers/DeviceTreeProvider';
 
@@ -45,18 +47,146 @@ export function activate(context: vscode.ExtensionContext) {
       deviceTreeProvider.refresh();
     })
   );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commwatch.loadProtocol', async (uri?: vscode.Uri) => {
+      if (!uri) {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: { 'Protocol Definitions': ['json', 'yaml', 'yml'] },
+        });
+        uri = picked?.[0];
+      }
+
+      if (!uri) return;
+
+      if (!CommWatchPanel.currentPanel) {
+        vscode.window.showWarningMessage('Please open CommWatch panel first');
+        return;
+      }
+
+      const content = await vscode.workspace.fs.readFile(uri);
+      CommWatchPanel.currentPanel.loadProtocol(
+        new TextDecoder().decode(content),
+        /\.ya?ml$/i.test(uri.path) ? 'yaml' : 'json'
+      );
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commwatch.openSession', async (uri?: vscode.Uri) => {
+      if (!uri) {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: SESSION_FILTERS,
+        });
+        uri = picked?.[0];
+      }
+
+      if (!uri) return;
+
+      if (!CommWatchPanel.currentPanel) {
+        vscode.window.showWarningMessage('Please open CommWatch panel first');
+        return;
+      }
+
+      const content = await vscode.workspace.fs.readFile(uri);
+      CommWatchPanel.currentPanel.openSession(new TextDecoder().decode(content));
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commwatch.saveSession', async () => {
+      if (!CommWatchPanel.currentPanel) {
+        vscode.window.showWarningMessage('Please open CommWatch panel first');
+        return;
+      }
+
+      const uri = await vscode.window.showSaveDialog({ filters: SESSION_FILTERS });
+      if (!uri) return;
+
+      try {
+        const content = await CommWatchPanel.currentPanel.requestSession();
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save session: ${(error as Error).message}`);
+      }
+    })
+  );
+
+  const scriptOutput = vscode.window.createOutputChannel('CommWatch Scripts');
+  context.subscriptions.push(scriptOutput);
+
+  // Runs the given script, the active JS/TS editor or a picked file against the panel's device
+  context.subscriptions.push(
+    vscode.commands.registerCommand('commwatch.runScript', async (uri?: vscode.Uri) => {
+      const panel = CommWatchPanel.currentPanel;
+      if (!panel) {
+        vscode.window.showWarningMessage('Please open CommWatch panel first');
+        return;
+      }
+
+      const editor = vscode.window.activeTextEditor;
+      if (!uri && editor && ['typescript', 'javascript'].includes(editor.document.languageId)) {
+        uri = editor.document.uri;
+      }
+      if (!uri) {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: { 'Test Scripts': ['ts', 'js'] },
+        });
+        uri = picked?.[0];
+      }
+
+      if (!uri) return;
+
+      // Unsaved edits in an open editor are run as they are
+      const document = await vscode.workspace.openTextDocument(uri);
+      scriptOutput.clear();
+      scriptOutput.show(true);
+
+      const report = await runScript(document.getText(), busTarget(panel.bus, async data => panel.send(data)), {
+        filename: path.basename(uri.fsPath),
+        onLog: message => scriptOutput.appendLine(message),
+      });
+
+      scriptOutput.appendLine('');
+      scriptOutput.appendLine(formatReport(report));
+      if (report.passed) {
+        vscode.window.showInformationMessage(`${report.script} passed`);
+      } else {
+        vscode.window.showErrorMessage(`${report.script} failed`);
+      }
+    })
+  );
 }
 
+const SESSION_FILTERS = { 'CommWatch Session': ['cwsession', 'json'] };
+
 export function deactivate() {}
 
 // apps/vscode-ext/src/panels/CommWatchPanel.ts
 import * as vscode from 'vscode';
+import { MessageBus, bridgeMessageBus } from '@commwatch/proto-core';
+import type { BusTransport, FrameError } from '@commwatch/proto-core';
 import { getWebviewContent } from '../webview/getWebviewContent';
 
+const SESSION_REQUEST_TIMEOUT_MS = 5000;
+
+interface PendingSession {
+  resolve: (content: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 export class CommWatchPanel {
   public static currentPanel: CommWatchPanel | undefined;
+  // Mirrors the webview's bus, see CommWatchService
+  public readonly bus = new MessageBus();
   private readonly _panel: vscode.WebviewPanel;
   private _disposables: vscode.Disposable[] = [];
+  private _pendingSession: PendingSession | null = null;
+  private _diagnostics = vscode.languages.createDiagnosticCollection('commwatch');
 
   private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
     this._panel = panel;
@@ -77,15 +207,30 @@ export class CommWatchPanel {
           case 'info':
             vscode.window.showInformationMessage(message.text);
             break;
-          case 'decode-error':
-            // Add to problems panel
-            this.addProblem(message.error);
+          case 'warning':
+            vscode.window.showWarningMessage(message.text);
+            break;
+          case 'session-data':
+            this.settleSession()?.resolve(message.content);
+            break;
+          case 'session-error':
+            this.settleSession()?.reject(new Error(message.text));
             break;
         }
       },
       null,
       this._disposables
     );
+
+    const unbridge = bridgeMessageBus(this.bus, this.webviewTransport());
+    const unsubscribe = this.bus.on('frame:error', event => this.addProblem(event.error));
+    this._disposables.push(
+      this._diagnostics,
+      new vscode.Disposable(() => {
+        unsubscribe();
+        unbridge();
+      })
+    );
   }
 
   public static render(extensionUri: vscode.Uri) {
@@ -123,19 +268,75 @@ export class CommWatchPanel {
     });
   }
 
-  private addProblem(error: any) {
+  public send(data: Uint8Array) {
+    this._panel.webview.postMessage({
+      type: 'send-data',
+      data: Array.from(data),
+    });
+  }
+
+  public loadProtocol(definition: string, format: 'json' | 'yaml') {
+    this._panel.webview.postMessage({
+      type: 'load-protocol',
+      definition,
+      format,
+    });
+  }
+
+  public openSession(content: string) {
+    this._panel.webview.postMessage({
+      type: 'open-session',
+      content,
+    });
+  }
+
+  // Asks the webview to serialize its current session
+  public requestSession(): Promise<string> {
+    this.settleSession()?.reject(new Error('Superseded by a newer session request'));
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settleSession()?.reject(new Error('CommWatch panel did not answer the session request'));
+      }, SESSION_REQUEST_TIMEOUT_MS);
+      this._pendingSession = { resolve, reject, timer };
+      this._panel.webview.postMessage({ type: 'request-session' });
+    });
+  }
+
+  // Detaches the outstanding session request, if any
+  private settleSession(): PendingSession | null {
+    const pending = this._pendingSession;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this._pendingSession = null;
+    }
+    return pending;
+  }
+
+  private webviewTransport(): BusTransport {
+    return {
+      send: message => {
+        this._panel.webview.postMessage(message);
+      },
+      subscribe: handler => {
+        const subscription = this._panel.webview.onDidReceiveMessage(handler);
+        return () => subscription.dispose();
+      },
+    };
+  }
+
+  private addProblem(error: FrameError) {
     // Add diagnostic to problems panel
-    const collection = vscode.languages.createDiagnosticCollection('commwatch');
     const diagnostic = new vscode.Diagnostic(
       new vscode.Range(0, 0, 0, 0),
       error.message,
       vscode.DiagnosticSeverity.Error
     );
-    collection.set(vscode.Uri.file('commwatch'), [diagnostic]);
+    this._diagnostics.set(vscode.Uri.file('commwatch'), [diagnostic]);
   }
 
   public dispose() {
     CommWatchPanel.currentPanel = undefined;
+    this.settleSession()?.reject(new Error('CommWatch panel was closed'));
     this._panel.dispose();
     while (this._disposables.length) {
       const disposable = this._disposables.pop();
@@ -227,20 +428,52 @@ import {
   DecoderView,
   DevicePicker,
   StatsPanel,
+  CanIdTable,
+  MultiDropView,
 } from '@commwatch/ui-kit';
-import type { ProtocolFrame, DeviceInfo, AdapterStats } from '@commwatch/proto-core';
+import type {
+  ProtocolFrame,
+  DeviceInfo,
+  AdapterStats,
+  BusTransport,
+  BaudDetectionResult,
+  MultiDropStats,
+} from '@commwatch/proto-core';
+import { bridgeMessageBus } from '@commwatch/proto-core';
+import { FRAMER_PRESETS } from '@commwatch/decoders';
 import { CommWatchService } from './services/CommWatchService';
 
 const vscode = (window as any).acquireVsCodeApi();
 
+const extensionTransport: BusTransport = {
+  send: message => vscode.postMessage(message),
+  subscribe: handler => {
+    const listener = (event: MessageEvent) => handler(event.data);
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  },
+};
+
+// Frames rendered by the monitor; the full capture lives in the service's frame store
+const MONITOR_WINDOW = 1000;
+
 export const App: React.FC = () => {
   const [service] = useState(() => new CommWatchService());
   const [devices, setDevices] = useState<DeviceInfo[]>([]);
   const [selectedDevice, setSelectedDevice] = useState<DeviceInfo | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [frames, setFrames] = useState<ProtocolFrame[]>([]);
+  const [frameCount, setFrameCount] = useState(0);
   const [stats, setStats] = useState<AdapterStats | null>(null);
   const [displayMode, setDisplayMode] = useState<'hex' | 'ascii' | 'both'>('hex');
+  const [framerPreset, setFramerPreset] = useState('efuse');
+  const [decoderSpec, setDecoderSpec] = useState('auto');
+  const [baudRate, setBaudRate] = useState(115200);
+  const [detecting, setDetecting] = useState(false);
+  const [detection, setDetection] = useState<BaudDetectionResult | null | undefined>(undefined);
+  const [rs485, setRs485] = useState(false);
+  const [addressField, setAddressField] = useState('address');
+  const [multiDrop, setMultiDrop] = useState<MultiDropStats | null>(null);
 
   useEffect(() => {
     // Listen for messages from extension
@@ -253,10 +486,60 @@ export const App: React.FC = () => {
         case 'start-capture':
           handleConnect();
           break;
+        case 'send-data':
+          handleSend(new Uint8Array(message.data));
+          break;
+        case 'load-protocol':
+          try {
+            const loaded = service.loadProtocol(message.definition, message.format);
+            setDecoderSpec(loaded.id);
+            vscode.postMessage({ type: 'info', text: `Loaded protocol ${loaded.name}` });
+          } catch (error) {
+            vscode.postMessage({ type: 'error', text: `Invalid protocol definition: ${error}` });
+          }
+          break;
+        case 'open-session':
+          try {
+            const { session, decoder, warnings } = service.openSession(message.content);
+            setFrames(session.frames.slice(-MONITOR_WINDOW));
+            setFrameCount(service.store.size);
+            if (session.device) setSelectedDevice(session.device);
+            setDecoderSpec(decoder);
+            warnings.forEach(text => vscode.postMessage({ type: 'warning', text }));
+          } catch (error) {
+            vscode.postMessage({ type: 'error', text: `${error}` });
+          }
+          break;
+        case 'request-session':
+          service.serializeSession().then(content => {
+            vscode.postMessage({ type: 'session-data', content });
+          }).catch(error => {
+            vscode.postMessage({ type: 'session-error', text: `${error}` });
+          });
+          break;
       }
     });
 
+    const unsubscribers = [
+      service.bus.on('frame:received', ({ frame }) => {
+        setFrames((prev) => [...prev.slice(-(MONITOR_WINDOW - 1)), frame]);
+        setFrameCount(service.store.size);
+      }),
+      service.bus.on('stats:update', ({ stats }) => {
+        setStats(stats);
+        setMultiDrop(service.getMultiDrop());
+      }),
+      service.bus.on('device:disconnected', () => setIsConnected(false)),
+      // Received frames go to the extension for scripts; the full capture stays in the webview
+      bridgeMessageBus(service.bus, extensionTransport, {
+        types: ['device:connected', 'device:disconnected', 'frame:received', 'frame:error', 'stats:update'],
+        receive: false,
+      }),
+    ];
+
     loadDevices();
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
   }, []);
 
   const loadDevices = async () => {
@@ -269,23 +552,11 @@ export const App: React.FC = () => {
 
     try {
       await service.connect(selectedDevice, {
-        baudRate: 115200,
-      });
+        baudRate,
+        rs485: rs485 ? { addressField } : undefined,
+      }, FRAMER_PRESETS[framerPreset], decoderSpec);
       
       setIsConnected(true);
-
-      // Subscribe to frames
-      service.on('frame', (frame) => {
-        setFrames((prev) => [...prev, frame]);
-      });
-
-      // Update stats periodically
-      const interval = setInterval(async () => {
-        const s = await service.getStats();
-        setStats(s);
-      }, 1000);
-
-      return () => clearInterval(interval);
     } catch (error) {
       vscode.postMessage({
         type: 'error',
@@ -294,6 +565,21 @@ export const App: React.FC = () => {
     }
   };
 
+  const handleDetectBaud = async () => {
+    if (!selectedDevice) return;
+
+    setDetecting(true);
+    try {
+      const result = await service.detectBaudRate(selectedDevice, FRAMER_PRESETS[framerPreset]);
+      setDetection(result);
+      if (result.best) setBaudRate(result.best.baudRate);
+    } catch (error) {
+      vscode.postMessage({ type: 'error', text: `Baud rate detection failed: ${error}` });
+    } finally {
+      setDetecting(false);
+    }
+  };
+
   const handleDisconnect = async () => {
     await service.disconnect();
     setIsConnected(false);
@@ -332,9 +618,17 @@ export const App: React.FC = () => {
       <DevicePicker
         devices={devices}
         selectedDevice={selectedDevice}
-        onSelect={setSelectedDevice}
+        onSelect={(device) => {
+          setSelectedDevice(device);
+          setDetection(undefined);
+        }}
         onRefresh={loadDevices}
         isConnected={isConnected}
+        baudRate={baudRate}
+        onBaudRateChange={setBaudRate}
+        onDetectBaud={handleDetectBaud}
+        detecting={detecting}
+        detection={detection}
       />
 
       <div className="flex items-center gap-4 p-2 bg-gray-800 border-b border-gray-700">
@@ -350,6 +644,49 @@ export const App: React.FC = () => {
           {isConnected ? 'Disconnect' : 'Connect'}
         </button>
 
+        <select
+          value={framerPreset}
+          onChange={(e) => setFramerPreset(e.target.value)}
+          disabled={isConnected}
+          className="px-3 py-1 bg-gray-900 border border-gray-700 rounded text-white disabled:opacity-50"
+        >
+          {Object.keys(FRAMER_PRESETS).map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+
+        <select
+          value={decoderSpec}
+          onChange={(e) => setDecoderSpec(e.target.value)}
+          disabled={isConnected}
+          className="px-3 py-1 bg-gray-900 border border-gray-700 rounded text-white disabled:opacity-50"
+        >
+          <option value="auto">Auto-detect</option>
+          {service.listDecoders().map(decoder => (
+            <option key={decoder.id} value={decoder.id}>{decoder.name}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={rs485}
+            onChange={(e) => setRs485(e.target.checked)}
+            disabled={isConnected}
+          />
+          RS-485
+        </label>
+        {rs485 && (
+          <input
+            value={addressField}
+            onChange={(e) => setAddressField(e.target.value)}
+            disabled={isConnected}
+            placeholder="Address field"
+            title="Decoded field holding the node address"
+            className="w-28 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm disabled:opacity-50"
+          />
+        )}
+
         <div className="flex gap-2">
           <label className="flex items-center gap-2 text-sm">
             <input
@@ -382,7 +719,22 @@ export const App: React.FC = () => {
 
       <div className="flex flex-1 overflow-hidden">
         <div className="flex-1 flex flex-col">
-          <Monitor frames={frames} displayMode={displayMode} />
+          <Monitor
+            frames={frames}
+            totalFrames={frameCount}
+            displayMode={displayMode}
+            maxLines={MONITOR_WINDOW}
+          />
+          {stats?.canIds && (
+            <div className="h-64 border-t border-gray-700">
+              <CanIdTable ids={stats.canIds} busLoad={stats.canBusLoad} />
+            </div>
+          )}
+          {multiDrop && (
+            <div className="h-64 border-t border-gray-700">
+              <MultiDropView stats={multiDrop} />
+            </div>
+          )}
         </div>
         
         <div className="w-96 flex flex-col gap-4 p-4 border-l border-gray-700 overflow-y-auto">
@@ -407,12 +759,45 @@ export const App: React.FC = () => {
 };
 
 // apps/vscode-ext/webview-ui/src/services/CommWatchService.ts
-import type { DeviceInfo, ProtocolFrame, AdapterStats, AdapterOpenOptions } from '@commwatch/proto-core';
+import type {
+  DeviceInfo,
+  ProtocolFrame,
+  AdapterStats,
+  AdapterOpenOptions,
+  Framer,
+  FramerConfig,
+  ProtocolDecoder,
+  BaudDetectionResult,
+  MultiDropStats,
+} from '@commwatch/proto-core';
+import type { Session } from '@commwatch/proto-core';
+import {
+  MultiDropTracker,
+  createFramer,
+  parseSession,
+  serializeSession,
+  MemoryFrameStore,
+  MessageBus,
+  STANDARD_BAUD_RATES,
+  rankBaudCandidates,
+  scoreBaudSample,
+} from '@commwatch/proto-core';
+import { createDefaultRegistry, SchemaDecoder } from '@commwatch/decoders';
+
+const RAW_DECODER = 'hex';
 
 export class CommWatchService {
-  private listeners: Map<string, Set<Function>> = new Map();
+  readonly bus = new MessageBus();
+  readonly store = new MemoryFrameStore(50_000); // Webviews have no filesystem; oldest frames are dropped
   private frameId = 0;
   private mockAdapter: any = null;
+  private framerConfig: FramerConfig = { type: 'passthrough' };
+  private framer: Framer = createFramer(this.framerConfig);
+  private registry = createDefaultRegistry();
+  private decoderSpec = 'auto';
+  private decoder: ProtocolDecoder = this.registry.resolve(this.decoderSpec);
+  private lastDevice: { device: DeviceInfo; options: AdapterOpenOptions } | null = null;
+  private multiDrop: MultiDropTracker | null = null; // RS-485 connections
   private mockStats: AdapterStats = {
     bytesRx: 0,
     bytesTx: 0,
@@ -422,6 +807,7 @@ export class CommWatchService {
     uptime: 0,
   };
   private startTime = Date.now();
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
 
   async listDevices(): Promise<DeviceInfo[]> {
     // Mock devices for webview
@@ -447,17 +833,73 @@ export class CommWatchService {
     ];
   }
 
-  async connect(device: DeviceInfo, options: AdapterOpenOptions): Promise<void> {
+  listDecoders(): { id: string; name: string }[] {
+    return this.registry.list().map(d => ({ id: d.id, name: d.name }));
+  }
+
+  loadProtocol(definition: string, format: 'json' | 'yaml'): { id: string; name: string } {
+    const decoder = SchemaDecoder.fromDefinition(definition, format);
+    this.registry.register(decoder);
+    return { id: decoder.id, name: decoder.name };
+  }
+
+  async connect(
+    device: DeviceInfo,
+    options: AdapterOpenOptions,
+    framerConfig: FramerConfig = { type: 'passthrough' },
+    decoderSpec = 'auto'
+  ): Promise<void> {
     // Simulate connection
     this.mockAdapter = { device, options };
+    this.lastDevice = { device, options };
+    this.framerConfig = framerConfig;
+    this.framer = createFramer(framerConfig);
+    this.decoderSpec = decoderSpec;
+    this.decoder = this.registry.resolve(decoderSpec);
+    this.multiDrop = options.rs485 ? MultiDropTracker.forAdapter(options) : null;
     this.startTime = Date.now();
+    this.bus.publish('device:connected', { device });
+
+    // Connecting again replaces the previous device's stats polling
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+    }
+    this.statsTimer = setInterval(async () => {
+      this.bus.publish('stats:update', { deviceId: device.id, stats: await this.getStats() });
+    }, 1000);
     
     // Simulate incoming frames
     this.simulateTraffic();
   }
 
+  // Simulated devices send at 115200 8N1; other rates get the garbage a wrong rate produces
+  async detectBaudRate(device: DeviceInfo, framerConfig: FramerConfig = this.framerConfig): Promise<BaudDetectionResult> {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    const frames = [0, 1, 2, 3].map(() => this.sampleFrame());
+    const data = new Uint8Array(frames.reduce((bytes: number[], frame) => [...bytes, ...frame], []));
+    const garbage = new Uint8Array([0x00, 0xF8, 0x80, 0xFF, 0xE0, 0x00]);
+
+    const result = rankBaudCandidates(STANDARD_BAUD_RATES.map(baudRate => scoreBaudSample(
+      baudRate === 115200
+        ? { baudRate, format: '8N1', data, framingErrors: 0, parityErrors: 0 }
+        : { baudRate, format: '8N1', data: garbage, framingErrors: 4, parityErrors: 0 },
+      { framer: framerConfig, decoders: this.registry.list() }
+    )));
+    this.bus.publish('device:baud-detected', { deviceId: device.id, result });
+    return result;
+  }
+
   async disconnect(): Promise<void> {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    if (this.mockAdapter) {
+      this.bus.publish('device:disconnected', { deviceId: this.mockAdapter.device.id });
+    }
     this.mockAdapter = null;
+    this.framer.reset();
   }
 
   async send(data: Uint8Array): Promise<void> {
@@ -470,12 +912,7 @@ export class CommWatchService {
 
     // Echo back in loopback mode
     setTimeout(() => {
-      this.emitFrame({
-        id: `frame-${this.frameId++}`,
-        timestamp: BigInt(Date.now() * 1_000_000),
-        direction: 'rx',
-        raw: data,
-      });
+      this.receiveChunk(data);
     }, 100);
   }
 
@@ -484,22 +921,95 @@ export class CommWatchService {
     return { ...this.mockStats };
   }
 
-  on(event: string, callback: Function): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
-    }
-    this.listeners.get(event)!.add(callback);
+  // Frames per node address of an RS-485 connection
+  getMultiDrop(): MultiDropStats | null {
+    return this.multiDrop?.snapshot() ?? null;
   }
 
-  private emit(event: string, data: any): void {
-    const listeners = this.listeners.get(event);
-    if (listeners) {
-      listeners.forEach(cb => cb(data));
+  async serializeSession(): Promise<string> {
+    return serializeSession({
+      device: this.lastDevice?.device,
+      adapterOptions: this.lastDevice?.options,
+      decoder: this.decoderSpec,
+      framer: this.framerConfig,
+      frames: await this.store.range(0, this.store.size),
+    });
+  }
+
+  // Frames are re-decoded with the session's decoder spec, or raw when this webview lacks it
+  openSession(content: string): { session: Session; decoder: string; warnings: string[] } {
+    const session = parseSession(content);
+    const warnings: string[] = [];
+
+    this.decoderSpec = session.decoder || 'auto';
+    try {
+      this.decoder = this.registry.resolve(this.decoderSpec);
+    } catch (error) {
+      const warning = `Decoder "${this.decoderSpec}" is not available, showing frames as raw: ${(error as Error).message}`;
+      console.warn(warning);
+      warnings.push(warning);
+      this.decoderSpec = RAW_DECODER;
+      this.decoder = this.registry.resolve(RAW_DECODER);
+    }
+    if (session.framer) {
+      this.framerConfig = session.framer;
     }
+
+    this.store.clear();
+    session.frames.forEach(frame => {
+      if (!frame.error) {
+        try {
+          frame.decoded = this.decoder.decode(frame.raw) || undefined;
+        } catch (err) {
+          console.error('Decode error:', err);
+        }
+      }
+      // New frames are numbered after the loaded ones
+      const number = /^frame-(\d+)$/.exec(frame.id);
+      if (number) {
+        this.frameId = Math.max(this.frameId, Number(number[1]) + 1);
+      }
+      this.store.append(frame);
+    });
+
+    return { session, decoder: this.decoderSpec, warnings };
   }
 
   private emitFrame(frame: ProtocolFrame): void {
-    this.emit('frame', frame);
+    this.store.append(frame);
+    this.bus.publish('frame:received', { frame });
+    if (frame.error) {
+      this.bus.publish('frame:error', { frame, error: frame.error });
+    }
+  }
+
+  private receiveChunk(chunk: Uint8Array): void {
+    const frames = this.framer.push(chunk, BigInt(Date.now() * 1_000_000));
+    frames.forEach(framed => {
+      const frame: ProtocolFrame = {
+        id: `frame-${this.frameId++}`,
+        timestamp: framed.timestamp,
+        direction: 'rx',
+        raw: framed.data,
+        error: framed.error,
+      };
+
+      if (!frame.error) {
+        try {
+          frame.decoded = this.decoder.decode(frame.raw) || undefined;
+          frame.error = this.decoder.validate(frame.raw) || undefined;
+        } catch (err) {
+          console.error('Decode error:', err);
+          frame.error = { code: 'DECODER_EXCEPTION', message: `${this.decoder.name}: ${(err as Error).message}`, severity: 'error' };
+        }
+      }
+      const violation = this.multiDrop?.add(frame, framed.endTimestamp);
+      if (violation) {
+        frame.error = violation;
+      }
+
+      this.emitFrame(frame);
+    });
   }
 
   private simulateTraffic(): void {
@@ -511,41 +1021,43 @@ export class CommWatchService {
         return;
       }
 
-      // Generate sample EFuse frame
-      const adcValue = 2048 + Math.floor(Math.sin(Date.now() / 1000) * 500);
-      const payload = new Uint8Array([
-        (adcValue >> 8) & 0xFF,
-        adcValue & 0xFF,
-      ]);
-
-      const type = 0x01;
-      const length = 2;
-      const crcData = new Uint8Array([type, 0x00, length, ...payload]);
-      const crc = this.calculateCrc16(crcData);
-
-      const frame = new Uint8Array([
-        0xAA,
-        type,
-        0x00,
-        length,
-        ...payload,
-        (crc >> 8) & 0xFF,
-        crc & 0xFF,
-        0xBB,
-      ]);
+      const frame = this.sampleFrame();
 
       this.mockStats.bytesRx += frame.length;
       this.mockStats.messagesRx++;
 
-      this.emitFrame({
-        id: `frame-${this.frameId++}`,
-        timestamp: BigInt(Date.now() * 1_000_000),
-        direction: 'rx',
-        raw: frame,
-      });
+      // Split the frame like a real serial driver would to exercise the framer
+      const split = 1 + Math.floor(Math.random() * (frame.length - 1));
+      this.receiveChunk(frame.slice(0, split));
+      this.receiveChunk(frame.slice(split));
     }, 500);
   }
 
+  // Sample EFuse frame
+  private sampleFrame(): Uint8Array {
+    const adcValue = 2048 + Math.floor(Math.sin(Date.now() / 1000) * 500);
+    const payload = new Uint8Array([
+      (adcValue >> 8) & 0xFF,
+      adcValue & 0xFF,
+    ]);
+
+    const type = 0x01;
+    const length = 2;
+    const crcData = new Uint8Array([type, 0x00, length, ...payload]);
+    const crc = this.calculateCrc16(crcData);
+
+    return new Uint8Array([
+      0xAA,
+      type,
+      0x00,
+      length,
+      ...payload,
+      (crc >> 8) & 0xFF,
+      crc & 0xFF,
+      0xBB,
+    ]);
+  }
+
   private calculateCrc16(data: Uint8Array): number {
     let crc = 0xFFFF;
     for (const byte of data) {
@@ -599,6 +1111,26 @@ export class CommWatchService {
         "command": "commwatch.refreshDevices",
         "title": "CommWatch: Refresh Devices",
         "category": "CommWatch"
+      },
+      {
+        "command": "commwatch.loadProtocol",
+        "title": "CommWatch: Load Protocol Definition",
+        "category": "CommWatch"
+      },
+      {
+        "command": "commwatch.openSession",
+        "title": "CommWatch: Open Session",
+        "category": "CommWatch"
+      },
+      {
+        "command": "commwatch.saveSession",
+        "title": "CommWatch: Save Session",
+        "category": "CommWatch"
+      },
+      {
+        "command": "commwatch.runScript",
+        "title": "CommWatch: Run Test Script",
+        "category": "CommWatch"
       }
     ],
     "viewsContainers": {
@@ -643,6 +1175,8 @@ export class CommWatchService {
   },
   "dependencies": {
     "@commwatch/proto-core": "workspace:*",
+    "@commwatch/decoders": "workspace:*",
+    "@commwatch/scripting": "workspace:*",
     "@commwatch/ui-kit": "workspace:*"
   }
 }
\ No newline at end of file